@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  AI_ENV_CONFIG_KEY,
+  applyAiConfigUpdate,
+  applyAiOverrides,
+  buildAiEnvResponse,
+  readAiEnvConfig,
+  resolveFallbackModels,
+  validateAiFallbacks,
+  writeAiEnvConfig,
+} from './config';
+import { AiConfigDecryptionError } from './secrets';
+import { createMockBucket, createMockEnv, suppressConsole } from '../test-utils';
+
+describe('readAiEnvConfig', () => {
+  it('returns an empty config when nothing is saved or it is invalid', async () => {
+    expect(await readAiEnvConfig(createMockBucket().bucket)).toEqual({});
+    expect(await readAiEnvConfig(createMockBucket({ [AI_ENV_CONFIG_KEY]: 'not json' }).bucket)).toEqual({});
+  });
+});
+
+describe('API key encryption', () => {
+  const secret = 'test-encryption-secret';
+
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('stores API keys encrypted and reads them back', async () => {
+    const { bucket, objects } = createMockBucket();
+    await writeAiEnvConfig(bucket, { apiKeys: { OPENAI_API_KEY: 'sk-secret', GEMINI_API_KEY: null } }, secret);
+
+    const raw = objects.get(AI_ENV_CONFIG_KEY)!;
+    expect(raw).not.toContain('sk-secret');
+    expect(JSON.parse(raw).encryption).toMatchObject({ version: 1, alg: 'AES-256-GCM' });
+    expect(await readAiEnvConfig(bucket, secret)).toEqual({
+      apiKeys: { OPENAI_API_KEY: 'sk-secret', GEMINI_API_KEY: null },
+    });
+  });
+
+  it('migrates plaintext keys on first read', async () => {
+    const { bucket, objects } = createMockBucket({
+      [AI_ENV_CONFIG_KEY]: JSON.stringify({ primaryProvider: 'openai', apiKeys: { OPENAI_API_KEY: 'sk-plain' } }),
+    });
+
+    const config = await readAiEnvConfig(bucket, secret);
+
+    expect(config).toEqual({ primaryProvider: 'openai', apiKeys: { OPENAI_API_KEY: 'sk-plain' } });
+    expect(objects.get(AI_ENV_CONFIG_KEY)).not.toContain('sk-plain');
+    expect((await readAiEnvConfig(bucket, secret)).apiKeys?.OPENAI_API_KEY).toBe('sk-plain');
+  });
+
+  it('leaves plaintext keys alone without an encryption key', async () => {
+    const { bucket, put } = createMockBucket({
+      [AI_ENV_CONFIG_KEY]: JSON.stringify({ apiKeys: { OPENAI_API_KEY: 'sk-plain' } }),
+    });
+    expect((await readAiEnvConfig(bucket)).apiKeys?.OPENAI_API_KEY).toBe('sk-plain');
+    expect(put).not.toHaveBeenCalled();
+  });
+
+  it('refuses to read encrypted keys with a missing or wrong secret', async () => {
+    const { bucket } = createMockBucket();
+    await writeAiEnvConfig(bucket, { apiKeys: { OPENAI_API_KEY: 'sk-secret' } }, secret);
+
+    await expect(readAiEnvConfig(bucket)).rejects.toBeInstanceOf(AiConfigDecryptionError);
+    await expect(readAiEnvConfig(bucket, 'other-secret')).rejects.toBeInstanceOf(AiConfigDecryptionError);
+  });
+
+  it('detects a key moved to another field', async () => {
+    const { bucket, objects } = createMockBucket();
+    await writeAiEnvConfig(bucket, { apiKeys: { OPENAI_API_KEY: 'sk-secret' } }, secret);
+    const stored = JSON.parse(objects.get(AI_ENV_CONFIG_KEY)!);
+    stored.apiKeys = { GEMINI_API_KEY: stored.apiKeys.OPENAI_API_KEY };
+    objects.set(AI_ENV_CONFIG_KEY, JSON.stringify(stored));
+
+    await expect(readAiEnvConfig(bucket, secret)).rejects.toBeInstanceOf(AiConfigDecryptionError);
+  });
+});
+
+describe('applyAiOverrides', () => {
+  it('overrides and clears env vars from the saved config', () => {
+    const env = createMockEnv({ ANTHROPIC_API_KEY: 'env-key', OPENAI_BASE_URL: 'https://env.example.com' });
+    const result = applyAiOverrides(env, {
+      apiKeys: { ANTHROPIC_API_KEY: 'saved-key' },
+      baseUrls: { OPENAI_BASE_URL: null },
+    });
+    expect(result.ANTHROPIC_API_KEY).toBe('saved-key');
+    expect(result.OPENAI_BASE_URL).toBeUndefined();
+    expect(env.ANTHROPIC_API_KEY).toBe('env-key');
+  });
+
+  it('applies the primary model only when it belongs to the primary provider', () => {
+    const env = createMockEnv();
+    expect(applyAiOverrides(env, { primaryProvider: 'deepseek', primaryModel: 'deepseek-reasoner' }).AI_PRIMARY_MODEL)
+      .toBe('deepseek-reasoner');
+    expect(applyAiOverrides(env, { primaryProvider: 'deepseek', primaryModel: 'gpt-5' }).AI_PRIMARY_MODEL)
+      .toBeUndefined();
+  });
+
+  it('applies a custom model for providers that accept one', () => {
+    const env = createMockEnv();
+    expect(applyAiOverrides(env, { primaryProvider: 'openrouter', primaryModel: 'meta-llama/llama-4-maverick' }).AI_PRIMARY_MODEL)
+      .toBe('meta-llama/llama-4-maverick');
+  });
+});
+
+describe('applyAiConfigUpdate', () => {
+  it('ignores unknown keys, providers and models', () => {
+    const config = applyAiConfigUpdate({}, {
+      apiKeys: { DEEPSEEK_API_KEY: ' sk-1 ', UNKNOWN_KEY: 'x' },
+      primaryProvider: 'not-a-provider',
+      primaryModel: 'not a model',
+    });
+    expect(config).toEqual({ apiKeys: { DEEPSEEK_API_KEY: 'sk-1' } });
+  });
+
+  it('keeps valid fallbacks in order without duplicates', () => {
+    const config = applyAiConfigUpdate({}, {
+      fallbacks: [
+        { provider: 'openai', model: 'gpt-5.2' },
+        { provider: 'nope', model: 'x' },
+        { provider: 'openrouter', model: ' meta-llama/llama-4-maverick ' },
+        { provider: 'openai', model: 'gpt-5.2' },
+        { provider: 'deepseek', model: 'deepseek-v9' },
+      ],
+    });
+    expect(config.fallbacks).toEqual([
+      { provider: 'openai', model: 'gpt-5.2' },
+      { provider: 'openrouter', model: 'meta-llama/llama-4-maverick' },
+    ]);
+  });
+
+  it('clears values sent as empty strings', () => {
+    const config = applyAiConfigUpdate({ baseUrls: { DEEPSEEK_BASE_URL: 'https://x' } }, {
+      baseUrls: { DEEPSEEK_BASE_URL: '' },
+      primaryProvider: '',
+    });
+    expect(config.baseUrls?.DEEPSEEK_BASE_URL).toBeNull();
+    expect(config.primaryProvider).toBeNull();
+  });
+});
+
+describe('resolveFallbackModels', () => {
+  it('parses the saved chain from the env', () => {
+    const env = applyAiOverrides(createMockEnv({ AI_FALLBACK_MODELS: 'openai/gpt-5' }), {
+      fallbacks: [{ provider: 'openrouter', model: 'google/gemini-2.5-pro' }],
+    });
+    expect(resolveFallbackModels(env)).toEqual([{ provider: 'openrouter', model: 'google/gemini-2.5-pro' }]);
+    expect(resolveFallbackModels(createMockEnv({ AI_FALLBACK_MODELS: 'openai/gpt-5, bad, gemini/gemini-2.5-flash' })))
+      .toEqual([
+        { provider: 'openai', model: 'gpt-5' },
+        { provider: 'gemini', model: 'gemini-2.5-flash' },
+      ]);
+  });
+});
+
+describe('validateAiFallbacks', () => {
+  it('reports fallbacks whose provider has no API key', () => {
+    const config = { fallbacks: [{ provider: 'openai' as const, model: 'gpt-5' }, { provider: 'gemini' as const, model: 'gemini-2.5-pro' }] };
+    expect(validateAiFallbacks(config, createMockEnv({ OPENAI_API_KEY: 'sk' }))).toEqual([
+      'Fallback gemini/gemini-2.5-pro needs GEMINI_API_KEY to be set',
+    ]);
+    expect(validateAiFallbacks({ ...config, apiKeys: { GEMINI_API_KEY: 'gm' } }, createMockEnv({ OPENAI_API_KEY: 'sk' })))
+      .toEqual([]);
+  });
+
+  it('accepts the AI Gateway key for the provider it routes to', () => {
+    const env = createMockEnv({
+      AI_GATEWAY_API_KEY: 'gw',
+      AI_GATEWAY_BASE_URL: 'https://gateway.ai.cloudflare.com/v1/123/gw/openai',
+    });
+    expect(validateAiFallbacks({ fallbacks: [{ provider: 'openai', model: 'gpt-5' }] }, env)).toEqual([]);
+  });
+});
+
+describe('buildAiEnvResponse', () => {
+  it('reports key sources and the providers from the registry', () => {
+    const env = createMockEnv({ ANTHROPIC_API_KEY: 'env-key' });
+    const response = buildAiEnvResponse({ apiKeys: { DEEPSEEK_API_KEY: 'saved', OPENAI_API_KEY: null } }, env);
+
+    expect(response.apiKeys.ANTHROPIC_API_KEY).toEqual({ isSet: true, source: 'env' });
+    expect(response.apiKeys.DEEPSEEK_API_KEY).toEqual({ isSet: true, source: 'saved' });
+    expect(response.apiKeys.OPENAI_API_KEY).toEqual({ isSet: false, source: 'cleared' });
+    expect(response.primaryProvider).toBe('anthropic');
+    expect(response.primaryModel).toBe('claude-opus-4-5-20251101');
+    expect(response.providers.map((p) => p.id)).toEqual(['anthropic', 'openai', 'deepseek', 'gemini', 'openrouter']);
+  });
+});
@@ -0,0 +1,371 @@
+import type { MoltbotEnv } from '../types';
+import {
+  AI_API_KEY_KEYS,
+  AI_BASE_URL_KEYS,
+  AI_PROVIDERS,
+  formatModelRef,
+  getAiProvider,
+  getProviderApiKey,
+  isAllowedModel,
+  isPrimaryProvider,
+  parseModelRef,
+  DEFAULT_AI_PROVIDER,
+  type AiApiKeyKey,
+  type AiBaseUrlKey,
+  type AiModelRef,
+  type AiProviderId,
+} from './registry';
+import {
+  AiConfigDecryptionError,
+  decryptApiKeys,
+  encryptApiKeys,
+  isEncryptedValue,
+  type AiConfigEnvelope,
+} from './secrets';
+
+/** R2 key of the AI settings saved from the admin UI */
+export const AI_ENV_CONFIG_KEY = 'workspace-core/config/ai-env.json';
+
+/** Longest fallback chain accepted */
+export const AI_FALLBACK_LIMIT = 5;
+
+/**
+ * AI settings saved from the admin UI. They override the Worker env vars.
+ * A null value clears the env var; a missing key leaves it alone.
+ */
+export type AiEnvConfig = {
+  baseUrls?: Partial<Record<AiBaseUrlKey, string | null>>;
+  apiKeys?: Partial<Record<AiApiKeyKey, string | null>>;
+  primaryProvider?: AiProviderId | null;
+  primaryModel?: string | null;
+  /** Models to fail over to, in order */
+  fallbacks?: AiModelRef[] | null;
+};
+
+/** ai-env.json as stored in R2: API keys are encrypted when CONFIG_ENCRYPTION_KEY is set */
+type StoredAiEnvConfig = Omit<AiEnvConfig, 'apiKeys'> & {
+  apiKeys?: Record<string, unknown>;
+  encryption?: AiConfigEnvelope;
+};
+
+type EnvRecord = Record<string, string | undefined>;
+
+const hasPlaintextKeys = (apiKeys: Record<string, unknown> | undefined) =>
+  !!apiKeys && Object.values(apiKeys).some((value) => typeof value === 'string');
+
+/**
+ * Decrypt the API keys of ai-env.json as stored
+ *
+ * @throws AiConfigDecryptionError when keys are encrypted but can't be decrypted
+ */
+const decodeAiEnvConfig = async (stored: StoredAiEnvConfig, encryptionKey?: string): Promise<AiEnvConfig> => {
+  const { encryption, apiKeys, ...rest } = stored;
+  if (!apiKeys) return rest;
+  const isEncrypted = Object.values(apiKeys).some(isEncryptedValue);
+  if (isEncrypted && !encryptionKey) {
+    throw new AiConfigDecryptionError('Saved API keys are encrypted but CONFIG_ENCRYPTION_KEY is not set');
+  }
+  if (isEncrypted && !encryption) {
+    throw new AiConfigDecryptionError('Saved API keys are missing their encryption envelope');
+  }
+  return {
+    ...rest,
+    apiKeys: (isEncrypted ? await decryptApiKeys(apiKeys, encryption!, encryptionKey!) : apiKeys) as AiEnvConfig['apiKeys'],
+  };
+};
+
+/**
+ * Read the saved AI settings, decrypting the API keys
+ *
+ * A file still holding plaintext keys is rewritten encrypted once
+ * CONFIG_ENCRYPTION_KEY is set.
+ *
+ * @param bucket - The R2 bucket binding
+ * @param encryptionKey - The CONFIG_ENCRYPTION_KEY Worker secret
+ * @throws AiConfigDecryptionError when saved keys are encrypted but can't be decrypted
+ */
+export const readAiEnvConfig = async (bucket: R2Bucket, encryptionKey?: string): Promise<AiEnvConfig> => {
+  let stored: StoredAiEnvConfig;
+  try {
+    const object = await bucket.get(AI_ENV_CONFIG_KEY);
+    if (!object) return {};
+    const text = await object.text();
+    const parsed = JSON.parse(text);
+    if (!parsed || typeof parsed !== 'object') return {};
+    stored = parsed as StoredAiEnvConfig;
+  } catch {
+    return {};
+  }
+
+  const config = await decodeAiEnvConfig(stored, encryptionKey);
+  if (encryptionKey && hasPlaintextKeys(stored.apiKeys)) {
+    try {
+      await writeAiEnvConfig(bucket, config, encryptionKey);
+      console.log('Encrypted plaintext API keys in', AI_ENV_CONFIG_KEY);
+    } catch (error) {
+      console.error('Failed to encrypt plaintext API keys:', error);
+    }
+  }
+  return config;
+};
+
+/**
+ * Parse ai-env.json content from elsewhere than R2, e.g. a backup archive,
+ * decrypting the API keys
+ *
+ * @param text - The file content, with plaintext or encrypted keys
+ * @param encryptionKey - The CONFIG_ENCRYPTION_KEY Worker secret
+ * @throws SyntaxError when the content is not a JSON object
+ * @throws AiConfigDecryptionError when keys are encrypted but can't be decrypted
+ */
+export const parseAiEnvConfig = async (text: string, encryptionKey?: string): Promise<AiEnvConfig> => {
+  const parsed = JSON.parse(text);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new SyntaxError('AI settings are not a JSON object');
+  }
+  return decodeAiEnvConfig(parsed as StoredAiEnvConfig, encryptionKey);
+};
+
+/**
+ * Serialize the AI settings as ai-env.json is stored, encrypting the API keys
+ * when CONFIG_ENCRYPTION_KEY is set
+ *
+ * @param config - Settings with plaintext API keys
+ * @param encryptionKey - The CONFIG_ENCRYPTION_KEY Worker secret
+ */
+export const serializeAiEnvConfig = async (config: AiEnvConfig, encryptionKey?: string): Promise<string> => {
+  let stored: StoredAiEnvConfig = config;
+  if (encryptionKey && config.apiKeys) {
+    const { apiKeys, envelope } = await encryptApiKeys(
+      config.apiKeys as Record<string, string | null>,
+      encryptionKey
+    );
+    stored = { ...config, apiKeys, encryption: envelope };
+  } else if (hasPlaintextKeys(config.apiKeys)) {
+    console.warn('CONFIG_ENCRYPTION_KEY is not set; API keys are saved in plain text');
+  }
+  return JSON.stringify(stored, null, 2);
+};
+
+/**
+ * Save the AI settings, encrypting the API keys when CONFIG_ENCRYPTION_KEY is set
+ *
+ * @param bucket - The R2 bucket binding
+ * @param config - Settings with plaintext API keys
+ * @param encryptionKey - The CONFIG_ENCRYPTION_KEY Worker secret
+ */
+export const writeAiEnvConfig = async (bucket: R2Bucket, config: AiEnvConfig, encryptionKey?: string) => {
+  await bucket.put(AI_ENV_CONFIG_KEY, await serializeAiEnvConfig(config, encryptionKey), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+};
+
+/**
+ * Apply saved AI settings on top of the Worker env vars
+ *
+ * @param env - Worker environment bindings
+ * @param config - Saved AI settings
+ * @returns A copy of env with the overrides applied
+ */
+export const applyAiOverrides = (env: MoltbotEnv, config: AiEnvConfig): MoltbotEnv => {
+  const nextEnv = { ...env } as MoltbotEnv;
+  const envRecord = nextEnv as unknown as EnvRecord;
+  if (isPrimaryProvider(config.primaryProvider)) {
+    envRecord.AI_PRIMARY_PROVIDER = config.primaryProvider;
+  } else if (config.primaryProvider === null) {
+    delete envRecord.AI_PRIMARY_PROVIDER;
+  }
+  const provider = getAiProvider(envRecord.AI_PRIMARY_PROVIDER);
+  if (provider && isAllowedModel(provider, config.primaryModel)) {
+    envRecord.AI_PRIMARY_MODEL = config.primaryModel;
+  } else if (config.primaryModel === null) {
+    delete envRecord.AI_PRIMARY_MODEL;
+  }
+  if (Array.isArray(config.fallbacks)) {
+    envRecord.AI_FALLBACK_MODELS = config.fallbacks
+      .filter((ref) => parseModelRef(formatModelRef(ref)))
+      .map(formatModelRef)
+      .join(',');
+  } else if (config.fallbacks === null) {
+    delete envRecord.AI_FALLBACK_MODELS;
+  }
+  AI_BASE_URL_KEYS.forEach((key) => {
+    if (!config.baseUrls || !(key in config.baseUrls)) return;
+    const value = config.baseUrls[key];
+    if (value === null) {
+      delete envRecord[key];
+    } else if (typeof value === 'string' && value.trim().length > 0) {
+      envRecord[key] = value.trim();
+    }
+  });
+  AI_API_KEY_KEYS.forEach((key) => {
+    if (!config.apiKeys || !(key in config.apiKeys)) return;
+    const value = config.apiKeys[key];
+    if (value === null) {
+      delete envRecord[key];
+    } else if (typeof value === 'string' && value.trim().length > 0) {
+      envRecord[key] = value.trim();
+    }
+  });
+  return nextEnv;
+};
+
+/**
+ * Merge an admin UI update into the saved AI settings
+ *
+ * Unknown keys and values that don't match the registry are ignored.
+ *
+ * @param config - Current saved settings, modified in place
+ * @param payload - Request body from the admin UI
+ */
+export const applyAiConfigUpdate = (config: AiEnvConfig, payload: unknown): AiEnvConfig => {
+  if (!payload || typeof payload !== 'object') return config;
+  const update = payload as Record<string, unknown>;
+  const isCleared = (value: unknown) => value === null || value === undefined || String(value).trim() === '';
+
+  if (update.baseUrls && typeof update.baseUrls === 'object') {
+    const baseUrls = update.baseUrls as Record<string, unknown>;
+    config.baseUrls = config.baseUrls ?? {};
+    AI_BASE_URL_KEYS.forEach((key) => {
+      if (!(key in baseUrls)) return;
+      const rawValue = baseUrls[key];
+      if (isCleared(rawValue)) {
+        config.baseUrls![key] = null;
+      } else if (typeof rawValue === 'string') {
+        config.baseUrls![key] = rawValue.trim();
+      }
+    });
+  }
+  if (update.apiKeys && typeof update.apiKeys === 'object') {
+    const apiKeys = update.apiKeys as Record<string, unknown>;
+    config.apiKeys = config.apiKeys ?? {};
+    AI_API_KEY_KEYS.forEach((key) => {
+      if (!(key in apiKeys)) return;
+      const rawValue = apiKeys[key];
+      if (isCleared(rawValue)) {
+        config.apiKeys![key] = null;
+      } else if (typeof rawValue === 'string') {
+        config.apiKeys![key] = rawValue.trim();
+      }
+    });
+  }
+  if ('primaryProvider' in update) {
+    const rawValue = update.primaryProvider;
+    if (isCleared(rawValue)) {
+      config.primaryProvider = null;
+    } else if (isPrimaryProvider(rawValue)) {
+      config.primaryProvider = rawValue;
+    }
+  }
+  if ('primaryModel' in update) {
+    // Checked against the primary provider when the overrides are applied
+    const rawValue = update.primaryModel;
+    if (isCleared(rawValue)) {
+      config.primaryModel = null;
+    } else if (typeof rawValue === 'string' && AI_PROVIDERS.some((provider) => isAllowedModel(provider, rawValue.trim()))) {
+      config.primaryModel = rawValue.trim();
+    }
+  }
+  if ('fallbacks' in update) {
+    // Keys are checked separately by validateAiFallbacks, since they may be saved in the same update
+    const rawValue = update.fallbacks;
+    if (Array.isArray(rawValue)) {
+      const fallbacks: AiModelRef[] = [];
+      for (const entry of rawValue) {
+        if (!entry || typeof entry !== 'object') continue;
+        const { provider, model } = entry as Record<string, unknown>;
+        const ref = parseModelRef(`${String(provider)}/${typeof model === 'string' ? model.trim() : ''}`);
+        if (ref && !fallbacks.some((f) => formatModelRef(f) === formatModelRef(ref))) fallbacks.push(ref);
+      }
+      config.fallbacks = fallbacks.slice(0, AI_FALLBACK_LIMIT);
+    } else if (isCleared(rawValue)) {
+      config.fallbacks = null;
+    }
+  }
+  return config;
+};
+
+/**
+ * Read the fallback chain from AI_FALLBACK_MODELS
+ *
+ * @param env - Env vars with saved overrides already applied
+ * @returns Valid, de-duplicated refs in order, capped at AI_FALLBACK_LIMIT
+ */
+export const resolveFallbackModels = (env: MoltbotEnv): AiModelRef[] => {
+  const refs: AiModelRef[] = [];
+  for (const value of (env.AI_FALLBACK_MODELS ?? '').split(',')) {
+    const ref = parseModelRef(value);
+    if (ref && !refs.some((r) => formatModelRef(r) === formatModelRef(ref))) refs.push(ref);
+  }
+  return refs.slice(0, AI_FALLBACK_LIMIT);
+};
+
+/**
+ * Check that every provider in the fallback chain has an API key
+ *
+ * @param config - Saved AI settings, including the update being saved
+ * @param env - Worker env vars
+ * @returns One message per fallback that can't be reached; empty when the chain is usable
+ */
+export const validateAiFallbacks = (config: AiEnvConfig, env: MoltbotEnv): string[] => {
+  const effective = applyAiOverrides(env, config);
+  return resolveFallbackModels(effective).flatMap((ref) => {
+    const provider = getAiProvider(ref.provider)!;
+    if (getProviderApiKey(effective, provider)) return [];
+    return [`Fallback ${formatModelRef(ref)} needs ${provider.apiKeyEnv} to be set`];
+  });
+};
+
+/**
+ * Build the admin UI view of the AI settings: effective values, where they
+ * come from, and the providers with their model catalogues
+ *
+ * @param config - Saved AI settings
+ * @param env - Worker env vars
+ */
+export const buildAiEnvResponse = (config: AiEnvConfig, env: MoltbotEnv) => {
+  const envVars = env as unknown as EnvRecord;
+  const baseUrls = Object.fromEntries(
+    AI_BASE_URL_KEYS.map((key) => {
+      const override = config.baseUrls?.[key];
+      if (override === null) return [key, null];
+      if (typeof override === 'string' && override.trim().length > 0) return [key, override.trim()];
+      const envValue = envVars[key];
+      return [key, envValue && envValue.trim().length > 0 ? envValue : null];
+    })
+  );
+  const apiKeys = Object.fromEntries(
+    AI_API_KEY_KEYS.map((key) => {
+      const override = config.apiKeys?.[key];
+      if (override === null) return [key, { isSet: false, source: 'cleared' }];
+      if (typeof override === 'string' && override.trim().length > 0) {
+        return [key, { isSet: true, source: 'saved' }];
+      }
+      const envValue = envVars[key];
+      if (envValue && envValue.trim().length > 0) {
+        return [key, { isSet: true, source: 'env' }];
+      }
+      return [key, { isSet: false, source: null }];
+    })
+  );
+  const effective = applyAiOverrides(env, config);
+  const provider = isPrimaryProvider(effective.AI_PRIMARY_PROVIDER)
+    ? getAiProvider(effective.AI_PRIMARY_PROVIDER)!
+    : getAiProvider(DEFAULT_AI_PROVIDER)!;
+  const primaryModel = isAllowedModel(provider, effective.AI_PRIMARY_MODEL)
+    ? effective.AI_PRIMARY_MODEL
+    : provider.defaultModel;
+  const providers = AI_PROVIDERS.map((p) => ({
+    id: p.id,
+    label: p.label,
+    apiKeyEnv: p.apiKeyEnv,
+    baseUrlEnv: p.baseUrlEnv,
+    models: p.models.map(({ id, name }) => ({ id, name })),
+    defaultModel: p.defaultModel,
+    customModels: p.customModels,
+  }));
+  const fallbacks = resolveFallbackModels(effective);
+  // Saved keys are only encrypted at rest when the Worker secret is set
+  const keysEncrypted = !!env.CONFIG_ENCRYPTION_KEY;
+  return { baseUrls, apiKeys, primaryProvider: provider.id, primaryModel, fallbacks, providers, keysEncrypted };
+};
@@ -0,0 +1,164 @@
+/// <reference types="node" />
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { testAiProviders } from './connectivity';
+import { createMockEnv } from '../test-utils';
+
+/**
+ * Local stand-in for the provider APIs. Each path prefix plays one provider:
+ *   /anthropic/v1/models      - Anthropic-style list, needs x-api-key "good"
+ *   /openai/models            - OpenAI-style list, needs bearer "good"
+ *   /gemini/models            - Gemini-style ids ("models/..."), needs bearer "good"
+ *   /openrouter/models        - public list; /openrouter/key checks the bearer
+ *   /limited/models           - always 429
+ *   /broken/models            - returns HTML
+ */
+function handle(req: IncomingMessage, res: ServerResponse) {
+  const url = new URL(req.url ?? '/', 'http://stub');
+  const bearerOk = req.headers.authorization === 'Bearer good';
+  const send = (status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  switch (url.pathname) {
+    case '/anthropic/v1/models':
+      if (req.headers['x-api-key'] !== 'good' || !req.headers['anthropic-version']) return send(401, {});
+      return send(200, { data: [{ id: 'claude-opus-4-5-20251101' }] });
+    case '/openai/models':
+      if (!bearerOk) return send(401, { error: { message: 'bad key' } });
+      return send(200, { data: [{ id: 'gpt-5.2' }, { id: 'gpt-5' }] });
+    case '/gemini/models':
+      if (!bearerOk) return send(403, {});
+      return send(200, { data: [{ id: 'models/gemini-2.5-pro' }] });
+    case '/openrouter/key':
+      return bearerOk ? send(200, { data: { label: 'test' } }) : send(401, {});
+    case '/openrouter/models':
+      return send(200, { data: [{ id: 'anthropic/claude-sonnet-4.5' }] });
+    case '/limited/models':
+      return send(429, {});
+    case '/broken/models':
+      res.writeHead(200, { 'Content-Type': 'text/html' });
+      return res.end('<html></html>');
+    default:
+      return send(404, {});
+  }
+}
+
+describe('testAiProviders', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = createServer(handle);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('only tests providers that have an API key', async () => {
+    const results = await testAiProviders(
+      createMockEnv({ OPENAI_API_KEY: 'good', OPENAI_BASE_URL: `${baseUrl}/openai` })
+    );
+    expect(results.map((r) => r.provider)).toEqual(['openai']);
+  });
+
+  it('reports reachable, auth and model availability for a working key', async () => {
+    const [anthropic, openai] = await testAiProviders(
+      createMockEnv({
+        ANTHROPIC_API_KEY: 'good',
+        ANTHROPIC_BASE_URL: `${baseUrl}/anthropic`,
+        OPENAI_API_KEY: 'good',
+        OPENAI_BASE_URL: `${baseUrl}/openai`,
+        AI_FALLBACK_MODELS: 'openai/gpt-5',
+      })
+    );
+
+    expect(anthropic).toMatchObject({
+      provider: 'anthropic',
+      model: 'claude-opus-4-5-20251101',
+      reachable: true,
+      authOk: true,
+      modelAvailable: true,
+      status: 200,
+    });
+    expect(anthropic.errorClass).toBeUndefined();
+    expect(anthropic.latencyMs).toBeGreaterThanOrEqual(0);
+    // The fallback model is the one checked for a non-primary provider
+    expect(openai).toMatchObject({ provider: 'openai', model: 'gpt-5', modelAvailable: true });
+  });
+
+  it('classifies a rejected key as an auth error', async () => {
+    const [result] = await testAiProviders(
+      createMockEnv({ OPENAI_API_KEY: 'bad', OPENAI_BASE_URL: `${baseUrl}/openai` })
+    );
+    expect(result).toMatchObject({ reachable: true, authOk: false, modelAvailable: null, errorClass: 'auth', status: 401 });
+  });
+
+  it('reports a model the provider does not offer', async () => {
+    const [result] = await testAiProviders(
+      createMockEnv({
+        AI_PRIMARY_PROVIDER: 'gemini',
+        AI_PRIMARY_MODEL: 'gemini-9-ultra',
+        GEMINI_API_KEY: 'good',
+        GEMINI_BASE_URL: `${baseUrl}/gemini`,
+      })
+    );
+    expect(result).toMatchObject({ authOk: true, modelAvailable: false, errorClass: 'model_not_found' });
+  });
+
+  it('matches Gemini model ids without their "models/" prefix', async () => {
+    const [result] = await testAiProviders(
+      createMockEnv({ GEMINI_API_KEY: 'good', GEMINI_BASE_URL: `${baseUrl}/gemini` })
+    );
+    expect(result).toMatchObject({ model: 'gemini-2.5-pro', modelAvailable: true });
+  });
+
+  it('checks the key separately when the model list is public', async () => {
+    const [result] = await testAiProviders(
+      createMockEnv({ OPENROUTER_API_KEY: 'bad', OPENROUTER_BASE_URL: `${baseUrl}/openrouter` })
+    );
+    expect(result).toMatchObject({ reachable: true, authOk: false, errorClass: 'auth' });
+  });
+
+  it('uses the AI Gateway URL and key for the provider it routes to', async () => {
+    const [result] = await testAiProviders(
+      createMockEnv({ AI_GATEWAY_API_KEY: 'good', AI_GATEWAY_BASE_URL: `${baseUrl}/openai` })
+    );
+    expect(result).toMatchObject({ provider: 'openai', viaAiGateway: true, authOk: true, modelAvailable: true });
+  });
+
+  it('classifies rate limits, unreadable responses and unreachable hosts', async () => {
+    const results = await testAiProviders(
+      createMockEnv({
+        OPENAI_API_KEY: 'good',
+        OPENAI_BASE_URL: `${baseUrl}/limited`,
+        GEMINI_API_KEY: 'good',
+        GEMINI_BASE_URL: `${baseUrl}/broken`,
+        DEEPSEEK_API_KEY: 'good',
+        DEEPSEEK_BASE_URL: 'http://127.0.0.1:1',
+      })
+    );
+    const byProvider = Object.fromEntries(results.map((r) => [r.provider, r]));
+    expect(byProvider.openai).toMatchObject({ reachable: true, authOk: true, errorClass: 'rate_limited' });
+    expect(byProvider.gemini).toMatchObject({ reachable: true, authOk: true, errorClass: 'unexpected_response' });
+    expect(byProvider.deepseek).toMatchObject({ reachable: false, latencyMs: null, errorClass: 'network' });
+  });
+
+  it('limits the test to the requested providers', async () => {
+    const results = await testAiProviders(
+      createMockEnv({
+        OPENAI_API_KEY: 'good',
+        OPENAI_BASE_URL: `${baseUrl}/openai`,
+        GEMINI_API_KEY: 'good',
+        GEMINI_BASE_URL: `${baseUrl}/gemini`,
+      }),
+      { providers: ['gemini'] }
+    );
+    expect(results.map((r) => r.provider)).toEqual(['gemini']);
+  });
+});
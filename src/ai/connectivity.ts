@@ -0,0 +1,195 @@
+import { AI_TEST_TIMEOUT_MS } from '../config';
+import type { MoltbotEnv } from '../types';
+import { resolveFallbackModels } from './config';
+import {
+  AI_PROVIDERS,
+  getProviderApiKey,
+  isAllowedModel,
+  resolvePrimaryProvider,
+  resolveProviderBaseUrl,
+  type AiProviderDefinition,
+  type AiProviderId,
+} from './registry';
+
+/** Where the Anthropic API lives when the gateway's built-in provider is used */
+const ANTHROPIC_API_BASE_URL = 'https://api.anthropic.com';
+
+/** Endpoints that check the key for providers whose model list is public */
+const AUTH_CHECK_PATHS: Partial<Record<AiProviderId, string>> = {
+  openrouter: '/key',
+};
+
+export type AiTestErrorClass =
+  | 'network'
+  | 'timeout'
+  | 'auth'
+  | 'rate_limited'
+  | 'model_not_found'
+  | 'server_error'
+  | 'unexpected_response';
+
+export interface AiProviderTestResult {
+  provider: AiProviderId;
+  /** Model checked against the provider's model list */
+  model: string;
+  baseUrl: string;
+  viaAiGateway: boolean;
+  reachable: boolean;
+  authOk: boolean;
+  /** Null when the model list couldn't be read */
+  modelAvailable: boolean | null;
+  /** Round trip of the requests made, null when nothing answered */
+  latencyMs: number | null;
+  status?: number;
+  errorClass?: AiTestErrorClass;
+  error?: string;
+}
+
+export interface AiTestOptions {
+  /** Limit the test to these providers; defaults to every provider with an API key */
+  providers?: string[];
+  timeoutMs?: number;
+}
+
+type ProviderRequest =
+  | { ok: true; response: Response; latencyMs: number }
+  | { ok: false; errorClass: 'network' | 'timeout'; error: string };
+
+/**
+ * Pick the model to look for: the primary model, the first fallback on the
+ * provider, or the provider's default
+ */
+function pickTestModel(env: MoltbotEnv, provider: AiProviderDefinition): string {
+  if (resolvePrimaryProvider(env).id === provider.id && isAllowedModel(provider, env.AI_PRIMARY_MODEL)) {
+    return env.AI_PRIMARY_MODEL;
+  }
+  const fallback = resolveFallbackModels(env).find((ref) => ref.provider === provider.id);
+  return fallback?.model ?? provider.defaultModel;
+}
+
+function buildHeaders(provider: AiProviderDefinition, apiKey: string): Record<string, string> {
+  if (provider.api === 'anthropic-messages') {
+    return { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' };
+  }
+  return { Authorization: `Bearer ${apiKey}` };
+}
+
+async function request(url: string, headers: Record<string, string>, timeoutMs: number): Promise<ProviderRequest> {
+  const startedAt = Date.now();
+  try {
+    const response = await fetch(url, { headers, signal: AbortSignal.timeout(timeoutMs) });
+    return { ok: true, response, latencyMs: Date.now() - startedAt };
+  } catch (error) {
+    const isTimeout = error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+    return {
+      ok: false,
+      errorClass: isTimeout ? 'timeout' : 'network',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+function classifyStatus(status: number): AiTestErrorClass {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server_error';
+  return 'unexpected_response';
+}
+
+/**
+ * Read model ids from an OpenAI- or Anthropic-style model list.
+ * Gemini prefixes its ids with "models/", which is dropped.
+ */
+async function readModelIds(response: Response): Promise<string[] | undefined> {
+  try {
+    const body = (await response.json()) as { data?: unknown };
+    if (!Array.isArray(body.data)) return undefined;
+    return body.data
+      .map((entry) => (entry && typeof entry === 'object' ? (entry as { id?: unknown }).id : undefined))
+      .filter((id): id is string => typeof id === 'string')
+      .map((id) => id.replace(/^models\//, ''));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check one provider: reach its base URL, authenticate and look for the model
+ *
+ * @param env - Env vars with saved overrides already applied
+ * @param provider - The provider to test; must have an API key
+ * @param timeoutMs - Timeout for each request
+ */
+async function testProvider(
+  env: MoltbotEnv,
+  provider: AiProviderDefinition,
+  timeoutMs: number
+): Promise<AiProviderTestResult> {
+  const apiKey = getProviderApiKey(env, provider)!;
+  const { baseUrl: configuredBaseUrl, gatewayBaseUrl } = resolveProviderBaseUrl(env, provider);
+  const baseUrl =
+    configuredBaseUrl ??
+    provider.defaultBaseUrl ??
+    (provider.api === 'anthropic-messages' ? ANTHROPIC_API_BASE_URL : '');
+  const model = pickTestModel(env, provider);
+  const result: AiProviderTestResult = {
+    provider: provider.id as AiProviderId,
+    model,
+    baseUrl,
+    viaAiGateway: gatewayBaseUrl !== undefined,
+    reachable: false,
+    authOk: false,
+    modelAvailable: null,
+    latencyMs: null,
+  };
+  const headers = buildHeaders(provider, apiKey);
+  // Anthropic base URLs stop before the API version, OpenAI-style ones include it
+  const modelsUrl = provider.api === 'anthropic-messages' ? `${baseUrl}/v1/models?limit=1000` : `${baseUrl}/models`;
+  const urls = [AUTH_CHECK_PATHS[provider.id as AiProviderId], modelsUrl]
+    .filter((path): path is string => !!path)
+    .map((path) => (path.startsWith('/') ? `${baseUrl}${path}` : path));
+
+  let response: Response | undefined;
+  for (const url of urls) {
+    const outcome = await request(url, headers, timeoutMs);
+    if (!outcome.ok) {
+      return { ...result, errorClass: outcome.errorClass, error: outcome.error };
+    }
+    result.reachable = true;
+    result.latencyMs = (result.latencyMs ?? 0) + outcome.latencyMs;
+    result.status = outcome.response.status;
+    if (!outcome.response.ok) {
+      const errorClass = classifyStatus(outcome.response.status);
+      // A rate-limited request got past authentication
+      return { ...result, authOk: errorClass === 'rate_limited', errorClass, error: `HTTP ${outcome.response.status}` };
+    }
+    response = outcome.response;
+  }
+  result.authOk = true;
+
+  const modelIds = response ? await readModelIds(response) : undefined;
+  if (!modelIds) {
+    return { ...result, errorClass: 'unexpected_response', error: 'Model list could not be read' };
+  }
+  result.modelAvailable = modelIds.includes(model);
+  if (!result.modelAvailable) {
+    return { ...result, errorClass: 'model_not_found', error: `Model ${model} is not offered by ${provider.label}` };
+  }
+  return result;
+}
+
+/**
+ * Make a minimal authenticated request to every configured provider
+ *
+ * @param env - Env vars with saved overrides already applied (see applyAiOverrides)
+ * @param options - Providers to test and the per-request timeout
+ * @returns One result per provider with an API key, in registry order
+ */
+export async function testAiProviders(env: MoltbotEnv, options: AiTestOptions = {}): Promise<AiProviderTestResult[]> {
+  const timeoutMs = options.timeoutMs ?? AI_TEST_TIMEOUT_MS;
+  const selected = AI_PROVIDERS.filter(
+    (provider) =>
+      getProviderApiKey(env, provider) && (!options.providers || options.providers.includes(provider.id))
+  );
+  return Promise.all(selected.map((provider) => testProvider(env, provider, timeoutMs)));
+}
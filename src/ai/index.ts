@@ -0,0 +1,43 @@
+export {
+  AI_PROVIDERS,
+  AI_API_KEY_KEYS,
+  AI_BASE_URL_KEYS,
+  DEFAULT_AI_PROVIDER,
+  getAiProvider,
+  isPrimaryProvider,
+  isCatalogueModel,
+  isAllowedModel,
+  getAiGatewayTarget,
+  getProviderApiKey,
+  resolveProviderBaseUrl,
+  formatModelRef,
+  parseModelRef,
+  normalizeBaseUrl,
+  resolvePrimaryProvider,
+  type AiProviderDefinition,
+  type AiProviderId,
+  type AiModelRef,
+} from './registry';
+export {
+  buildContainerModelConfig,
+  mergeModelConfig,
+  type ContainerModelConfig,
+  type GatewayModelSections,
+  type ModelSelection,
+} from './models';
+export {
+  AI_ENV_CONFIG_KEY,
+  readAiEnvConfig,
+  parseAiEnvConfig,
+  serializeAiEnvConfig,
+  writeAiEnvConfig,
+  applyAiOverrides,
+  applyAiConfigUpdate,
+  buildAiEnvResponse,
+  resolveFallbackModels,
+  validateAiFallbacks,
+  AI_FALLBACK_LIMIT,
+  type AiEnvConfig,
+} from './config';
+export { AiConfigDecryptionError } from './secrets';
+export { testAiProviders, type AiProviderTestResult, type AiTestErrorClass } from './connectivity';
@@ -0,0 +1,143 @@
+import {
+  AI_PROVIDERS,
+  CUSTOM_MODEL_CONTEXT_WINDOW,
+  isAllowedModel,
+  type AiApiStyle,
+  type AiModelDefinition,
+  type AiProviderDefinition,
+} from './registry';
+
+export interface ContainerProviderConfig {
+  baseUrl: string;
+  api: AiApiStyle;
+  /**
+   * Reference to the container env var holding the key, e.g. "${OPENAI_API_KEY}",
+   * which the gateway substitutes when it loads its config. The key itself
+   * stays out of clawdbot.json, which is synced to R2.
+   */
+  apiKey?: string;
+  models: { id: string; name: string; contextWindow: number }[];
+}
+
+/**
+ * Model config passed to the container in AI_MODEL_CONFIG.
+ * start-moltbot.sh merges it into models.providers and agents.defaults.
+ */
+export interface ContainerModelConfig {
+  /** Entries for models.providers, keyed by provider id */
+  providers: Record<string, ContainerProviderConfig>;
+  /** Entries for agents.defaults.models, keyed by "provider/model" */
+  models: Record<string, { alias: string }>;
+  /** Value for agents.defaults.model.primary */
+  primary: string;
+  /** Value for agents.defaults.model.fallbacks, tried in order when the primary fails */
+  fallbacks: string[];
+  /** Provider ids owned by the registry; stale entries for these are removed */
+  managedProviders: string[];
+}
+
+export interface ModelSelection {
+  provider: AiProviderDefinition;
+  /** Requested model, falls back to the provider default when the provider doesn't accept it */
+  model?: string;
+  /** Without a base URL the gateway's built-in provider is used */
+  baseUrl?: string;
+  /** Container env var holding the provider's API key */
+  apiKeyEnv?: string;
+}
+
+/**
+ * Build the container model config from the registry
+ *
+ * @param primary - The primary provider and its resolved connection details
+ * @param fallbacks - Models to fail over to, in order
+ * @returns Config for start-moltbot.sh to merge into the gateway config
+ */
+export function buildContainerModelConfig(
+  primary: ModelSelection,
+  fallbacks: ModelSelection[] = []
+): ContainerModelConfig {
+  // Catalogue per provider, keyed by id; the first selection of a provider supplies its connection
+  const catalogues = new Map<string, { selection: ModelSelection; models: AiModelDefinition[] }>();
+  const select = (selection: ModelSelection) => {
+    const { provider } = selection;
+    const model = isAllowedModel(provider, selection.model) ? selection.model : provider.defaultModel;
+    const entry = catalogues.get(provider.id) ?? { selection, models: [...provider.models] };
+    // A hand-entered model joins the catalogue so the gateway knows about it
+    if (!entry.models.some((m) => m.id === model)) {
+      entry.models.push({ id: model, name: model, alias: model, contextWindow: CUSTOM_MODEL_CONTEXT_WINDOW });
+    }
+    catalogues.set(provider.id, entry);
+    return `${provider.id}/${model}`;
+  };
+
+  const primaryRef = select(primary);
+  const fallbackRefs: string[] = [];
+  for (const fallback of fallbacks) {
+    const ref = select(fallback);
+    if (ref !== primaryRef && !fallbackRefs.includes(ref)) fallbackRefs.push(ref);
+  }
+
+  const providers: Record<string, ContainerProviderConfig> = {};
+  const models: Record<string, { alias: string }> = {};
+  for (const [id, { selection, models: catalogue }] of catalogues) {
+    if (selection.baseUrl) {
+      providers[id] = {
+        baseUrl: selection.baseUrl,
+        api: selection.provider.api,
+        ...(selection.apiKeyEnv ? { apiKey: `\${${selection.apiKeyEnv}}` } : {}),
+        models: catalogue.map(({ id: modelId, name, contextWindow }) => ({ id: modelId, name, contextWindow })),
+      };
+    }
+    for (const m of catalogue) {
+      models[`${id}/${m.id}`] = { alias: m.alias };
+    }
+  }
+
+  return {
+    providers,
+    models,
+    primary: primaryRef,
+    fallbacks: fallbackRefs,
+    managedProviders: AI_PROVIDERS.map((p) => p.id),
+  };
+}
+
+/** The parts of clawdbot.json the model config touches */
+export interface GatewayModelSections {
+  models?: { providers?: Record<string, unknown>; [key: string]: unknown };
+  agents?: {
+    defaults?: {
+      models?: Record<string, unknown>;
+      model?: { primary?: string; fallbacks?: string[]; [key: string]: unknown };
+      [key: string]: unknown;
+    };
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+/**
+ * Merge the model config into clawdbot.json, in place.
+ * Mirrors the AI_MODEL_CONFIG block of start-moltbot.sh; keep the two in step.
+ *
+ * @param config - Parsed clawdbot.json
+ * @param modelConfig - Model config generated by buildContainerModelConfig
+ */
+export function mergeModelConfig(config: GatewayModelSections, modelConfig: ContainerModelConfig): void {
+  config.models = config.models ?? {};
+  const providers = (config.models.providers = config.models.providers ?? {});
+  config.agents = config.agents ?? {};
+  const defaults = (config.agents.defaults = config.agents.defaults ?? {});
+  const models = (defaults.models = defaults.models ?? {});
+  // Drop stale entries for registry providers that are no longer configured
+  for (const id of modelConfig.managedProviders) {
+    if (!modelConfig.providers[id]) delete providers[id];
+    for (const ref of Object.keys(models)) {
+      if (ref.startsWith(`${id}/`)) delete models[ref];
+    }
+  }
+  Object.assign(providers, modelConfig.providers);
+  Object.assign(models, modelConfig.models);
+  defaults.model = { ...defaults.model, primary: modelConfig.primary, fallbacks: modelConfig.fallbacks };
+}
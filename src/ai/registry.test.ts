@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AI_API_KEY_KEYS,
+  AI_BASE_URL_KEYS,
+  getAiGatewayProvider,
+  getAiProvider,
+  isAllowedModel,
+  isPrimaryProvider,
+  normalizeBaseUrl,
+  resolvePrimaryProvider,
+} from './registry';
+
+describe('AI key lists', () => {
+  it('lists the AI Gateway keys followed by one key per provider', () => {
+    expect(AI_BASE_URL_KEYS).toEqual([
+      'AI_GATEWAY_BASE_URL',
+      'ANTHROPIC_BASE_URL',
+      'OPENAI_BASE_URL',
+      'DEEPSEEK_BASE_URL',
+      'GEMINI_BASE_URL',
+      'OPENROUTER_BASE_URL',
+    ]);
+    expect(AI_API_KEY_KEYS).toEqual([
+      'AI_GATEWAY_API_KEY',
+      'ANTHROPIC_API_KEY',
+      'OPENAI_API_KEY',
+      'DEEPSEEK_API_KEY',
+      'GEMINI_API_KEY',
+      'OPENROUTER_API_KEY',
+    ]);
+  });
+});
+
+describe('isPrimaryProvider', () => {
+  it('accepts registered providers only', () => {
+    for (const id of ['anthropic', 'openai', 'deepseek', 'gemini', 'openrouter']) {
+      expect(isPrimaryProvider(id)).toBe(true);
+    }
+    expect(isPrimaryProvider('unknown')).toBe(false);
+    expect(isPrimaryProvider(null)).toBe(false);
+  });
+});
+
+describe('isAllowedModel', () => {
+  it('accepts well-formed custom models only for providers that allow them', () => {
+    expect(isAllowedModel(getAiProvider('openrouter')!, 'meta-llama/llama-4-maverick')).toBe(true);
+    expect(isAllowedModel(getAiProvider('openrouter')!, 'bad model id')).toBe(false);
+    expect(isAllowedModel(getAiProvider('deepseek')!, 'deepseek-reasoner')).toBe(true);
+    expect(isAllowedModel(getAiProvider('deepseek')!, 'deepseek-v9')).toBe(false);
+  });
+});
+
+describe('normalizeBaseUrl', () => {
+  it('trims whitespace and trailing slashes', () => {
+    expect(normalizeBaseUrl(' https://api.deepseek.com/// ')).toBe('https://api.deepseek.com');
+    expect(normalizeBaseUrl('')).toBeUndefined();
+    expect(normalizeBaseUrl(undefined)).toBeUndefined();
+  });
+});
+
+describe('getAiGatewayProvider', () => {
+  it('picks the provider from the last path segment', () => {
+    expect(getAiGatewayProvider('https://gateway.ai.cloudflare.com/v1/123/gw/openai/')?.id).toBe('openai');
+    expect(getAiGatewayProvider('https://gateway.ai.cloudflare.com/v1/123/gw/anthropic')?.id).toBe('anthropic');
+    expect(getAiGatewayProvider('https://gateway.ai.cloudflare.com/v1/123/gw/other')).toBeUndefined();
+  });
+});
+
+describe('resolvePrimaryProvider', () => {
+  it('defaults to anthropic', () => {
+    expect(resolvePrimaryProvider({}).id).toBe('anthropic');
+  });
+
+  it('follows an AI Gateway URL for gateway-routed providers', () => {
+    expect(resolvePrimaryProvider({ AI_GATEWAY_BASE_URL: 'https://gw.example.com/openai' }).id).toBe('openai');
+  });
+
+  it('prefers an explicit provider over the AI Gateway URL', () => {
+    expect(
+      resolvePrimaryProvider({ AI_PRIMARY_PROVIDER: 'deepseek', AI_GATEWAY_BASE_URL: 'https://gw.example.com/openai' }).id
+    ).toBe('deepseek');
+    expect(
+      resolvePrimaryProvider({ AI_PRIMARY_PROVIDER: 'gemini', AI_GATEWAY_BASE_URL: 'https://gw.example.com/anthropic' }).id
+    ).toBe('gemini');
+  });
+
+  it('ignores unknown providers', () => {
+    expect(resolvePrimaryProvider({ AI_PRIMARY_PROVIDER: 'nope' }).id).toBe('anthropic');
+  });
+});
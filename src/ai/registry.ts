@@ -0,0 +1,262 @@
+/**
+ * AI provider registry
+ *
+ * Single source of truth for the providers the gateway can talk to. Env var
+ * handling (buildEnvVars), saved overrides (applyAiOverrides), the admin AI
+ * config API and the model config written into the container are all driven
+ * from these entries, so adding a provider only means adding an entry here.
+ */
+
+/** Wire protocol the gateway uses for a provider */
+export type AiApiStyle = 'anthropic-messages' | 'openai-responses' | 'openai-completions';
+
+export interface AiModelDefinition {
+  id: string;
+  name: string;
+  /** Short name shown in the gateway's model picker */
+  alias: string;
+  contextWindow: number;
+}
+
+export interface AiProviderDefinition {
+  id: string;
+  label: string;
+  /** Worker env var (and saved config key) holding the API key */
+  apiKeyEnv: string;
+  /** Worker env var (and saved config key) holding the base URL */
+  baseUrlEnv: string;
+  /** Env var names the gateway reads inside the container, when they differ from the above */
+  containerEnv?: { apiKey: string; baseUrl: string };
+  api: AiApiStyle;
+  /** Used when no base URL is configured; without one the gateway's built-in provider is used */
+  defaultBaseUrl?: string;
+  /** Last path segment of a Cloudflare AI Gateway URL that routes to this provider */
+  aiGatewayPath?: string;
+  models: readonly AiModelDefinition[];
+  defaultModel: string;
+  /** Whether model ids outside the catalogue may be entered */
+  customModels: boolean;
+}
+
+/** Context window assumed for models entered by hand */
+export const CUSTOM_MODEL_CONTEXT_WINDOW = 128000;
+
+/** Shape of a hand-entered model id, e.g. "gpt-5.2" or "anthropic/claude-sonnet-4.5" */
+const MODEL_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._:/-]{0,127}$/;
+
+export const AI_PROVIDERS = [
+  {
+    id: 'anthropic',
+    label: 'Anthropic',
+    apiKeyEnv: 'ANTHROPIC_API_KEY',
+    baseUrlEnv: 'ANTHROPIC_BASE_URL',
+    api: 'anthropic-messages',
+    aiGatewayPath: 'anthropic',
+    models: [
+      { id: 'claude-opus-4-5-20251101', name: 'Claude Opus 4.5', alias: 'Opus 4.5', contextWindow: 200000 },
+      { id: 'claude-sonnet-4-5-20250929', name: 'Claude Sonnet 4.5', alias: 'Sonnet 4.5', contextWindow: 200000 },
+      { id: 'claude-haiku-4-5-20251001', name: 'Claude Haiku 4.5', alias: 'Haiku 4.5', contextWindow: 200000 },
+    ],
+    defaultModel: 'claude-opus-4-5-20251101',
+    customModels: true,
+  },
+  {
+    id: 'openai',
+    label: 'OpenAI',
+    apiKeyEnv: 'OPENAI_API_KEY',
+    baseUrlEnv: 'OPENAI_BASE_URL',
+    api: 'openai-responses',
+    defaultBaseUrl: 'https://api.openai.com/v1',
+    aiGatewayPath: 'openai',
+    models: [
+      { id: 'gpt-5.2', name: 'GPT-5.2', alias: 'GPT-5.2', contextWindow: 200000 },
+      { id: 'gpt-5', name: 'GPT-5', alias: 'GPT-5', contextWindow: 200000 },
+      { id: 'gpt-4.5-preview', name: 'GPT-4.5 Preview', alias: 'GPT-4.5', contextWindow: 128000 },
+    ],
+    defaultModel: 'gpt-5.2',
+    customModels: true,
+  },
+  {
+    id: 'deepseek',
+    label: 'DeepSeek',
+    apiKeyEnv: 'DEEPSEEK_API_KEY',
+    baseUrlEnv: 'DEEPSEEK_BASE_URL',
+    // DeepSeek speaks the OpenAI API, so the gateway reads its key from the OpenAI env vars
+    containerEnv: { apiKey: 'OPENAI_API_KEY', baseUrl: 'OPENAI_BASE_URL' },
+    api: 'openai-responses',
+    defaultBaseUrl: 'https://api.deepseek.com',
+    models: [
+      { id: 'deepseek-chat', name: 'DeepSeek Chat', alias: 'DeepSeek Chat', contextWindow: 128000 },
+      { id: 'deepseek-reasoner', name: 'DeepSeek Reasoner', alias: 'DeepSeek Reasoner', contextWindow: 128000 },
+    ],
+    defaultModel: 'deepseek-chat',
+    customModels: false,
+  },
+  {
+    id: 'gemini',
+    label: 'Google Gemini',
+    apiKeyEnv: 'GEMINI_API_KEY',
+    baseUrlEnv: 'GEMINI_BASE_URL',
+    // Gemini's OpenAI-compatible endpoint
+    api: 'openai-completions',
+    defaultBaseUrl: 'https://generativelanguage.googleapis.com/v1beta/openai',
+    models: [
+      { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', alias: 'Gemini Pro', contextWindow: 1000000 },
+      { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', alias: 'Gemini Flash', contextWindow: 1000000 },
+    ],
+    defaultModel: 'gemini-2.5-pro',
+    customModels: true,
+  },
+  {
+    id: 'openrouter',
+    label: 'OpenRouter',
+    apiKeyEnv: 'OPENROUTER_API_KEY',
+    baseUrlEnv: 'OPENROUTER_BASE_URL',
+    api: 'openai-completions',
+    defaultBaseUrl: 'https://openrouter.ai/api/v1',
+    // OpenRouter model ids carry the upstream vendor, e.g. "anthropic/claude-sonnet-4.5"
+    models: [
+      { id: 'anthropic/claude-sonnet-4.5', name: 'Claude Sonnet 4.5 (OpenRouter)', alias: 'OR Sonnet 4.5', contextWindow: 200000 },
+      { id: 'openai/gpt-5', name: 'GPT-5 (OpenRouter)', alias: 'OR GPT-5', contextWindow: 200000 },
+      { id: 'google/gemini-2.5-pro', name: 'Gemini 2.5 Pro (OpenRouter)', alias: 'OR Gemini Pro', contextWindow: 1000000 },
+    ],
+    defaultModel: 'anthropic/claude-sonnet-4.5',
+    customModels: true,
+  },
+] as const satisfies readonly AiProviderDefinition[];
+
+export type AiProviderId = (typeof AI_PROVIDERS)[number]['id'];
+
+/** A provider/model pair, e.g. one link of the fallback chain */
+export interface AiModelRef {
+  provider: AiProviderId;
+  model: string;
+}
+
+const providers: readonly AiProviderDefinition[] = AI_PROVIDERS;
+
+/** Provider used when nothing else is configured */
+export const DEFAULT_AI_PROVIDER: AiProviderId = 'anthropic';
+
+/** Base URL keys editable in the admin UI: the shared AI Gateway URL plus one per provider */
+export const AI_BASE_URL_KEYS = ['AI_GATEWAY_BASE_URL', ...AI_PROVIDERS.map((p) => p.baseUrlEnv)] as const;
+
+/** API key keys editable in the admin UI: the shared AI Gateway key plus one per provider */
+export const AI_API_KEY_KEYS = ['AI_GATEWAY_API_KEY', ...AI_PROVIDERS.map((p) => p.apiKeyEnv)] as const;
+
+export type AiBaseUrlKey = (typeof AI_BASE_URL_KEYS)[number];
+export type AiApiKeyKey = (typeof AI_API_KEY_KEYS)[number];
+
+export function getAiProvider(id: unknown): AiProviderDefinition | undefined {
+  return providers.find((provider) => provider.id === id);
+}
+
+export function isPrimaryProvider(value: unknown): value is AiProviderId {
+  return getAiProvider(value) !== undefined;
+}
+
+export function isCatalogueModel(provider: AiProviderDefinition, model: unknown): model is string {
+  return typeof model === 'string' && provider.models.some((m) => m.id === model);
+}
+
+/**
+ * Check a model id against the provider: catalogue models always pass,
+ * other well-formed ids only when the provider accepts custom models
+ */
+export function isAllowedModel(provider: AiProviderDefinition, model: unknown): model is string {
+  if (isCatalogueModel(provider, model)) return true;
+  return provider.customModels && typeof model === 'string' && MODEL_ID_PATTERN.test(model);
+}
+
+export function normalizeBaseUrl(value: string | undefined | null): string | undefined {
+  const normalized = value?.trim().replace(/\/+$/, '');
+  return normalized || undefined;
+}
+
+/**
+ * Find the provider an AI Gateway URL routes to, from its last path segment
+ */
+export function getAiGatewayProvider(baseUrl: string): AiProviderDefinition | undefined {
+  const lastSegment = normalizeBaseUrl(baseUrl)?.split('/').pop();
+  return providers.find((provider) => provider.aiGatewayPath === lastSegment);
+}
+
+/**
+ * Find the provider the AI_GATEWAY_* credentials belong to.
+ * An unrecognised or missing gateway URL is treated as the default provider.
+ */
+export function getAiGatewayTarget(env: { AI_GATEWAY_BASE_URL?: string }): AiProviderDefinition {
+  const gatewayBaseUrl = normalizeBaseUrl(env.AI_GATEWAY_BASE_URL);
+  return (gatewayBaseUrl && getAiGatewayProvider(gatewayBaseUrl)) || getAiProvider(DEFAULT_AI_PROVIDER)!;
+}
+
+/**
+ * Find the API key the gateway would use for a provider
+ *
+ * @param env - Env vars with saved overrides already applied
+ * @param provider - The provider to look up
+ * @returns The AI Gateway key when the gateway routes to this provider, else its own key
+ */
+export function getProviderApiKey(env: object, provider: AiProviderDefinition): string | undefined {
+  const envRecord = env as Record<string, string | undefined>;
+  const gatewayKey = getAiGatewayTarget(envRecord).id === provider.id ? envRecord.AI_GATEWAY_API_KEY : undefined;
+  return gatewayKey || envRecord[provider.apiKeyEnv] || undefined;
+}
+
+/**
+ * Resolve where the gateway reaches a provider: through AI Gateway when the
+ * gateway URL routes to it, otherwise its own base URL
+ *
+ * @param env - Env vars with saved overrides already applied
+ * @param provider - The provider to look up
+ * @returns The configured base URL (undefined when none is set) and the AI Gateway URL if used
+ */
+export function resolveProviderBaseUrl(
+  env: object,
+  provider: AiProviderDefinition
+): { baseUrl?: string; gatewayBaseUrl?: string } {
+  const envRecord = env as Record<string, string | undefined>;
+  const gatewayBaseUrl =
+    getAiGatewayTarget(envRecord).id === provider.id ? normalizeBaseUrl(envRecord.AI_GATEWAY_BASE_URL) : undefined;
+  return { gatewayBaseUrl, baseUrl: gatewayBaseUrl ?? normalizeBaseUrl(envRecord[provider.baseUrlEnv]) };
+}
+
+/**
+ * Format a model ref as "provider/model", the form the gateway config uses
+ */
+export function formatModelRef(ref: AiModelRef): string {
+  return `${ref.provider}/${ref.model}`;
+}
+
+/**
+ * Parse a "provider/model" ref. The model part may itself contain slashes
+ * (OpenRouter ids), so only the first one separates the provider.
+ *
+ * @returns The ref, or undefined when the provider is unknown or doesn't accept the model
+ */
+export function parseModelRef(value: unknown): AiModelRef | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  const slash = trimmed.indexOf('/');
+  if (slash === -1) return undefined;
+  const provider = getAiProvider(trimmed.slice(0, slash));
+  const model = trimmed.slice(slash + 1);
+  if (!provider || !isAllowedModel(provider, model)) return undefined;
+  return { provider: provider.id as AiProviderId, model };
+}
+
+/**
+ * Work out which provider the gateway should use as primary.
+ *
+ * AI_PRIMARY_PROVIDER picks the provider. Without it, an AI Gateway URL selects
+ * the provider it routes to, so an `/openai` gateway URL selects OpenAI.
+ *
+ * @param env - Env vars with saved overrides already applied
+ * @returns The primary provider definition
+ */
+export function resolvePrimaryProvider(env: {
+  AI_PRIMARY_PROVIDER?: string;
+  AI_GATEWAY_BASE_URL?: string;
+}): AiProviderDefinition {
+  return getAiProvider(env.AI_PRIMARY_PROVIDER) ?? getAiGatewayTarget(env);
+}
@@ -0,0 +1,152 @@
+/**
+ * Envelope encryption for the API keys saved in ai-env.json
+ *
+ * Every write generates a fresh data key. Each API key is encrypted with it
+ * (AES-256-GCM, bound to its env var name), and the data key itself is
+ * encrypted with a key derived from the CONFIG_ENCRYPTION_KEY Worker secret.
+ */
+
+/** A value encrypted with AES-GCM; both fields are base64 */
+export interface EncryptedValue {
+  iv: string;
+  ct: string;
+}
+
+/** Stored next to the encrypted keys so they can be decrypted again */
+export interface AiConfigEnvelope {
+  version: 1;
+  alg: 'AES-256-GCM';
+  /** The data key, encrypted with the key derived from CONFIG_ENCRYPTION_KEY */
+  wrappedKey: EncryptedValue;
+}
+
+/** Thrown when saved API keys exist but can't be decrypted */
+export class AiConfigDecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AiConfigDecryptionError';
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const KEK_INFO = encoder.encode('moltbot/ai-env/kek/v1');
+const WRAPPED_KEY_AAD = encoder.encode('moltbot/ai-env/data-key');
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+export function isEncryptedValue(value: unknown): value is EncryptedValue {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Record<string, unknown>;
+  return typeof candidate.iv === 'string' && typeof candidate.ct === 'string';
+}
+
+/**
+ * Derive the key-encryption key from the Worker secret with HKDF, so any
+ * sufficiently random string can be used as CONFIG_ENCRYPTION_KEY
+ */
+async function deriveKeyEncryptionKey(secret: string): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(secret), 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(32), info: KEK_INFO },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function encrypt(
+  key: CryptoKey,
+  plaintext: Uint8Array<ArrayBuffer>,
+  aad: Uint8Array<ArrayBuffer>
+): Promise<EncryptedValue> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ct = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: aad }, key, plaintext);
+  return { iv: toBase64(iv), ct: toBase64(new Uint8Array(ct)) };
+}
+
+async function decrypt(
+  key: CryptoKey,
+  value: EncryptedValue,
+  aad: Uint8Array<ArrayBuffer>
+): Promise<Uint8Array<ArrayBuffer>> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(value.iv), additionalData: aad },
+    key,
+    fromBase64(value.ct)
+  );
+  return new Uint8Array(plaintext);
+}
+
+/**
+ * Encrypt API keys under a fresh data key
+ *
+ * @param apiKeys - Plaintext keys by env var name; null entries are kept as null
+ * @param secret - The CONFIG_ENCRYPTION_KEY Worker secret
+ * @returns The encrypted keys and the envelope needed to decrypt them
+ */
+export async function encryptApiKeys(
+  apiKeys: Record<string, string | null>,
+  secret: string
+): Promise<{ apiKeys: Record<string, EncryptedValue | null>; envelope: AiConfigEnvelope }> {
+  const kek = await deriveKeyEncryptionKey(secret);
+  const rawDataKey = crypto.getRandomValues(new Uint8Array(32));
+  const dataKey = await crypto.subtle.importKey('raw', rawDataKey, 'AES-GCM', false, ['encrypt']);
+
+  const encrypted: Record<string, EncryptedValue | null> = {};
+  for (const [name, value] of Object.entries(apiKeys)) {
+    encrypted[name] = value === null ? null : await encrypt(dataKey, encoder.encode(value), encoder.encode(name));
+  }
+  const wrappedKey = await encrypt(kek, rawDataKey, WRAPPED_KEY_AAD);
+  return { apiKeys: encrypted, envelope: { version: 1, alg: 'AES-256-GCM', wrappedKey } };
+}
+
+/**
+ * Decrypt API keys written by encryptApiKeys
+ *
+ * @param apiKeys - Stored keys; plaintext strings (not yet migrated) pass through
+ * @param envelope - The envelope stored with the keys
+ * @param secret - The CONFIG_ENCRYPTION_KEY Worker secret
+ * @throws AiConfigDecryptionError when the secret is wrong or the file was tampered with
+ */
+export async function decryptApiKeys(
+  apiKeys: Record<string, unknown>,
+  envelope: AiConfigEnvelope,
+  secret: string
+): Promise<Record<string, string | null>> {
+  if (envelope.version !== 1 || !isEncryptedValue(envelope.wrappedKey)) {
+    throw new AiConfigDecryptionError('Unsupported API key encryption format');
+  }
+  let dataKey: CryptoKey;
+  try {
+    const kek = await deriveKeyEncryptionKey(secret);
+    const rawDataKey = await decrypt(kek, envelope.wrappedKey, WRAPPED_KEY_AAD);
+    dataKey = await crypto.subtle.importKey('raw', rawDataKey, 'AES-GCM', false, ['decrypt']);
+  } catch {
+    throw new AiConfigDecryptionError('Saved API keys could not be decrypted; check CONFIG_ENCRYPTION_KEY');
+  }
+
+  const decrypted: Record<string, string | null> = {};
+  for (const [name, value] of Object.entries(apiKeys)) {
+    if (value === null || typeof value === 'string') {
+      decrypted[name] = value;
+    } else if (isEncryptedValue(value)) {
+      try {
+        decrypted[name] = decoder.decode(await decrypt(dataKey, value, encoder.encode(name)));
+      } catch {
+        throw new AiConfigDecryptionError(`Saved API key ${name} could not be decrypted`);
+      }
+    }
+  }
+  return decrypted;
+}
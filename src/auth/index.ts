@@ -1,2 +1,3 @@
 export { verifyAccessJWT } from './jwt';
 export { createAccessMiddleware, isDevMode, extractJWT } from './middleware';
+export { timingSafeEqual } from './secret';
@@ -62,6 +62,22 @@ export class AuthError extends Error {
   }
 }
 
+/** The object changed (or was deleted) since the editor loaded it */
+export class R2ConflictError extends Error {
+  constructor(message: string, public readonly etag: string | null) {
+    super(message);
+    this.name = 'R2ConflictError';
+  }
+}
+
+/** The multipart upload was completed, aborted or expired; it has to start over */
+export class R2UploadGoneError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'R2UploadGoneError';
+  }
+}
+
 async function apiRequest<T>(
   path: string,
   options: globalThis.RequestInit = {}
@@ -115,18 +131,40 @@ export interface AiEnvSummaryResponse {
   apiKeys: string[];
 }
 
+export interface AiProviderSummary {
+  id: string;
+  label: string;
+  apiKeyEnv: string;
+  baseUrlEnv: string;
+  models: { id: string; name: string }[];
+  defaultModel: string;
+  /** Whether a model outside the catalogue may be entered */
+  customModels: boolean;
+}
+
+export interface AiModelRef {
+  provider: string;
+  model: string;
+}
+
 export interface AiEnvConfigResponse {
   baseUrls: Record<string, string | null>;
   apiKeys: Record<string, { isSet: boolean; source: 'env' | 'saved' | 'cleared' | null }>;
-  primaryProvider: 'anthropic' | 'deepseek';
-  primaryModel: 'deepseek-chat' | 'deepseek-reasoner' | null;
+  primaryProvider: string;
+  primaryModel: string;
+  /** Models the gateway fails over to, in order */
+  fallbacks: AiModelRef[];
+  providers: AiProviderSummary[];
+  /** Whether saved API keys are encrypted at rest (CONFIG_ENCRYPTION_KEY is set) */
+  keysEncrypted: boolean;
 }
 
 export interface AiEnvConfigUpdate {
   baseUrls?: Record<string, string | null>;
   apiKeys?: Record<string, string | null>;
-  primaryProvider?: 'anthropic' | 'deepseek' | null;
-  primaryModel?: 'deepseek-chat' | 'deepseek-reasoner' | null;
+  primaryProvider?: string | null;
+  primaryModel?: string | null;
+  fallbacks?: AiModelRef[] | null;
 }
 
 export async function restartGateway(): Promise<RestartGatewayResponse> {
@@ -135,6 +173,49 @@ export async function restartGateway(): Promise<RestartGatewayResponse> {
   });
 }
 
+export interface GatewayRestartRecord {
+  at: string;
+  trigger: 'crashed' | 'unhealthy';
+  processId?: string;
+  exitCode?: number;
+  stderrTail?: string;
+  outcome: 'restarted' | 'failed';
+  error?: string;
+}
+
+export interface GatewayRestartsResponse {
+  consecutiveRestarts: number;
+  lastRestartAt?: string;
+  nextAttemptAt?: string;
+  crashLoop: boolean;
+  history: GatewayRestartRecord[];
+}
+
+export async function getGatewayRestarts(): Promise<GatewayRestartsResponse> {
+  return apiRequest<GatewayRestartsResponse>('/gateway/restarts');
+}
+
+export interface StartupReport {
+  processId: string;
+  startedAt: string;
+  finishedAt: string;
+  success: boolean;
+  restoreBranch?: string;
+  failedPhase?: string;
+  error?: string;
+  /** How the container stopped before this boot, when it can sleep and restored from R2 */
+  shutdown?: { clean: boolean; at?: string; lastSync?: string };
+}
+
+export interface StartupReportsResponse {
+  /** Newest first */
+  reports: StartupReport[];
+}
+
+export async function getStartupReports(): Promise<StartupReportsResponse> {
+  return apiRequest<StartupReportsResponse>('/gateway/startup-reports');
+}
+
 export async function getAiEnvSummary(): Promise<AiEnvSummaryResponse> {
   return apiRequest<AiEnvSummaryResponse>('/ai/env');
 }
@@ -143,13 +224,52 @@ export async function getAiEnvConfig(): Promise<AiEnvConfigResponse> {
   return apiRequest<AiEnvConfigResponse>('/ai/config');
 }
 
-export async function saveAiEnvConfig(payload: AiEnvConfigUpdate): Promise<AiEnvConfigResponse> {
-  return apiRequest<AiEnvConfigResponse>('/ai/config', {
+export interface AiApplyResult {
+  status: 'applied' | 'restart_required' | 'failed';
+  method: 'none' | 'next_start' | 'reload' | 'restart';
+  changedKeys: string[];
+  reason?: string;
+  error?: string;
+}
+
+export interface AiConfigSaveResponse extends AiEnvConfigResponse {
+  /** How the saved settings reached the running gateway */
+  apply: AiApplyResult;
+}
+
+export async function saveAiEnvConfig(payload: AiEnvConfigUpdate): Promise<AiConfigSaveResponse> {
+  return apiRequest<AiConfigSaveResponse>('/ai/config', {
     method: 'POST',
     body: JSON.stringify(payload),
   });
 }
 
+export interface AiProviderTestResult {
+  provider: string;
+  model: string;
+  baseUrl: string;
+  viaAiGateway: boolean;
+  reachable: boolean;
+  authOk: boolean;
+  modelAvailable: boolean | null;
+  latencyMs: number | null;
+  status?: number;
+  errorClass?: 'network' | 'timeout' | 'auth' | 'rate_limited' | 'model_not_found' | 'server_error' | 'unexpected_response';
+  error?: string;
+}
+
+export interface AiTestResponse {
+  testedAt: string;
+  results: AiProviderTestResult[];
+}
+
+export async function testAiProviders(providers?: string[]): Promise<AiTestResponse> {
+  return apiRequest<AiTestResponse>('/ai/test', {
+    method: 'POST',
+    body: JSON.stringify(providers ? { providers } : {}),
+  });
+}
+
 export interface StorageStatusResponse {
   configured: boolean;
   missing?: string[];
@@ -161,10 +281,24 @@ export async function getStorageStatus(): Promise<StorageStatusResponse> {
   return apiRequest<StorageStatusResponse>('/storage');
 }
 
+export interface SyncStats {
+  added: number;
+  changed: number;
+  deleted: number;
+  unchanged: number;
+  pulled: number;
+  removed: number;
+  restored: number;
+  conflicts: number;
+  bytesUploaded: number;
+  bytesDownloaded: number;
+}
+
 export interface SyncResponse {
   success: boolean;
   message?: string;
   lastSync?: string;
+  stats?: SyncStats;
   error?: string;
   details?: string;
 }
@@ -175,6 +309,248 @@ export async function triggerSync(): Promise<SyncResponse> {
   });
 }
 
+export interface SyncRunRecord {
+  at: string;
+  trigger: 'cron' | 'manual' | 'watch' | 'pre-sleep';
+  durationMs: number;
+  success: boolean;
+  error?: string;
+  stats?: SyncStats;
+}
+
+export interface SyncHistoryResponse {
+  runs: SyncRunRecord[];
+  limit: number;
+}
+
+export async function getSyncHistory(): Promise<SyncHistoryResponse> {
+  return apiRequest<SyncHistoryResponse>('/storage/history');
+}
+
+export interface SyncRules {
+  rules: string;
+  maxFileBytes: number | null;
+}
+
+export interface SyncRulesResponse extends SyncRules {
+  defaults: SyncRules;
+}
+
+export async function getSyncRules(): Promise<SyncRulesResponse> {
+  return apiRequest<SyncRulesResponse>('/storage/rules');
+}
+
+export async function saveSyncRules(rules: SyncRules): Promise<SyncRulesResponse> {
+  return apiRequest<SyncRulesResponse>('/storage/rules', {
+    method: 'POST',
+    body: JSON.stringify(rules),
+  });
+}
+
+export interface SyncWatchState {
+  status: 'watching' | 'error';
+  debounceSeconds: number;
+  pendingChanges: number;
+  pendingSince: string | null;
+  lastChangeAt: string | null;
+  lastSignalAt: string | null;
+  lastError: string | null;
+}
+
+export interface SyncWatchResponse {
+  debounceSeconds: number;
+  limits: { min: number; max: number };
+  /** Null when the watcher isn't running in the container */
+  watcher: SyncWatchState | null;
+  /** Whether the container has changes no sync has picked up yet */
+  pending: boolean;
+}
+
+export async function getSyncWatch(): Promise<SyncWatchResponse> {
+  return apiRequest<SyncWatchResponse>('/storage/watch');
+}
+
+export async function saveSyncWatch(debounceSeconds: number): Promise<{ success: boolean; debounceSeconds: number }> {
+  return apiRequest<{ success: boolean; debounceSeconds: number }>('/storage/watch', {
+    method: 'POST',
+    body: JSON.stringify({ debounceSeconds }),
+  });
+}
+
+export type VerifyStatus = 'ok' | 'warning' | 'failed' | 'empty';
+
+export interface VerifyIssue {
+  key: string;
+  problem: 'missing' | 'empty' | 'invalid-json' | 'truncated' | 'changed' | 'hash-mismatch' | 'no-manifest';
+  severity: 'error' | 'warning';
+  detail?: string;
+}
+
+export interface VerifyReport {
+  checkedAt: string;
+  durationMs: number;
+  trigger: 'cron' | 'manual';
+  status: VerifyStatus;
+  deep: boolean;
+  objects: number;
+  bytes: number;
+  recorded: number;
+  hashed: number;
+  issueCount: number;
+  /** Errors first, at most 100 */
+  issues: VerifyIssue[];
+}
+
+export interface VerifyResponse {
+  /** Null until the backup was first verified */
+  report: VerifyReport | null;
+  intervalMs: number;
+}
+
+export async function getBackupVerify(): Promise<VerifyResponse> {
+  return apiRequest<VerifyResponse>('/storage/verify');
+}
+
+export async function verifyBackup(deep: boolean): Promise<VerifyResponse> {
+  return apiRequest<VerifyResponse>('/storage/verify', {
+    method: 'POST',
+    body: JSON.stringify({ deep }),
+  });
+}
+
+export interface SnapshotSummary {
+  id: string;
+  createdAt: string;
+  fileCount: number;
+  totalBytes: number;
+  changedFiles: number;
+  removedFiles: number;
+}
+
+export interface SnapshotListResponse {
+  snapshots: SnapshotSummary[];
+  retention: { hourly: number; daily: number; weekly: number };
+}
+
+export interface SnapshotRestoreResponse {
+  success: boolean;
+  snapshotId: string;
+  restored: number;
+  skipped: string[];
+  failed: { key: string; error: string }[];
+}
+
+export async function listSnapshots(): Promise<SnapshotListResponse> {
+  return apiRequest<SnapshotListResponse>('/storage/snapshots');
+}
+
+export async function restoreSnapshot(id: string): Promise<SnapshotRestoreResponse> {
+  return apiRequest<SnapshotRestoreResponse>(`/storage/snapshots/${encodeURIComponent(id)}/restore`, {
+    method: 'POST',
+  });
+}
+
+export interface RestoreRequest {
+  /** R2 keys, or prefixes ending in "/" */
+  paths: string[];
+  /** Snapshot to restore from; the live backup when unset */
+  snapshotId?: string;
+  /** Keep the container's current files as .bak copies */
+  backup?: boolean;
+}
+
+export interface RestoreResponse {
+  success: boolean;
+  source: string;
+  restored: string[];
+  backups: string[];
+  skipped: string[];
+  notFound: string[];
+  failed: { key: string; error: string }[];
+}
+
+export async function restoreToContainer(request: RestoreRequest): Promise<RestoreResponse> {
+  return apiRequest<RestoreResponse>('/storage/restore', {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+}
+
+/** Download link for a single R2 object */
+export function r2DownloadUrl(key: string): string {
+  return `${API_BASE}/r2/download?key=${encodeURIComponent(key)}`;
+}
+
+/** Download link for the backup as a tar.gz archive */
+export function backupExportUrl(includeSecrets: boolean): string {
+  return `${API_BASE}/backup/export${includeSecrets ? '?includeSecrets=true' : ''}`;
+}
+
+export interface BackupImportResponse {
+  success: boolean;
+  importedAt: string;
+  files: number;
+  bytes: number;
+  removed: number;
+  snapshotId?: string;
+  skippedSecrets: string[];
+  container?: Omit<RestoreResponse, 'success'>;
+  containerError?: string;
+}
+
+export async function importBackupArchive(file: File, includeSecrets: boolean): Promise<BackupImportResponse> {
+  return apiRequest<BackupImportResponse>(`/backup/import${includeSecrets ? '?includeSecrets=true' : ''}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/gzip' },
+    body: file,
+  });
+}
+
+export interface SyncConflict {
+  key: string;
+  detectedAt: string;
+  baseSha256?: string;
+  container: { size: number; sha256: string };
+  r2: { size: number; sha256: string; etag: string };
+}
+
+export type ConflictResolution = 'container' | 'r2' | 'merge';
+
+export interface ConflictListResponse {
+  conflicts: SyncConflict[];
+}
+
+export interface ConflictVersionsResponse {
+  key: string;
+  container: string;
+  r2: string;
+}
+
+export interface ConflictResolveResponse {
+  success: boolean;
+  key: string;
+  resolution: ConflictResolution;
+}
+
+export async function listConflicts(): Promise<ConflictListResponse> {
+  return apiRequest<ConflictListResponse>('/storage/conflicts');
+}
+
+export async function getConflictVersions(key: string): Promise<ConflictVersionsResponse> {
+  return apiRequest<ConflictVersionsResponse>(`/storage/conflicts/versions?key=${encodeURIComponent(key)}`);
+}
+
+export async function resolveConflict(
+  key: string,
+  resolution: ConflictResolution,
+  content?: string
+): Promise<ConflictResolveResponse> {
+  return apiRequest<ConflictResolveResponse>('/storage/conflicts/resolve', {
+    method: 'POST',
+    body: JSON.stringify({ key, resolution, content }),
+  });
+}
+
 export interface R2ObjectEntry {
   key: string;
   size: number;
@@ -182,12 +558,23 @@ export interface R2ObjectEntry {
   uploaded: string;
 }
 
+/** A folder from a listing with delimiter "/" */
+export interface R2FolderEntry {
+  prefix: string;
+  /** Totals below the folder; null when it holds too many objects to add up */
+  size: number | null;
+  count: number | null;
+  lastModified: string | null;
+}
+
 export interface R2ListResponse {
   prefix: string;
   cursor: string | null;
   nextCursor: string | null;
   truncated: boolean;
   objects: R2ObjectEntry[];
+  delimiter?: string;
+  delimitedPrefixes?: R2FolderEntry[];
 }
 
 export interface R2DeleteResponse {
@@ -206,20 +593,55 @@ export interface R2UploadResponse {
   key: string;
 }
 
+export interface R2TransferResponse {
+  success: boolean;
+  source: string;
+  destination: string;
+  objects: number;
+  done: { from: string; to: string }[];
+  skipped: { from: string; to: string; reason: 'exists' | 'not-allowed' }[];
+  failed: { from: string; to: string; error: string }[];
+}
+
+export interface R2MultipartUpload {
+  key: string;
+  uploadId: string;
+  /** Size of every part but the last */
+  partSize: number;
+  maxParts: number;
+}
+
+export interface R2UploadedPart {
+  partNumber: number;
+  etag: string;
+}
+
 export interface R2ObjectContentResponse {
   key: string;
   contentType: string | null;
+  etag: string;
+  size: number;
   content: string;
 }
 
+export interface R2SaveResponse {
+  success: boolean;
+  key: string;
+  etag: string;
+  size: number;
+}
+
 export async function listR2Objects(params: {
   prefix: string;
   cursor?: string | null;
   limit?: number;
+  /** "/" to list one folder level */
+  delimiter?: string;
 }): Promise<R2ListResponse> {
   const query = new URLSearchParams({ prefix: params.prefix });
   if (params.cursor) query.set('cursor', params.cursor);
   if (params.limit) query.set('limit', String(params.limit));
+  if (params.delimiter) query.set('delimiter', params.delimiter);
   return apiRequest<R2ListResponse>(`/r2/list?${query.toString()}`);
 }
 
@@ -237,19 +659,79 @@ export async function deleteR2Prefix(prefix: string): Promise<R2DeletePrefixResp
   });
 }
 
+/**
+ * Copy or move a key, or a prefix ending in "/"; objects already at the
+ * destination are skipped unless overwrite is set
+ */
+export async function transferR2Objects(
+  mode: 'copy' | 'move',
+  source: string,
+  destination: string,
+  overwrite: boolean
+): Promise<R2TransferResponse> {
+  return apiRequest<R2TransferResponse>(`/r2/${mode}`, {
+    method: 'POST',
+    body: JSON.stringify({ source, destination, overwrite }),
+  });
+}
+
 export async function getR2ObjectContent(key: string): Promise<R2ObjectContentResponse> {
   const query = new URLSearchParams({ key });
   return apiRequest<R2ObjectContentResponse>(`/r2/object?${query.toString()}`);
 }
 
-export async function uploadR2Object(prefix: string, file: File): Promise<R2UploadResponse> {
+/**
+ * Save text back to an object, only if it still has the ETag it was loaded with
+ *
+ * @throws R2ConflictError when the object changed in between
+ */
+export async function saveR2ObjectContent(
+  key: string,
+  content: string,
+  etag: string,
+  contentType: string | null
+): Promise<R2SaveResponse> {
+  const query = new URLSearchParams({ key });
+  const response = await fetch(`${API_BASE}/r2/object?${query.toString()}`, {
+    method: 'PUT',
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json', 'If-Match': `"${etag}"` },
+    body: JSON.stringify({ content, contentType }),
+  });
+  if (response.status === 401) {
+    throw new AuthError('Unauthorized - please log in via Cloudflare Access');
+  }
+  const data = await response.json() as R2SaveResponse & { error?: string; etag?: string | null };
+  if (response.status === 412) {
+    throw new R2ConflictError(data.error || 'The object changed since it was loaded', data.etag ?? null);
+  }
+  if (!response.ok) {
+    throw new Error(data.error || `API error: ${response.status}`);
+  }
+  return data;
+}
+
+/**
+ * Upload a file in one request
+ *
+ * @param path - Path under the prefix, e.g. a dropped folder's relative path;
+ *   defaults to the file name
+ */
+export async function uploadR2Object(
+  prefix: string,
+  file: File,
+  path?: string,
+  signal?: AbortSignal
+): Promise<R2UploadResponse> {
   const form = new FormData();
   form.append('prefix', prefix);
   form.append('file', file);
+  if (path) form.append('path', path);
   const response = await fetch(`${API_BASE}/r2/upload`, {
     method: 'POST',
     credentials: 'include',
     body: form,
+    signal,
   });
   if (response.status === 401) {
     throw new AuthError('Unauthorized - please log in via Cloudflare Access');
@@ -260,3 +742,79 @@ export async function uploadR2Object(prefix: string, file: File): Promise<R2Uplo
   }
   return data;
 }
+
+export async function createR2MultipartUpload(
+  prefix: string,
+  path: string,
+  contentType: string
+): Promise<R2MultipartUpload> {
+  return apiRequest<R2MultipartUpload>('/r2/multipart', {
+    method: 'POST',
+    body: JSON.stringify({ prefix, path, contentType }),
+  });
+}
+
+/**
+ * Upload one part of a multipart upload
+ *
+ * @throws R2UploadGoneError when the upload no longer exists
+ */
+export async function uploadR2Part(
+  upload: Pick<R2MultipartUpload, 'key' | 'uploadId'>,
+  partNumber: number,
+  data: Blob,
+  signal?: AbortSignal
+): Promise<R2UploadedPart> {
+  const query = new URLSearchParams({ key: upload.key, uploadId: upload.uploadId, partNumber: String(partNumber) });
+  const response = await fetch(`${API_BASE}/r2/multipart/part?${query.toString()}`, {
+    method: 'PUT',
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: data,
+    signal,
+  });
+  if (response.status === 401) {
+    throw new AuthError('Unauthorized - please log in via Cloudflare Access');
+  }
+  const result = await response.json() as R2UploadedPart & { error?: string };
+  if (response.status === 404) {
+    throw new R2UploadGoneError(result.error || 'Upload not found');
+  }
+  if (!response.ok) {
+    throw new Error(result.error || `API error: ${response.status}`);
+  }
+  return result;
+}
+
+/**
+ * Assemble the uploaded parts into the object
+ *
+ * @throws R2UploadGoneError when the upload no longer exists
+ */
+export async function completeR2MultipartUpload(
+  upload: Pick<R2MultipartUpload, 'key' | 'uploadId'>,
+  parts: R2UploadedPart[]
+): Promise<R2SaveResponse> {
+  const response = await fetch(`${API_BASE}/r2/multipart/complete`, {
+    method: 'POST',
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ key: upload.key, uploadId: upload.uploadId, parts }),
+  });
+  if (response.status === 401) {
+    throw new AuthError('Unauthorized - please log in via Cloudflare Access');
+  }
+  const data = await response.json() as R2SaveResponse & { error?: string };
+  if (response.status === 404) {
+    throw new R2UploadGoneError(data.error || 'Upload not found');
+  }
+  if (!response.ok) {
+    throw new Error(data.error || `API error: ${response.status}`);
+  }
+  return data;
+}
+
+export async function abortR2MultipartUpload(upload: Pick<R2MultipartUpload, 'key' | 'uploadId'>): Promise<void> {
+  const query = new URLSearchParams({ key: upload.key, uploadId: upload.uploadId });
+  await apiRequest<{ success: boolean }>(`/r2/multipart?${query.toString()}`, { method: 'DELETE' });
+}
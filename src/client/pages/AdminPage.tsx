@@ -1,27 +1,66 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef, type DragEvent } from 'react'
 import {
   listDevices,
   approveDevice,
   approveAllDevices,
   restartGateway,
+  getGatewayRestarts,
+  getStartupReports,
   getStorageStatus,
   triggerSync,
+  getSyncHistory,
+  getSyncRules,
+  saveSyncRules,
+  getSyncWatch,
+  saveSyncWatch,
+  getBackupVerify,
+  verifyBackup,
+  listSnapshots,
+  restoreSnapshot,
+  restoreToContainer,
+  backupExportUrl,
+  r2DownloadUrl,
+  transferR2Objects,
+  importBackupArchive,
+  listConflicts,
+  getConflictVersions,
+  resolveConflict,
   listR2Objects,
   deleteR2Object,
   deleteR2Prefix,
   getR2ObjectContent,
-  uploadR2Object,
+  saveR2ObjectContent,
+  R2ConflictError,
   AuthError,
   getAiEnvConfig,
   saveAiEnvConfig,
+  testAiProviders,
   type AiEnvConfigResponse,
   type AiEnvConfigUpdate,
+  type AiApplyResult,
+  type AiModelRef,
+  type AiTestResponse,
   type PendingDevice,
   type PairedDevice,
   type DeviceListResponse,
+  type GatewayRestartsResponse,
+  type StartupReport,
   type StorageStatusResponse,
+  type SnapshotListResponse,
+  type SyncRunRecord,
+  type SyncRules,
+  type SyncRulesResponse,
+  type SyncWatchResponse,
+  type VerifyIssue,
+  type VerifyResponse,
+  type VerifyStatus,
+  type SyncConflict,
+  type ConflictResolution,
+  type ConflictVersionsResponse,
   type R2ObjectEntry,
+  type R2FolderEntry,
 } from '../api'
+import { collectDroppedFiles, uploadFiles, type UploadItem, type UploadProgress } from '../upload'
 import enTranslations from '../locals/en.json'
 import zhJtTranslations from '../locals/cn-jt.json'
 import zhFtTranslations from '../locals/cn-ft.json'
@@ -37,6 +76,37 @@ function ButtonSpinner() {
   return <span className="btn-spinner" />
 }
 
+// Sync durations, oldest to newest; failed runs are marked
+function SyncSparkline({ runs }: { runs: SyncRunRecord[] }) {
+  const width = 320
+  const height = 48
+  const points = [...runs].reverse()
+  const max = Math.max(...points.map(run => run.durationMs), 1)
+  const step = points.length > 1 ? width / (points.length - 1) : 0
+  const coords = points.map((run, i) => ({
+    run,
+    x: points.length > 1 ? i * step : width / 2,
+    y: height - 4 - (run.durationMs / max) * (height - 8),
+  }))
+  return (
+    <svg className="sync-sparkline" viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none">
+      <polyline points={coords.map(({ x, y }) => `${x},${y}`).join(' ')} />
+      {coords.filter(({ run }) => !run.success).map(({ run, x, y }) => (
+        <circle key={run.at} cx={x} cy={y} r={3} />
+      ))}
+    </svg>
+  )
+}
+
+// Number of runs listed in the sync history table
+const SYNC_HISTORY_ROWS = 20
+
+const BYTES_PER_MB = 1024 * 1024
+
+/** Size cap field value for maxFileBytes: megabytes, empty for no cap */
+const maxFileBytesToInput = (bytes: number | null) =>
+  bytes === null ? '' : String(Math.round((bytes / BYTES_PER_MB) * 100) / 100)
+
 type Locale = 'en' | 'cn-jt' | 'cn-ft' | 'ru' | 'es' | 'fr' | 'ja' | 'ko'
 
 const translations = {
@@ -52,9 +122,35 @@ const translations = {
 
 type TranslationKey = keyof typeof enTranslations
 
+const VERIFY_STATUS_LABELS: Record<VerifyStatus | 'unknown', TranslationKey> = {
+  ok: 'verify.status_ok',
+  warning: 'verify.status_warning',
+  failed: 'verify.status_failed',
+  empty: 'verify.status_empty',
+  unknown: 'verify.status_unknown',
+}
+
+const VERIFY_PROBLEM_LABELS: Record<VerifyIssue['problem'], TranslationKey> = {
+  missing: 'verify.problem_missing',
+  empty: 'verify.problem_empty',
+  'invalid-json': 'verify.problem_invalid_json',
+  truncated: 'verify.problem_truncated',
+  changed: 'verify.problem_changed',
+  'hash-mismatch': 'verify.problem_hash_mismatch',
+  'no-manifest': 'verify.problem_no_manifest',
+}
+
 type ConfirmAction =
   | { type: 'delete-object'; key: string }
   | { type: 'delete-prefix'; prefix: string }
+  | { type: 'restore-snapshot'; snapshotId: string }
+  | { type: 'import-backup'; file: File }
+
+// Select value standing for "enter a model id by hand"
+const AI_CUSTOM_MODEL_OPTION = '__custom__'
+
+// Matches AI_FALLBACK_LIMIT on the server
+const AI_FALLBACK_LIMIT = 5
 
 const interpolate = (template: string, vars?: Record<string, string | number>) => {
   if (!vars) return template
@@ -149,6 +245,162 @@ const renderMarkdown = (markdown: string) => {
   return html
 }
 
+// Columns the R2 browser sorts by
+type R2SortField = 'name' | 'size' | 'date'
+
+type EditorLanguage = 'markdown' | 'json' | 'javascript' | 'shell' | 'text'
+
+// Files the R2 browser opens in the editor, by extension
+const EDITOR_LANGUAGES: Record<string, EditorLanguage> = {
+  md: 'markdown',
+  markdown: 'markdown',
+  json: 'json',
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  ts: 'javascript',
+  sh: 'shell',
+  bash: 'shell',
+  txt: 'text',
+  yaml: 'text',
+  yml: 'text',
+  toml: 'text',
+  log: 'text',
+}
+
+// Matches R2_OBJECT_PREVIEW_MAX_BYTES on the server
+const EDITOR_MAX_BYTES = 1024 * 1024
+
+const editorLanguageForKey = (key: string): EditorLanguage | null => {
+  const extension = key.match(/\.([^./]+)$/)?.[1]?.toLowerCase()
+  return extension ? EDITOR_LANGUAGES[extension] ?? null : null
+}
+
+// Token patterns per language, without capturing groups; the rule that matched names the CSS class
+const HIGHLIGHT_RULES: Record<Exclude<EditorLanguage, 'text'>, [string, RegExp][]> = {
+  json: [
+    ['key', /"(?:[^"\\\n]|\\.)*"(?=\s*:)/],
+    ['string', /"(?:[^"\\\n]|\\.)*"/],
+    ['number', /-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/],
+    ['keyword', /\b(?:true|false|null)\b/],
+  ],
+  javascript: [
+    ['comment', /\/\/[^\n]*|\/\*[\s\S]*?\*\//],
+    ['string', /'(?:[^'\\\n]|\\.)*'|"(?:[^"\\\n]|\\.)*"|`(?:[^`\\]|\\.)*`/],
+    [
+      'keyword',
+      /\b(?:async|await|break|case|catch|class|const|continue|default|delete|do|else|export|extends|finally|for|from|function|if|import|in|instanceof|let|new|of|return|switch|this|throw|try|typeof|var|void|while|yield|true|false|null|undefined)\b/,
+    ],
+    ['number', /\b\d+(?:\.\d+)?\b/],
+  ],
+  shell: [
+    ['comment', /(?<=^|\s)#[^\n]*/],
+    ['string', /'[^']*'|"(?:[^"\\]|\\.)*"/],
+    ['variable', /\$(?:\{[^}\n]*\}|\w+|[@#?$!*])/],
+    ['keyword', /\b(?:if|then|else|elif|fi|for|while|until|do|done|case|esac|in|function|return|local|export|set|echo|exit)\b/],
+  ],
+  markdown: [
+    ['code', /```[\s\S]*?```|`[^`\n]+`/],
+    ['heading', /^#{1,6} [^\n]*/],
+    ['strong', /\*\*[^*\n]+\*\*/],
+    ['link', /\[[^\]\n]+\]\([^)\n]+\)/],
+    ['list', /^[ \t]*(?:[-*+]|\d+\.)(?= )/],
+  ],
+}
+
+/** Escaped HTML of some code with its tokens wrapped in hl-* spans */
+const highlightCode = (code: string, language: EditorLanguage) => {
+  if (language === 'text') return escapeHtml(code)
+  const rules = HIGHLIGHT_RULES[language]
+  const pattern = new RegExp(rules.map(([, rule]) => `(${rule.source})`).join('|'), 'gm')
+  let html = ''
+  let last = 0
+  for (const match of code.matchAll(pattern)) {
+    const index = match.index ?? 0
+    const rule = rules[match.slice(1).findIndex((group) => group !== undefined)]
+    html += `${escapeHtml(code.slice(last, index))}<span class="hl-${rule[0]}">${escapeHtml(match[0])}</span>`
+    last = index + match[0].length
+  }
+  return html + escapeHtml(code.slice(last))
+}
+
+type DiffLine = { type: 'same' | 'added' | 'removed'; text: string }
+
+// Above this many line pairs, the changed middle is shown as all removed, then all added
+const DIFF_MAX_CELLS = 4_000_000
+
+// Unchanged lines shown around each change
+const DIFF_CONTEXT_LINES = 3
+
+/** Line diff of two texts (longest common subsequence of the lines that differ) */
+const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n')
+  const b = after.split('\n')
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+  const lines: DiffLine[] = a.slice(0, start).map((text) => ({ type: 'same', text }))
+  const midA = a.slice(start, endA)
+  const midB = b.slice(start, endB)
+  const n = midA.length
+  const m = midB.length
+  if (n * m > DIFF_MAX_CELLS) {
+    lines.push(...midA.map((text) => ({ type: 'removed' as const, text })))
+    lines.push(...midB.map((text) => ({ type: 'added' as const, text })))
+  } else {
+    const width = m + 1
+    const lcs = new Uint32Array((n + 1) * width)
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1])
+      }
+    }
+    let i = 0
+    let j = 0
+    while (i < n || j < m) {
+      if (i < n && j < m && midA[i] === midB[j]) {
+        lines.push({ type: 'same', text: midA[i++] })
+        j++
+      } else if (j >= m || (i < n && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+        lines.push({ type: 'removed', text: midA[i++] })
+      } else {
+        lines.push({ type: 'added', text: midB[j++] })
+      }
+    }
+  }
+  lines.push(...a.slice(endA).map((text) => ({ type: 'same' as const, text })))
+  return lines
+}
+
+/** Fold long unchanged runs of a diff, keeping DIFF_CONTEXT_LINES around each change */
+const collapseDiff = (lines: DiffLine[]): (DiffLine | { type: 'skip'; count: number })[] => {
+  const changed = lines.map((line) => line.type !== 'same')
+  const near = lines.map((_, index) =>
+    changed.slice(Math.max(0, index - DIFF_CONTEXT_LINES), index + DIFF_CONTEXT_LINES + 1).some(Boolean)
+  )
+  const rows: (DiffLine | { type: 'skip'; count: number })[] = []
+  lines.forEach((line, index) => {
+    if (near[index]) {
+      rows.push(line)
+      return
+    }
+    const previous = rows[rows.length - 1]
+    if (previous?.type === 'skip') {
+      previous.count++
+    } else {
+      rows.push({ type: 'skip', count: 1 })
+    }
+  })
+  return rows
+}
+
 export default function AdminPage() {
   const [locale, setLocale] = useState<Locale>(() => {
     if (typeof window === 'undefined') return 'en'
@@ -172,27 +424,93 @@ export default function AdminPage() {
   const [error, setError] = useState<string | null>(null)
   const [actionInProgress, setActionInProgress] = useState<string | null>(null)
   const [restartInProgress, setRestartInProgress] = useState(false)
+  const [gatewayRestarts, setGatewayRestarts] = useState<GatewayRestartsResponse | null>(null)
+  const [lastWake, setLastWake] = useState<StartupReport | null>(null)
   const [syncInProgress, setSyncInProgress] = useState(false)
+  const [syncHistory, setSyncHistory] = useState<SyncRunRecord[]>([])
+  const [snapshots, setSnapshots] = useState<SnapshotListResponse | null>(null)
+  const [snapshotRestoring, setSnapshotRestoring] = useState<string | null>(null)
+  const [snapshotNotice, setSnapshotNotice] = useState<string | null>(null)
+  const [syncWatch, setSyncWatch] = useState<SyncWatchResponse | null>(null)
+  const [syncDebounceDraft, setSyncDebounceDraft] = useState('')
+  const [syncWatchSaving, setSyncWatchSaving] = useState(false)
+  const [backupVerify, setBackupVerify] = useState<VerifyResponse | null>(null)
+  const [verifyDeep, setVerifyDeep] = useState(false)
+  const [verifyInProgress, setVerifyInProgress] = useState(false)
+  const [syncRules, setSyncRules] = useState<SyncRulesResponse | null>(null)
+  const [syncRulesDraft, setSyncRulesDraft] = useState('')
+  const [syncMaxSizeDraft, setSyncMaxSizeDraft] = useState('')
+  const [syncRulesSaving, setSyncRulesSaving] = useState(false)
+  const [syncRulesNotice, setSyncRulesNotice] = useState<string | null>(null)
+  const [restoreTarget, setRestoreTarget] = useState<string | null>(null)
+  const [restoreSource, setRestoreSource] = useState('')
+  const [restoreBackup, setRestoreBackup] = useState(true)
+  const [restoreInProgress, setRestoreInProgress] = useState(false)
+  const [restoreNotice, setRestoreNotice] = useState<string | null>(null)
+  const [r2Menu, setR2Menu] = useState<{ path: string; x: number; y: number } | null>(null)
+  const [transfer, setTransfer] = useState<{
+    mode: 'copy' | 'move'
+    source: string
+    destination: string
+    overwrite: boolean
+  } | null>(null)
+  const [transferInProgress, setTransferInProgress] = useState(false)
+  const [r2Notice, setR2Notice] = useState<string | null>(null)
+  const [backupIncludeSecrets, setBackupIncludeSecrets] = useState(false)
+  const [backupImportFile, setBackupImportFile] = useState<File | null>(null)
+  const [backupImporting, setBackupImporting] = useState(false)
+  const [backupNotice, setBackupNotice] = useState<string | null>(null)
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([])
+  const [conflictVersions, setConflictVersions] = useState<ConflictVersionsResponse | null>(null)
+  const [conflictMerge, setConflictMerge] = useState('')
+  const [conflictAction, setConflictAction] = useState<string | null>(null)
+  const [conflictNotice, setConflictNotice] = useState<string | null>(null)
   const [r2Prefix, setR2Prefix] = useState('workspace-core/')
   const [r2Objects, setR2Objects] = useState<R2ObjectEntry[]>([])
   const [r2Cursor, setR2Cursor] = useState<string | null>(null)
+  const [r2Folders, setR2Folders] = useState<R2FolderEntry[]>([])
+  const [r2Sort, setR2Sort] = useState<{ by: R2SortField; descending: boolean }>({ by: 'name', descending: false })
+  const [r2Filter, setR2Filter] = useState('')
   const [r2Loading, setR2Loading] = useState(false)
   const [r2Action, setR2Action] = useState<string | null>(null)
-  const [r2UploadFile, setR2UploadFile] = useState<File | null>(null)
+  const [r2UploadItems, setR2UploadItems] = useState<UploadItem[]>([])
+  const [r2UploadProgress, setR2UploadProgress] = useState<UploadProgress | null>(null)
+  const [r2DragOver, setR2DragOver] = useState(false)
+  const r2UploadAbortRef = useRef<AbortController | null>(null)
   const [confirmAction, setConfirmAction] = useState<ConfirmAction | null>(null)
   const [confirmBusy, setConfirmBusy] = useState(false)
-  const [mdPreview, setMdPreview] = useState<{ key: string; content: string } | null>(null)
-  const [mdPreviewLoading, setMdPreviewLoading] = useState(false)
-  const [mdPreviewError, setMdPreviewError] = useState<string | null>(null)
+  const [editor, setEditor] = useState<{
+    key: string
+    language: EditorLanguage
+    contentType: string | null
+    etag: string
+    /** Content as loaded, which the diff compares against */
+    original: string
+    draft: string
+  } | null>(null)
+  const [editorMode, setEditorMode] = useState<'edit' | 'preview' | 'diff'>('edit')
+  const [editorLoading, setEditorLoading] = useState(false)
+  const [editorSaving, setEditorSaving] = useState(false)
+  const [editorError, setEditorError] = useState<string | null>(null)
+  const [editorConflict, setEditorConflict] = useState(false)
+  const [editorNotice, setEditorNotice] = useState<string | null>(null)
+  const editorHighlightRef = useRef<HTMLPreElement>(null)
   const [activeTab, setActiveTab] = useState<'basic' | 'ai'>('basic')
   const [aiConfigLoading, setAiConfigLoading] = useState(false)
   const [aiConfigError, setAiConfigError] = useState<string | null>(null)
   const [aiConfig, setAiConfig] = useState<AiEnvConfigResponse | null>(null)
   const [aiConfigSaving, setAiConfigSaving] = useState(false)
-  const [aiPrimaryProvider, setAiPrimaryProvider] = useState<'anthropic' | 'deepseek'>('anthropic')
+  const [aiPrimaryProvider, setAiPrimaryProvider] = useState('anthropic')
   const [aiPrimaryProviderDirty, setAiPrimaryProviderDirty] = useState(false)
-  const [aiPrimaryModel, setAiPrimaryModel] = useState<'deepseek-chat' | 'deepseek-reasoner'>('deepseek-chat')
+  const [aiPrimaryModel, setAiPrimaryModel] = useState('')
   const [aiPrimaryModelDirty, setAiPrimaryModelDirty] = useState(false)
+  const [aiFallbacks, setAiFallbacks] = useState<AiModelRef[]>([])
+  const [aiFallbacksDirty, setAiFallbacksDirty] = useState(false)
+  const [aiFallbackDragIndex, setAiFallbackDragIndex] = useState<number | null>(null)
+  const [aiApplyResult, setAiApplyResult] = useState<AiApplyResult | null>(null)
+  const [aiTestResult, setAiTestResult] = useState<AiTestResponse | null>(null)
+  const [aiTesting, setAiTesting] = useState(false)
+  const [aiTestError, setAiTestError] = useState<string | null>(null)
   const [baseUrlDrafts, setBaseUrlDrafts] = useState<Record<string, string>>({})
   const [baseUrlDirty, setBaseUrlDirty] = useState<Record<string, boolean>>({})
   const [baseUrlEditing, setBaseUrlEditing] = useState<Record<string, boolean>>({})
@@ -202,6 +520,23 @@ export default function AdminPage() {
   const [apiKeyEditing, setApiKeyEditing] = useState<Record<string, boolean>>({})
   const [apiKeyEditingValue, setApiKeyEditingValue] = useState<Record<string, string>>({})
 
+  // The R2 context menu closes on any click, scroll or Escape
+  useEffect(() => {
+    if (!r2Menu) return
+    const close = () => setR2Menu(null)
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') close()
+    }
+    window.addEventListener('click', close)
+    window.addEventListener('scroll', close, true)
+    window.addEventListener('keydown', onKeyDown)
+    return () => {
+      window.removeEventListener('click', close)
+      window.removeEventListener('scroll', close, true)
+      window.removeEventListener('keydown', onKeyDown)
+    }
+  }, [r2Menu])
+
   useEffect(() => {
     localStorage.setItem('adminLocale', locale)
   }, [locale])
@@ -265,16 +600,98 @@ export default function AdminPage() {
     }
   }, [t])
 
+  const fetchGatewayRestarts = useCallback(async () => {
+    try {
+      setGatewayRestarts(await getGatewayRestarts())
+    } catch (err) {
+      // Restart history is informational only
+      console.error(t('error.fetch_gateway_restarts'), err)
+    }
+  }, [t])
+
+  const fetchLastWake = useCallback(async () => {
+    try {
+      const { reports } = await getStartupReports()
+      setLastWake(reports.find((report) => report.shutdown) ?? null)
+    } catch (err) {
+      // Startup reports are informational only
+      console.error(t('error.fetch_startup_reports'), err)
+    }
+  }, [t])
+
+  const fetchSyncHistory = useCallback(async () => {
+    try {
+      setSyncHistory((await getSyncHistory()).runs)
+    } catch (err) {
+      // Sync history is informational only
+      console.error(t('error.fetch_sync_history'), err)
+    }
+  }, [t])
+
+  const fetchSyncWatch = useCallback(async () => {
+    try {
+      const watch = await getSyncWatch()
+      setSyncWatch(watch)
+      setSyncDebounceDraft(String(watch.debounceSeconds))
+    } catch (err) {
+      // The watcher state is informational only
+      console.error(t('error.fetch_sync_watch'), err)
+    }
+  }, [t])
+
+  const fetchBackupVerify = useCallback(async () => {
+    try {
+      setBackupVerify(await getBackupVerify())
+    } catch (err) {
+      // The verification report is informational only
+      console.error(t('error.fetch_backup_verify'), err)
+    }
+  }, [t])
+
+  const applySyncRulesDrafts = (rules: SyncRules) => {
+    setSyncRulesDraft(rules.rules)
+    setSyncMaxSizeDraft(maxFileBytesToInput(rules.maxFileBytes))
+  }
+
+  const fetchSyncRules = useCallback(async () => {
+    try {
+      const rules = await getSyncRules()
+      setSyncRules(rules)
+      applySyncRulesDrafts(rules)
+    } catch (err) {
+      console.error(t('error.fetch_sync_rules'), err)
+    }
+  }, [t])
+
+  const fetchSnapshots = useCallback(async () => {
+    try {
+      setSnapshots(await listSnapshots())
+    } catch (err) {
+      // Snapshot list is informational only
+      console.error(t('error.fetch_snapshots'), err)
+    }
+  }, [t])
+
+  const fetchConflicts = useCallback(async () => {
+    try {
+      setConflicts((await listConflicts()).conflicts)
+    } catch (err) {
+      console.error(t('error.fetch_conflicts'), err)
+    }
+  }, [t])
+
   const loadAiConfig = useCallback(async () => {
     setAiConfigLoading(true)
     setAiConfigError(null)
     try {
       const config = await getAiEnvConfig()
       setAiConfig(config)
-      setAiPrimaryProvider(config.primaryProvider ?? 'anthropic')
+      setAiPrimaryProvider(config.primaryProvider)
       setAiPrimaryProviderDirty(false)
-      setAiPrimaryModel(config.primaryModel ?? 'deepseek-chat')
+      setAiPrimaryModel(config.primaryModel)
       setAiPrimaryModelDirty(false)
+      setAiFallbacks(config.fallbacks)
+      setAiFallbacksDirty(false)
       setBaseUrlDrafts(
         Object.fromEntries(
           Object.entries(config.baseUrls).map(([key, value]) => [key, value ?? ''])
@@ -295,12 +712,38 @@ export default function AdminPage() {
   }, [t])
 
   const aiBaseUrlKeys = Object.keys(aiConfig?.baseUrls ?? {})
+  const aiPrimaryProviderInfo = aiConfig?.providers.find((provider) => provider.id === aiPrimaryProvider)
+  // A model outside the catalogue is edited as free text
+  const aiCustomModel =
+    !!aiPrimaryProviderInfo?.customModels &&
+    !aiPrimaryProviderInfo.models.some((model) => model.id === aiPrimaryModel)
   const aiApiKeyKeys = Object.keys(aiConfig?.apiKeys ?? {})
 
+  const updateAiFallbacks = (next: AiModelRef[]) => {
+    setAiFallbacks(next)
+    setAiFallbacksDirty(true)
+  }
+
+  const moveAiFallback = (from: number, to: number) => {
+    const next = [...aiFallbacks]
+    const [moved] = next.splice(from, 1)
+    next.splice(to, 0, moved)
+    updateAiFallbacks(next)
+  }
+
+  const addAiFallback = () => {
+    // Suggest a provider that isn't already the primary
+    const provider =
+      aiConfig?.providers.find((p) => p.id !== aiPrimaryProvider) ?? aiConfig?.providers[0]
+    if (!provider) return
+    updateAiFallbacks([...aiFallbacks, { provider: provider.id, model: provider.defaultModel }])
+  }
+
   const saveAiConfig = useCallback(async () => {
     if (!aiConfig) return
     setAiConfigSaving(true)
     setAiConfigError(null)
+    setAiApplyResult(null)
     try {
       const payload: AiEnvConfigUpdate = {}
 
@@ -321,13 +764,17 @@ export default function AdminPage() {
       if (Object.keys(apiKeysUpdate).length > 0) payload.apiKeys = apiKeysUpdate
       if (aiPrimaryProviderDirty) payload.primaryProvider = aiPrimaryProvider
       if (aiPrimaryModelDirty) payload.primaryModel = aiPrimaryModel
+      if (aiFallbacksDirty) payload.fallbacks = aiFallbacks.filter((fallback) => fallback.model.trim() !== '')
 
       const next = await saveAiEnvConfig(payload)
+      setAiApplyResult(next.apply)
       setAiConfig(next)
-      setAiPrimaryProvider(next.primaryProvider ?? 'anthropic')
+      setAiPrimaryProvider(next.primaryProvider)
       setAiPrimaryProviderDirty(false)
-      setAiPrimaryModel(next.primaryModel ?? 'deepseek-chat')
+      setAiPrimaryModel(next.primaryModel)
       setAiPrimaryModelDirty(false)
+      setAiFallbacks(next.fallbacks)
+      setAiFallbacksDirty(false)
       setBaseUrlDrafts(Object.fromEntries(Object.entries(next.baseUrls).map(([k, v]) => [k, v ?? ''])))
       setBaseUrlDirty({})
       setBaseUrlEditing({})
@@ -347,6 +794,8 @@ export default function AdminPage() {
     aiPrimaryProviderDirty,
     aiPrimaryModel,
     aiPrimaryModelDirty,
+    aiFallbacks,
+    aiFallbacksDirty,
     apiKeyDirty,
     apiKeyDrafts,
     baseUrlDirty,
@@ -354,10 +803,24 @@ export default function AdminPage() {
     t,
   ])
 
+  const runAiTest = useCallback(async () => {
+    setAiTesting(true)
+    setAiTestError(null)
+    try {
+      setAiTestResult(await testAiProviders())
+    } catch (err) {
+      setAiTestError(err instanceof Error ? err.message : t('ai.test.error'))
+    } finally {
+      setAiTesting(false)
+    }
+  }, [t])
+
   useEffect(() => {
     fetchDevices()
     fetchStorageStatus()
-  }, [fetchDevices, fetchStorageStatus])
+    fetchGatewayRestarts()
+    fetchLastWake()
+  }, [fetchDevices, fetchStorageStatus, fetchGatewayRestarts, fetchLastWake])
 
   useEffect(() => {
     if (activeTab === 'ai' && !aiConfig && !aiConfigLoading) {
@@ -419,6 +882,7 @@ export default function AdminPage() {
       setError(err instanceof Error ? err.message : t('error.restart_gateway'))
     } finally {
       setRestartInProgress(false)
+      fetchGatewayRestarts()
     }
   }
 
@@ -430,6 +894,8 @@ export default function AdminPage() {
         // Update the storage status with new lastSync time
         setStorageStatus(prev => prev ? { ...prev, lastSync: result.lastSync || null } : null)
         setError(null)
+        fetchSnapshots()
+        fetchConflicts()
       } else {
         setError(result.error || t('error.sync_failed'))
       }
@@ -437,6 +903,40 @@ export default function AdminPage() {
       setError(err instanceof Error ? err.message : t('error.sync'))
     } finally {
       setSyncInProgress(false)
+      fetchSyncHistory()
+      fetchSyncWatch()
+    }
+  }
+
+  const handleSaveSyncWatch = async () => {
+    if (!syncWatch) return
+    const debounceSeconds = Number(syncDebounceDraft)
+    const { min, max } = syncWatch.limits
+    if (!Number.isInteger(debounceSeconds) || debounceSeconds < min || debounceSeconds > max) {
+      setError(t('sync_watch.invalid', { min, max }))
+      return
+    }
+    setSyncWatchSaving(true)
+    try {
+      await saveSyncWatch(debounceSeconds)
+      setSyncWatch({ ...syncWatch, debounceSeconds })
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('sync_watch.error.save'))
+    } finally {
+      setSyncWatchSaving(false)
+    }
+  }
+
+  const handleVerifyBackup = async () => {
+    setVerifyInProgress(true)
+    try {
+      setBackupVerify(await verifyBackup(verifyDeep))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('verify.error.run'))
+    } finally {
+      setVerifyInProgress(false)
     }
   }
 
@@ -495,8 +995,11 @@ export default function AdminPage() {
         prefix: r2Prefix,
         cursor: reset ? undefined : r2Cursor,
         limit: 200,
+        delimiter: '/',
       })
+      const folders = result.delimitedPrefixes ?? []
       setR2Objects(prev => (reset ? result.objects : [...prev, ...result.objects]))
+      setR2Folders(prev => (reset ? folders : [...prev, ...folders]))
       setR2Cursor(result.nextCursor)
     } catch (err) {
       setError(err instanceof Error ? err.message : t('r2.error.load'))
@@ -511,7 +1014,213 @@ export default function AdminPage() {
     }
   }, [storageStatus?.configured, r2Prefix, loadR2Objects])
 
-  const executeR2Delete = async (action: ConfirmAction) => {
+  const openR2Folder = (prefix: string) => {
+    setR2Prefix(prefix)
+    setR2Objects([])
+    setR2Folders([])
+    setR2Cursor(null)
+    setR2Filter('')
+  }
+
+  // Sorting and filtering apply to what has been loaded so far
+  const r2Visible = useMemo(() => {
+    const filter = r2Filter.trim().toLowerCase()
+    const matches = (path: string) => !filter || path.slice(r2Prefix.length).toLowerCase().includes(filter)
+    const direction = r2Sort.descending ? -1 : 1
+    const compare = (
+      a: { name: string; size: number | null; date: string | null },
+      b: { name: string; size: number | null; date: string | null }
+    ) => {
+      if (r2Sort.by === 'size' && a.size !== b.size) return ((a.size ?? -1) - (b.size ?? -1)) * direction
+      if (r2Sort.by === 'date' && a.date !== b.date) return (a.date ?? '').localeCompare(b.date ?? '') * direction
+      return a.name.localeCompare(b.name) * (r2Sort.by === 'name' ? direction : 1)
+    }
+    return {
+      folders: r2Folders
+        .filter(folder => matches(folder.prefix))
+        .sort((a, b) =>
+          compare(
+            { name: a.prefix, size: a.size, date: a.lastModified },
+            { name: b.prefix, size: b.size, date: b.lastModified }
+          )
+        ),
+      objects: r2Objects
+        .filter(obj => matches(obj.key))
+        .sort((a, b) =>
+          compare({ name: a.key, size: a.size, date: a.uploaded }, { name: b.key, size: b.size, date: b.uploaded })
+        ),
+    }
+  }, [r2Folders, r2Objects, r2Filter, r2Sort, r2Prefix])
+
+  const r2Breadcrumbs = r2Prefix
+    .split('/')
+    .filter(Boolean)
+    .map((segment, index, segments) => ({ label: segment, prefix: `${segments.slice(0, index + 1).join('/')}/` }))
+
+  useEffect(() => {
+    if (storageStatus?.configured) {
+      fetchSyncHistory()
+      fetchSyncWatch()
+      fetchBackupVerify()
+      fetchSyncRules()
+      fetchSnapshots()
+      fetchConflicts()
+    }
+  }, [storageStatus?.configured, fetchSyncHistory, fetchSyncWatch, fetchBackupVerify, fetchSyncRules, fetchSnapshots, fetchConflicts])
+
+  const openConflict = async (key: string) => {
+    setConflictAction(key)
+    try {
+      const versions = await getConflictVersions(key)
+      setConflictVersions(versions)
+      // Start the merge from the container's version, which has the agent's latest edits
+      setConflictMerge(versions.container)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('conflicts.error.load'))
+    } finally {
+      setConflictAction(null)
+    }
+  }
+
+  const handleResolveConflict = async (key: string, resolution: ConflictResolution) => {
+    setConflictAction(key)
+    setConflictNotice(null)
+    try {
+      await resolveConflict(key, resolution, resolution === 'merge' ? conflictMerge : undefined)
+      setConflictVersions(null)
+      setConflictNotice(t(
+        resolution === 'merge'
+          ? 'conflicts.resolved.merge'
+          : resolution === 'r2'
+            ? 'conflicts.resolved.r2'
+            : 'conflicts.resolved.container',
+        { key },
+      ))
+      setError(null)
+      fetchConflicts()
+      loadR2Objects(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('conflicts.error.resolve'))
+    } finally {
+      setConflictAction(null)
+    }
+  }
+
+  const handleSaveSyncRules = async () => {
+    const maxSize = syncMaxSizeDraft.trim()
+    const maxSizeMb = Number(maxSize)
+    if (maxSize && (!Number.isFinite(maxSizeMb) || maxSizeMb <= 0)) {
+      setError(t('sync_rules.invalid_max_size'))
+      return
+    }
+    setSyncRulesSaving(true)
+    setSyncRulesNotice(null)
+    try {
+      const saved = await saveSyncRules({
+        rules: syncRulesDraft,
+        maxFileBytes: maxSize ? Math.max(1, Math.round(maxSizeMb * BYTES_PER_MB)) : null,
+      })
+      setSyncRules(saved)
+      applySyncRulesDrafts(saved)
+      setSyncRulesNotice(t('sync_rules.saved'))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('sync_rules.error.save'))
+    } finally {
+      setSyncRulesSaving(false)
+    }
+  }
+
+  const executeSnapshotRestore = async (snapshotId: string) => {
+    setSnapshotRestoring(snapshotId)
+    setSnapshotNotice(null)
+    try {
+      const result = await restoreSnapshot(snapshotId)
+      if (result.failed.length > 0) {
+        setError(t('snapshots.restore_partial', {
+          restored: result.restored,
+          failed: result.failed.map(entry => `${entry.key} (${entry.error})`).join(', '),
+        }))
+      } else {
+        setSnapshotNotice(t('snapshots.restored', { count: result.restored }))
+        setError(null)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('snapshots.error.restore'))
+    } finally {
+      setSnapshotRestoring(null)
+    }
+  }
+
+  const executeBackupImport = async (file: File) => {
+    setBackupImporting(true)
+    setBackupNotice(null)
+    try {
+      const result = await importBackupArchive(file, backupIncludeSecrets)
+      setBackupImportFile(null)
+      if (result.containerError || (result.container && result.container.failed.length > 0)) {
+        setError(t('backup.import_partial', {
+          files: result.files,
+          error: result.containerError
+            ?? (result.container?.failed ?? []).map(entry => `${entry.key} (${entry.error})`).join(', '),
+        }))
+      } else {
+        setBackupNotice(t('backup.imported', { files: result.files, removed: result.removed }))
+        setError(null)
+      }
+      fetchSnapshots()
+      fetchConflicts()
+      loadR2Objects(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('backup.error.import'))
+    } finally {
+      setBackupImporting(false)
+    }
+  }
+
+  const openRestore = (path: string) => {
+    setRestoreTarget(path)
+    setRestoreSource('')
+    setRestoreBackup(true)
+    setRestoreNotice(null)
+    if (!snapshots) fetchSnapshots()
+  }
+
+  const handleRestoreToContainer = async () => {
+    if (!restoreTarget) return
+    setRestoreInProgress(true)
+    try {
+      const result = await restoreToContainer({
+        paths: [restoreTarget],
+        snapshotId: restoreSource || undefined,
+        backup: restoreBackup,
+      })
+      setRestoreTarget(null)
+      if (result.failed.length > 0) {
+        setError(t('restore.partial', {
+          restored: result.restored.length,
+          failed: result.failed.map(entry => `${entry.key} (${entry.error})`).join(', '),
+        }))
+      } else if (result.restored.length === 0) {
+        setError(result.notFound.length > 0
+          ? t('restore.not_found', { path: result.notFound.join(', ') })
+          : t('restore.nothing', { skipped: result.skipped.length }))
+      } else {
+        setRestoreNotice(t('restore.done', {
+          count: result.restored.length,
+          backups: result.backups.length,
+          skipped: result.skipped.length,
+        }))
+        setError(null)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('restore.error'))
+    } finally {
+      setRestoreInProgress(false)
+    }
+  }
+
+  const executeR2Delete = async (action: Extract<ConfirmAction, { type: 'delete-object' | 'delete-prefix' }>) => {
     const isPrefix = action.type === 'delete-prefix'
     const target = isPrefix ? action.prefix : action.key
     setR2Action(target)
@@ -538,6 +1247,48 @@ export default function AdminPage() {
     }
   }
 
+  const openR2Menu = (path: string, x: number, y: number) => {
+    setR2Menu({ path, x, y })
+  }
+
+  const openTransfer = (mode: 'copy' | 'move', source: string) => {
+    setR2Menu(null)
+    setR2Notice(null)
+    setTransfer({ mode, source, destination: source, overwrite: false })
+  }
+
+  const handleTransfer = async () => {
+    if (!transfer) return
+    setTransferInProgress(true)
+    try {
+      const result = await transferR2Objects(
+        transfer.mode,
+        transfer.source,
+        transfer.destination.trim(),
+        transfer.overwrite
+      )
+      setTransfer(null)
+      await loadR2Objects(true)
+      if (result.failed.length > 0 || result.skipped.length > 0) {
+        setError(t('r2.transfer.partial', {
+          done: result.done.length,
+          skipped: result.skipped.map(entry => `${entry.from} (${t(`r2.transfer.skipped_${entry.reason}`)})`).join(', ') || '-',
+          failed: result.failed.map(entry => `${entry.from} (${entry.error})`).join(', ') || '-',
+        }))
+      } else {
+        setR2Notice(t(transfer.mode === 'move' ? 'r2.transfer.moved' : 'r2.transfer.copied', {
+          count: result.done.length,
+          destination: result.destination,
+        }))
+        setError(null)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('r2.transfer.error'))
+    } finally {
+      setTransferInProgress(false)
+    }
+  }
+
   const handleR2DeleteObject = (key: string) => {
     if (key.endsWith('/')) {
       setConfirmAction({ type: 'delete-prefix', prefix: key })
@@ -551,34 +1302,124 @@ export default function AdminPage() {
   }
 
   const handleR2Upload = async () => {
-    if (!r2UploadFile) return
+    if (r2UploadItems.length === 0) return
+    const controller = new AbortController()
+    r2UploadAbortRef.current = controller
     setR2Action('upload')
     try {
-      await uploadR2Object(r2Prefix, r2UploadFile)
-      setR2UploadFile(null)
+      const result = await uploadFiles(r2Prefix, r2UploadItems, setR2UploadProgress, controller.signal)
+      setR2UploadItems([])
       await loadR2Objects(true)
-      setError(null)
+      setError(
+        result.failed.length > 0
+          ? t('r2.upload.failed', {
+              count: result.failed.length,
+              files: result.failed.map((entry) => `${entry.path} (${entry.error})`).join(', '),
+            })
+          : null
+      )
     } catch (err) {
-      setError(err instanceof Error ? err.message : t('r2.error.upload'))
+      if (err instanceof DOMException && err.name === 'AbortError') {
+        await loadR2Objects(true)
+      } else {
+        setError(err instanceof Error ? err.message : t('r2.error.upload'))
+      }
     } finally {
+      r2UploadAbortRef.current = null
+      setR2UploadProgress(null)
       setR2Action(null)
     }
   }
 
-  const handleMdPreview = async (key: string) => {
-    setMdPreview({ key, content: '' })
-    setMdPreviewLoading(true)
-    setMdPreviewError(null)
+  const handleR2UploadDrop = async (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    setR2DragOver(false)
+    if (r2Action !== null) return
+    try {
+      const items = await collectDroppedFiles(event.dataTransfer)
+      if (items.length > 0) setR2UploadItems(items)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('r2.error.upload'))
+    }
+  }
+
+  const openEditor = async (key: string, language: EditorLanguage) => {
+    setEditor({ key, language, contentType: null, etag: '', original: '', draft: '' })
+    setEditorMode('edit')
+    setEditorLoading(true)
+    setEditorError(null)
+    setEditorConflict(false)
+    setEditorNotice(null)
     try {
       const result = await getR2ObjectContent(key)
-      setMdPreview({ key: result.key, content: result.content })
+      setEditor({
+        key: result.key,
+        language,
+        contentType: result.contentType,
+        etag: result.etag,
+        original: result.content,
+        draft: result.content,
+      })
+    } catch (err) {
+      setEditorError(err instanceof Error ? err.message : t('r2.preview_error'))
+    } finally {
+      setEditorLoading(false)
+    }
+  }
+
+  const closeEditor = () => {
+    if (editor && editor.draft !== editor.original && !confirm(t('editor.discard_confirm'))) {
+      return
+    }
+    setEditor(null)
+    setEditorError(null)
+    setEditorConflict(false)
+    setEditorNotice(null)
+  }
+
+  const handleEditorSave = async () => {
+    if (!editor) return
+    setEditorSaving(true)
+    setEditorNotice(null)
+    try {
+      const result = await saveR2ObjectContent(editor.key, editor.draft, editor.etag, editor.contentType)
+      setEditor({ ...editor, etag: result.etag, original: editor.draft })
+      setEditorMode('edit')
+      setEditorError(null)
+      setEditorConflict(false)
+      setEditorNotice(t('editor.saved'))
+      loadR2Objects(true)
+    } catch (err) {
+      setEditorConflict(err instanceof R2ConflictError)
+      setEditorError(err instanceof Error ? err.message : t('editor.error.save'))
+    } finally {
+      setEditorSaving(false)
+    }
+  }
+
+  // Compare the draft with what is in R2 now, so saving again overwrites it knowingly
+  const handleEditorLoadLatest = async () => {
+    if (!editor) return
+    setEditorLoading(true)
+    try {
+      const latest = await getR2ObjectContent(editor.key)
+      setEditor({ ...editor, etag: latest.etag, contentType: latest.contentType, original: latest.content })
+      setEditorMode('diff')
+      setEditorError(null)
+      setEditorConflict(false)
     } catch (err) {
-      setMdPreviewError(err instanceof Error ? err.message : t('r2.preview_error'))
+      setEditorError(err instanceof Error ? err.message : t('r2.preview_error'))
     } finally {
-      setMdPreviewLoading(false)
+      setEditorLoading(false)
     }
   }
 
+  const editorDiff = useMemo(
+    () => (editor && editorMode === 'diff' ? collapseDiff(diffLines(editor.original, editor.draft)) : []),
+    [editor, editorMode]
+  )
+
+
   return (
     <div className="devices-page">
       <div className="page-toolbar">
@@ -688,6 +1529,20 @@ export default function AdminPage() {
         </div>
       )}
 
+      {lastWake?.shutdown && !lastWake.shutdown.clean && (
+        <div className="warning-banner">
+          <div className="warning-content">
+            <strong>{t('sleep.unclean_title')}</strong>
+            <p>
+              {t('sleep.unclean_body', {
+                time: formatSyncTime(lastWake.startedAt),
+                lastSync: formatSyncTime(lastWake.shutdown.lastSync ?? null),
+              })}
+            </p>
+          </div>
+        </div>
+      )}
+
       {storageStatus?.configured && (
         <div className="success-banner">
           <div className="storage-status">
@@ -696,17 +1551,100 @@ export default function AdminPage() {
               <span className="last-sync">
                 {t('storage.last_backup', { time: formatSyncTime(storageStatus.lastSync) })}
               </span>
+              {syncWatch && (
+                <span className={`last-sync${syncWatch.pending ? ' sync-watch-pending' : ''}`}>
+                  {!syncWatch.watcher
+                    ? t('sync_watch.off')
+                    : syncWatch.watcher.status === 'error'
+                      ? t('sync_watch.stopped', { error: syncWatch.watcher.lastError ?? '' })
+                      : syncWatch.pending
+                        ? t('sync_watch.pending', {
+                          count: syncWatch.watcher.pendingChanges,
+                          time: formatSyncTime(syncWatch.watcher.pendingSince),
+                        })
+                        : t('sync_watch.idle')}
+                </span>
+              )}
+              {backupVerify && (
+                <span className="last-sync verify-status">
+                  <span className={`verify-badge ${backupVerify.report?.status ?? 'unknown'}`}>
+                    {t(VERIFY_STATUS_LABELS[backupVerify.report?.status ?? 'unknown'])}
+                  </span>
+                  {backupVerify.report
+                    ? t('verify.checked', {
+                      time: formatSyncTime(backupVerify.report.checkedAt),
+                      count: backupVerify.report.issueCount,
+                    })
+                    : t('verify.never')}
+                </span>
+              )}
+              {backupVerify?.report && backupVerify.report.issueCount > 0 && (
+                <details className="verify-issues">
+                  <summary>{t('verify.issues', { count: backupVerify.report.issueCount })}</summary>
+                  <ul>
+                    {backupVerify.report.issues.map((issue) => (
+                      <li key={`${issue.problem}:${issue.key}`} className={issue.severity}>
+                        <code>{issue.key}</code> {t(VERIFY_PROBLEM_LABELS[issue.problem])}
+                        {issue.detail ? ` (${issue.detail})` : ''}
+                      </li>
+                    ))}
+                  </ul>
+                  {backupVerify.report.issueCount > backupVerify.report.issues.length && (
+                    <p>{t('verify.more', { count: backupVerify.report.issueCount - backupVerify.report.issues.length })}</p>
+                  )}
+                </details>
+              )}
+              {syncWatch && (
+                <label className="sync-watch-form">
+                  <span>{t('sync_watch.debounce')}</span>
+                  <input
+                    className="env-input"
+                    type="number"
+                    min={syncWatch.limits.min}
+                    max={syncWatch.limits.max}
+                    step="1"
+                    value={syncDebounceDraft}
+                    onChange={(e) => setSyncDebounceDraft(e.currentTarget.value)}
+                  />
+                  <button
+                    className="btn btn-secondary btn-sm"
+                    onClick={handleSaveSyncWatch}
+                    disabled={syncWatchSaving || syncDebounceDraft === String(syncWatch.debounceSeconds)}
+                  >
+                    {syncWatchSaving && <ButtonSpinner />}
+                    {t('sync_watch.save')}
+                  </button>
+                </label>
+              )}
             </div>
-            <button
-              className="btn btn-secondary btn-sm"
-              onClick={handleSync}
-              disabled={syncInProgress}
-            >
-              {syncInProgress && <ButtonSpinner />}
-              {syncInProgress ? t('storage.syncing') : t('storage.backup_now')}
-            </button>
-          </div>
-        </div>
+            <div className="storage-actions">
+              <label className="sync-watch-form">
+                <input
+                  type="checkbox"
+                  checked={verifyDeep}
+                  onChange={(e) => setVerifyDeep(e.currentTarget.checked)}
+                />
+                <span>{t('verify.deep')}</span>
+              </label>
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={handleVerifyBackup}
+                disabled={verifyInProgress}
+              >
+                {verifyInProgress && <ButtonSpinner />}
+                {verifyInProgress ? t('verify.running') : t('verify.run')}
+              </button>
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={handleSync}
+                disabled={syncInProgress}
+              >
+                {syncInProgress && <ButtonSpinner />}
+                {syncInProgress ? t('storage.syncing') : t('storage.backup_now')}
+              </button>
+            </div>
+          </div>
+        </div>
       )}
 
       <section className="devices-section gateway-section">
@@ -724,6 +1662,60 @@ export default function AdminPage() {
         <p className="hint">
           {t('gateway.hint')}
         </p>
+        {gatewayRestarts?.crashLoop && (
+          <div className="warning-banner gateway-watchdog-banner">
+            <div className="warning-content">
+              <strong>{t('gateway.watchdog.crash_loop_title')}</strong>
+              <p>{t('gateway.watchdog.crash_loop_hint', { count: gatewayRestarts.consecutiveRestarts })}</p>
+            </div>
+          </div>
+        )}
+        {gatewayRestarts && !gatewayRestarts.crashLoop && gatewayRestarts.nextAttemptAt && (
+          <p className="hint">
+            {t('gateway.watchdog.backoff', { time: formatSyncTime(gatewayRestarts.nextAttemptAt) })}
+          </p>
+        )}
+        <h3 className="gateway-subtitle">{t('gateway.watchdog.history_title')}</h3>
+        {!gatewayRestarts || gatewayRestarts.history.length === 0 ? (
+          <p className="hint">{t('gateway.watchdog.history_empty')}</p>
+        ) : (
+          <div className="devices-grid">
+            {gatewayRestarts.history.map((record) => (
+              <div key={record.at} className={`device-card ${record.outcome === 'failed' ? 'pending' : ''}`}>
+                <div className="device-header">
+                  <span className="device-name">{formatSyncTime(record.at)}</span>
+                  <span className={`device-badge ${record.outcome === 'failed' ? 'pending' : 'paired'}`}>
+                    {record.outcome === 'failed' ? t('gateway.watchdog.outcome_failed') : t('gateway.watchdog.outcome_restarted')}
+                  </span>
+                </div>
+                <div className="device-details">
+                  <div className="detail-row">
+                    <span className="label">{t('gateway.watchdog.trigger')}</span>
+                    <span className="value">
+                      {record.trigger === 'crashed' ? t('gateway.watchdog.trigger_crashed') : t('gateway.watchdog.trigger_unhealthy')}
+                    </span>
+                  </div>
+                  <div className="detail-row">
+                    <span className="label">{t('gateway.watchdog.exit_code')}</span>
+                    <span className="value">{record.exitCode ?? '-'}</span>
+                  </div>
+                  {record.error && (
+                    <div className="detail-row">
+                      <span className="label">{t('gateway.watchdog.error')}</span>
+                      <span className="value">{record.error}</span>
+                    </div>
+                  )}
+                  {record.stderrTail && (
+                    <details className="gateway-stderr">
+                      <summary>{t('gateway.watchdog.stderr')}</summary>
+                      <pre>{record.stderrTail}</pre>
+                    </details>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
       </section>
 
       {loading ? (
@@ -885,6 +1877,290 @@ export default function AdminPage() {
         </>
       )}
 
+      {storageStatus?.configured && (
+        <section className="devices-section">
+          <div className="section-header">
+            <h2>{t('sync_history.title')}</h2>
+            <div className="header-actions">
+              <button className="btn btn-secondary btn-sm" onClick={fetchSyncHistory}>
+                {t('action.refresh')}
+              </button>
+            </div>
+          </div>
+          {syncHistory.length === 0 ? (
+            <div className="empty-state">
+              <p>{t('sync_history.empty')}</p>
+            </div>
+          ) : (
+            <>
+              <div className="sync-sparkline-row">
+                <SyncSparkline runs={syncHistory} />
+                <span className="hint">{t('sync_history.sparkline', { count: syncHistory.length })}</span>
+              </div>
+              <div className="sync-history-table">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>{t('sync_history.time')}</th>
+                      <th>{t('sync_history.trigger')}</th>
+                      <th>{t('sync_history.duration')}</th>
+                      <th>{t('sync_history.files')}</th>
+                      <th>{t('sync_history.transferred')}</th>
+                      <th>{t('sync_history.status')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {syncHistory.slice(0, SYNC_HISTORY_ROWS).map((run) => (
+                      <tr key={run.at} className={run.success ? undefined : 'sync-run-failed'}>
+                        <td>{formatSyncTime(run.at)}</td>
+                        <td>
+                          {run.trigger === 'cron'
+                            ? t('sync_history.trigger_cron')
+                            : run.trigger === 'watch'
+                              ? t('sync_history.trigger_watch')
+                              : run.trigger === 'pre-sleep'
+                                ? t('sync_history.trigger_pre_sleep')
+                                : t('sync_history.trigger_manual')}
+                        </td>
+                        <td>{(run.durationMs / 1000).toFixed(1)} s</td>
+                        <td>
+                          {run.stats
+                            ? t('sync_history.files_value', {
+                                added: run.stats.added,
+                                changed: run.stats.changed,
+                                deleted: run.stats.deleted,
+                              })
+                            : '-'}
+                          {run.stats && run.stats.restored > 0 && (
+                            <span className="sync-run-note">
+                              {t('sync_history.restored', { count: run.stats.restored })}
+                            </span>
+                          )}
+                        </td>
+                        <td>
+                          {run.stats
+                            ? `↑ ${formatBytes(run.stats.bytesUploaded)} ↓ ${formatBytes(run.stats.bytesDownloaded)}`
+                            : '-'}
+                        </td>
+                        <td title={run.error}>
+                          {run.success ? t('sync_history.ok') : run.error || t('sync_history.failed')}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </section>
+      )}
+
+      {storageStatus?.configured && syncRules && (
+        <section className="devices-section">
+          <div className="section-header">
+            <h2>{t('sync_rules.title')}</h2>
+            <div className="header-actions">
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={() => applySyncRulesDrafts(syncRules.defaults)}
+                disabled={syncRulesSaving}
+              >
+                {t('sync_rules.reset')}
+              </button>
+              <button className="btn btn-primary btn-sm" onClick={handleSaveSyncRules} disabled={syncRulesSaving}>
+                {syncRulesSaving && <ButtonSpinner />}
+                {t('sync_rules.save')}
+              </button>
+            </div>
+          </div>
+          <p className="hint">{t('sync_rules.hint')}</p>
+          {syncRulesNotice && <div className="success-banner">{syncRulesNotice}</div>}
+          <textarea
+            className="env-input sync-rules-editor"
+            value={syncRulesDraft}
+            spellCheck={false}
+            onChange={(e) => {
+              setSyncRulesDraft(e.currentTarget.value)
+              setSyncRulesNotice(null)
+            }}
+          />
+          <div className="env-title">{t('sync_rules.max_size')}</div>
+          <div className="env-editor">
+            <input
+              className="env-input sync-rules-max-size"
+              type="number"
+              min="0"
+              step="any"
+              value={syncMaxSizeDraft}
+              placeholder={t('sync_rules.max_size_placeholder')}
+              onChange={(e) => {
+                setSyncMaxSizeDraft(e.currentTarget.value)
+                setSyncRulesNotice(null)
+              }}
+            />
+          </div>
+        </section>
+      )}
+
+      {storageStatus?.configured && (
+        <section className="devices-section">
+          <div className="section-header">
+            <h2>{t('backup.title')}</h2>
+            <div className="header-actions">
+              <a className="btn btn-secondary btn-sm" href={backupExportUrl(backupIncludeSecrets)} download>
+                {t('backup.export')}
+              </a>
+            </div>
+          </div>
+          <p className="hint">{t('backup.hint')}</p>
+          {backupNotice && <div className="success-banner">{backupNotice}</div>}
+          <div className="r2-toolbar">
+            <label className="r2-field">
+              <span className="r2-label">{t('backup.import_label')}</span>
+              <input
+                className="r2-file"
+                type="file"
+                accept=".tar.gz,.tgz,application/gzip"
+                onChange={(event) => setBackupImportFile(event.target.files?.[0] ?? null)}
+              />
+            </label>
+            <button
+              className="btn btn-danger btn-sm"
+              onClick={() => backupImportFile && setConfirmAction({ type: 'import-backup', file: backupImportFile })}
+              disabled={!backupImportFile || backupImporting}
+            >
+              {backupImporting && <ButtonSpinner />}
+              {t('backup.import')}
+            </button>
+          </div>
+          <label className="env-option">
+            <input
+              type="checkbox"
+              checked={backupIncludeSecrets}
+              onChange={(event) => setBackupIncludeSecrets(event.target.checked)}
+            />
+            <span>{t('backup.include_secrets')}</span>
+          </label>
+        </section>
+      )}
+
+      {storageStatus?.configured && (conflicts.length > 0 || conflictNotice) && (
+        <section className="devices-section">
+          <div className="section-header">
+            <h2>{t('conflicts.title')}</h2>
+            <div className="header-actions">
+              <button className="btn btn-secondary btn-sm" onClick={fetchConflicts}>
+                {t('action.refresh')}
+              </button>
+            </div>
+          </div>
+          <p className="hint">{t('conflicts.hint')}</p>
+          {conflictNotice && <div className="success-banner">{conflictNotice}</div>}
+          {conflicts.length > 0 && (
+            <div className="devices-grid">
+              {conflicts.map((conflict) => (
+                <div key={conflict.key} className="device-card">
+                  <div className="device-header">
+                    <span className="device-name">{conflict.key}</span>
+                    <div className="device-actions">
+                      <button
+                        className="btn btn-primary btn-sm"
+                        onClick={() => openConflict(conflict.key)}
+                        disabled={conflictAction !== null}
+                      >
+                        {conflictAction === conflict.key && <ButtonSpinner />}
+                        {t('conflicts.resolve')}
+                      </button>
+                    </div>
+                  </div>
+                  <div className="device-details">
+                    <div className="detail-row">
+                      <span className="label">{t('conflicts.detected')}</span>
+                      <span className="value">{formatSyncTime(conflict.detectedAt)}</span>
+                    </div>
+                    <div className="detail-row">
+                      <span className="label">{t('conflicts.container')}</span>
+                      <span className="value">{formatBytes(conflict.container.size)}</span>
+                    </div>
+                    <div className="detail-row">
+                      <span className="label">{t('conflicts.r2')}</span>
+                      <span className="value">{formatBytes(conflict.r2.size)}</span>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      )}
+
+      {storageStatus?.configured && (
+        <section className="devices-section">
+          <div className="section-header">
+            <h2>{t('snapshots.title')}</h2>
+            <div className="header-actions">
+              <button className="btn btn-secondary btn-sm" onClick={fetchSnapshots}>
+                {t('action.refresh')}
+              </button>
+            </div>
+          </div>
+          <p className="hint">
+            {snapshots
+              ? t('snapshots.hint', {
+                  hourly: snapshots.retention.hourly,
+                  daily: snapshots.retention.daily,
+                  weekly: snapshots.retention.weekly,
+                })
+              : t('snapshots.hint_short')}
+          </p>
+          {snapshotNotice && <div className="success-banner">{snapshotNotice}</div>}
+          {!snapshots || snapshots.snapshots.length === 0 ? (
+            <div className="empty-state">
+              <p>{t('snapshots.empty')}</p>
+            </div>
+          ) : (
+            <div className="devices-grid">
+              {snapshots.snapshots.map((snapshot) => (
+                <div key={snapshot.id} className="device-card">
+                  <div className="device-header">
+                    <span className="device-name">{formatSyncTime(snapshot.createdAt)}</span>
+                    <div className="device-actions">
+                      <button
+                        className="btn btn-secondary btn-sm"
+                        onClick={() => setConfirmAction({ type: 'restore-snapshot', snapshotId: snapshot.id })}
+                        disabled={snapshotRestoring !== null || confirmBusy}
+                      >
+                        {snapshotRestoring === snapshot.id && <ButtonSpinner />}
+                        {snapshotRestoring === snapshot.id ? t('snapshots.restoring') : t('snapshots.restore')}
+                      </button>
+                    </div>
+                  </div>
+                  <div className="device-details">
+                    <div className="detail-row">
+                      <span className="label">{t('snapshots.files')}</span>
+                      <span className="value">{snapshot.fileCount} ({formatBytes(snapshot.totalBytes)})</span>
+                    </div>
+                    <div className="detail-row">
+                      <span className="label">{t('snapshots.changes')}</span>
+                      <span className="value">
+                        {t('snapshots.changes_value', {
+                          changed: snapshot.changedFiles,
+                          removed: snapshot.removedFiles,
+                        })}
+                      </span>
+                    </div>
+                    <div className="detail-row">
+                      <span className="label">{t('snapshots.id')}</span>
+                      <span className="value">{snapshot.id}</span>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      )}
+
       {storageStatus?.configured && (
         <section className="devices-section">
           <div className="section-header">
@@ -898,6 +2174,24 @@ export default function AdminPage() {
                 {r2Loading && <ButtonSpinner />}
                 {t('action.refresh')}
               </button>
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={() => openRestore(r2Prefix)}
+                disabled={restoreInProgress}
+              >
+                {t('restore.prefix')}
+              </button>
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={(event) => {
+                  event.stopPropagation()
+                  const rect = event.currentTarget.getBoundingClientRect()
+                  openR2Menu(r2Prefix, rect.left, rect.bottom)
+                }}
+                aria-label={t('r2.menu.open')}
+              >
+                {t('r2.menu.prefix')}
+              </button>
               <button
                 className="btn btn-danger btn-sm"
                 onClick={handleR2DeletePrefix}
@@ -909,18 +2203,33 @@ export default function AdminPage() {
             </div>
           </div>
           <p className="hint">{t('r2.hint')}</p>
+          {restoreNotice && <div className="success-banner">{restoreNotice}</div>}
+          {r2Notice && <div className="success-banner">{r2Notice}</div>}
+          <nav className="r2-breadcrumb" aria-label={t('r2.breadcrumb')}>
+            {r2Breadcrumbs.map((crumb, index) => (
+              <span key={crumb.prefix}>
+                {index > 0 && <span className="r2-breadcrumb-separator">/</span>}
+                {crumb.prefix === r2Prefix ? (
+                  <span className="r2-breadcrumb-current">{crumb.label}</span>
+                ) : (
+                  <button type="button" className="r2-md-link" onClick={() => openR2Folder(crumb.prefix)}>
+                    {crumb.label}
+                  </button>
+                )}
+              </span>
+            ))}
+          </nav>
           <div className="r2-toolbar">
             <label className="r2-field">
               <span className="r2-label">{t('r2.prefix.label')}</span>
               <select
                 className="r2-select"
-                value={r2Prefix}
-                onChange={(event) => {
-                  const value = event.target.value
-                  setR2Prefix(value)
-                  setR2Objects([])
-                  setR2Cursor(null)
-                }}
+                value={
+                  r2PrefixOptions
+                    .filter(option => r2Prefix.startsWith(option.value))
+                    .sort((a, b) => b.value.length - a.value.length)[0]?.value ?? r2Prefix
+                }
+                onChange={(event) => openR2Folder(event.target.value)}
               >
                 {r2PrefixOptions.map(option => (
                   <option key={option.value} value={option.value}>
@@ -930,51 +2239,217 @@ export default function AdminPage() {
               </select>
             </label>
             <label className="r2-field">
-              <span className="r2-label">{t('r2.upload.label')}</span>
+              <span className="r2-label">{t('r2.filter.label')}</span>
               <input
                 className="r2-file"
-                type="file"
-                onChange={(event) => setR2UploadFile(event.target.files?.[0] ?? null)}
+                type="search"
+                value={r2Filter}
+                placeholder={t('r2.filter.placeholder')}
+                onChange={(event) => setR2Filter(event.target.value)}
               />
             </label>
+            <label className="r2-field r2-sort">
+              <span className="r2-label">{t('r2.sort.label')}</span>
+              <div className="r2-sort-controls">
+                <select
+                  className="r2-select"
+                  value={r2Sort.by}
+                  onChange={(event) => setR2Sort({ ...r2Sort, by: event.target.value as R2SortField })}
+                >
+                  <option value="name">{t('r2.sort.name')}</option>
+                  <option value="size">{t('r2.sort.size')}</option>
+                  <option value="date">{t('r2.sort.date')}</option>
+                </select>
+                <button
+                  type="button"
+                  className="btn btn-secondary btn-sm"
+                  onClick={() => setR2Sort({ ...r2Sort, descending: !r2Sort.descending })}
+                  aria-label={r2Sort.descending ? t('r2.sort.descending') : t('r2.sort.ascending')}
+                  title={r2Sort.descending ? t('r2.sort.descending') : t('r2.sort.ascending')}
+                >
+                  {r2Sort.descending ? '↓' : '↑'}
+                </button>
+              </div>
+            </label>
+            <div className="r2-field">
+              <span className="r2-label">{t('r2.upload.label')}</span>
+              <div
+                className={`r2-dropzone${r2DragOver ? ' drag-over' : ''}`}
+                onDragOver={(event) => {
+                  event.preventDefault()
+                  setR2DragOver(true)
+                }}
+                onDragLeave={() => setR2DragOver(false)}
+                onDrop={handleR2UploadDrop}
+              >
+                <input
+                  className="r2-file"
+                  type="file"
+                  multiple
+                  disabled={r2Action !== null}
+                  onChange={(event) =>
+                    setR2UploadItems(Array.from(event.target.files ?? [], (file) => ({ file, path: file.name })))
+                  }
+                />
+                <span className="r2-dropzone-hint">
+                  {r2UploadItems.length > 0
+                    ? t('r2.upload.selected', {
+                        count: r2UploadItems.length,
+                        size: formatBytes(r2UploadItems.reduce((total, item) => total + item.file.size, 0)),
+                      })
+                    : t('r2.upload.drop_hint')}
+                </span>
+              </div>
+            </div>
             <button
               className="btn btn-primary btn-sm"
               onClick={handleR2Upload}
-              disabled={!r2UploadFile || r2Action !== null}
+              disabled={r2UploadItems.length === 0 || r2Action !== null}
             >
               {r2Action === 'upload' && <ButtonSpinner />}
               {t('r2.upload.action')}
             </button>
+            {r2Action === 'upload' && (
+              <button className="btn btn-secondary btn-sm" onClick={() => r2UploadAbortRef.current?.abort()}>
+                {t('r2.upload.cancel')}
+              </button>
+            )}
           </div>
+          {r2UploadProgress && (
+            <div className="upload-progress">
+              <div className="upload-progress-track">
+                <div
+                  className="upload-progress-bar"
+                  style={{
+                    width: `${r2UploadProgress.total > 0 ? (r2UploadProgress.loaded / r2UploadProgress.total) * 100 : 100}%`,
+                  }}
+                />
+              </div>
+              <span className="hint">
+                {t('r2.upload.progress', {
+                  done: r2UploadProgress.done,
+                  count: r2UploadProgress.count,
+                  loaded: formatBytes(r2UploadProgress.loaded),
+                  total: formatBytes(r2UploadProgress.total),
+                })}
+                {r2UploadProgress.current && ` · ${r2UploadProgress.current}`}
+              </span>
+            </div>
+          )}
           {r2Loading ? (
             <div className="loading">
               <div className="spinner"></div>
               <p>{t('r2.loading')}</p>
             </div>
-          ) : r2Objects.length === 0 ? (
+          ) : r2Objects.length === 0 && r2Folders.length === 0 ? (
             <div className="empty-state">
               <p>{t('r2.empty')}</p>
             </div>
+          ) : r2Visible.objects.length === 0 && r2Visible.folders.length === 0 ? (
+            <div className="empty-state">
+              <p>{t('r2.filter.no_match')}</p>
+            </div>
           ) : (
             <>
               <div className="devices-grid r2-grid">
-                {r2Objects.map((obj) => {
-                  const isMarkdown = obj.key.toLowerCase().endsWith('.md')
+                {r2Visible.folders.map((folder) => (
+                  <div
+                    key={folder.prefix}
+                    className="device-card r2-folder"
+                    onContextMenu={(event) => {
+                      event.preventDefault()
+                      openR2Menu(folder.prefix, event.clientX, event.clientY)
+                    }}
+                  >
+                    <div className="device-header">
+                      <button
+                        type="button"
+                        className="r2-md-link"
+                        onClick={() => openR2Folder(folder.prefix)}
+                        title={folder.prefix}
+                      >
+                        📁 {folder.prefix.slice(r2Prefix.length)}
+                      </button>
+                      <div className="device-actions">
+                        <button
+                          className="btn btn-secondary btn-sm"
+                          onClick={(event) => {
+                            event.stopPropagation()
+                            const rect = event.currentTarget.getBoundingClientRect()
+                            openR2Menu(folder.prefix, rect.left, rect.bottom)
+                          }}
+                          aria-label={t('r2.menu.open')}
+                        >
+                          ⋯
+                        </button>
+                      </div>
+                    </div>
+                    <div className="device-details">
+                      <div className="detail-row">
+                        <span className="label">{t('r2.folder.objects')}</span>
+                        <span className="value">{folder.count ?? t('r2.folder.too_many')}</span>
+                      </div>
+                      <div className="detail-row">
+                        <span className="label">{t('r2.object.size')}</span>
+                        <span className="value">{folder.size === null ? '—' : formatBytes(folder.size)}</span>
+                      </div>
+                      <div className="detail-row">
+                        <span className="label">{t('r2.object.updated')}</span>
+                        <span className="value">{folder.lastModified ? formatSyncTime(folder.lastModified) : '—'}</span>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+                {r2Visible.objects.map((obj) => {
+                  const language = obj.size <= EDITOR_MAX_BYTES ? editorLanguageForKey(obj.key) : null
                   return (
-                    <div key={obj.key} className="device-card">
+                    <div
+                      key={obj.key}
+                      className="device-card"
+                      onContextMenu={(event) => {
+                        event.preventDefault()
+                        openR2Menu(obj.key, event.clientX, event.clientY)
+                      }}
+                    >
                       <div className="device-header">
-                        {isMarkdown ? (
+                        {language ? (
                           <button
                             type="button"
                             className="r2-md-link"
-                            onClick={() => handleMdPreview(obj.key)}
+                            onClick={() => openEditor(obj.key, language)}
+                            title={obj.key}
                           >
-                            {obj.key}
+                            {obj.key.slice(r2Prefix.length) || obj.key}
                           </button>
                         ) : (
-                          <span className="device-name">{obj.key}</span>
+                          <span className="device-name" title={obj.key}>
+                            {obj.key.slice(r2Prefix.length) || obj.key}
+                          </span>
                         )}
                         <div className="device-actions">
+                          {!obj.key.endsWith('/') && (
+                            <a className="btn btn-secondary btn-sm" href={r2DownloadUrl(obj.key)} download>
+                              {t('r2.download')}
+                            </a>
+                          )}
+                          <button
+                            className="btn btn-secondary btn-sm"
+                            onClick={() => openRestore(obj.key)}
+                            disabled={restoreInProgress}
+                          >
+                            {t('restore.action')}
+                          </button>
+                          <button
+                            className="btn btn-secondary btn-sm"
+                            onClick={(event) => {
+                              event.stopPropagation()
+                              const rect = event.currentTarget.getBoundingClientRect()
+                              openR2Menu(obj.key, rect.left, rect.bottom)
+                            }}
+                            aria-label={t('r2.menu.open')}
+                          >
+                            ⋯
+                          </button>
                           <button
                             className="btn btn-danger btn-sm"
                             onClick={() => handleR2DeleteObject(obj.key)}
@@ -1019,6 +2494,156 @@ export default function AdminPage() {
         </section>
       )}
 
+      {r2Menu && (
+        <div
+          className="context-menu"
+          role="menu"
+          style={{ left: r2Menu.x, top: r2Menu.y }}
+          onClick={(event) => event.stopPropagation()}
+        >
+          <button role="menuitem" onClick={() => openTransfer('move', r2Menu.path)}>
+            {t('r2.menu.move')}
+          </button>
+          <button role="menuitem" onClick={() => openTransfer('copy', r2Menu.path)}>
+            {t('r2.menu.copy')}
+          </button>
+          {!r2Menu.path.endsWith('/') && (
+            <a role="menuitem" href={r2DownloadUrl(r2Menu.path)} download onClick={() => setR2Menu(null)}>
+              {t('r2.download')}
+            </a>
+          )}
+          <button
+            role="menuitem"
+            onClick={() => {
+              setR2Menu(null)
+              openRestore(r2Menu.path)
+            }}
+            disabled={restoreInProgress}
+          >
+            {t('restore.action')}
+          </button>
+          <button
+            role="menuitem"
+            className="danger"
+            onClick={() => {
+              setR2Menu(null)
+              if (r2Menu.path === r2Prefix) {
+                handleR2DeletePrefix()
+              } else {
+                handleR2DeleteObject(r2Menu.path)
+              }
+            }}
+            disabled={r2Action !== null || confirmBusy}
+          >
+            {r2Menu.path.endsWith('/') ? t('r2.delete_prefix') : t('r2.delete_object')}
+          </button>
+        </div>
+      )}
+
+      {transfer && (
+        <div className="modal-backdrop">
+          <div className="modal">
+            <div className="modal-header">
+              <h3>{transfer.mode === 'move' ? t('r2.transfer.move_title') : t('r2.transfer.copy_title')}</h3>
+            </div>
+            <div className="modal-body restore-form">
+              <p>{t('r2.transfer.source', { path: transfer.source })}</p>
+              <label className="r2-field">
+                <span className="r2-label">{t('r2.transfer.destination')}</span>
+                <input
+                  className="r2-file"
+                  type="text"
+                  value={transfer.destination}
+                  onChange={(event) => setTransfer({ ...transfer, destination: event.target.value })}
+                  autoFocus
+                />
+              </label>
+              <p className="hint">
+                {transfer.source.endsWith('/') ? t('r2.transfer.prefix_hint') : t('r2.transfer.key_hint')}
+              </p>
+              <label className="env-option">
+                <input
+                  type="checkbox"
+                  checked={transfer.overwrite}
+                  onChange={(event) => setTransfer({ ...transfer, overwrite: event.target.checked })}
+                />
+                <span>{t('r2.transfer.overwrite')}</span>
+              </label>
+            </div>
+            <div className="modal-actions">
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={() => setTransfer(null)}
+                disabled={transferInProgress}
+              >
+                {t('action.cancel')}
+              </button>
+              <button
+                className="btn btn-primary btn-sm"
+                onClick={handleTransfer}
+                disabled={transferInProgress || !transfer.destination.trim() || transfer.destination.trim() === transfer.source}
+              >
+                {transferInProgress && <ButtonSpinner />}
+                {transfer.mode === 'move' ? t('r2.menu.move') : t('r2.menu.copy')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {restoreTarget && (
+        <div className="modal-backdrop">
+          <div className="modal">
+            <div className="modal-header">
+              <h3>{t('restore.title')}</h3>
+            </div>
+            <div className="modal-body restore-form">
+              <p>{t('restore.description', { path: restoreTarget })}</p>
+              <label className="r2-field">
+                <span className="r2-label">{t('restore.source')}</span>
+                <select
+                  className="r2-select"
+                  value={restoreSource}
+                  onChange={(event) => setRestoreSource(event.target.value)}
+                >
+                  <option value="">{t('restore.source_live')}</option>
+                  {(snapshots?.snapshots ?? []).map((snapshot) => (
+                    <option key={snapshot.id} value={snapshot.id}>
+                      {t('restore.source_snapshot', { time: formatSyncTime(snapshot.createdAt) })}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="env-option">
+                <input
+                  type="checkbox"
+                  checked={restoreBackup}
+                  onChange={(event) => setRestoreBackup(event.target.checked)}
+                />
+                <span>{t('restore.keep_backup')}</span>
+              </label>
+            </div>
+            <div className="modal-actions">
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={() => setRestoreTarget(null)}
+                disabled={restoreInProgress}
+              >
+                {t('action.cancel')}
+              </button>
+              <button
+                className="btn btn-primary btn-sm"
+                onClick={handleRestoreToContainer}
+                disabled={restoreInProgress}
+              >
+                {restoreInProgress && <ButtonSpinner />}
+                {t('restore.action')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {confirmAction && (
         <div className="modal-backdrop">
           <div className="modal">
@@ -1026,9 +2651,13 @@ export default function AdminPage() {
               <h3>{t('confirm.title')}</h3>
             </div>
             <div className="modal-body">
-              {confirmAction.type === 'delete-prefix'
-                ? t('r2.confirm.delete_prefix', { prefix: confirmAction.prefix })
-                : t('r2.confirm.delete_object', { key: confirmAction.key })}
+              {confirmAction.type === 'restore-snapshot'
+                ? t('snapshots.confirm_restore', { id: confirmAction.snapshotId })
+                : confirmAction.type === 'import-backup'
+                  ? t('backup.confirm_import', { name: confirmAction.file.name })
+                  : confirmAction.type === 'delete-prefix'
+                    ? t('r2.confirm.delete_prefix', { prefix: confirmAction.prefix })
+                    : t('r2.confirm.delete_object', { key: confirmAction.key })}
             </div>
             <div className="modal-actions">
               <button
@@ -1043,52 +2672,195 @@ export default function AdminPage() {
                 onClick={async () => {
                   const action = confirmAction
                   setConfirmAction(null)
-                  await executeR2Delete(action)
+                  if (action.type === 'restore-snapshot') {
+                    await executeSnapshotRestore(action.snapshotId)
+                  } else if (action.type === 'import-backup') {
+                    await executeBackupImport(action.file)
+                  } else {
+                    await executeR2Delete(action)
+                  }
                 }}
                 disabled={confirmBusy}
               >
-                {confirmAction.type === 'delete-prefix'
-                  ? t('r2.delete_prefix')
-                  : t('r2.delete_object')}
+                {confirmAction.type === 'restore-snapshot'
+                  ? t('snapshots.restore')
+                  : confirmAction.type === 'import-backup'
+                    ? t('backup.import')
+                    : confirmAction.type === 'delete-prefix'
+                      ? t('r2.delete_prefix')
+                      : t('r2.delete_object')}
               </button>
             </div>
           </div>
         </div>
       )}
 
-      {mdPreview && (
+      {conflictVersions && (
         <div className="modal-backdrop">
           <div className="modal modal-wide">
             <div className="modal-header">
-              <h3>{t('r2.preview_title', { key: mdPreview.key })}</h3>
+              <h3>{t('conflicts.compare_title', { key: conflictVersions.key })}</h3>
               <button
                 className="btn btn-secondary btn-sm"
-                onClick={() => {
-                  setMdPreview(null)
-                  setMdPreviewError(null)
-                }}
+                onClick={() => setConflictVersions(null)}
+                disabled={conflictAction !== null}
               >
                 {t('action.close')}
               </button>
             </div>
             <div className="modal-body">
-              {mdPreviewLoading ? (
+              <div className="conflict-versions">
+                <div className="conflict-version">
+                  <div className="r2-label">{t('conflicts.container')}</div>
+                  <pre>{conflictVersions.container}</pre>
+                </div>
+                <div className="conflict-version">
+                  <div className="r2-label">{t('conflicts.r2')}</div>
+                  <pre>{conflictVersions.r2}</pre>
+                </div>
+              </div>
+              <div className="r2-label">{t('conflicts.merge_label')}</div>
+              <textarea
+                className="env-input conflict-merge"
+                value={conflictMerge}
+                onChange={(event) => setConflictMerge(event.target.value)}
+                spellCheck={false}
+              />
+            </div>
+            <div className="modal-actions">
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={() => handleResolveConflict(conflictVersions.key, 'container')}
+                disabled={conflictAction !== null}
+              >
+                {t('conflicts.keep_container')}
+              </button>
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={() => handleResolveConflict(conflictVersions.key, 'r2')}
+                disabled={conflictAction !== null}
+              >
+                {t('conflicts.keep_r2')}
+              </button>
+              <button
+                className="btn btn-primary btn-sm"
+                onClick={() => handleResolveConflict(conflictVersions.key, 'merge')}
+                disabled={conflictAction !== null}
+              >
+                {conflictAction === conflictVersions.key && <ButtonSpinner />}
+                {t('conflicts.save_merge')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {editor && (
+        <div className="modal-backdrop">
+          <div className="modal modal-wide">
+            <div className="modal-header">
+              <h3>{t('editor.title', { key: editor.key })}</h3>
+              <button className="btn btn-secondary btn-sm" onClick={closeEditor}>
+                {t('action.close')}
+              </button>
+            </div>
+            <div className="modal-body">
+              {editorError && (
+                <div className="error-banner">
+                  <span>{editorConflict ? t('editor.conflict', { error: editorError }) : editorError}</span>
+                  {editorConflict ? (
+                    <button onClick={handleEditorLoadLatest} className="dismiss-btn" disabled={editorLoading}>
+                      {t('editor.load_latest')}
+                    </button>
+                  ) : (
+                    <button onClick={() => setEditorError(null)} className="dismiss-btn">
+                      {t('action.dismiss')}
+                    </button>
+                  )}
+                </div>
+              )}
+              {editorNotice && <p className="hint">{editorNotice}</p>}
+              {editorLoading ? (
                 <div className="loading">
                   <div className="spinner"></div>
                   <p>{t('r2.preview_loading')}</p>
                 </div>
-              ) : mdPreviewError ? (
-                <div className="error-banner">
-                  <span>{mdPreviewError}</span>
-                  <button onClick={() => setMdPreviewError(null)} className="dismiss-btn">
-                    {t('action.dismiss')}
-                  </button>
-                </div>
               ) : (
-                <div
-                  className="markdown-content"
-                  dangerouslySetInnerHTML={{ __html: renderMarkdown(mdPreview.content) }}
-                />
+                <>
+                  <div className="editor-toolbar">
+                    <button
+                      className={`btn btn-sm ${editorMode === 'edit' ? 'btn-primary' : 'btn-secondary'}`}
+                      onClick={() => setEditorMode('edit')}
+                    >
+                      {t('editor.edit')}
+                    </button>
+                    {editor.language === 'markdown' && (
+                      <button
+                        className={`btn btn-sm ${editorMode === 'preview' ? 'btn-primary' : 'btn-secondary'}`}
+                        onClick={() => setEditorMode('preview')}
+                      >
+                        {t('editor.preview')}
+                      </button>
+                    )}
+                    <button
+                      className={`btn btn-sm ${editorMode === 'diff' ? 'btn-primary' : 'btn-secondary'}`}
+                      onClick={() => setEditorMode('diff')}
+                      disabled={editor.draft === editor.original}
+                    >
+                      {t('editor.review')}
+                    </button>
+                    <a className="btn btn-secondary btn-sm" href={r2DownloadUrl(editor.key)} download>
+                      {t('r2.download')}
+                    </a>
+                    <button
+                      className="btn btn-primary btn-sm editor-save"
+                      onClick={editorMode === 'diff' ? handleEditorSave : () => setEditorMode('diff')}
+                      disabled={editorSaving || editor.draft === editor.original}
+                    >
+                      {editorSaving && <ButtonSpinner />}
+                      {editorMode === 'diff' ? t('editor.save') : t('editor.review_and_save')}
+                    </button>
+                  </div>
+                  {editorMode === 'preview' ? (
+                    <div
+                      className="markdown-content"
+                      dangerouslySetInnerHTML={{ __html: renderMarkdown(editor.draft) }}
+                    />
+                  ) : editorMode === 'diff' ? (
+                    <pre className="editor-diff">
+                      {editorDiff.map((row, index) =>
+                        row.type === 'skip' ? (
+                          <div key={index} className="diff-skip">{t('editor.unchanged_lines', { count: row.count })}</div>
+                        ) : (
+                          <div key={index} className={`diff-${row.type}`}>
+                            {row.type === 'added' ? '+ ' : row.type === 'removed' ? '- ' : '  '}
+                            {row.text}
+                          </div>
+                        )
+                      )}
+                    </pre>
+                  ) : (
+                    <div className="code-editor">
+                      <pre
+                        ref={editorHighlightRef}
+                        aria-hidden="true"
+                        dangerouslySetInnerHTML={{ __html: `${highlightCode(editor.draft, editor.language)}\n` }}
+                      />
+                      <textarea
+                        value={editor.draft}
+                        spellCheck={false}
+                        wrap="off"
+                        onChange={(e) => setEditor({ ...editor, draft: e.currentTarget.value })}
+                        onScroll={(e) => {
+                          if (editorHighlightRef.current) {
+                            editorHighlightRef.current.scrollTop = e.currentTarget.scrollTop
+                            editorHighlightRef.current.scrollLeft = e.currentTarget.scrollLeft
+                          }
+                        }}
+                      />
+                    </div>
+                  )}
+                </>
               )}
             </div>
           </div>
@@ -1101,6 +2873,9 @@ export default function AdminPage() {
             <h2>{t('ai.basic.title')}</h2>
           </div>
           <p className="hint">{t('ai.basic.hint')}</p>
+          {aiConfig && !aiConfig.keysEncrypted && (
+            <div className="warning-banner">{t('ai.basic.keys_unencrypted')}</div>
+          )}
           {aiConfigLoading ? (
             <div className="loading">
               <div className="spinner"></div>
@@ -1118,48 +2893,152 @@ export default function AdminPage() {
               <div className="env-block">
                 <div className="env-title">{t('ai.basic.provider')}</div>
                 <div className="env-editor">
-                  <label className="env-option">
-                    <input
-                      type="radio"
-                      name="ai-primary-provider"
-                      value="anthropic"
-                      checked={aiPrimaryProvider === 'anthropic'}
-                      onChange={() => {
-                        setAiPrimaryProvider('anthropic')
-                        setAiPrimaryProviderDirty(true)
-                      }}
-                    />
-                    <span>{t('ai.basic.provider_anthropic')}</span>
-                  </label>
-                  <label className="env-option">
-                    <input
-                      type="radio"
-                      name="ai-primary-provider"
-                      value="deepseek"
-                      checked={aiPrimaryProvider === 'deepseek'}
-                      onChange={() => {
-                        setAiPrimaryProvider('deepseek')
-                        setAiPrimaryProviderDirty(true)
-                      }}
-                    />
-                    <span>{t('ai.basic.provider_deepseek')}</span>
-                  </label>
+                  {(aiConfig?.providers ?? []).map((provider) => (
+                    <label key={provider.id} className="env-option">
+                      <input
+                        type="radio"
+                        name="ai-primary-provider"
+                        value={provider.id}
+                        checked={aiPrimaryProvider === provider.id}
+                        onChange={() => {
+                          setAiPrimaryProvider(provider.id)
+                          setAiPrimaryProviderDirty(true)
+                          // Switch to the new provider's default model
+                          setAiPrimaryModel(provider.defaultModel)
+                          setAiPrimaryModelDirty(true)
+                        }}
+                      />
+                      <span>{provider.label}</span>
+                    </label>
+                  ))}
                 </div>
                 <div className="env-title">{t('ai.basic.primary_model')}</div>
                 <div className="env-editor">
                   <select
                     className="env-input"
-                    value={aiPrimaryModel}
-                    disabled={aiPrimaryProvider !== 'deepseek'}
+                    value={aiCustomModel ? AI_CUSTOM_MODEL_OPTION : aiPrimaryModel}
                     onChange={(e) => {
-                      const value = e.currentTarget.value as 'deepseek-chat' | 'deepseek-reasoner'
-                      setAiPrimaryModel(value)
+                      const value = e.currentTarget.value
+                      setAiPrimaryModel(value === AI_CUSTOM_MODEL_OPTION ? '' : value)
                       setAiPrimaryModelDirty(true)
                     }}
                   >
-                    <option value="deepseek-chat">deepseek-chat</option>
-                    <option value="deepseek-reasoner">deepseek-reasoner</option>
+                    {(aiPrimaryProviderInfo?.models ?? []).map((model) => (
+                      <option key={model.id} value={model.id}>
+                        {model.name} ({model.id})
+                      </option>
+                    ))}
+                    {aiPrimaryProviderInfo?.customModels && (
+                      <option value={AI_CUSTOM_MODEL_OPTION}>{t('ai.basic.custom_model')}</option>
+                    )}
                   </select>
+                  {aiCustomModel && (
+                    <input
+                      className="env-input"
+                      type="text"
+                      value={aiPrimaryModel}
+                      placeholder={t('ai.basic.custom_model_placeholder')}
+                      onChange={(e) => {
+                        setAiPrimaryModel(e.currentTarget.value)
+                        setAiPrimaryModelDirty(true)
+                      }}
+                    />
+                  )}
+                </div>
+                {aiCustomModel && <p className="hint">{t('ai.basic.custom_model_hint')}</p>}
+                <div className="env-title">{t('ai.fallback.title')}</div>
+                <p className="hint">{t('ai.fallback.hint')}</p>
+                {aiFallbacks.length === 0 ? (
+                  <span className="env-empty">{t('ai.fallback.empty')}</span>
+                ) : (
+                  <ol className="fallback-list">
+                    {aiFallbacks.map((fallback, index) => {
+                      const providerInfo = aiConfig?.providers.find((p) => p.id === fallback.provider)
+                      const customModel =
+                        !!providerInfo?.customModels &&
+                        !providerInfo.models.some((model) => model.id === fallback.model)
+                      const updateFallback = (changes: Partial<AiModelRef>) =>
+                        updateAiFallbacks(aiFallbacks.map((f, i) => (i === index ? { ...f, ...changes } : f)))
+                      return (
+                        <li
+                          key={index}
+                          className={`fallback-item${aiFallbackDragIndex === index ? ' dragging' : ''}`}
+                          draggable
+                          onDragStart={(e) => {
+                            e.dataTransfer.effectAllowed = 'move'
+                            setAiFallbackDragIndex(index)
+                          }}
+                          onDragOver={(e) => {
+                            e.preventDefault()
+                            if (aiFallbackDragIndex === null || aiFallbackDragIndex === index) return
+                            moveAiFallback(aiFallbackDragIndex, index)
+                            setAiFallbackDragIndex(index)
+                          }}
+                          onDragEnd={() => setAiFallbackDragIndex(null)}
+                        >
+                          <span className="fallback-handle" title={t('ai.fallback.drag')} aria-hidden="true">
+                            ⋮⋮
+                          </span>
+                          <span className="fallback-order">{index + 1}</span>
+                          <select
+                            className="env-input"
+                            value={fallback.provider}
+                            onChange={(e) => {
+                              const next = aiConfig?.providers.find((p) => p.id === e.currentTarget.value)
+                              if (next) updateFallback({ provider: next.id, model: next.defaultModel })
+                            }}
+                          >
+                            {(aiConfig?.providers ?? []).map((provider) => (
+                              <option key={provider.id} value={provider.id}>
+                                {provider.label}
+                              </option>
+                            ))}
+                          </select>
+                          <select
+                            className="env-input"
+                            value={customModel ? AI_CUSTOM_MODEL_OPTION : fallback.model}
+                            onChange={(e) => {
+                              const value = e.currentTarget.value
+                              updateFallback({ model: value === AI_CUSTOM_MODEL_OPTION ? '' : value })
+                            }}
+                          >
+                            {(providerInfo?.models ?? []).map((model) => (
+                              <option key={model.id} value={model.id}>
+                                {model.name}
+                              </option>
+                            ))}
+                            {providerInfo?.customModels && (
+                              <option value={AI_CUSTOM_MODEL_OPTION}>{t('ai.basic.custom_model')}</option>
+                            )}
+                          </select>
+                          {customModel && (
+                            <input
+                              className="env-input"
+                              type="text"
+                              value={fallback.model}
+                              placeholder={t('ai.basic.custom_model_placeholder')}
+                              onChange={(e) => updateFallback({ model: e.currentTarget.value })}
+                            />
+                          )}
+                          <button
+                            className="btn btn-secondary btn-sm"
+                            onClick={() => updateAiFallbacks(aiFallbacks.filter((_, i) => i !== index))}
+                          >
+                            {t('ai.fallback.remove')}
+                          </button>
+                        </li>
+                      )
+                    })}
+                  </ol>
+                )}
+                <div>
+                  <button
+                    className="btn btn-secondary btn-sm"
+                    onClick={addAiFallback}
+                    disabled={aiFallbacks.length >= AI_FALLBACK_LIMIT}
+                  >
+                    {t('ai.fallback.add')}
+                  </button>
                 </div>
               </div>
 
@@ -1361,7 +3240,102 @@ export default function AdminPage() {
               {aiConfigSaving ? <ButtonSpinner /> : null}
               {t('action.confirm')}
             </button>
+            <button
+              className="btn btn-secondary"
+              onClick={runAiTest}
+              disabled={aiConfigLoading || aiConfigSaving || aiTesting}
+            >
+              {aiTesting ? <ButtonSpinner /> : null}
+              {t('ai.test.run')}
+            </button>
           </div>
+
+          {aiApplyResult?.status === 'applied' && (
+            <div className="success-banner">
+              {aiApplyResult.method === 'reload'
+                ? t('ai.apply.reloaded')
+                : aiApplyResult.method === 'restart'
+                  ? t('ai.apply.restarted')
+                  : aiApplyResult.method === 'next_start'
+                    ? t('ai.apply.next_start')
+                    : t('ai.apply.unchanged')}
+            </div>
+          )}
+          {aiApplyResult?.status === 'restart_required' && (
+            <div className="warning-banner">
+              {t('ai.apply.restart_needed', { error: aiApplyResult.error ?? '' })}
+              {aiApplyResult.reason ? ` (${aiApplyResult.reason})` : ''}
+            </div>
+          )}
+          {aiApplyResult?.status === 'failed' && (
+            <div className="error-banner">
+              {t('ai.apply.failed', { error: aiApplyResult.error ?? '' })}
+            </div>
+          )}
+          {aiTestError && <div className="error-banner">{aiTestError}</div>}
+          {aiTestResult && (
+            <div className="env-block">
+              <div className="env-title">{t('ai.test.title')}</div>
+              {aiTestResult.results.length === 0 ? (
+                <span className="env-empty">{t('ai.test.none')}</span>
+              ) : (
+                <div className="devices-grid">
+                  {aiTestResult.results.map((result) => {
+                    const label =
+                      aiConfig?.providers.find((p) => p.id === result.provider)?.label ?? result.provider
+                    const passed = !result.errorClass
+                    const yesNo = (value: boolean | null) =>
+                      value === null ? '—' : value ? t('ai.test.yes') : t('ai.test.no')
+                    return (
+                      <div key={result.provider} className="device-card">
+                        <div className="device-header">
+                          <span className="device-name">{label}</span>
+                          <span className={`device-badge ${passed ? 'paired' : 'pending'}`}>
+                            {passed ? t('ai.test.ok') : result.errorClass}
+                          </span>
+                        </div>
+                        <div className="device-details">
+                          <div className="detail-row">
+                            <span className="label">{t('ai.test.base_url')}</span>
+                            <span className="value">
+                              {result.baseUrl}
+                              {result.viaAiGateway ? ` (${t('ai.test.via_gateway')})` : ''}
+                            </span>
+                          </div>
+                          <div className="detail-row">
+                            <span className="label">{t('ai.test.reachable')}</span>
+                            <span className="value">{yesNo(result.reachable)}</span>
+                          </div>
+                          <div className="detail-row">
+                            <span className="label">{t('ai.test.auth')}</span>
+                            <span className="value">{result.reachable ? yesNo(result.authOk) : '—'}</span>
+                          </div>
+                          <div className="detail-row">
+                            <span className="label">{t('ai.test.model')}</span>
+                            <span className="value">
+                              {result.model}: {yesNo(result.modelAvailable)}
+                            </span>
+                          </div>
+                          <div className="detail-row">
+                            <span className="label">{t('ai.test.latency')}</span>
+                            <span className="value">
+                              {result.latencyMs === null ? '—' : `${result.latencyMs} ms`}
+                            </span>
+                          </div>
+                          {result.error && (
+                            <div className="detail-row">
+                              <span className="label">{t('ai.test.error_detail')}</span>
+                              <span className="value">{result.error}</span>
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+          )}
         </section>
       )}
     </div>
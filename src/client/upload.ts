@@ -0,0 +1,277 @@
+import {
+  AuthError,
+  R2UploadGoneError,
+  abortR2MultipartUpload,
+  completeR2MultipartUpload,
+  createR2MultipartUpload,
+  uploadR2Object,
+  uploadR2Part,
+  type R2MultipartUpload,
+  type R2UploadedPart,
+} from './api';
+
+/**
+ * Chunked, resumable uploads to R2
+ *
+ * Files up to one part are sent in a single request; larger ones go through
+ * an R2 multipart upload, one part at a time. A failed part is retried with
+ * backoff, after waiting for the browser to come back online. The parts
+ * already uploaded are remembered in localStorage, so uploading the same file
+ * to the same place again (e.g. after a reload) only sends what is missing.
+ */
+
+/** A file and where it goes under the chosen prefix */
+export interface UploadItem {
+  file: File;
+  /** Relative path, e.g. "dataset/train.jsonl" for a dropped folder */
+  path: string;
+}
+
+export interface UploadProgress {
+  /** Bytes uploaded over all files, including resumed parts */
+  loaded: number;
+  total: number;
+  /** Files finished (uploaded or failed) */
+  done: number;
+  count: number;
+  /** File being uploaded */
+  current: string | null;
+}
+
+export interface UploadResult {
+  uploaded: string[];
+  failed: { path: string; error: string }[];
+}
+
+/** Files up to this size skip the multipart upload; matches the server's part size */
+const SINGLE_UPLOAD_MAX_BYTES = 8 * 1024 * 1024;
+
+const RESUME_STORAGE_KEY = 'moltbot.r2-uploads';
+const PART_ATTEMPTS = 6;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30_000;
+
+/** An unfinished multipart upload, kept for resuming */
+interface ResumeEntry extends Pick<R2MultipartUpload, 'key' | 'uploadId' | 'partSize'> {
+  parts: R2UploadedPart[];
+  updatedAt: string;
+}
+
+/** Same destination, same size, same modification time: most likely the same file */
+const resumeId = (prefix: string, item: UploadItem) =>
+  `${prefix}${item.path}:${item.file.size}:${item.file.lastModified}`;
+
+function readResumeEntries(): Record<string, ResumeEntry> {
+  try {
+    return JSON.parse(localStorage.getItem(RESUME_STORAGE_KEY) ?? '{}') as Record<string, ResumeEntry>;
+  } catch {
+    return {};
+  }
+}
+
+function writeResumeEntry(id: string, entry: ResumeEntry | null) {
+  const entries = readResumeEntries();
+  if (entry) {
+    entries[id] = entry;
+  } else {
+    delete entries[id];
+  }
+  try {
+    localStorage.setItem(RESUME_STORAGE_KEY, JSON.stringify(entries));
+  } catch {
+    // Storage full or disabled; the upload still works, it just won't resume
+  }
+}
+
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      signal?.removeEventListener('abort', aborted);
+      resolve();
+    }
+    function aborted() {
+      clearTimeout(timer);
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    }
+    if (signal?.aborted) return aborted();
+    signal?.addEventListener('abort', aborted, { once: true });
+  });
+}
+
+function waitUntilOnline(signal?: AbortSignal): Promise<void> {
+  if (navigator.onLine) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const online = () => {
+      signal?.removeEventListener('abort', aborted);
+      resolve();
+    };
+    const aborted = () => {
+      window.removeEventListener('online', online);
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    };
+    window.addEventListener('online', online, { once: true });
+    signal?.addEventListener('abort', aborted, { once: true });
+  });
+}
+
+/** Retry a request through network drops; errors a retry can't fix are thrown at once */
+async function withRetry<T>(request: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await waitUntilOnline(signal);
+      return await request();
+    } catch (error) {
+      if (isAbortError(error) || error instanceof AuthError || error instanceof R2UploadGoneError) throw error;
+      if (attempt >= PART_ATTEMPTS) throw error;
+      await wait(Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS), signal);
+    }
+  }
+}
+
+async function startMultipart(prefix: string, item: UploadItem, signal?: AbortSignal): Promise<ResumeEntry> {
+  const upload = await withRetry(
+    () => createR2MultipartUpload(prefix, item.path, item.file.type || 'application/octet-stream'),
+    signal
+  );
+  if (Math.ceil(item.file.size / upload.partSize) > upload.maxParts) {
+    await abortR2MultipartUpload(upload);
+    throw new Error('File too large');
+  }
+  return { key: upload.key, uploadId: upload.uploadId, partSize: upload.partSize, parts: [], updatedAt: '' };
+}
+
+async function uploadMultipart(
+  prefix: string,
+  item: UploadItem,
+  onLoaded: (bytes: number) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const id = resumeId(prefix, item);
+  const entry = readResumeEntries()[id] ?? (await startMultipart(prefix, item, signal));
+  const partCount = Math.ceil(item.file.size / entry.partSize);
+  const uploaded = new Set(entry.parts.map((part) => part.partNumber));
+  for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+    const start = (partNumber - 1) * entry.partSize;
+    const end = Math.min(start + entry.partSize, item.file.size);
+    if (uploaded.has(partNumber)) {
+      onLoaded(end - start);
+      continue;
+    }
+    try {
+      const part = await withRetry(() => uploadR2Part(entry, partNumber, item.file.slice(start, end), signal), signal);
+      entry.parts.push(part);
+      entry.updatedAt = new Date().toISOString();
+      writeResumeEntry(id, entry);
+      onLoaded(end - start);
+    } catch (error) {
+      if (error instanceof R2UploadGoneError) writeResumeEntry(id, null);
+      if (isAbortError(error)) {
+        // Cancelled on purpose: drop the parts rather than leave them for resuming
+        writeResumeEntry(id, null);
+        await abortR2MultipartUpload(entry).catch(() => {});
+      }
+      throw error;
+    }
+  }
+
+  try {
+    await withRetry(() => completeR2MultipartUpload(entry, entry.parts), signal);
+  } catch (error) {
+    if (error instanceof R2UploadGoneError) writeResumeEntry(id, null);
+    throw error;
+  }
+  writeResumeEntry(id, null);
+}
+
+/**
+ * Upload files under a prefix, one after another
+ *
+ * A file that fails doesn't stop the others. Cancelling through the signal
+ * stops at once and abandons the multipart upload in progress.
+ *
+ * @param prefix - R2 prefix to upload under
+ * @param items - Files with their paths relative to the prefix
+ * @param onProgress - Called as bytes go out
+ * @param signal - Cancels the remaining uploads
+ */
+export async function uploadFiles(
+  prefix: string,
+  items: UploadItem[],
+  onProgress: (progress: UploadProgress) => void,
+  signal?: AbortSignal
+): Promise<UploadResult> {
+  const result: UploadResult = { uploaded: [], failed: [] };
+  const progress: UploadProgress = {
+    loaded: 0,
+    total: items.reduce((total, item) => total + item.file.size, 0),
+    done: 0,
+    count: items.length,
+    current: null,
+  };
+  const onLoaded = (bytes: number) => {
+    progress.loaded += bytes;
+    onProgress({ ...progress });
+  };
+
+  for (const item of items) {
+    progress.current = item.path;
+    onProgress({ ...progress });
+    const loadedBefore = progress.loaded;
+    try {
+      if (item.file.size <= SINGLE_UPLOAD_MAX_BYTES) {
+        await withRetry(() => uploadR2Object(prefix, item.file, item.path, signal), signal);
+        onLoaded(item.file.size);
+      } else {
+        await uploadMultipart(prefix, item, onLoaded, signal);
+      }
+      result.uploaded.push(item.path);
+    } catch (error) {
+      if (isAbortError(error) || error instanceof AuthError) throw error;
+      result.failed.push({ path: item.path, error: error instanceof Error ? error.message : 'Unknown error' });
+      // Count the file as done so the bar still reaches the end
+      progress.loaded = loadedBefore + item.file.size;
+    }
+    progress.done++;
+    onProgress({ ...progress });
+  }
+  progress.current = null;
+  onProgress({ ...progress });
+  return result;
+}
+
+function readEntries(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+}
+
+async function collectEntry(entry: FileSystemEntry, items: UploadItem[]): Promise<void> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    items.push({ file, path: entry.fullPath.replace(/^\/+/, '') });
+    return;
+  }
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  // readEntries returns at most 100 entries per call
+  for (let batch = await readEntries(reader); batch.length > 0; batch = await readEntries(reader)) {
+    for (const child of batch) await collectEntry(child, items);
+  }
+}
+
+/**
+ * Files from a drop, walking dropped folders so their files keep the paths
+ * relative to the drop
+ */
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<UploadItem[]> {
+  // Entries must be taken synchronously, before the drop event returns
+  const entries = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === 'file')
+    .map((item) => item.webkitGetAsEntry());
+  if (entries.some((entry) => entry === null)) {
+    return Array.from(dataTransfer.files, (file) => ({ file, path: file.name }));
+  }
+  const items: UploadItem[] = [];
+  for (const entry of entries) await collectEntry(entry!, items);
+  return items;
+}
@@ -1,3 +1,5 @@
+import type { SandboxOptions } from '@cloudflare/sandbox';
+
 /**
  * Configuration constants for Moltbot Sandbox
  */
@@ -8,6 +10,81 @@ export const MOLTBOT_PORT = 18789;
 /** Maximum time to wait for Moltbot to start (3 minutes) */
 export const STARTUP_TIMEOUT_MS = 180_000;
 
+/** Default number of application-level health probe attempts after the port opens */
+export const HEALTH_PROBE_ATTEMPTS = 5;
+
+/** Delay between health probe attempts */
+export const HEALTH_PROBE_INTERVAL_MS = 2_000;
+
+/** Base delay before the watchdog retries a failed restart (doubles on each consecutive restart) */
+export const WATCHDOG_BACKOFF_BASE_MS = 5 * 60_000;
+
+/** Upper bound for the watchdog backoff delay */
+export const WATCHDOG_BACKOFF_MAX_MS = 60 * 60_000;
+
+/** Consecutive restarts after which the watchdog gives up and reports a crash loop */
+export const WATCHDOG_MAX_RESTARTS = 5;
+
+/** How long the gateway must stay healthy before consecutive restarts are forgotten */
+export const WATCHDOG_STABLE_MS = 30 * 60_000;
+
+/** Number of restart records kept in the history */
+export const WATCHDOG_HISTORY_LIMIT = 50;
+
+/** Timeout for each request of the AI provider connectivity test */
+export const AI_TEST_TIMEOUT_MS = 10_000;
+
+/** Number of startup reports kept (one per gateway boot) */
+export const STARTUP_REPORT_LIMIT = 20;
+
+/**
+ * R2 prefix for metadata written by the Worker itself.
+ * Kept outside the synced directories so the backup sync never removes it.
+ */
+export const R2_META_PREFIX = 'meta/';
+
+/** Maximum time for the container to list and hash the synced files */
+export const SYNC_MANIFEST_TIMEOUT_MS = 60_000;
+
+/** Longest sync rules file accepted from the admin UI, in characters */
+export const SYNC_RULES_MAX_LENGTH = 20_000;
+
+/** How long the synced directories must stay unchanged before the watcher asks for a sync */
+export const SYNC_DEBOUNCE_DEFAULT_SECONDS = 30;
+
+/** Shortest and longest debounce window accepted from the admin UI (the cron runs every 10 minutes) */
+export const SYNC_DEBOUNCE_LIMITS = { min: 5, max: 600 };
+
+/** Number of sync runs kept in the history */
+export const SYNC_HISTORY_LIMIT = 100;
+
+/** How often the cron verifies the backup in R2 */
+export const BACKUP_VERIFY_INTERVAL_MS = 60 * 60_000;
+
+/** How long before the container's idle window ends the final backup sync runs (at most half the window) */
+export const PRE_SLEEP_FLUSH_LEAD_MS = 60_000;
+
+/** Minimum time between two activity reports from the same Worker isolate */
+export const ACTIVITY_RECORD_INTERVAL_MS = 30_000;
+
+/** Objects walked at most per R2 folder listing to add up folder sizes; folders past it get no totals */
+export const R2_FOLDER_STATS_MAX_OBJECTS = 5_000;
+
+/** Largest file accepted in an imported backup archive */
+export const BACKUP_IMPORT_MAX_FILE_BYTES = 100 * 1024 * 1024;
+
+/** Largest total size of the files in an imported backup archive */
+export const BACKUP_IMPORT_MAX_BYTES = 1024 * 1024 * 1024;
+
+/**
+ * Backup snapshots kept after each sync: the newest snapshot of each of the last
+ * N hours, days and weeks that have one (the newest snapshot is always kept)
+ */
+export const SNAPSHOT_RETENTION = { hourly: 24, daily: 7, weekly: 4 };
+
+/** Gateway config file inside the container */
+export const GATEWAY_CONFIG_PATH = '/root/.clawdbot/clawdbot.json';
+
 /** Mount path for R2 persistent storage inside the container */
 export const R2_MOUNT_PATH = '/data/moltbot';
 
@@ -18,3 +95,39 @@ export const R2_MOUNT_PATH = '/data/moltbot';
 export function getR2BucketName(env?: { R2_BUCKET_NAME?: string }): string {
   return env?.R2_BUCKET_NAME || 'openclawbotonline-data-5';
 }
+
+/**
+ * Build sandbox options based on environment configuration.
+ * 
+ * SANDBOX_SLEEP_AFTER controls how long the container stays alive after inactivity:
+ * - 'never' (default): Container stays alive indefinitely (recommended due to long cold starts)
+ * - Duration string: e.g., '10m', '1h', '30s' - container sleeps after this period of inactivity
+ * 
+ * To reduce costs at the expense of cold start latency, set SANDBOX_SLEEP_AFTER to a duration:
+ *   npx wrangler secret put SANDBOX_SLEEP_AFTER
+ *   # Enter: 10m (or 1h, 30m, etc.)
+ */
+export function buildSandboxOptions(env: { SANDBOX_SLEEP_AFTER?: string }): SandboxOptions {
+  const sleepAfter = env.SANDBOX_SLEEP_AFTER?.toLowerCase() || 'never';
+
+  // 'never' means keep the container alive indefinitely
+  if (sleepAfter === 'never') {
+    return { keepAlive: true };
+  }
+
+  // Otherwise, use the specified duration
+  return { sleepAfter };
+}
+
+/**
+ * Parse SANDBOX_SLEEP_AFTER into milliseconds
+ *
+ * @returns The idle window, or null when the container never sleeps or the value can't be read
+ */
+export function getSleepAfterMs(env: { SANDBOX_SLEEP_AFTER?: string }): number | null {
+  const match = env.SANDBOX_SLEEP_AFTER?.trim().toLowerCase().match(/^(\d+)\s*(s|m|h)?$/);
+  if (!match) return null;
+  const unitMs = match[2] === 'h' ? 3_600_000 : match[2] === 'm' ? 60_000 : 1_000;
+  const ms = Number(match[1]) * unitMs;
+  return ms > 0 ? ms : null;
+}
@@ -0,0 +1,36 @@
+import type { Context, Next } from 'hono';
+import type { AppEnv, MoltbotEnv } from '../types';
+import { ACTIVITY_RECORD_INTERVAL_MS, getSleepAfterMs } from '../config';
+import { getGatewayCoordinator } from './lifecycle';
+
+let lastActivityRecordedAt = 0;
+
+/**
+ * Tell the GatewayCoordinator a request reached the container, so it can run
+ * the final sync before the container sleeps (see sleep.ts). Throttled per
+ * isolate to a quarter of the idle window at most, well inside the flush lead.
+ */
+function recordActivity(env: MoltbotEnv, ctx: ExecutionContext): void {
+  const sleepAfterMs = getSleepAfterMs(env);
+  if (sleepAfterMs === null) return;
+  const now = Date.now();
+  if (now - lastActivityRecordedAt < Math.min(ACTIVITY_RECORD_INTERVAL_MS, sleepAfterMs / 4)) return;
+  lastActivityRecordedAt = now;
+  ctx.waitUntil(
+    getGatewayCoordinator(env)
+      .recordActivity(now)
+      .catch((err) => console.error('[Sleep] Failed to record activity:', err)),
+  );
+}
+
+/**
+ * Middleware for routes whose requests reach the container: the proxy, and
+ * routes that call into the sandbox. Routes that only touch R2 or the Worker
+ * don't keep the container awake, so they must not push the flush past the
+ * point where it has already gone to sleep. The watcher's sync notify is left
+ * out too, so the container can't keep itself awake.
+ */
+export async function recordContainerActivity(c: Context<AppEnv>, next: Next): Promise<void> {
+  recordActivity(c.env, c.executionCtx);
+  await next();
+}
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { applyAiConfig, diffAiConfig } from './apply';
+import { applyAiOverrides } from '../ai';
+import { createMockEnv, createMockProcess, createMockSandbox, suppressConsole } from '../test-utils';
+
+const runningGateway = () => ({
+  ...createMockProcess('', { status: 'running' }),
+  id: 'gateway-1',
+  command: '/usr/local/bin/start-moltbot.sh',
+});
+
+const gatewayConfig = (extra: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    gateway: { port: 18789, ...extra },
+    agents: { defaults: { workspace: '/root/clawd', model: { primary: 'anthropic/claude-opus-4-5' } } },
+  });
+
+describe('diffAiConfig', () => {
+  it('reloads changes carried by the model config', () => {
+    const env = createMockEnv({ OPENAI_API_KEY: 'sk-openai', AI_PRIMARY_PROVIDER: 'openai' });
+    const after = applyAiOverrides(env, {
+      baseUrls: { OPENAI_BASE_URL: 'https://proxy.example.com/v1' },
+      primaryModel: 'gpt-5',
+    });
+    const diff = diffAiConfig(env, after);
+
+    expect(diff.changedKeys).toEqual(['AI_MODEL_CONFIG', 'AI_PRIMARY_MODEL', 'OPENAI_BASE_URL']);
+    expect(diff.restartKeys).toEqual([]);
+    expect(diff.modelConfig?.primary).toBe('openai/gpt-5');
+  });
+
+  it('needs a restart for API keys, which only reach the gateway as env vars', () => {
+    const env = createMockEnv({ OPENAI_API_KEY: 'sk-old', AI_PRIMARY_PROVIDER: 'openai' });
+    const diff = diffAiConfig(env, applyAiOverrides(env, { apiKeys: { OPENAI_API_KEY: 'sk-new' } }));
+
+    expect(diff.changedKeys).toEqual(['OPENAI_API_KEY']);
+    expect(diff.restartKeys).toEqual(['OPENAI_API_KEY']);
+  });
+
+  it('needs a restart for keys the gateway reads from its process env', () => {
+    // Anthropic without a base URL uses the gateway's built-in provider and ANTHROPIC_API_KEY
+    const env = createMockEnv({ ANTHROPIC_API_KEY: 'sk-old', OPENAI_API_KEY: 'sk-openai' });
+    const diff = diffAiConfig(env, applyAiOverrides(env, { apiKeys: { ANTHROPIC_API_KEY: 'sk-new' } }));
+
+    expect(diff.restartKeys).toEqual(['ANTHROPIC_API_KEY']);
+  });
+
+  it('ignores unrelated env vars', () => {
+    const env = createMockEnv({ ANTHROPIC_API_KEY: 'sk' });
+    expect(diffAiConfig(env, { ...env, TELEGRAM_BOT_TOKEN: 'tg' }).changedKeys).toEqual([]);
+  });
+});
+
+describe('applyAiConfig', () => {
+  const env = createMockEnv({ OPENAI_API_KEY: 'sk-openai', AI_PRIMARY_PROVIDER: 'openai' });
+  const before = {};
+  const after = { primaryModel: 'gpt-5' };
+
+  const ready = vi.fn().mockResolvedValue({ health: { status: 'ready' } });
+
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('reports nothing to do when the effective config is unchanged', async () => {
+    const { sandbox, listProcessesMock } = createMockSandbox();
+    const restart = vi.fn();
+
+    const result = await applyAiConfig(sandbox, env, {}, { primaryModel: 'not a model' }, { restart, ready });
+
+    expect(result).toEqual({ status: 'applied', method: 'none', changedKeys: [] });
+    expect(listProcessesMock).not.toHaveBeenCalled();
+  });
+
+  it('leaves the change for the next start when no gateway is running', async () => {
+    const { sandbox, writeFileMock } = createMockSandbox({ processes: [] });
+    const restart = vi.fn();
+
+    const result = await applyAiConfig(sandbox, env, before, after, { restart, ready });
+
+    expect(result).toMatchObject({ status: 'applied', method: 'next_start' });
+    expect(writeFileMock).not.toHaveBeenCalled();
+    expect(restart).not.toHaveBeenCalled();
+  });
+
+  it('rewrites the model sections of clawdbot.json for the gateway to reload', async () => {
+    const { sandbox, readFileMock, writeFileMock } = createMockSandbox({ processes: [runningGateway()] });
+    readFileMock.mockResolvedValue({ content: gatewayConfig() });
+    const restart = vi.fn();
+
+    const result = await applyAiConfig(sandbox, env, before, { ...after, fallbacks: [] }, { restart, ready });
+
+    expect(result).toMatchObject({ status: 'applied', method: 'reload' });
+    expect(restart).not.toHaveBeenCalled();
+    const [path, content] = writeFileMock.mock.calls[0];
+    expect(path).toBe('/root/.clawdbot/clawdbot.json');
+    const written = JSON.parse(content);
+    expect(written.agents.defaults.model).toEqual({ primary: 'openai/gpt-5', fallbacks: [] });
+    expect(written.agents.defaults.workspace).toBe('/root/clawd');
+    expect(written.models.providers.openai).toMatchObject({ apiKey: '${OPENAI_API_KEY}' });
+    expect(content).not.toContain('sk-openai');
+    expect(written.gateway.port).toBe(18789);
+  });
+
+  it('restarts the gateway when the change needs new process env vars', async () => {
+    const { sandbox, writeFileMock } = createMockSandbox({ processes: [runningGateway()] });
+    const restart = vi.fn().mockResolvedValue({ previousProcessId: 'gateway-1' });
+    const anthropicEnv = createMockEnv({ ANTHROPIC_API_KEY: 'sk-old' });
+
+    const result = await applyAiConfig(sandbox, anthropicEnv, {}, { apiKeys: { ANTHROPIC_API_KEY: 'sk-new' } }, {
+      restart,
+      ready,
+    });
+
+    expect(result).toMatchObject({ status: 'applied', method: 'restart' });
+    expect(result.reason).toContain('ANTHROPIC_API_KEY');
+    expect(restart).toHaveBeenCalledTimes(1);
+    expect(writeFileMock).not.toHaveBeenCalled();
+  });
+
+  it('restarts the gateway when config reload is turned off', async () => {
+    const { sandbox, readFileMock, writeFileMock } = createMockSandbox({ processes: [runningGateway()] });
+    readFileMock.mockResolvedValue({ content: gatewayConfig({ reload: { mode: 'off' } }) });
+    const restart = vi.fn().mockResolvedValue({});
+
+    const result = await applyAiConfig(sandbox, env, before, after, { restart, ready });
+
+    expect(result).toMatchObject({ status: 'applied', method: 'restart' });
+    expect(writeFileMock).not.toHaveBeenCalled();
+  });
+
+  it('still asks for a restart when the restart fails', async () => {
+    const { sandbox } = createMockSandbox({ processes: [runningGateway()] });
+    const restart = vi.fn().mockRejectedValue(new Error('restart already in progress'));
+    const anthropicEnv = createMockEnv({ ANTHROPIC_API_KEY: 'sk-old' });
+
+    const result = await applyAiConfig(sandbox, anthropicEnv, {}, { apiKeys: { ANTHROPIC_API_KEY: 'sk-new' } }, {
+      restart,
+      ready,
+    });
+
+    expect(result).toMatchObject({ status: 'restart_required', method: 'none', error: 'restart already in progress' });
+    expect(result.reason).toContain('ANTHROPIC_API_KEY');
+  });
+
+  it('waits for the restarted gateway and asks for a restart when it comes back unhealthy', async () => {
+    const { sandbox } = createMockSandbox({ processes: [runningGateway()] });
+    const restart = vi.fn().mockResolvedValue({});
+    const unhealthy = vi.fn().mockResolvedValue({ health: { status: 'unhealthy', reason: 'port 18789 closed' } });
+    const anthropicEnv = createMockEnv({ ANTHROPIC_API_KEY: 'sk-old' });
+
+    const result = await applyAiConfig(sandbox, anthropicEnv, {}, { apiKeys: { ANTHROPIC_API_KEY: 'sk-new' } }, {
+      restart,
+      ready: unhealthy,
+    });
+
+    expect(unhealthy).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({
+      status: 'restart_required',
+      error: 'Gateway is unhealthy after the restart: port 18789 closed',
+    });
+  });
+
+  it('asks for a restart when the restarted gateway fails to start', async () => {
+    const { sandbox } = createMockSandbox({ processes: [runningGateway()] });
+    const failed = vi.fn().mockRejectedValue(new Error('Gateway did not start'));
+    const anthropicEnv = createMockEnv({ ANTHROPIC_API_KEY: 'sk-old' });
+
+    const result = await applyAiConfig(sandbox, anthropicEnv, {}, { apiKeys: { ANTHROPIC_API_KEY: 'sk-new' } }, {
+      restart: vi.fn().mockResolvedValue({}),
+      ready: failed,
+    });
+
+    expect(result).toMatchObject({ status: 'restart_required', error: 'Gateway did not start' });
+  });
+
+  it('reports a failure without throwing', async () => {
+    const { sandbox, readFileMock } = createMockSandbox({ processes: [runningGateway()] });
+    readFileMock.mockRejectedValue(new Error('container not reachable'));
+
+    const result = await applyAiConfig(sandbox, env, before, after, { restart: vi.fn(), ready });
+
+    expect(result).toMatchObject({ status: 'failed', error: 'container not reachable' });
+  });
+});
@@ -0,0 +1,185 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import { GATEWAY_CONFIG_PATH } from '../config';
+import {
+  AI_PROVIDERS,
+  applyAiOverrides,
+  getAiGatewayTarget,
+  mergeModelConfig,
+  type AiEnvConfig,
+  type AiProviderDefinition,
+  type ContainerModelConfig,
+  type GatewayModelSections,
+} from '../ai';
+import { buildEnvVars } from './env';
+import { findExistingMoltbotProcess } from './process';
+import type { GatewayStatus } from './lifecycle';
+
+/** Env vars the container only reads through the generated model config */
+const MODEL_CONFIG_KEYS = ['AI_MODEL_CONFIG', 'AI_PRIMARY_PROVIDER', 'AI_PRIMARY_MODEL'];
+
+/**
+ * applied: the gateway has the new settings or gets them at its next start;
+ * restart_required: a restart is needed but was not performed
+ */
+export type AiApplyStatus = 'applied' | 'restart_required' | 'failed';
+
+export interface AiApplyResult {
+  status: AiApplyStatus;
+  /**
+   * How the change reached the gateway: nothing changed, no gateway is running
+   * (used at the next start), clawdbot.json was rewritten for the gateway to
+   * reload, or the gateway was restarted
+   */
+  method: 'none' | 'next_start' | 'reload' | 'restart';
+  /** Container env vars whose value changed (names only) */
+  changedKeys: string[];
+  /** Why a restart was needed */
+  reason?: string;
+  error?: string;
+}
+
+export interface AiConfigDiff {
+  changedKeys: string[];
+  /** Changed env vars the running gateway can't pick up from clawdbot.json */
+  restartKeys: string[];
+  modelConfig?: ContainerModelConfig;
+}
+
+export interface AiApplyActions {
+  /** Managed restart, e.g. through the gateway coordinator; may return before the new gateway is up */
+  restart: () => Promise<unknown>;
+  /** Wait for the restarted gateway to be up; resolves with its health */
+  ready: () => Promise<Pick<GatewayStatus, 'health'>>;
+}
+
+/**
+ * Find the providers whose connection an AI env var configures
+ */
+function providersForEnvKey(env: MoltbotEnv, key: string): AiProviderDefinition[] {
+  if (key === 'AI_GATEWAY_API_KEY' || key === 'AI_GATEWAY_BASE_URL') return [getAiGatewayTarget(env)];
+  return AI_PROVIDERS.filter(
+    (provider: AiProviderDefinition) =>
+      provider.apiKeyEnv === key ||
+      provider.baseUrlEnv === key ||
+      provider.containerEnv?.apiKey === key ||
+      provider.containerEnv?.baseUrl === key
+  );
+}
+
+/** Whether an env var holds a provider API key, under a Worker or container name */
+function isApiKeyEnv(key: string): boolean {
+  if (key === 'AI_GATEWAY_API_KEY') return true;
+  return AI_PROVIDERS.some(
+    (provider: AiProviderDefinition) => provider.apiKeyEnv === key || provider.containerEnv?.apiKey === key
+  );
+}
+
+/**
+ * Compare the AI part of the container env before and after a settings change
+ *
+ * Provider keys and base URLs normally reach the gateway as process env vars,
+ * which only change on restart. A provider with an entry in the model config
+ * carries its base URL there, so base URL changes to it can be reloaded; its
+ * key is only referenced by env var name, so key changes always need a restart.
+ *
+ * @param before - Env vars with the previous settings applied
+ * @param after - Env vars with the new settings applied
+ */
+export function diffAiConfig(before: MoltbotEnv, after: MoltbotEnv): AiConfigDiff {
+  const beforeVars = buildEnvVars(before);
+  const afterVars = buildEnvVars(after);
+  const modelConfig = afterVars.AI_MODEL_CONFIG
+    ? (JSON.parse(afterVars.AI_MODEL_CONFIG) as ContainerModelConfig)
+    : undefined;
+
+  const aiKeys = new Set(MODEL_CONFIG_KEYS);
+  for (const key of Object.keys({ ...beforeVars, ...afterVars })) {
+    if (providersForEnvKey(after, key).length > 0 || providersForEnvKey(before, key).length > 0) aiKeys.add(key);
+  }
+  const changedKeys = [...aiKeys].filter((key) => beforeVars[key] !== afterVars[key]).sort();
+  const restartKeys = changedKeys.filter((key) => {
+    if (MODEL_CONFIG_KEYS.includes(key)) return false;
+    if (isApiKeyEnv(key)) return true;
+    const providers = providersForEnvKey(after, key);
+    return !modelConfig || !providers.some((provider) => modelConfig.providers[provider.id]);
+  });
+  return { changedKeys, restartKeys, modelConfig };
+}
+
+/**
+ * Push saved AI settings to the running gateway
+ *
+ * Rewrites the models/agents.defaults sections of clawdbot.json when every
+ * change can be expressed there; the gateway watches its config file and
+ * reloads it unless gateway.reload.mode is "off". Otherwise the gateway gets
+ * a managed restart, which starts it with the new env vars. A restart that
+ * fails leaves the result at restart_required.
+ *
+ * @param sandbox - The sandbox instance
+ * @param env - Worker env vars
+ * @param before - Saved settings before the change
+ * @param after - Saved settings after the change
+ * @param actions - How to restart the gateway
+ */
+export async function applyAiConfig(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  before: AiEnvConfig,
+  after: AiEnvConfig,
+  actions: AiApplyActions
+): Promise<AiApplyResult> {
+  const { changedKeys, restartKeys, modelConfig } = diffAiConfig(
+    applyAiOverrides(env, before),
+    applyAiOverrides(env, after)
+  );
+  if (changedKeys.length === 0) {
+    return { status: 'applied', method: 'none', changedKeys };
+  }
+
+  try {
+    const process = await findExistingMoltbotProcess(sandbox);
+    if (!process) {
+      return { status: 'applied', method: 'next_start', changedKeys };
+    }
+
+    let reason: string;
+    if (restartKeys.length > 0) {
+      reason = `Env vars changed: ${restartKeys.join(', ')}`;
+    } else if (!modelConfig) {
+      reason = 'Model config was removed';
+    } else {
+      const file = await sandbox.readFile(GATEWAY_CONFIG_PATH);
+      const config = JSON.parse(file.content) as GatewayModelSections & {
+        gateway?: { reload?: { mode?: string } };
+      };
+      if (config.gateway?.reload?.mode === 'off') {
+        reason = 'Config reload is turned off (gateway.reload.mode)';
+      } else {
+        mergeModelConfig(config, modelConfig);
+        await sandbox.writeFile(GATEWAY_CONFIG_PATH, JSON.stringify(config, null, 2));
+        console.log('[AI] Rewrote model config for reload:', changedKeys.join(', '));
+        return { status: 'applied', method: 'reload', changedKeys };
+      }
+    }
+
+    console.log('[AI] Restarting gateway:', reason);
+    try {
+      await actions.restart();
+      const { health } = await actions.ready();
+      if (health?.status === 'unhealthy') {
+        throw new Error(`Gateway is unhealthy after the restart${health.reason ? `: ${health.reason}` : ''}`);
+      }
+    } catch (error) {
+      // Saved, but the gateway isn't running with the new settings
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[AI] Gateway restart failed:', errorMessage);
+      return { status: 'restart_required', method: 'none', changedKeys, reason, error: errorMessage };
+    }
+    return { status: 'applied', method: 'restart', changedKeys, reason };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[AI] Failed to apply AI settings:', errorMessage);
+    return { status: 'failed', method: 'none', changedKeys, error: errorMessage };
+  }
+}
@@ -0,0 +1,235 @@
+import { DurableObject } from 'cloudflare:workers';
+import { getSandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import type { Sandbox } from '@cloudflare/sandbox';
+import { buildSandboxOptions, getSleepAfterMs } from '../config';
+import { ensureMoltbotGateway, findExistingMoltbotProcess } from './process';
+import { GatewayLifecycle, type GatewayStatus } from './lifecycle';
+import { clearCleanShutdown, flushBeforeSleep, flushDueAt, writeCleanShutdown } from './sleep';
+import { SyncQueue, syncToR2, type SyncResult } from './sync';
+import type { SyncTrigger } from './history';
+import {
+  applyBackupImport,
+  compileSyncRules,
+  listConflicts,
+  readSyncRules,
+  resolveConflict,
+  restoreFiles,
+  restoreSnapshot,
+  type BackupImportResult,
+  type CompiledSyncRules,
+  type ConflictResolution,
+  type RestoreOptions,
+  type RestoreResult,
+  type SnapshotManifest,
+  type SnapshotRestoreResult,
+  type StagedBackupImport,
+} from '../storage';
+
+const STATUS_STORAGE_KEY = 'gateway-status';
+/** Epoch milliseconds of the last request that reached the container */
+const LAST_ACTIVITY_STORAGE_KEY = 'last-activity';
+/** Epoch milliseconds of the last successful pre-sleep flush */
+const FLUSHED_AT_STORAGE_KEY = 'flushed-at';
+
+/**
+ * Durable Object that owns the gateway lifecycle.
+ *
+ * All routes go through this single instance instead of calling
+ * ensureMoltbotGateway directly, so concurrent requests wait on the same
+ * start instead of racing to start their own gateway.
+ *
+ * Syncs to R2 go through it too, one at a time (see SyncQueue), and so do
+ * restores, conflict resolutions and imports, which change the container,
+ * the backup or the sync manifest under a sync's feet. When the container can
+ * sleep, it also tracks the last activity and runs the pre-sleep flush from an
+ * alarm (see sleep.ts).
+ */
+export class GatewayCoordinator extends DurableObject<MoltbotEnv> {
+  private readonly lifecycle: GatewayLifecycle;
+  private readonly sandbox: Sandbox;
+  private readonly syncs: SyncQueue;
+
+  constructor(ctx: DurableObjectState, env: MoltbotEnv) {
+    super(ctx, env);
+    const sandbox = getSandbox(env.Sandbox, 'moltbot', buildSandboxOptions(env));
+    this.sandbox = sandbox;
+    this.syncs = new SyncQueue((trigger) => this.runSync(trigger));
+
+    this.lifecycle = new GatewayLifecycle(
+      {
+        get: () => ctx.storage.get<GatewayStatus>(STATUS_STORAGE_KEY),
+        put: (status) => ctx.storage.put(STATUS_STORAGE_KEY, status),
+      },
+      {
+        start: async (onPhase) => {
+          const { process, health } = await ensureMoltbotGateway(sandbox, env, { onPhase });
+          return { processId: process.id, health };
+        },
+        isAlive: async () => (await findExistingMoltbotProcess(sandbox)) !== null,
+        stop: async () => {
+          const existingProcess = await findExistingMoltbotProcess(sandbox);
+          if (!existingProcess) return undefined;
+          console.log('[Coordinator] Killing existing gateway process:', existingProcess.id);
+          try {
+            await existingProcess.kill();
+          } catch (killErr) {
+            console.error('[Coordinator] Error killing process:', killErr);
+          }
+          // Wait a moment for the process to die
+          await new Promise(r => setTimeout(r, 2000));
+          return existingProcess.id;
+        },
+      },
+    );
+  }
+
+  /**
+   * Wait for the gateway to be ready, starting it if needed
+   */
+  async ensureReady(): Promise<GatewayStatus> {
+    return this.lifecycle.ensureReady();
+  }
+
+  /**
+   * Kill the current gateway and start a new one in the background
+   */
+  async restart(): Promise<{ previousProcessId?: string }> {
+    const { previousProcessId, ready } = await this.lifecycle.restart();
+    this.ctx.waitUntil(
+      ready.then(
+        () => undefined,
+        (err) => console.error('[Coordinator] Gateway restart failed:', err),
+      ),
+    );
+    return { previousProcessId };
+  }
+
+  async getStatus(): Promise<GatewayStatus> {
+    return this.lifecycle.getStatus();
+  }
+
+  /**
+   * Sync the container to R2, waiting for any sync already running
+   *
+   * @param trigger - What started the sync, for the history
+   */
+  async sync(trigger: SyncTrigger): Promise<SyncResult> {
+    return this.syncs.sync(trigger);
+  }
+
+  /**
+   * Copy chosen files from the backup or a snapshot into the container,
+   * between syncs (see restoreFiles)
+   */
+  async restoreFiles(paths: string[], options: RestoreOptions): Promise<RestoreResult> {
+    return this.syncs.exclusive(async () =>
+      restoreFiles(this.sandbox, this.env.MOLTBOT_BUCKET, paths, await this.readRules(), options)
+    );
+  }
+
+  /**
+   * Write a snapshot's files into the container, between syncs (see restoreSnapshot)
+   */
+  async restoreSnapshot(manifest: SnapshotManifest): Promise<SnapshotRestoreResult> {
+    return this.syncs.exclusive(async () =>
+      restoreSnapshot(this.sandbox, this.env.MOLTBOT_BUCKET, manifest, await this.readRules())
+    );
+  }
+
+  /**
+   * Resolve an open conflict, between syncs (see resolveConflict)
+   *
+   * @returns false when no conflict is open for the key
+   */
+  async resolveConflict(key: string, resolution: ConflictResolution, merged?: string): Promise<boolean> {
+    return this.syncs.exclusive(async () => {
+      const bucket = this.env.MOLTBOT_BUCKET;
+      const conflict = (await listConflicts(bucket)).find((entry) => entry.key === key);
+      if (!conflict) return false;
+      await resolveConflict(this.sandbox, bucket, conflict, resolution, merged);
+      return true;
+    });
+  }
+
+  /**
+   * Replace the backup with a staged archive, between syncs (see applyBackupImport)
+   */
+  async importBackup(
+    staged: StagedBackupImport,
+    options: { includeSecrets?: boolean; encryptionKey?: string }
+  ): Promise<BackupImportResult> {
+    return this.syncs.exclusive(async () =>
+      applyBackupImport(this.sandbox, this.env.MOLTBOT_BUCKET, staged, await this.readRules(), options)
+    );
+  }
+
+  private async readRules(): Promise<CompiledSyncRules> {
+    return compileSyncRules(await readSyncRules(this.env.MOLTBOT_BUCKET));
+  }
+
+  /**
+   * Run one sync. A sync after the pre-sleep flush, e.g. one the watcher asked
+   * for, becomes the final sync: the marker is dropped while it runs and left
+   * again once it has succeeded, so a crash in between isn't taken for a clean stop.
+   */
+  private async runSync(trigger: SyncTrigger): Promise<SyncResult> {
+    const storage = this.ctx.storage;
+    const flushed = trigger !== 'pre-sleep' && (await storage.get<number>(FLUSHED_AT_STORAGE_KEY)) !== undefined;
+    if (flushed) await clearCleanShutdown(this.env.MOLTBOT_BUCKET);
+    const result = await syncToR2(this.sandbox, this.env, trigger);
+    if (!flushed || !result.success || !result.lastSync) return result;
+    // Activity in the meantime drops the flush time, and the next alarm flushes again
+    const stillFlushed = (await storage.get<number>(FLUSHED_AT_STORAGE_KEY)) !== undefined;
+    const lastActivityAt = await storage.get<number>(LAST_ACTIVITY_STORAGE_KEY);
+    if (stillFlushed && lastActivityAt !== undefined) {
+      await writeCleanShutdown(this.env.MOLTBOT_BUCKET, result.lastSync, lastActivityAt);
+    }
+    return result;
+  }
+
+  /**
+   * Note a request that reached the container and move the pre-sleep flush
+   * to just before the new end of the idle window
+   *
+   * @param at - Epoch milliseconds of the activity
+   */
+  async recordActivity(at: number): Promise<void> {
+    const sleepAfterMs = getSleepAfterMs(this.env);
+    if (sleepAfterMs === null) return;
+    const storage = this.ctx.storage;
+    const lastActivityAt = await storage.get<number>(LAST_ACTIVITY_STORAGE_KEY);
+    if (lastActivityAt !== undefined && at <= lastActivityAt) return;
+
+    const flushedAt = await storage.get<number>(FLUSHED_AT_STORAGE_KEY);
+    if (flushedAt !== undefined) {
+      await storage.delete(FLUSHED_AT_STORAGE_KEY);
+      // Still inside the idle window the flush left: the container stays awake and
+      // may change again, so the marker no longer holds. Later, it is the wake-up
+      // request, and the next boot needs the marker.
+      if (at < flushedAt + sleepAfterMs) {
+        await clearCleanShutdown(this.env.MOLTBOT_BUCKET);
+      }
+    }
+    await storage.put(LAST_ACTIVITY_STORAGE_KEY, at);
+    await storage.setAlarm(flushDueAt(at, sleepAfterMs));
+  }
+
+  async alarm(): Promise<void> {
+    const sleepAfterMs = getSleepAfterMs(this.env);
+    const lastActivityAt = await this.ctx.storage.get<number>(LAST_ACTIVITY_STORAGE_KEY);
+    if (sleepAfterMs === null || lastActivityAt === undefined) return;
+
+    const dueAt = flushDueAt(lastActivityAt, sleepAfterMs);
+    if (Date.now() < dueAt) {
+      await this.ctx.storage.setAlarm(dueAt);
+      return;
+    }
+    const result = await flushBeforeSleep(this.env.MOLTBOT_BUCKET, lastActivityAt, (trigger) =>
+      this.syncs.sync(trigger)
+    );
+    if (result.success) {
+      await this.ctx.storage.put(FLUSHED_AT_STORAGE_KEY, Date.now());
+    }
+  }
+}
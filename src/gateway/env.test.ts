@@ -109,6 +109,101 @@ describe('buildEnvVars', () => {
     expect(result.OPENAI_API_KEY).toBe('sk-openai-key');
   });
 
+  it('generates the container model config for the primary provider', () => {
+    const env = createMockEnv({
+      AI_PRIMARY_PROVIDER: 'deepseek',
+      AI_PRIMARY_MODEL: 'deepseek-reasoner',
+      DEEPSEEK_API_KEY: 'sk-deepseek',
+    });
+    const result = buildEnvVars(env);
+    const modelConfig = JSON.parse(result.AI_MODEL_CONFIG);
+    expect(modelConfig.primary).toBe('deepseek/deepseek-reasoner');
+    expect(modelConfig.providers.deepseek).toMatchObject({
+      baseUrl: 'https://api.deepseek.com',
+      api: 'openai-responses',
+      apiKey: '${DEEPSEEK_API_KEY}',
+    });
+    expect(modelConfig.models['deepseek/deepseek-chat']).toEqual({ alias: 'DeepSeek Chat' });
+    // The key reaches the container as an env var; the config only names it
+    expect(result.DEEPSEEK_API_KEY).toBe('sk-deepseek');
+    expect(result.AI_MODEL_CONFIG).not.toContain('sk-deepseek');
+  });
+
+  it('routes an OpenAI AI Gateway URL to the OpenAI catalogue', () => {
+    const env = createMockEnv({
+      AI_GATEWAY_API_KEY: 'sk-gateway-key',
+      AI_GATEWAY_BASE_URL: 'https://gateway.ai.cloudflare.com/v1/123/my-gw/openai',
+    });
+    const modelConfig = JSON.parse(buildEnvVars(env).AI_MODEL_CONFIG);
+    expect(modelConfig.primary).toBe('openai/gpt-5.2');
+    expect(modelConfig.providers.openai.baseUrl).toBe('https://gateway.ai.cloudflare.com/v1/123/my-gw/openai');
+  });
+
+  it('uses Gemini with its own key and default base URL', () => {
+    const env = createMockEnv({ AI_PRIMARY_PROVIDER: 'gemini', GEMINI_API_KEY: 'gm-key', ANTHROPIC_API_KEY: 'sk-ant' });
+    const result = buildEnvVars(env);
+    expect(result.GEMINI_API_KEY).toBe('gm-key');
+    expect(result.ANTHROPIC_API_KEY).toBe('sk-ant');
+    const modelConfig = JSON.parse(result.AI_MODEL_CONFIG);
+    expect(modelConfig.primary).toBe('gemini/gemini-2.5-pro');
+    expect(modelConfig.providers.gemini).toMatchObject({
+      baseUrl: 'https://generativelanguage.googleapis.com/v1beta/openai',
+      api: 'openai-completions',
+      apiKey: '${GEMINI_API_KEY}',
+    });
+  });
+
+  it('adds a custom OpenRouter model to the container catalogue', () => {
+    const env = createMockEnv({
+      AI_PRIMARY_PROVIDER: 'openrouter',
+      AI_PRIMARY_MODEL: 'meta-llama/llama-4-maverick',
+      OPENROUTER_API_KEY: 'or-key',
+      OPENROUTER_BASE_URL: 'https://proxy.example.com/v1/',
+    });
+    const result = buildEnvVars(env);
+    expect(result.OPENROUTER_BASE_URL).toBe('https://proxy.example.com/v1');
+    const modelConfig = JSON.parse(result.AI_MODEL_CONFIG);
+    expect(modelConfig.primary).toBe('openrouter/meta-llama/llama-4-maverick');
+    expect(modelConfig.providers.openrouter.models).toContainEqual({
+      id: 'meta-llama/llama-4-maverick',
+      name: 'meta-llama/llama-4-maverick',
+      contextWindow: 128000,
+    });
+    expect(modelConfig.models['openrouter/meta-llama/llama-4-maverick']).toBeDefined();
+  });
+
+  it('keeps AI Gateway credentials for the provider the gateway routes to', () => {
+    const env = createMockEnv({
+      AI_PRIMARY_PROVIDER: 'openai',
+      OPENAI_API_KEY: 'sk-openai',
+      AI_GATEWAY_API_KEY: 'sk-gateway',
+      AI_GATEWAY_BASE_URL: 'https://gateway.ai.cloudflare.com/v1/123/my-gw/anthropic',
+    });
+    const result = buildEnvVars(env);
+    expect(result.OPENAI_API_KEY).toBe('sk-openai');
+    expect(result.AI_GATEWAY_BASE_URL).toBeUndefined();
+    expect(JSON.parse(result.AI_MODEL_CONFIG).providers.openai.baseUrl).toBe('https://api.openai.com/v1');
+  });
+
+  it('writes the fallback chain for providers that have a key', () => {
+    const env = createMockEnv({
+      ANTHROPIC_API_KEY: 'sk-ant',
+      OPENAI_API_KEY: 'sk-openai',
+      AI_FALLBACK_MODELS: 'openai/gpt-5,gemini/gemini-2.5-pro,anthropic/claude-opus-4-5-20251101',
+    });
+    const modelConfig = JSON.parse(buildEnvVars(env).AI_MODEL_CONFIG);
+    expect(modelConfig.primary).toBe('anthropic/claude-opus-4-5-20251101');
+    // Gemini has no key and the Anthropic entry repeats the primary
+    expect(modelConfig.fallbacks).toEqual(['openai/gpt-5']);
+    expect(modelConfig.providers.openai).toMatchObject({ baseUrl: 'https://api.openai.com/v1', apiKey: '${OPENAI_API_KEY}' });
+    expect(modelConfig.models['anthropic/claude-sonnet-4-5-20250929']).toBeDefined();
+  });
+
+  it('leaves model config to the gateway defaults when only an Anthropic key is set', () => {
+    const env = createMockEnv({ ANTHROPIC_API_KEY: 'sk-key' });
+    expect(buildEnvVars(env).AI_MODEL_CONFIG).toBeUndefined();
+  });
+
   it('maps MOLTBOT_GATEWAY_TOKEN to CLAWDBOT_GATEWAY_TOKEN for container', () => {
     const env = createMockEnv({ MOLTBOT_GATEWAY_TOKEN: 'my-token' });
     const result = buildEnvVars(env);
@@ -1,4 +1,14 @@
 import type { MoltbotEnv } from '../types';
+import {
+  AI_PROVIDERS,
+  buildContainerModelConfig,
+  getAiProvider,
+  getProviderApiKey,
+  resolveFallbackModels,
+  resolvePrimaryProvider,
+  resolveProviderBaseUrl,
+  type ModelSelection,
+} from '../ai';
 
 /**
  * Build environment variables to pass to the Moltbot container process
@@ -8,57 +18,67 @@ import type { MoltbotEnv } from '../types';
  */
 export function buildEnvVars(env: MoltbotEnv): Record<string, string> {
   const envVars: Record<string, string> = {};
+  const envRecord = env as unknown as Record<string, string | undefined>;
 
-  const primaryProvider = env.AI_PRIMARY_PROVIDER;
-  if (primaryProvider) {
-    envVars.AI_PRIMARY_PROVIDER = primaryProvider;
+  if (env.AI_PRIMARY_PROVIDER) {
+    envVars.AI_PRIMARY_PROVIDER = env.AI_PRIMARY_PROVIDER;
   }
   if (env.AI_PRIMARY_MODEL) {
     envVars.AI_PRIMARY_MODEL = env.AI_PRIMARY_MODEL;
   }
 
-  if (primaryProvider === 'deepseek') {
-    const normalizedDeepseekBaseUrl = env.DEEPSEEK_BASE_URL?.replace(/\/+$/, '');
-    if (normalizedDeepseekBaseUrl) {
-      envVars.DEEPSEEK_BASE_URL = normalizedDeepseekBaseUrl;
-      envVars.OPENAI_BASE_URL = normalizedDeepseekBaseUrl;
-    }
-    if (env.DEEPSEEK_API_KEY) {
-      envVars.DEEPSEEK_API_KEY = env.DEEPSEEK_API_KEY;
-      envVars.OPENAI_API_KEY = env.DEEPSEEK_API_KEY;
-    }
-  } else {
-    const normalizedBaseUrl = env.AI_GATEWAY_BASE_URL?.replace(/\/+$/, '');
-    const isOpenAIGateway = normalizedBaseUrl?.endsWith('/openai');
+  // The primary provider gets its key and base URL first, under both its own
+  // env names and the names the gateway reads inside the container
+  const provider = resolvePrimaryProvider(env);
+  const containerEnv = provider.containerEnv ?? { apiKey: provider.apiKeyEnv, baseUrl: provider.baseUrlEnv };
+  // AI Gateway credentials apply to the provider the gateway URL routes to
+  const apiKey = getProviderApiKey(env, provider);
+  if (apiKey) {
+    envVars[provider.apiKeyEnv] = apiKey;
+    envVars[containerEnv.apiKey] = apiKey;
+  }
+
+  const { gatewayBaseUrl, baseUrl: configuredBaseUrl } = resolveProviderBaseUrl(env, provider);
+  if (gatewayBaseUrl) {
+    envVars.AI_GATEWAY_BASE_URL = gatewayBaseUrl;
+  }
+  if (configuredBaseUrl) {
+    envVars[provider.baseUrlEnv] = configuredBaseUrl;
+    envVars[containerEnv.baseUrl] = configuredBaseUrl;
+  }
 
-    if (env.AI_GATEWAY_API_KEY) {
-      if (isOpenAIGateway) {
-        envVars.OPENAI_API_KEY = env.AI_GATEWAY_API_KEY;
-      } else {
-        envVars.ANTHROPIC_API_KEY = env.AI_GATEWAY_API_KEY;
-      }
-    }
+  // Other providers' credentials pass through untouched
+  for (const other of AI_PROVIDERS) {
+    const otherKey = envRecord[other.apiKeyEnv];
+    if (otherKey && !envVars[other.apiKeyEnv]) envVars[other.apiKeyEnv] = otherKey;
+    const otherBaseUrl = envRecord[other.baseUrlEnv];
+    if (otherBaseUrl && !envVars[other.baseUrlEnv]) envVars[other.baseUrlEnv] = otherBaseUrl;
+  }
 
-    if (!envVars.ANTHROPIC_API_KEY && env.ANTHROPIC_API_KEY) {
-      envVars.ANTHROPIC_API_KEY = env.ANTHROPIC_API_KEY;
-    }
-    if (!envVars.OPENAI_API_KEY && env.OPENAI_API_KEY) {
-      envVars.OPENAI_API_KEY = env.OPENAI_API_KEY;
-    }
+  // Fallbacks without an API key can't be reached, so they are left out. The
+  // model config only names the env var holding each key
+  const fallbacks: ModelSelection[] = resolveFallbackModels(env).flatMap((ref) => {
+    const fallbackProvider = getAiProvider(ref.provider)!;
+    const fallbackKey = getProviderApiKey(env, fallbackProvider);
+    if (!fallbackKey) return [];
+    envVars[fallbackProvider.apiKeyEnv] = fallbackKey;
+    const fallbackBaseUrl = resolveProviderBaseUrl(env, fallbackProvider).baseUrl ?? fallbackProvider.defaultBaseUrl;
+    return [
+      { provider: fallbackProvider, model: ref.model, baseUrl: fallbackBaseUrl, apiKeyEnv: fallbackProvider.apiKeyEnv },
+    ];
+  });
 
-    if (normalizedBaseUrl) {
-      envVars.AI_GATEWAY_BASE_URL = normalizedBaseUrl;
-      if (isOpenAIGateway) {
-        envVars.OPENAI_BASE_URL = normalizedBaseUrl;
-      } else {
-        envVars.ANTHROPIC_BASE_URL = normalizedBaseUrl;
-      }
-    } else if (env.ANTHROPIC_BASE_URL) {
-      envVars.ANTHROPIC_BASE_URL = env.ANTHROPIC_BASE_URL;
-    } else if (env.OPENAI_BASE_URL) {
-      envVars.OPENAI_BASE_URL = env.OPENAI_BASE_URL;
-    }
+  // Model config for the container, generated from the registry
+  const baseUrl = configuredBaseUrl ?? provider.defaultBaseUrl;
+  if (baseUrl || env.AI_PRIMARY_PROVIDER || env.AI_PRIMARY_MODEL || fallbacks.length > 0) {
+    envVars.AI_MODEL_CONFIG = JSON.stringify(
+      buildContainerModelConfig(
+        { provider, model: env.AI_PRIMARY_MODEL, baseUrl, apiKeyEnv: apiKey ? provider.apiKeyEnv : undefined },
+        fallbacks
+      )
+    );
   }
+
   // Map MOLTBOT_GATEWAY_TOKEN to CLAWDBOT_GATEWAY_TOKEN (container expects this name)
   if (env.MOLTBOT_GATEWAY_TOKEN) envVars.CLAWDBOT_GATEWAY_TOKEN = env.MOLTBOT_GATEWAY_TOKEN;
   if (env.DEV_MODE) envVars.CLAWDBOT_DEV_MODE = env.DEV_MODE; // Pass DEV_MODE as CLAWDBOT_DEV_MODE to container
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { probeGatewayHealth, getHealthProbeOptions } from './health';
+import { createMockEnv, createMockSandbox, suppressConsole } from '../test-utils';
+
+function createMockWebSocket() {
+  return { accept: () => {}, close: () => {} };
+}
+
+describe('getHealthProbeOptions', () => {
+  it('uses the default number of attempts', () => {
+    expect(getHealthProbeOptions(createMockEnv()).attempts).toBe(5);
+  });
+
+  it('reads GATEWAY_HEALTH_PROBE_ATTEMPTS', () => {
+    const env = createMockEnv({ GATEWAY_HEALTH_PROBE_ATTEMPTS: '2' });
+    expect(getHealthProbeOptions(env).attempts).toBe(2);
+  });
+
+  it('ignores invalid values', () => {
+    const env = createMockEnv({ GATEWAY_HEALTH_PROBE_ATTEMPTS: 'nope' });
+    expect(getHealthProbeOptions(env).attempts).toBe(5);
+  });
+});
+
+describe('probeGatewayHealth', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('returns ready when HTTP and WebSocket both answer', async () => {
+    const { sandbox, containerFetchMock, wsConnectMock } = createMockSandbox();
+    containerFetchMock.mockResolvedValue(new Response('ok', { status: 200 }));
+    wsConnectMock.mockResolvedValue({ status: 101, webSocket: createMockWebSocket() });
+
+    const health = await probeGatewayHealth(sandbox, { attempts: 3, intervalMs: 0 });
+
+    expect(health.status).toBe('ready');
+    expect(health.reason).toBeUndefined();
+    expect(health.attempts).toBe(1);
+  });
+
+  it('returns degraded with a reason when the WebSocket upgrade fails', async () => {
+    const { sandbox, containerFetchMock, wsConnectMock } = createMockSandbox();
+    containerFetchMock.mockResolvedValue(new Response('ok', { status: 200 }));
+    wsConnectMock.mockResolvedValue({ status: 426, webSocket: null });
+
+    const health = await probeGatewayHealth(sandbox, { attempts: 2, intervalMs: 0 });
+
+    expect(health.status).toBe('degraded');
+    expect(health.reason).toContain('WebSocket check returned status 426');
+    expect(health.attempts).toBe(2);
+  });
+
+  it('returns unhealthy when neither check passes', async () => {
+    const { sandbox, containerFetchMock, wsConnectMock } = createMockSandbox();
+    containerFetchMock.mockResolvedValue(new Response('error', { status: 502 }));
+    wsConnectMock.mockRejectedValue(new Error('connection refused'));
+
+    const health = await probeGatewayHealth(sandbox, { attempts: 1, intervalMs: 0 });
+
+    expect(health.status).toBe('unhealthy');
+    expect(health.reason).toContain('HTTP check returned status 502');
+    expect(health.reason).toContain('WebSocket check failed: connection refused');
+  });
+
+  it('retries until both checks pass', async () => {
+    const { sandbox, containerFetchMock, wsConnectMock } = createMockSandbox();
+    containerFetchMock
+      .mockRejectedValueOnce(new Error('not yet'))
+      .mockResolvedValue(new Response('ok', { status: 200 }));
+    wsConnectMock.mockResolvedValue({ status: 101, webSocket: createMockWebSocket() });
+
+    const health = await probeGatewayHealth(sandbox, { attempts: 3, intervalMs: 0 });
+
+    expect(health.status).toBe('ready');
+    expect(health.attempts).toBe(2);
+    expect(containerFetchMock).toHaveBeenCalledTimes(2);
+  });
+});
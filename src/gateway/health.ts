@@ -0,0 +1,130 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import { HEALTH_PROBE_ATTEMPTS, HEALTH_PROBE_INTERVAL_MS, MOLTBOT_PORT } from '../config';
+
+export type GatewayHealthStatus = 'ready' | 'degraded' | 'unhealthy';
+
+export interface GatewayCheckResult {
+  ok: boolean;
+  status?: number;
+  error?: string;
+}
+
+export interface GatewayHealth {
+  status: GatewayHealthStatus;
+  reason?: string;
+  http: GatewayCheckResult;
+  websocket: GatewayCheckResult;
+  attempts: number;
+  checkedAt: string;
+}
+
+export interface HealthProbeOptions {
+  /** How many times to try before giving up */
+  attempts?: number;
+  /** Delay between attempts */
+  intervalMs?: number;
+}
+
+/**
+ * Read the probe retry budget from the environment.
+ * GATEWAY_HEALTH_PROBE_ATTEMPTS overrides the default number of attempts.
+ */
+export function getHealthProbeOptions(env: MoltbotEnv): HealthProbeOptions {
+  const attempts = Number.parseInt(env.GATEWAY_HEALTH_PROBE_ATTEMPTS ?? '', 10);
+  return {
+    attempts: Number.isFinite(attempts) && attempts > 0 ? attempts : HEALTH_PROBE_ATTEMPTS,
+    intervalMs: HEALTH_PROBE_INTERVAL_MS,
+  };
+}
+
+async function checkHttp(sandbox: Sandbox): Promise<GatewayCheckResult> {
+  try {
+    const response = await sandbox.containerFetch(
+      new Request(`http://localhost:${MOLTBOT_PORT}/`, { method: 'GET' }),
+      MOLTBOT_PORT
+    );
+    // Any non-5xx answer means the gateway's HTTP server is up and handling requests
+    return { ok: response.status < 500, status: response.status };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+async function checkWebSocket(sandbox: Sandbox): Promise<GatewayCheckResult> {
+  try {
+    const response = await sandbox.wsConnect(
+      new Request(`http://localhost:${MOLTBOT_PORT}/`, { headers: { Upgrade: 'websocket' } }),
+      MOLTBOT_PORT
+    );
+    const ws = response.webSocket;
+    if (response.status !== 101 || !ws) {
+      return { ok: false, status: response.status };
+    }
+    // The handshake is all we need - close straight away
+    try {
+      ws.accept();
+      ws.close(1000, 'health probe');
+    } catch {
+      // Ignore close errors, the handshake already succeeded
+    }
+    return { ok: true, status: response.status };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+function describeFailure(name: string, result: GatewayCheckResult): string {
+  if (result.error) return `${name} check failed: ${result.error}`;
+  return `${name} check returned status ${result.status}`;
+}
+
+/**
+ * Probe the gateway at the application level, beyond an open TCP port.
+ *
+ * Makes an HTTP request and a WebSocket handshake against the gateway, retrying
+ * until both succeed or the retry budget runs out.
+ * - ready: both checks passed
+ * - degraded: only one of the checks passed
+ * - unhealthy: neither check passed
+ *
+ * @param sandbox - The sandbox instance
+ * @param options - Retry budget
+ * @returns The health result with a reason when not ready
+ */
+export async function probeGatewayHealth(
+  sandbox: Sandbox,
+  options: HealthProbeOptions = {}
+): Promise<GatewayHealth> {
+  const attempts = Math.max(1, options.attempts ?? HEALTH_PROBE_ATTEMPTS);
+  const intervalMs = options.intervalMs ?? HEALTH_PROBE_INTERVAL_MS;
+
+  let http: GatewayCheckResult = { ok: false };
+  let websocket: GatewayCheckResult = { ok: false };
+  let attempt = 0;
+  while (attempt < attempts) {
+    attempt++;
+    [http, websocket] = await Promise.all([checkHttp(sandbox), checkWebSocket(sandbox)]);
+    if (http.ok && websocket.ok) break;
+    if (attempt < attempts) {
+      await new Promise(r => setTimeout(r, intervalMs));
+    }
+  }
+
+  const checkedAt = new Date().toISOString();
+  if (http.ok && websocket.ok) {
+    return { status: 'ready', http, websocket, attempts: attempt, checkedAt };
+  }
+  const failures = [
+    http.ok ? null : describeFailure('HTTP', http),
+    websocket.ok ? null : describeFailure('WebSocket', websocket),
+  ].filter((reason): reason is string => reason !== null);
+  return {
+    status: http.ok || websocket.ok ? 'degraded' : 'unhealthy',
+    reason: failures.join('; '),
+    http,
+    websocket,
+    attempts: attempt,
+    checkedAt,
+  };
+}
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { SYNC_HISTORY_KEY, readSyncHistory, recordSyncRun, type SyncRunRecord } from './history';
+import { SYNC_HISTORY_LIMIT } from '../config';
+import { createMockBucket } from '../test-utils';
+
+const run = (at: string): SyncRunRecord => ({ at, trigger: 'cron', durationMs: 10, success: true });
+
+describe('sync history', () => {
+  it('returns an empty history when nothing was recorded', async () => {
+    const { bucket } = createMockBucket();
+    expect(await readSyncHistory(bucket)).toEqual([]);
+  });
+
+  it('keeps the newest runs first, up to the limit', async () => {
+    const { bucket, objects } = createMockBucket();
+    const runs = Array.from({ length: SYNC_HISTORY_LIMIT }, (_, i) => run(`2026-01-01T00:00:${String(i).padStart(2, '0')}Z`));
+    objects.set(SYNC_HISTORY_KEY, JSON.stringify({ runs }));
+
+    await recordSyncRun(bucket, run('2026-01-02T00:00:00Z'));
+
+    const history = await readSyncHistory(bucket);
+    expect(history).toHaveLength(SYNC_HISTORY_LIMIT);
+    expect(history[0].at).toBe('2026-01-02T00:00:00Z');
+    expect(history[SYNC_HISTORY_LIMIT - 1]).toEqual(runs[SYNC_HISTORY_LIMIT - 2]);
+  });
+});
@@ -0,0 +1,47 @@
+import { R2_META_PREFIX, SYNC_HISTORY_LIMIT } from '../config';
+import { readJsonObject, writeJsonObject } from '../storage';
+import type { SyncStats } from './sync';
+
+/** R2 key holding the sync history */
+export const SYNC_HISTORY_KEY = `${R2_META_PREFIX}sync-history.json`;
+
+/** What started a sync */
+export type SyncTrigger = 'cron' | 'manual' | 'watch' | 'pre-sleep';
+
+export interface SyncRunRecord {
+  /** When the sync started */
+  at: string;
+  trigger: SyncTrigger;
+  durationMs: number;
+  success: boolean;
+  error?: string;
+  /** Set when the sync got as far as transferring files */
+  stats?: SyncStats;
+}
+
+interface SyncHistory {
+  /** Newest first */
+  runs: SyncRunRecord[];
+}
+
+/**
+ * Read the recorded sync runs
+ *
+ * @param bucket - The R2 bucket binding
+ * @returns Runs, newest first
+ */
+export async function readSyncHistory(bucket: R2Bucket): Promise<SyncRunRecord[]> {
+  const history = await readJsonObject<SyncHistory>(bucket, SYNC_HISTORY_KEY);
+  return Array.isArray(history?.runs) ? history.runs : [];
+}
+
+/**
+ * Add a run to the history, dropping the oldest beyond SYNC_HISTORY_LIMIT
+ *
+ * @param bucket - The R2 bucket binding
+ * @param record - The finished run
+ */
+export async function recordSyncRun(bucket: R2Bucket, record: SyncRunRecord): Promise<void> {
+  const runs = [record, ...(await readSyncHistory(bucket))].slice(0, SYNC_HISTORY_LIMIT);
+  await writeJsonObject(bucket, SYNC_HISTORY_KEY, { runs } satisfies SyncHistory);
+}
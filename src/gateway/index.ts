@@ -1,5 +1,13 @@
 export { buildEnvVars } from './env';
 export { mountR2Storage } from './r2';
-export { findExistingMoltbotProcess, ensureMoltbotGateway } from './process';
-export { syncToR2 } from './sync';
+export { findExistingMoltbotProcess, findLastExitedMoltbotProcess, ensureMoltbotGateway } from './process';
+export { syncToR2, readLastSync, SyncQueue, type SyncResult, type SyncStats } from './sync';
+export { readSyncHistory, type SyncRunRecord, type SyncTrigger } from './history';
+export { probeGatewayHealth, type GatewayHealth } from './health';
 export { waitForProcess } from './utils';
+export { getGatewayCoordinator, type GatewayState, type GatewayStatus } from './lifecycle';
+export { runGatewayWatchdog, readWatchdogState, resetWatchdog, type WatchdogState } from './watchdog';
+export { readStartupReports, type StartupReport } from './startup';
+export { applyAiConfig, type AiApplyResult } from './apply';
+export { readSyncWatchState, hasPendingChanges, type SyncWatchState } from './sync-watch';
+export { recordContainerActivity } from './activity';
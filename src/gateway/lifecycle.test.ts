@@ -0,0 +1,175 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GatewayLifecycle, canTransition, type GatewayRunner, type GatewayStatus } from './lifecycle';
+
+function createMemoryStore(initial?: GatewayStatus) {
+  let status = initial;
+  return {
+    get: vi.fn(async () => status),
+    put: vi.fn(async (next: GatewayStatus) => {
+      status = next;
+    }),
+  };
+}
+
+function createDeferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (err: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+function createRunner(overrides: Partial<GatewayRunner> = {}): GatewayRunner {
+  return {
+    start: vi.fn(async (onPhase) => {
+      await onPhase('mounting');
+      await onPhase('starting');
+      return { processId: 'proc-1' };
+    }),
+    isAlive: vi.fn().mockResolvedValue(true),
+    stop: vi.fn().mockResolvedValue(undefined),
+    ...overrides,
+  };
+}
+
+describe('canTransition', () => {
+  it('allows the startup path', () => {
+    expect(canTransition('stopped', 'mounting')).toBe(true);
+    expect(canTransition('mounting', 'starting')).toBe(true);
+    expect(canTransition('starting', 'ready')).toBe(true);
+    expect(canTransition('ready', 'degraded')).toBe(true);
+    expect(canTransition('degraded', 'restarting')).toBe(true);
+    expect(canTransition('restarting', 'mounting')).toBe(true);
+  });
+
+  it('rejects skipping phases', () => {
+    expect(canTransition('stopped', 'ready')).toBe(false);
+    expect(canTransition('mounting', 'ready')).toBe(false);
+    expect(canTransition('restarting', 'ready')).toBe(false);
+  });
+});
+
+describe('GatewayLifecycle', () => {
+  it('reports stopped when nothing has been stored', async () => {
+    const lifecycle = new GatewayLifecycle(createMemoryStore(), createRunner());
+    const status = await lifecycle.getStatus();
+    expect(status.state).toBe('stopped');
+  });
+
+  it('walks through mounting and starting to ready', async () => {
+    const store = createMemoryStore();
+    const lifecycle = new GatewayLifecycle(store, createRunner());
+
+    const status = await lifecycle.ensureReady();
+
+    expect(status.state).toBe('ready');
+    expect(status.processId).toBe('proc-1');
+    expect(store.put.mock.calls.map(([s]) => s.state)).toEqual(['mounting', 'starting', 'ready']);
+  });
+
+  it('only starts once for concurrent callers', async () => {
+    const deferred = createDeferred<{ processId: string }>();
+    const start = vi.fn(async (onPhase: (state: 'mounting' | 'starting') => Promise<void>) => {
+      await onPhase('mounting');
+      await onPhase('starting');
+      return deferred.promise;
+    });
+    const lifecycle = new GatewayLifecycle(createMemoryStore(), createRunner({ start }));
+
+    const first = lifecycle.ensureReady();
+    const second = lifecycle.ensureReady();
+    await Promise.resolve();
+    const third = lifecycle.ensureReady();
+    deferred.resolve({ processId: 'proc-1' });
+
+    const results = await Promise.all([first, second, third]);
+    expect(start).toHaveBeenCalledTimes(1);
+    expect(results.every(r => r.state === 'ready')).toBe(true);
+  });
+
+  it('settles on degraded when the health probe does not fully pass', async () => {
+    const store = createMemoryStore();
+    const start = vi.fn(async (onPhase: (state: 'mounting' | 'starting') => Promise<void>) => {
+      await onPhase('mounting');
+      await onPhase('starting');
+      return {
+        processId: 'proc-1',
+        health: {
+          status: 'degraded' as const,
+          reason: 'WebSocket check returned status 426',
+          http: { ok: true, status: 200 },
+          websocket: { ok: false, status: 426 },
+          attempts: 3,
+          checkedAt: new Date().toISOString(),
+        },
+      };
+    });
+    const lifecycle = new GatewayLifecycle(store, createRunner({ start }));
+
+    const status = await lifecycle.ensureReady();
+
+    expect(status.state).toBe('degraded');
+    expect(status.health?.reason).toBe('WebSocket check returned status 426');
+  });
+
+  it('does not restart a ready gateway that is still alive', async () => {
+    const store = createMemoryStore({ state: 'ready', since: new Date().toISOString(), processId: 'proc-0' });
+    const runner = createRunner();
+    const lifecycle = new GatewayLifecycle(store, runner);
+
+    const status = await lifecycle.ensureReady();
+
+    expect(status.processId).toBe('proc-0');
+    expect(runner.start).not.toHaveBeenCalled();
+  });
+
+  it('starts again when a ready gateway has died', async () => {
+    const store = createMemoryStore({ state: 'ready', since: new Date().toISOString(), processId: 'proc-0' });
+    const runner = createRunner({ isAlive: vi.fn().mockResolvedValue(false) });
+    const lifecycle = new GatewayLifecycle(store, runner);
+
+    const status = await lifecycle.ensureReady();
+
+    expect(runner.start).toHaveBeenCalledTimes(1);
+    expect(status.processId).toBe('proc-1');
+  });
+
+  it('records the error and returns to stopped when the start fails', async () => {
+    const store = createMemoryStore();
+    const runner = createRunner({ start: vi.fn().mockRejectedValue(new Error('boom')) });
+    const lifecycle = new GatewayLifecycle(store, runner);
+
+    await expect(lifecycle.ensureReady()).rejects.toThrow('boom');
+
+    const status = await lifecycle.getStatus();
+    expect(status.state).toBe('stopped');
+    expect(status.error).toBe('boom');
+  });
+
+  it('restarts through the restarting state', async () => {
+    const store = createMemoryStore({ state: 'ready', since: new Date().toISOString(), processId: 'proc-0' });
+    const runner = createRunner({ stop: vi.fn().mockResolvedValue('proc-0') });
+    const lifecycle = new GatewayLifecycle(store, runner);
+
+    const { previousProcessId, ready } = await lifecycle.restart();
+    const status = await ready;
+
+    expect(previousProcessId).toBe('proc-0');
+    expect(status.state).toBe('ready');
+    expect(store.put.mock.calls.map(([s]) => s.state)).toEqual(['restarting', 'mounting', 'starting', 'ready']);
+  });
+
+  it('joins callers that arrive during a restart', async () => {
+    const store = createMemoryStore({ state: 'ready', since: new Date().toISOString(), processId: 'proc-0' });
+    const runner = createRunner({ stop: vi.fn().mockResolvedValue('proc-0') });
+    const lifecycle = new GatewayLifecycle(store, runner);
+
+    const { ready } = await lifecycle.restart();
+    const joined = lifecycle.ensureReady();
+
+    await Promise.all([ready, joined]);
+    expect(runner.start).toHaveBeenCalledTimes(1);
+  });
+});
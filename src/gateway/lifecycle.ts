@@ -0,0 +1,171 @@
+import type { MoltbotEnv } from '../types';
+import type { GatewayCoordinator } from './coordinator';
+import type { GatewayHealth } from './health';
+
+/**
+ * Gateway lifecycle states, owned by the GatewayCoordinator Durable Object.
+ *
+ * stopped → mounting → starting → ready ⇄ degraded
+ *                                   ↓         ↓
+ *                                  restarting → mounting → ...
+ */
+export type GatewayState = 'stopped' | 'mounting' | 'starting' | 'ready' | 'degraded' | 'restarting';
+
+export interface GatewayStatus {
+  state: GatewayState;
+  /** ISO timestamp of the last state change */
+  since: string;
+  processId?: string;
+  error?: string;
+  /** Result of the last application-level health probe */
+  health?: Pick<GatewayHealth, 'status' | 'reason' | 'checkedAt'>;
+}
+
+/** Allowed transitions, keyed by the current state */
+export const GATEWAY_TRANSITIONS: Record<GatewayState, readonly GatewayState[]> = {
+  stopped: ['mounting'],
+  mounting: ['starting', 'stopped'],
+  starting: ['ready', 'degraded', 'stopped'],
+  ready: ['degraded', 'restarting', 'stopped'],
+  degraded: ['ready', 'restarting', 'stopped'],
+  restarting: ['mounting', 'stopped'],
+};
+
+export function canTransition(from: GatewayState, to: GatewayState): boolean {
+  return GATEWAY_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Persistence for the current gateway status (Durable Object storage in production)
+ */
+export interface GatewayStatusStore {
+  get(): Promise<GatewayStatus | undefined>;
+  put(status: GatewayStatus): Promise<void>;
+}
+
+/**
+ * Callbacks used by the lifecycle to drive the actual container
+ */
+export interface GatewayRunner {
+  /** Start (or adopt) the gateway, reporting phase changes as it goes */
+  start(onPhase: (state: 'mounting' | 'starting') => Promise<void>): Promise<{ processId: string; health?: GatewayHealth }>;
+  /** Whether a gateway process is currently alive in the container */
+  isAlive(): Promise<boolean>;
+  /** Kill the current gateway process, returning its id if there was one */
+  stop(): Promise<string | undefined>;
+}
+
+/**
+ * Explicit gateway state machine with single-flight starts.
+ *
+ * Concurrent callers of ensureReady() share the same in-flight start, so only
+ * one start is ever running for the container.
+ */
+export class GatewayLifecycle {
+  private inflight: Promise<GatewayStatus> | null = null;
+
+  constructor(
+    private readonly store: GatewayStatusStore,
+    private readonly runner: GatewayRunner,
+  ) {}
+
+  async getStatus(): Promise<GatewayStatus> {
+    return (await this.store.get()) ?? { state: 'stopped', since: new Date(0).toISOString() };
+  }
+
+  /**
+   * Move to a new state, rejecting transitions the state machine does not allow
+   */
+  async transition(to: GatewayState, details: Omit<GatewayStatus, 'state' | 'since'> = {}): Promise<GatewayStatus> {
+    const current = await this.getStatus();
+    if (current.state !== to && !canTransition(current.state, to)) {
+      throw new Error(`Invalid gateway transition: ${current.state} -> ${to}`);
+    }
+    const next: GatewayStatus = { state: to, since: new Date().toISOString(), ...details };
+    await this.store.put(next);
+    return next;
+  }
+
+  /**
+   * Wait until the gateway is ready, starting it if nothing else already is
+   */
+  ensureReady(): Promise<GatewayStatus> {
+    return this.inflight ?? this.track(async () => {
+      const current = await this.getStatus();
+      if ((current.state === 'ready' || current.state === 'degraded') && (await this.runner.isAlive())) {
+        return current;
+      }
+      return this.start();
+    });
+  }
+
+  /**
+   * Kill the current gateway and start a new one.
+   * Waits for any in-flight start to settle first so the two never overlap.
+   */
+  async restart(): Promise<{ previousProcessId?: string; ready: Promise<GatewayStatus> }> {
+    while (this.inflight) {
+      await this.inflight.catch(() => undefined);
+    }
+    let previousProcessId: string | undefined;
+    let markStopped!: () => void;
+    const stopped = new Promise<void>((resolve) => {
+      markStopped = resolve;
+    });
+    const ready = this.track(async () => {
+      try {
+        const current = await this.getStatus();
+        if (current.state === 'ready' || current.state === 'degraded') {
+          await this.transition('restarting', { processId: current.processId });
+        }
+        previousProcessId = await this.runner.stop();
+      } finally {
+        markStopped();
+      }
+      return this.start();
+    });
+    await stopped;
+    return { previousProcessId, ready };
+  }
+
+  private async start(): Promise<GatewayStatus> {
+    // A dead gateway or a stale intermediate state (e.g. a start that died
+    // with its isolate) is reset to stopped before starting again
+    const current = await this.getStatus();
+    if (current.state !== 'stopped' && current.state !== 'restarting') {
+      await this.store.put({ state: 'stopped', since: new Date().toISOString() });
+    }
+    try {
+      const { processId, health } = await this.runner.start((phase) => this.transition(phase).then(() => undefined));
+      // A gateway that does not pass the full health probe is up but degraded
+      const state = !health || health.status === 'ready' ? 'ready' : 'degraded';
+      return await this.transition(state, {
+        processId,
+        health: health && { status: health.status, reason: health.reason, checkedAt: health.checkedAt },
+      });
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      await this.store.put({ state: 'stopped', since: new Date().toISOString(), error });
+      throw err;
+    }
+  }
+
+  /**
+   * Register an operation as the single in-flight one until it settles
+   */
+  private track(operation: () => Promise<GatewayStatus>): Promise<GatewayStatus> {
+    const promise = operation().finally(() => {
+      if (this.inflight === promise) this.inflight = null;
+    });
+    this.inflight = promise;
+    return promise;
+  }
+}
+
+/**
+ * Get the stub for the single gateway coordinator instance
+ */
+export function getGatewayCoordinator(env: MoltbotEnv): DurableObjectStub<GatewayCoordinator> {
+  const id = env.GATEWAY_COORDINATOR.idFromName('moltbot');
+  return env.GATEWAY_COORDINATOR.get(id);
+}
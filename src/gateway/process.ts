@@ -1,68 +1,38 @@
 import type { Sandbox, Process } from '@cloudflare/sandbox';
 import type { MoltbotEnv } from '../types';
-import { MOLTBOT_PORT, STARTUP_TIMEOUT_MS } from '../config';
+import { MOLTBOT_PORT, STARTUP_TIMEOUT_MS, getSleepAfterMs } from '../config';
+import { AiConfigDecryptionError, applyAiOverrides, readAiEnvConfig, type AiEnvConfig } from '../ai';
 import { buildEnvVars } from './env';
 import { mountR2Storage } from './r2';
+import { getHealthProbeOptions, probeGatewayHealth, type GatewayHealth } from './health';
+import { readShutdownState } from './sleep';
+import {
+  buildStartupReport,
+  formatStartupFailure,
+  saveStartupReport,
+  type StartupReport,
+  type StartupReportInput,
+} from './startup';
 
-const AI_ENV_CONFIG_KEY = 'workspace-core/config/ai-env.json';
-const AI_BASE_URL_KEYS = ['AI_GATEWAY_BASE_URL', 'ANTHROPIC_BASE_URL', 'OPENAI_BASE_URL', 'DEEPSEEK_BASE_URL'] as const;
-const AI_API_KEY_KEYS = ['AI_GATEWAY_API_KEY', 'ANTHROPIC_API_KEY', 'OPENAI_API_KEY', 'DEEPSEEK_API_KEY'] as const;
-const AI_PRIMARY_PROVIDERS = ['anthropic', 'deepseek'] as const;
-const AI_DEEPSEEK_MODELS = ['deepseek-chat', 'deepseek-reasoner'] as const;
-
-type AiEnvConfig = {
-  baseUrls?: Partial<Record<(typeof AI_BASE_URL_KEYS)[number], string | null>>;
-  apiKeys?: Partial<Record<(typeof AI_API_KEY_KEYS)[number], string | null>>;
-  primaryProvider?: (typeof AI_PRIMARY_PROVIDERS)[number] | null;
-  primaryModel?: (typeof AI_DEEPSEEK_MODELS)[number] | null;
-};
-
-const readAiEnvConfig = async (bucket: R2Bucket): Promise<AiEnvConfig> => {
-  try {
-    const object = await bucket.get(AI_ENV_CONFIG_KEY);
-    if (!object) return {};
-    const text = await object.text();
-    const parsed = JSON.parse(text);
-    if (!parsed || typeof parsed !== 'object') return {};
-    return parsed as AiEnvConfig;
-  } catch {
-    return {};
-  }
-};
-
-const applyAiOverrides = (env: MoltbotEnv, config: AiEnvConfig): MoltbotEnv => {
-  const nextEnv = { ...env } as MoltbotEnv;
-  const envRecord = nextEnv as unknown as Record<string, string | undefined>;
-  if (typeof config.primaryProvider === 'string' && AI_PRIMARY_PROVIDERS.includes(config.primaryProvider)) {
-    envRecord.AI_PRIMARY_PROVIDER = config.primaryProvider;
-  } else if (config.primaryProvider === null) {
-    delete envRecord.AI_PRIMARY_PROVIDER;
-  }
-  if (typeof config.primaryModel === 'string' && AI_DEEPSEEK_MODELS.includes(config.primaryModel)) {
-    envRecord.AI_PRIMARY_MODEL = config.primaryModel;
-  } else if (config.primaryModel === null) {
-    delete envRecord.AI_PRIMARY_MODEL;
-  }
-  AI_BASE_URL_KEYS.forEach((key) => {
-    if (!config.baseUrls || !(key in config.baseUrls)) return;
-    const value = config.baseUrls[key];
-    if (value === null) {
-      delete envRecord[key];
-    } else if (typeof value === 'string' && value.trim().length > 0) {
-      envRecord[key] = value.trim();
-    }
-  });
-  AI_API_KEY_KEYS.forEach((key) => {
-    if (!config.apiKeys || !(key in config.apiKeys)) return;
-    const value = config.apiKeys[key];
-    if (value === null) {
-      delete envRecord[key];
-    } else if (typeof value === 'string' && value.trim().length > 0) {
-      envRecord[key] = value.trim();
-    }
-  });
-  return nextEnv;
-};
+/**
+ * Check whether a process command is the gateway itself
+ * 
+ * @param command - The process command line
+ * @returns true for the gateway, false for CLI commands like "clawdbot devices list"
+ */
+function isGatewayCommand(command: string): boolean {
+  // Note: CLI is still named "clawdbot" until upstream renames it
+  const isGatewayProcess = 
+    command.includes('start-moltbot.sh') ||
+    command.includes('openclaw gateway') ||
+    command.includes('clawdbot gateway');
+  const isCliCommand = 
+    command.includes('openclaw devices') ||
+    command.includes('openclaw --version') ||
+    command.includes('clawdbot devices') ||
+    command.includes('clawdbot --version');
+  return isGatewayProcess && !isCliCommand;
+}
 
 /**
  * Find an existing Moltbot gateway process
@@ -74,19 +44,7 @@ export async function findExistingMoltbotProcess(sandbox: Sandbox): Promise<Proc
   try {
     const processes = await sandbox.listProcesses();
     for (const proc of processes) {
-      // Only match the gateway process, not CLI commands like "clawdbot devices list"
-      // Note: CLI is still named "clawdbot" until upstream renames it
-      const isGatewayProcess = 
-        proc.command.includes('start-moltbot.sh') ||
-        proc.command.includes('openclaw gateway') ||
-        proc.command.includes('clawdbot gateway');
-      const isCliCommand = 
-        proc.command.includes('openclaw devices') ||
-        proc.command.includes('openclaw --version') ||
-        proc.command.includes('clawdbot devices') ||
-        proc.command.includes('clawdbot --version');
-      
-      if (isGatewayProcess && !isCliCommand) {
+      if (isGatewayCommand(proc.command)) {
         if (proc.status === 'starting' || proc.status === 'running') {
           return proc;
         }
@@ -98,6 +56,40 @@ export async function findExistingMoltbotProcess(sandbox: Sandbox): Promise<Proc
   return null;
 }
 
+/**
+ * Find the most recent gateway process that has exited
+ * 
+ * Used to recover the exit code and stderr of a gateway that died.
+ * 
+ * @param sandbox - The sandbox instance
+ * @returns The last exited gateway process, or null if there is none
+ */
+export async function findLastExitedMoltbotProcess(sandbox: Sandbox): Promise<Process | null> {
+  try {
+    const processes = await sandbox.listProcesses();
+    const exited = processes.filter(
+      (proc) => isGatewayCommand(proc.command) && proc.status !== 'starting' && proc.status !== 'running'
+    );
+    const endedAt = (proc: Process) => new Date(proc.endTime ?? proc.startTime).getTime() || 0;
+    exited.sort((a, b) => endedAt(b) - endedAt(a));
+    return exited[0] ?? null;
+  } catch (e) {
+    console.log('Could not list processes:', e);
+  }
+  return null;
+}
+
+export interface EnsureGatewayOptions {
+  /** Called when the startup moves into a new lifecycle phase */
+  onPhase?: (phase: 'mounting' | 'starting') => Promise<void>;
+}
+
+export interface GatewayStartResult {
+  process: Process;
+  /** Application-level health of the gateway once its port is open */
+  health: GatewayHealth;
+}
+
 /**
  * Ensure the Moltbot gateway is running
  * 
@@ -105,15 +97,30 @@ export async function findExistingMoltbotProcess(sandbox: Sandbox): Promise<Proc
  * 1. Mount R2 storage if configured
  * 2. Check for an existing gateway process
  * 3. Wait for it to be ready, or start a new one
+ * 4. Probe the gateway over HTTP and WebSocket to report its real health
+ * 5. Record a StartupReport for a new boot, built from the script's phase markers
+ *    (and, for a container that can sleep, whether it stopped cleanly)
+ * 
+ * Routes should not call this directly: go through the GatewayCoordinator
+ * (see getGatewayCoordinator) so only one start is ever in flight.
  * 
  * @param sandbox - The sandbox instance
  * @param env - Worker environment bindings
- * @returns The running gateway process
+ * @param options - Optional lifecycle hooks
+ * @returns The running gateway process and its health
  */
-export async function ensureMoltbotGateway(sandbox: Sandbox, env: MoltbotEnv): Promise<Process> {
+export async function ensureMoltbotGateway(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  options: EnsureGatewayOptions = {}
+): Promise<GatewayStartResult> {
   // Mount R2 storage for persistent data (non-blocking if not configured)
   // R2 is used as a backup - the startup script will restore from it on boot
+  await options.onPhase?.('mounting');
+  const mountStartedAt = Date.now();
   await mountR2Storage(sandbox, env);
+  const mount = { startedAt: mountStartedAt, durationMs: Date.now() - mountStartedAt };
+  await options.onPhase?.('starting');
 
   // Check if Moltbot is already running or starting
   const existingProcess = await findExistingMoltbotProcess(sandbox);
@@ -127,7 +134,9 @@ export async function ensureMoltbotGateway(sandbox: Sandbox, env: MoltbotEnv): P
       console.log('Waiting for Moltbot gateway on port', MOLTBOT_PORT, 'timeout:', STARTUP_TIMEOUT_MS);
       await existingProcess.waitForPort(MOLTBOT_PORT, { mode: 'tcp', timeout: STARTUP_TIMEOUT_MS });
       console.log('Moltbot gateway is reachable');
-      return existingProcess;
+      const health = await probeGatewayHealth(sandbox, getHealthProbeOptions(env));
+      console.log('[Gateway] Health:', health.status, health.reason ?? '');
+      return { process: existingProcess, health };
     } catch (e) {
       // Timeout waiting for port - process is likely dead or stuck, kill and restart
       console.log('Existing process not reachable after full timeout, killing and restarting...');
@@ -141,7 +150,14 @@ export async function ensureMoltbotGateway(sandbox: Sandbox, env: MoltbotEnv): P
 
   // Start a new Moltbot gateway
   console.log('Starting new Moltbot gateway...');
-  const aiConfig = await readAiEnvConfig(env.MOLTBOT_BUCKET);
+  let aiConfig: AiEnvConfig = {};
+  try {
+    aiConfig = await readAiEnvConfig(env.MOLTBOT_BUCKET, env.CONFIG_ENCRYPTION_KEY);
+  } catch (error) {
+    // Start on the Worker env vars alone rather than not at all
+    if (!(error instanceof AiConfigDecryptionError)) throw error;
+    console.error('Ignoring saved AI settings:', error.message);
+  }
   const mergedEnv = applyAiOverrides(env, aiConfig);
   const envVars = buildEnvVars(mergedEnv);
   const command = '/usr/local/bin/start-moltbot.sh';
@@ -161,29 +177,70 @@ export async function ensureMoltbotGateway(sandbox: Sandbox, env: MoltbotEnv): P
   }
 
   // Wait for the gateway to be ready
+  let readyAt: number;
   try {
     console.log('[Gateway] Waiting for Moltbot gateway to be ready on port', MOLTBOT_PORT);
     await process.waitForPort(MOLTBOT_PORT, { mode: 'tcp', timeout: STARTUP_TIMEOUT_MS });
+    readyAt = Date.now();
     console.log('[Gateway] Moltbot gateway is ready!');
-
-    const logs = await process.getLogs();
-    if (logs.stdout) console.log('[Gateway] stdout:', logs.stdout);
-    if (logs.stderr) console.log('[Gateway] stderr:', logs.stderr);
   } catch (e) {
     console.error('[Gateway] waitForPort failed:', e);
-    try {
-      const logs = await process.getLogs();
-      console.error('[Gateway] startup failed. Stderr:', logs.stderr);
-      console.error('[Gateway] startup failed. Stdout:', logs.stdout);
-      throw new Error(`Moltbot gateway failed to start. Stderr: ${logs.stderr || '(empty)'}`);
-    } catch (logErr) {
-      console.error('[Gateway] Failed to get logs:', logErr);
-      throw e;
-    }
+    const logs = await getProcessLogs(process);
+    console.error('[Gateway] startup failed. Stderr:', logs.stderr);
+    console.error('[Gateway] startup failed. Stdout:', logs.stdout);
+    const report = buildStartupReport({
+      processId: process.id,
+      ...logs,
+      mount,
+      error: e instanceof Error ? e.message : 'Unknown error',
+    });
+    await recordStartupReport(env, report);
+    throw new Error(formatStartupFailure(report));
   }
 
+  const logs = await getProcessLogs(process);
+  if (logs.stdout) console.log('[Gateway] stdout:', logs.stdout);
+  if (logs.stderr) console.log('[Gateway] stderr:', logs.stderr);
+
   // Verify gateway is actually responding
   console.log('[Gateway] Verifying gateway health...');
-  
-  return process;
+  const health = await probeGatewayHealth(sandbox, getHealthProbeOptions(env));
+  console.log('[Gateway] Health:', health.status, health.reason ?? '');
+
+  await recordStartupReport(
+    env,
+    buildStartupReport({ processId: process.id, ...logs, mount, readyAt, health: health.status })
+  );
+
+  return { process, health };
+}
+
+async function getProcessLogs(process: Process): Promise<Pick<StartupReportInput, 'stdout' | 'stderr'>> {
+  try {
+    const logs = await process.getLogs();
+    return { stdout: logs.stdout || '', stderr: logs.stderr || '' };
+  } catch (logErr) {
+    console.error('[Gateway] Failed to get logs:', logErr);
+    return { stdout: '', stderr: '' };
+  }
+}
+
+async function recordStartupReport(env: MoltbotEnv, report: StartupReport): Promise<void> {
+  // A container that can sleep and had to restore from R2 woke up from a stop
+  if (getSleepAfterMs(env) !== null && (report.restoreBranch === 'r2' || report.restoreBranch === 'r2-legacy')) {
+    try {
+      report.shutdown = await readShutdownState(env.MOLTBOT_BUCKET);
+      if (!report.shutdown.clean) {
+        console.warn('[Gateway] Container stopped without a final sync; changes after', report.shutdown.lastSync, 'may be lost');
+      }
+    } catch (err) {
+      console.error('[Gateway] Failed to read the clean shutdown marker:', err);
+    }
+  }
+  try {
+    await saveStartupReport(env.MOLTBOT_BUCKET, report);
+  } catch (err) {
+    // The report is diagnostic only, never fail the boot over it
+    console.error('[Gateway] Failed to save startup report:', err);
+  }
 }
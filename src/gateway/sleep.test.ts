@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getSleepAfterMs } from '../config';
+import { CLEAN_SHUTDOWN_KEY, flushBeforeSleep, flushDueAt, readShutdownState } from './sleep';
+import { createMockBucket, suppressConsole } from '../test-utils';
+
+const lastActivityAt = Date.parse('2026-03-10T12:00:00.000Z');
+
+describe('getSleepAfterMs', () => {
+  it('parses durations', () => {
+    expect(getSleepAfterMs({ SANDBOX_SLEEP_AFTER: '30s' })).toBe(30_000);
+    expect(getSleepAfterMs({ SANDBOX_SLEEP_AFTER: '10m' })).toBe(600_000);
+    expect(getSleepAfterMs({ SANDBOX_SLEEP_AFTER: '1H' })).toBe(3_600_000);
+    expect(getSleepAfterMs({ SANDBOX_SLEEP_AFTER: '90' })).toBe(90_000);
+  });
+
+  it('returns null when the container never sleeps', () => {
+    expect(getSleepAfterMs({})).toBeNull();
+    expect(getSleepAfterMs({ SANDBOX_SLEEP_AFTER: 'never' })).toBeNull();
+    expect(getSleepAfterMs({ SANDBOX_SLEEP_AFTER: '0m' })).toBeNull();
+  });
+});
+
+describe('flushDueAt', () => {
+  it('runs the flush a minute before the idle window ends', () => {
+    expect(flushDueAt(lastActivityAt, 600_000)).toBe(lastActivityAt + 540_000);
+  });
+
+  it('uses half of a short idle window', () => {
+    expect(flushDueAt(lastActivityAt, 30_000)).toBe(lastActivityAt + 15_000);
+  });
+});
+
+describe('flushBeforeSleep', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('syncs and leaves the clean shutdown marker', async () => {
+    const { bucket, objects } = createMockBucket();
+    const sync = vi.fn().mockResolvedValue({ success: true, lastSync: '2026-03-10T12:09:00.000Z' });
+
+    const result = await flushBeforeSleep(bucket, lastActivityAt, sync);
+
+    expect(result.success).toBe(true);
+    expect(sync).toHaveBeenCalledWith('pre-sleep');
+    expect(JSON.parse(objects.get(CLEAN_SHUTDOWN_KEY)!)).toMatchObject({
+      lastSync: '2026-03-10T12:09:00.000Z',
+      lastActivityAt: '2026-03-10T12:00:00.000Z',
+    });
+  });
+
+  it('leaves no marker when the sync fails', async () => {
+    const { bucket, objects } = createMockBucket();
+    const sync = vi.fn().mockResolvedValue({ success: false, error: 'Sync failed' });
+
+    await flushBeforeSleep(bucket, lastActivityAt, sync);
+
+    expect(objects.has(CLEAN_SHUTDOWN_KEY)).toBe(false);
+  });
+});
+
+describe('readShutdownState', () => {
+  it('reports a clean stop and consumes the marker', async () => {
+    const { bucket, objects } = createMockBucket({
+      [CLEAN_SHUTDOWN_KEY]: JSON.stringify({
+        at: '2026-03-10T12:09:30.000Z',
+        lastSync: '2026-03-10T12:09:00.000Z',
+        lastActivityAt: '2026-03-10T12:00:00.000Z',
+      }),
+    });
+
+    expect(await readShutdownState(bucket)).toEqual({
+      clean: true,
+      at: '2026-03-10T12:09:30.000Z',
+      lastSync: '2026-03-10T12:09:00.000Z',
+    });
+    expect(objects.has(CLEAN_SHUTDOWN_KEY)).toBe(false);
+  });
+
+  it('reports an unclean stop with the last sync that reached R2', async () => {
+    const { bucket } = createMockBucket({ '.last-sync': '2026-03-10T11:50:00.000Z\n' });
+
+    expect(await readShutdownState(bucket)).toEqual({ clean: false, lastSync: '2026-03-10T11:50:00.000Z' });
+  });
+});
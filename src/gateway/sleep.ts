@@ -0,0 +1,100 @@
+import { PRE_SLEEP_FLUSH_LEAD_MS, R2_META_PREFIX } from '../config';
+import { readJsonObject, writeJsonObject } from '../storage';
+import { readLastSync, type SyncResult } from './sync';
+import type { SyncTrigger } from './history';
+import type { StartupReport } from './startup';
+
+/**
+ * Pre-sleep flush
+ *
+ * When SANDBOX_SLEEP_AFTER is set, the container stops once no request
+ * reached it for that long, losing everything since the last sync. The
+ * GatewayCoordinator tracks the last activity and runs a final sync shortly
+ * before the idle window ends, leaving a clean shutdown marker in R2. The
+ * next boot that restores from R2 reads the marker to tell a clean stop from
+ * a crash.
+ */
+
+/** R2 key of the marker left by the last pre-sleep flush */
+export const CLEAN_SHUTDOWN_KEY = `${R2_META_PREFIX}clean-shutdown.json`;
+
+export interface CleanShutdownMarker {
+  /** When the final sync finished */
+  at: string;
+  lastSync: string;
+  /** Last activity seen before the flush */
+  lastActivityAt: string;
+}
+
+/**
+ * When the final sync should run for a given last activity
+ *
+ * @param lastActivityAt - Epoch milliseconds of the last activity
+ * @param sleepAfterMs - The container's idle window
+ */
+export function flushDueAt(lastActivityAt: number, sleepAfterMs: number): number {
+  return lastActivityAt + sleepAfterMs - Math.min(PRE_SLEEP_FLUSH_LEAD_MS, sleepAfterMs / 2);
+}
+
+/**
+ * Run the final sync before the container sleeps and, once it has succeeded,
+ * leave the clean shutdown marker
+ *
+ * @param bucket - The R2 bucket binding
+ * @param lastActivityAt - Epoch milliseconds of the last activity
+ * @param sync - Runs the sync, queued behind any sync already running
+ * @returns The sync result
+ */
+export async function flushBeforeSleep(
+  bucket: R2Bucket,
+  lastActivityAt: number,
+  sync: (trigger: SyncTrigger) => Promise<SyncResult>
+): Promise<SyncResult> {
+  console.log('[Sleep] Container idle since', new Date(lastActivityAt).toISOString(), '- running final sync');
+  const result = await sync('pre-sleep');
+  if (!result.success || !result.lastSync) {
+    console.error('[Sleep] Final sync failed:', result.error, result.details || '');
+    return result;
+  }
+  await writeCleanShutdown(bucket, result.lastSync, lastActivityAt);
+  return result;
+}
+
+/**
+ * Leave the clean shutdown marker for a sync that has completed
+ *
+ * @param bucket - The R2 bucket binding
+ * @param lastSync - Time of the completed sync
+ * @param lastActivityAt - Epoch milliseconds of the last activity
+ */
+export async function writeCleanShutdown(bucket: R2Bucket, lastSync: string, lastActivityAt: number): Promise<void> {
+  await writeJsonObject(bucket, CLEAN_SHUTDOWN_KEY, {
+    at: new Date().toISOString(),
+    lastSync,
+    lastActivityAt: new Date(lastActivityAt).toISOString(),
+  } satisfies CleanShutdownMarker);
+}
+
+/**
+ * Drop the marker, e.g. because activity after the flush kept the container awake
+ */
+export async function clearCleanShutdown(bucket: R2Bucket): Promise<void> {
+  await bucket.delete(CLEAN_SHUTDOWN_KEY);
+}
+
+/**
+ * Work out how the container stopped before a boot that restored from R2,
+ * consuming the marker so the next boot starts from a clean slate
+ *
+ * @param bucket - The R2 bucket binding
+ * @returns A clean stop with its time, or an unclean one with the last sync
+ *   that made it to R2 (changes after it may be lost)
+ */
+export async function readShutdownState(bucket: R2Bucket): Promise<NonNullable<StartupReport['shutdown']>> {
+  const marker = await readJsonObject<CleanShutdownMarker>(bucket, CLEAN_SHUTDOWN_KEY);
+  if (marker) {
+    await clearCleanShutdown(bucket);
+    return { clean: true, at: marker.at, lastSync: marker.lastSync };
+  }
+  return { clean: false, lastSync: (await readLastSync(bucket)) ?? undefined };
+}
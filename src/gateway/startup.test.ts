@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  STARTUP_REPORTS_KEY,
+  buildStartupReport,
+  formatStartupFailure,
+  parsePhaseMarkers,
+  readStartupReports,
+  saveStartupReport,
+} from './startup';
+import { createMockBucket } from '../test-utils';
+
+const marker = (fields: Record<string, unknown>) => `@@moltbot-phase ${JSON.stringify(fields)}`;
+
+const SUCCESS_STDOUT = [
+  'Config directory: /root/.clawdbot',
+  marker({ event: 'start', phase: 'restore', ts: 1000 }),
+  'Restored config from R2 backup',
+  marker({ event: 'end', phase: 'restore', ts: 1500, branch: 'r2' }),
+  marker({ event: 'start', phase: 'template', ts: 1500 }),
+  marker({ event: 'end', phase: 'template', ts: 1510, branch: 'existing' }),
+  marker({ event: 'start', phase: 'config', ts: 1510 }),
+  'Configuration updated successfully',
+  marker({ event: 'end', phase: 'config', ts: 1800, changedKeys: ['gateway.auth.token', 'gateway.port'] }),
+  marker({ event: 'start', phase: 'gateway', ts: 1800 }),
+  'Starting Moltbot Gateway...',
+].join('\n');
+
+describe('parsePhaseMarkers', () => {
+  it('extracts markers and ignores other output', () => {
+    const markers = parsePhaseMarkers(SUCCESS_STDOUT);
+    expect(markers).toHaveLength(7);
+    expect(markers[1]).toEqual({ event: 'end', phase: 'restore', ts: 1500, branch: 'r2' });
+  });
+
+  it('skips malformed marker lines', () => {
+    expect(parsePhaseMarkers('@@moltbot-phase {"event":"start"\nhello')).toEqual([]);
+  });
+});
+
+describe('buildStartupReport', () => {
+  it('reports phase durations, restore branch and changed keys for a successful boot', () => {
+    const report = buildStartupReport({
+      processId: 'proc-1',
+      stdout: SUCCESS_STDOUT,
+      stderr: '',
+      mount: { startedAt: 500, durationMs: 400 },
+      readyAt: 9800,
+    });
+
+    expect(report.success).toBe(true);
+    expect(report.restoreBranch).toBe('r2');
+    expect(report.configKeysChanged).toEqual(['gateway.auth.token', 'gateway.port']);
+    expect(report.phases.map((p) => [p.name, p.durationMs, p.status])).toEqual([
+      ['mount', 400, 'ok'],
+      ['restore', 500, 'ok'],
+      ['template', 10, 'ok'],
+      ['config', 290, 'ok'],
+      ['gateway', 8000, 'ok'],
+    ]);
+    expect(report.error).toBeUndefined();
+  });
+
+  it('blames the phase with an error marker and keeps the error line from stderr', () => {
+    const stdout = [
+      marker({ event: 'start', phase: 'restore', ts: 1000 }),
+      marker({ event: 'end', phase: 'restore', ts: 1100, branch: 'no-r2' }),
+      marker({ event: 'start', phase: 'config', ts: 1100 }),
+      marker({ event: 'error', phase: 'config', ts: 1200, exitCode: 1 }),
+    ].join('\n');
+    const stderr = 'undefined:1\nSyntaxError: Unexpected token } in JSON at position 12\n    at JSON.parse (<anonymous>)\n';
+
+    const report = buildStartupReport({ processId: 'proc-2', stdout, stderr, error: 'timeout' });
+
+    expect(report.success).toBe(false);
+    expect(report.failedPhase).toBe('config');
+    expect(report.phases.find((p) => p.name === 'config')?.status).toBe('failed');
+    expect(report.error).toBe('SyntaxError: Unexpected token } in JSON at position 12');
+    expect(formatStartupFailure(report)).toBe(
+      'Moltbot gateway failed to start during config: SyntaxError: Unexpected token } in JSON at position 12'
+    );
+  });
+
+  it('blames the gateway phase when the port never opens', () => {
+    const report = buildStartupReport({
+      processId: 'proc-3',
+      stdout: SUCCESS_STDOUT,
+      stderr: '',
+      error: 'Timed out waiting for port 18789',
+    });
+
+    expect(report.failedPhase).toBe('gateway');
+    expect(report.error).toBe('Timed out waiting for port 18789');
+  });
+});
+
+describe('saveStartupReport', () => {
+  it('keeps the most recent reports first and caps the list', async () => {
+    const { bucket, objects } = createMockBucket();
+    for (let i = 0; i < 25; i++) {
+      const report = buildStartupReport({ processId: `proc-${i}`, stdout: SUCCESS_STDOUT, stderr: '', readyAt: 2000 });
+      await saveStartupReport(bucket, report);
+    }
+
+    const reports = await readStartupReports(bucket);
+    expect(reports).toHaveLength(20);
+    expect(reports[0].processId).toBe('proc-24');
+    expect(objects.has(STARTUP_REPORTS_KEY)).toBe(true);
+  });
+});
@@ -0,0 +1,216 @@
+import { R2_META_PREFIX, STARTUP_REPORT_LIMIT } from '../config';
+
+/** R2 key holding the reports of the most recent boots */
+export const STARTUP_REPORTS_KEY = `${R2_META_PREFIX}startup-reports.json`;
+
+/** Prefix of the phase marker lines written by start-moltbot.sh */
+export const PHASE_MARKER_PREFIX = '@@moltbot-phase ';
+
+export interface PhaseMarker {
+  event: 'start' | 'end' | 'error';
+  phase: string;
+  /** Epoch milliseconds */
+  ts: number;
+  branch?: string;
+  changedKeys?: string[];
+  exitCode?: number;
+}
+
+export interface StartupPhase {
+  name: string;
+  startedAt: string;
+  durationMs?: number;
+  status: 'ok' | 'failed' | 'incomplete';
+  /** Which branch of the phase ran, e.g. the restore source */
+  branch?: string;
+}
+
+export interface StartupReport {
+  processId: string;
+  startedAt: string;
+  finishedAt: string;
+  success: boolean;
+  phases: StartupPhase[];
+  /** Which restore branch ran in start-moltbot.sh */
+  restoreBranch?: string;
+  /** Config paths changed by the environment patch (values are not recorded) */
+  configKeysChanged: string[];
+  /** Phase in which the boot failed */
+  failedPhase?: string;
+  /** Final error, kept short */
+  error?: string;
+  /** Gateway health after the port opened */
+  health?: string;
+  /**
+   * How the container stopped before this boot, set when the container can
+   * sleep and the boot restored from R2. An unclean stop may have lost the
+   * changes made after lastSync.
+   */
+  shutdown?: { clean: boolean; at?: string; lastSync?: string };
+}
+
+export interface StartupReportInput {
+  processId: string;
+  stdout: string;
+  stderr: string;
+  /** Phase timed by the Worker before the script ran (R2 mount) */
+  mount?: { startedAt: number; durationMs: number };
+  /** When the gateway port opened, ending the gateway phase */
+  readyAt?: number;
+  /** Error raised while waiting for the gateway */
+  error?: string;
+  health?: string;
+}
+
+/**
+ * Extract phase markers from the startup script output
+ *
+ * @param stdout - Process stdout
+ * @returns Markers in the order they were written; malformed lines are ignored
+ */
+export function parsePhaseMarkers(stdout: string): PhaseMarker[] {
+  const markers: PhaseMarker[] = [];
+  for (const line of stdout.split('\n')) {
+    const index = line.indexOf(PHASE_MARKER_PREFIX);
+    if (index === -1) continue;
+    try {
+      const marker = JSON.parse(line.slice(index + PHASE_MARKER_PREFIX.length).trim());
+      if (marker && typeof marker.phase === 'string' && typeof marker.ts === 'number') {
+        markers.push(marker as PhaseMarker);
+      }
+    } catch {
+      // Ignore partial lines
+    }
+  }
+  return markers;
+}
+
+/**
+ * Pick the line most likely to explain a failure out of stderr
+ */
+function summarizeError(stderr: string, fallback?: string): string | undefined {
+  const lines = stderr.split('\n').map((line) => line.trim()).filter(Boolean);
+  const errorLine = [...lines].reverse().find((line) => /error/i.test(line));
+  const summary = errorLine ?? lines[lines.length - 1] ?? fallback;
+  return summary?.slice(0, 500);
+}
+
+/**
+ * Turn the startup script output into a report of the boot
+ *
+ * @param input - Process output and the timings observed by the Worker
+ * @returns The startup report
+ */
+export function buildStartupReport(input: StartupReportInput): StartupReport {
+  const markers = parsePhaseMarkers(input.stdout);
+  const phases: StartupPhase[] = [];
+  let configKeysChanged: string[] = [];
+  let restoreBranch: string | undefined;
+  let failedPhase: string | undefined;
+
+  if (input.mount) {
+    phases.push({
+      name: 'mount',
+      startedAt: new Date(input.mount.startedAt).toISOString(),
+      durationMs: input.mount.durationMs,
+      status: 'ok',
+    });
+  }
+
+  const open = new Map<string, { phase: StartupPhase; startedAt: number }>();
+  for (const marker of markers) {
+    if (marker.event === 'start') {
+      const phase: StartupPhase = { name: marker.phase, startedAt: new Date(marker.ts).toISOString(), status: 'incomplete' };
+      phases.push(phase);
+      open.set(marker.phase, { phase, startedAt: marker.ts });
+      continue;
+    }
+    const entry = open.get(marker.phase);
+    if (entry) {
+      entry.phase.durationMs = marker.ts - entry.startedAt;
+      entry.phase.status = marker.event === 'end' ? 'ok' : 'failed';
+      open.delete(marker.phase);
+    }
+    if (marker.event === 'error') {
+      failedPhase = marker.phase;
+    }
+    if (marker.branch) {
+      if (entry) entry.phase.branch = marker.branch;
+      if (marker.phase === 'restore') restoreBranch = marker.branch;
+    }
+    if (Array.isArray(marker.changedKeys)) {
+      configKeysChanged = marker.changedKeys;
+    }
+  }
+
+  // The script execs the gateway, so its phase ends when the Worker sees the port open
+  const gateway = open.get('gateway');
+  if (gateway && input.readyAt !== undefined) {
+    gateway.phase.durationMs = input.readyAt - gateway.startedAt;
+    gateway.phase.status = 'ok';
+    open.delete('gateway');
+  }
+
+  const success = input.error === undefined && failedPhase === undefined;
+  if (!success && !failedPhase) {
+    // Blame the last phase that never finished
+    failedPhase = [...open.keys()].pop();
+  }
+  if (!success && failedPhase) {
+    const failed = phases.find((phase) => phase.name === failedPhase && phase.status !== 'ok');
+    if (failed) failed.status = 'failed';
+  }
+
+  const startedAt = input.mount?.startedAt ?? markers[0]?.ts ?? Date.now();
+  return {
+    processId: input.processId,
+    startedAt: new Date(startedAt).toISOString(),
+    finishedAt: new Date(input.readyAt ?? Date.now()).toISOString(),
+    success,
+    phases,
+    restoreBranch,
+    configKeysChanged,
+    failedPhase,
+    error: success ? undefined : summarizeError(input.stderr, input.error),
+    health: input.health,
+  };
+}
+
+/**
+ * Build a one-line error message for a failed boot
+ */
+export function formatStartupFailure(report: StartupReport): string {
+  const phase = report.failedPhase ? ` during ${report.failedPhase}` : '';
+  return `Moltbot gateway failed to start${phase}: ${report.error || 'no error output'}`;
+}
+
+/**
+ * Read the stored startup reports from R2
+ *
+ * @param bucket - The R2 bucket binding
+ * @returns Reports, newest first
+ */
+export async function readStartupReports(bucket: R2Bucket): Promise<StartupReport[]> {
+  try {
+    const object = await bucket.get(STARTUP_REPORTS_KEY);
+    if (!object) return [];
+    const parsed = JSON.parse(await object.text());
+    return Array.isArray(parsed) ? (parsed as StartupReport[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Prepend a report and keep only the most recent boots
+ *
+ * @param bucket - The R2 bucket binding
+ * @param report - The report of the boot that just finished
+ */
+export async function saveStartupReport(bucket: R2Bucket, report: StartupReport): Promise<void> {
+  const reports = await readStartupReports(bucket);
+  const next = [report, ...reports].slice(0, STARTUP_REPORT_LIMIT);
+  await bucket.put(STARTUP_REPORTS_KEY, JSON.stringify(next, null, 2), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { hasPendingChanges, readSyncWatchState, type SyncWatchState } from './sync-watch';
+import { createMockSandbox } from '../test-utils';
+
+const state: SyncWatchState = {
+  pid: 42,
+  startedAt: '2026-03-10T12:00:00.000Z',
+  status: 'watching',
+  debounceSeconds: 30,
+  pendingChanges: 3,
+  pendingSince: '2026-03-10T12:05:00.000Z',
+  lastChangeAt: '2026-03-10T12:06:00.000Z',
+  lastSignalAt: null,
+  lastError: null,
+};
+
+describe('readSyncWatchState', () => {
+  it('reads the state file the watcher writes', async () => {
+    const { sandbox, readFileMock } = createMockSandbox();
+    readFileMock.mockResolvedValue({ content: JSON.stringify(state) });
+
+    expect(await readSyncWatchState(sandbox)).toEqual(state);
+    expect(readFileMock).toHaveBeenCalledWith('/tmp/moltbot-sync-watch.json');
+  });
+
+  it('returns null when the watcher never ran', async () => {
+    const { sandbox, readFileMock } = createMockSandbox();
+    readFileMock.mockRejectedValue(new Error('ENOENT'));
+
+    expect(await readSyncWatchState(sandbox)).toBeNull();
+  });
+});
+
+describe('hasPendingChanges', () => {
+  it('reports changes made after the last sync', () => {
+    expect(hasPendingChanges(state, '2026-03-10T12:00:00.000Z')).toBe(true);
+    expect(hasPendingChanges(state, null)).toBe(true);
+  });
+
+  it('ignores changes a later sync picked up', () => {
+    expect(hasPendingChanges(state, '2026-03-10T12:10:00.000Z')).toBe(false);
+    expect(hasPendingChanges({ ...state, pendingChanges: 0 }, null)).toBe(false);
+    expect(hasPendingChanges(null, null)).toBe(false);
+  });
+});
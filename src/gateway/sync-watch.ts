@@ -0,0 +1,60 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+
+/** Where sync-watcher.js keeps its state inside the container */
+export const SYNC_WATCH_STATE_PATH = '/tmp/moltbot-sync-watch.json';
+
+/** Files the last sync wrote into the container, read by sync-watcher.js */
+export const SYNC_WRITES_PATH = '/tmp/moltbot-sync-writes.json';
+
+/**
+ * What the sync wrote into the container. The watcher ignores a change to
+ * one of these files while it still holds what the sync wrote.
+ */
+export interface SyncWrites {
+  at: string;
+  /** SHA-256 of each file written, by container path; null for a file deleted */
+  files: Record<string, string | null>;
+}
+
+/** State of the container's file watcher, as written by sync-watcher.js */
+export interface SyncWatchState {
+  pid: number;
+  startedAt: string;
+  /** 'error' once the watcher stopped, e.g. because watching failed */
+  status: 'watching' | 'error';
+  debounceSeconds: number;
+  /** Changes seen since the last sync the watcher asked for */
+  pendingChanges: number;
+  pendingSince: string | null;
+  lastChangeAt: string | null;
+  /** When the watcher last asked the Worker to sync */
+  lastSignalAt: string | null;
+  lastError: string | null;
+}
+
+/**
+ * Read the watcher's state from the container
+ *
+ * @param sandbox - The sandbox instance
+ * @returns The state, or null if the watcher never ran in this container
+ */
+export async function readSyncWatchState(sandbox: Sandbox): Promise<SyncWatchState | null> {
+  try {
+    const file = await sandbox.readFile(SYNC_WATCH_STATE_PATH);
+    return file?.content ? (JSON.parse(file.content) as SyncWatchState) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether the container has changes no sync has picked up yet. A cron
+ * or manual sync picks them up too, without the watcher knowing.
+ *
+ * @param state - The watcher's state
+ * @param lastSync - Time of the last successful sync
+ */
+export function hasPendingChanges(state: SyncWatchState | null, lastSync: string | null): boolean {
+  if (!state?.lastChangeAt || state.pendingChanges === 0) return false;
+  return !lastSync || Date.parse(state.lastChangeAt) > Date.parse(lastSync);
+}
@@ -1,22 +1,72 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { syncToR2 } from './sync';
-import { 
-  createMockEnv, 
-  createMockEnvWithR2, 
-  createMockProcess, 
-  createMockSandbox, 
-  suppressConsole 
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SyncQueue, syncToR2, type SyncResult } from './sync';
+import { SYNC_WRITES_PATH } from './sync-watch';
+import { readSyncHistory } from './history';
+import {
+  SYNC_MANIFEST_KEY,
+  SYNC_RULES_KEY,
+  conflictCopyKey,
+  containerPathForKey,
+  listConflicts,
+  sha256Hex,
+  writeJsonObject,
+} from '../storage';
+import {
+  createMockBucket,
+  createMockEnv,
+  createMockEnvWithR2,
+  createMockProcess,
+  createMockSandbox,
+  suppressConsole,
 } from '../test-utils';
 
+const CORE_FILES = {
+  'clawdbot/clawdbot.json': '{"gateway":{}}',
+  'workspace-core/USER.md': '# User',
+  'workspace-core/SOUL.md': '# Soul',
+  'workspace-core/MEMORY.md': '# Memory',
+};
+
+async function manifestOf(files: Record<string, string>) {
+  return Promise.all(
+    Object.entries(files).map(async ([key, content]) => ({
+      key,
+      path: containerPathForKey(key)!,
+      size: content.length,
+      sha256: await sha256Hex(new TextEncoder().encode(content).buffer),
+    }))
+  );
+}
+
+/**
+ * Mock sandbox whose manifest process lists the given files (by R2 key) and
+ * whose readFile serves their contents
+ */
+async function mockContainer(files: Record<string, string>, options: { lastSync?: string } = {}) {
+  const mock = createMockSandbox();
+  const entries = await manifestOf(files);
+  mock.startProcessMock.mockResolvedValue(createMockProcess(JSON.stringify({ files: entries })));
+  mock.readFileMock.mockImplementation(async (path: string) => {
+    if (path === '/root/.clawdbot/.last-sync') {
+      if (!options.lastSync) throw new Error('File not found');
+      return { content: options.lastSync };
+    }
+    const entry = entries.find((candidate) => candidate.path === path);
+    if (!entry) throw new Error('File not found');
+    return { content: btoa(files[entry.key]), encoding: 'base64' };
+  });
+  return mock;
+}
+
 describe('syncToR2', () => {
   beforeEach(() => {
     suppressConsole();
   });
 
   describe('configuration checks', () => {
-    it('returns error when R2 is not configured', async () => {
+    it('returns error when the R2 bucket is not bound', async () => {
       const { sandbox } = createMockSandbox();
-      const env = createMockEnv();
+      const env = createMockEnv({ MOLTBOT_BUCKET: undefined });
 
       const result = await syncToR2(sandbox, env);
 
@@ -24,114 +74,337 @@ describe('syncToR2', () => {
       expect(result.error).toBe('R2 storage is not configured');
     });
 
-    it('returns error when mount fails', async () => {
-      const { sandbox, startProcessMock, mountBucketMock } = createMockSandbox();
-      startProcessMock.mockResolvedValue(createMockProcess(''));
-      mountBucketMock.mockRejectedValue(new Error('Mount failed'));
-      
-      const env = createMockEnvWithR2();
+    it('syncs without the R2 mount credentials', async () => {
+      const { sandbox } = await mockContainer(CORE_FILES, { lastSync: '2026-01-27' });
+      const { bucket, objects } = createMockBucket();
 
-      const result = await syncToR2(sandbox, env);
+      const result = await syncToR2(sandbox, createMockEnv({ MOLTBOT_BUCKET: bucket }));
+
+      expect(result.success).toBe(true);
+      expect(objects.get('workspace-core/MEMORY.md')).toBe('# Memory');
+    });
+
+    it('returns error when the container manifest fails', async () => {
+      const { sandbox, startProcessMock } = createMockSandbox();
+      startProcessMock.mockResolvedValue(createMockProcess('', { exitCode: 127, stderr: 'node: not found' }));
+      const { bucket } = createMockBucket();
+
+      const result = await syncToR2(sandbox, createMockEnvWithR2({ MOLTBOT_BUCKET: bucket }));
 
       expect(result.success).toBe(false);
-      expect(result.error).toBe('Failed to mount R2 storage');
+      expect(result.error).toBe('Failed to read sync manifests');
+      expect(result.details).toContain('node: not found');
     });
   });
 
   describe('sanity checks', () => {
     it('returns error when source is missing clawdbot.json', async () => {
-      const { sandbox, startProcessMock } = createMockSandbox();
-      startProcessMock
-        .mockResolvedValueOnce(createMockProcess('s3fs on /data/moltbot type fuse.s3fs\n'))
-        .mockResolvedValueOnce(createMockProcess(''))
-        .mockResolvedValueOnce(createMockProcess(''))
-        .mockResolvedValueOnce(createMockProcess('')); // No "ok" output
-      
-      const env = createMockEnvWithR2();
+      const { sandbox } = await mockContainer({ 'workspace-core/USER.md': '# User' }, { lastSync: '2026-01-27' });
+      const { bucket, put } = createMockBucket();
 
-      const result = await syncToR2(sandbox, env);
+      const result = await syncToR2(sandbox, createMockEnvWithR2({ MOLTBOT_BUCKET: bucket }));
 
       // Error message still references clawdbot.json since that's the actual file name
       expect(result.success).toBe(false);
       expect(result.error).toBe('Sync aborted: source missing clawdbot.json');
       expect(result.details).toContain('missing critical files');
+      // Only the sync history is written
+      expect(put.mock.calls.map(([key]) => key)).toEqual(['meta/sync-history.json']);
     });
   });
 
   describe('sync execution', () => {
-    it('returns success when sync completes', async () => {
-      const { sandbox, startProcessMock } = createMockSandbox();
-      const timestamp = '2026-01-27T12:00:00+00:00';
-      
-      // Calls: mount check, r2 sync check, local sync check, user check, soul check, memory check, sanity check, rsync, cat timestamp
-      startProcessMock
-        .mockResolvedValueOnce(createMockProcess('s3fs on /data/moltbot type fuse.s3fs\n'))
-        .mockResolvedValueOnce(createMockProcess(''))
-        .mockResolvedValueOnce(createMockProcess(''))
-        .mockResolvedValueOnce(createMockProcess('user'))
-        .mockResolvedValueOnce(createMockProcess('soul'))
-        .mockResolvedValueOnce(createMockProcess('memory'))
-        .mockResolvedValueOnce(createMockProcess('ok'))
-        .mockResolvedValueOnce(createMockProcess(''))
-        .mockResolvedValueOnce(createMockProcess(timestamp));
-      
-      const env = createMockEnvWithR2();
+    it('lists the container with a single process', async () => {
+      const { sandbox, startProcessMock, writeFileMock } = await mockContainer(CORE_FILES, { lastSync: '2026-01-27' });
+      const { bucket } = createMockBucket();
+
+      await syncToR2(sandbox, createMockEnvWithR2({ MOLTBOT_BUCKET: bucket }));
+
+      expect(startProcessMock).toHaveBeenCalledTimes(1);
+      expect(startProcessMock.mock.calls[0][0]).toBe('node /tmp/moltbot-sync-manifest.cjs');
+      expect(writeFileMock.mock.calls[0][0]).toBe('/tmp/moltbot-sync-manifest.cjs');
+    });
+
+    it('uploads new and changed files and deletes removed ones', async () => {
+      const { sandbox, writeFileMock } = await mockContainer(CORE_FILES, { lastSync: '2026-01-27' });
+      const { bucket, objects } = createMockBucket({
+        'workspace-core/MEMORY.md': '# Old memory',
+        'workspace-core/removed.md': 'gone',
+        'workspace-core/node_modules/pkg/index.js': 'excluded',
+        'clawdbot/.last-sync': 'excluded',
+      });
+
+      const result = await syncToR2(sandbox, createMockEnvWithR2({ MOLTBOT_BUCKET: bucket }));
+
+      expect(result.success).toBe(true);
+      expect(result.stats).toMatchObject({ added: 3, changed: 1, deleted: 1, unchanged: 0, pulled: 0 });
+      expect(objects.get('workspace-core/MEMORY.md')).toBe('# Memory');
+      expect(objects.has('workspace-core/removed.md')).toBe(false);
+      // Excluded keys are left alone
+      expect(objects.get('workspace-core/node_modules/pkg/index.js')).toBe('excluded');
+      expect(objects.get('clawdbot/.last-sync')).toBe('excluded');
+      expect(objects.get('.last-sync')).toBe(result.lastSync);
+      expect(JSON.parse(objects.get(SYNC_MANIFEST_KEY)!).files['workspace-core/USER.md'].sha256).toMatch(
+        /^[0-9a-f]{64}$/
+      );
+      expect(writeFileMock).toHaveBeenCalledWith('/root/.clawdbot/.last-sync', result.lastSync);
+    });
+
+    it('applies the saved sync rules and writes the restore filters', async () => {
+      const { sandbox, writeFileMock } = await mockContainer(CORE_FILES, { lastSync: '2026-01-27' });
+      const { bucket, objects } = createMockBucket({
+        'workspace-core/.cache/blob': 'cached',
+        'workspace-core/big.bin': 'x'.repeat(100),
+      });
+      await writeJsonObject(bucket, SYNC_RULES_KEY, { rules: '/workspace-core/.cache/', maxFileBytes: 50 });
+
+      const result = await syncToR2(sandbox, createMockEnvWithR2({ MOLTBOT_BUCKET: bucket }));
+
+      expect(result.stats).toMatchObject({ deleted: 0 });
+      expect(objects.get('workspace-core/.cache/blob')).toBe('cached');
+      expect(objects.get('workspace-core/big.bin')).toBe('x'.repeat(100));
+      const script = writeFileMock.mock.calls[0][1] as string;
+      expect(script).toContain('const maxFileBytes = 50;');
+      expect(objects.get('meta/sync-filters/workspace-core.rules')).toBe('+ */\n- /.cache/***\n');
+    });
+
+    it('only uploads what changed since the last sync', async () => {
+      const { bucket, objects, put } = createMockBucket();
+      const env = createMockEnvWithR2({ MOLTBOT_BUCKET: bucket });
+      await syncToR2((await mockContainer(CORE_FILES, { lastSync: '2026-01-27' })).sandbox, env);
+      put.mockClear();
+
+      const { sandbox } = await mockContainer(
+        { ...CORE_FILES, 'workspace-core/SOUL.md': '# New soul' },
+        { lastSync: '2026-01-27' }
+      );
+      const result = await syncToR2(sandbox, env);
+
+      expect(result.stats).toMatchObject({ added: 0, changed: 1, deleted: 0, unchanged: 3, conflicts: 0 });
+      expect(objects.get('workspace-core/SOUL.md')).toBe('# New soul');
+      const contentPuts = put.mock.calls.map(([key]) => key).filter((key) => !key.startsWith('meta/'));
+      expect(contentPuts).toEqual(['workspace-core/SOUL.md', '.last-sync']);
+    });
+
+    it('pulls files edited in R2 into the container', async () => {
+      const { sandbox, writeFileMock } = await mockContainer(CORE_FILES, { lastSync: '2026-01-27' });
+      const { bucket, objects } = createMockBucket();
+      const env = createMockEnvWithR2({ MOLTBOT_BUCKET: bucket });
+      await syncToR2(sandbox, env);
+      // Edited through the R2 browser: the recorded hash no longer applies
+      objects.set('workspace-core/SOUL.md', '# Edited in R2');
+
+      const result = await syncToR2(sandbox, env);
+
+      expect(result.stats).toMatchObject({ added: 0, changed: 0, pulled: 1, conflicts: 0, bytesDownloaded: 14 });
+      expect(objects.get('workspace-core/SOUL.md')).toBe('# Edited in R2');
+      expect(writeFileMock).toHaveBeenCalledWith('/root/clawd/SOUL.md', btoa('# Edited in R2'), { encoding: 'base64' });
+      // The watcher is told, so the pulled file doesn't ask for another sync
+      const writes = JSON.parse(writeFileMock.mock.calls.find(([path]) => path === SYNC_WRITES_PATH)![1]);
+      expect(writes.files).toEqual({
+        '/root/clawd/SOUL.md': await sha256Hex(new TextEncoder().encode('# Edited in R2').buffer),
+      });
+    });
+
+    it('follows a move in R2 instead of uploading the old key again', async () => {
+      const files = { ...CORE_FILES, 'workspace-core/notes.md': 'notes' };
+      const { bucket, objects } = createMockBucket();
+      const env = createMockEnvWithR2({ MOLTBOT_BUCKET: bucket });
+      await syncToR2((await mockContainer(files, { lastSync: '2026-01-27' })).sandbox, env);
+      // Moved through the R2 browser
+      objects.set('workspace-core/archive/notes.md', objects.get('workspace-core/notes.md')!);
+      objects.delete('workspace-core/notes.md');
+
+      const { sandbox, deleteFileMock, writeFileMock } = await mockContainer(files, { lastSync: '2026-01-27' });
+      const result = await syncToR2(sandbox, env);
+
+      expect(result.stats).toMatchObject({ added: 0, deleted: 0, pulled: 1, removed: 1 });
+      expect(objects.has('workspace-core/notes.md')).toBe(false);
+      expect(deleteFileMock).toHaveBeenCalledWith('/root/clawd/notes.md');
+      expect(writeFileMock).toHaveBeenCalledWith('/root/clawd/archive/notes.md', btoa('notes'), { encoding: 'base64' });
+      const [, last] = writeFileMock.mock.calls.filter(([path]) => path === SYNC_WRITES_PATH).pop()!;
+      expect(JSON.parse(last).files['/root/clawd/notes.md']).toBeNull();
+
+      // The next sync finds nothing left to do
+      const { sandbox: after } = await mockContainer(
+        { ...CORE_FILES, 'workspace-core/archive/notes.md': 'notes' },
+        { lastSync: '2026-01-27' }
+      );
+      expect((await syncToR2(after, env)).stats).toMatchObject({ added: 0, deleted: 0, pulled: 0, removed: 0 });
+    });
+
+    it('keeps both versions when a file changed on both sides', async () => {
+      const { bucket, objects } = createMockBucket();
+      const env = createMockEnvWithR2({ MOLTBOT_BUCKET: bucket });
+      await syncToR2((await mockContainer(CORE_FILES, { lastSync: '2026-01-27' })).sandbox, env);
+      objects.set('workspace-core/MEMORY.md', '# Memory from R2');
+      const { sandbox, writeFileMock } = await mockContainer(
+        { ...CORE_FILES, 'workspace-core/MEMORY.md': '# Memory from the agent' },
+        { lastSync: '2026-01-27' }
+      );
 
       const result = await syncToR2(sandbox, env);
 
       expect(result.success).toBe(true);
-      expect(result.lastSync).toBe(timestamp);
+      expect(result.stats).toMatchObject({ added: 0, changed: 0, pulled: 0, conflicts: 1 });
+      // Neither side wins
+      expect(objects.get('workspace-core/MEMORY.md')).toBe('# Memory from R2');
+      expect(writeFileMock).not.toHaveBeenCalledWith('/root/clawd/MEMORY.md', expect.anything(), expect.anything());
+      expect(objects.get(conflictCopyKey('workspace-core/MEMORY.md', 'container'))).toBe('# Memory from the agent');
+      expect(objects.get(conflictCopyKey('workspace-core/MEMORY.md', 'r2'))).toBe('# Memory from R2');
+      const [conflict] = await listConflicts(bucket);
+      expect(conflict).toMatchObject({
+        key: 'workspace-core/MEMORY.md',
+        baseSha256: await sha256Hex(new TextEncoder().encode('# Memory').buffer),
+      });
+
+      // Still a conflict on the next sync, until it is resolved
+      const again = await syncToR2(sandbox, env);
+      expect(again.stats?.conflicts).toBe(1);
     });
 
-    it('returns error when rsync fails (no timestamp created)', async () => {
-      const { sandbox, startProcessMock } = createMockSandbox();
-      
-      // Calls: mount check, r2 sync check, local sync check, user check, soul check, memory check, sanity check, rsync (fails), cat timestamp (empty)
-      startProcessMock
-        .mockResolvedValueOnce(createMockProcess('s3fs on /data/moltbot type fuse.s3fs\n'))
-        .mockResolvedValueOnce(createMockProcess(''))
-        .mockResolvedValueOnce(createMockProcess(''))
-        .mockResolvedValueOnce(createMockProcess('user'))
-        .mockResolvedValueOnce(createMockProcess('soul'))
-        .mockResolvedValueOnce(createMockProcess('memory'))
-        .mockResolvedValueOnce(createMockProcess('ok'))
-        .mockResolvedValueOnce(createMockProcess('', { exitCode: 1 }))
-        .mockResolvedValueOnce(createMockProcess(''));
-      
-      const env = createMockEnvWithR2();
+    it('does not report identical edits on both sides as a conflict', async () => {
+      const { bucket, objects } = createMockBucket();
+      const env = createMockEnvWithR2({ MOLTBOT_BUCKET: bucket });
+      await syncToR2((await mockContainer(CORE_FILES, { lastSync: '2026-01-27' })).sandbox, env);
+      objects.set('workspace-core/MEMORY.md', '# Same edit');
+      const { sandbox } = await mockContainer(
+        { ...CORE_FILES, 'workspace-core/MEMORY.md': '# Same edit' },
+        { lastSync: '2026-01-27' }
+      );
 
       const result = await syncToR2(sandbox, env);
 
-      expect(result.success).toBe(false);
-      expect(result.error).toBe('Sync failed');
+      expect(result.stats).toMatchObject({ added: 0, changed: 0, conflicts: 0, unchanged: 4 });
+      expect(await listConflicts(bucket)).toEqual([]);
     });
 
-    it('verifies rsync command is called with correct flags', async () => {
-      const { sandbox, startProcessMock } = createMockSandbox();
-      const timestamp = '2026-01-27T12:00:00+00:00';
-      
-      startProcessMock
-        .mockResolvedValueOnce(createMockProcess('s3fs on /data/moltbot type fuse.s3fs\n'))
-        .mockResolvedValueOnce(createMockProcess(''))
-        .mockResolvedValueOnce(createMockProcess(''))
-        .mockResolvedValueOnce(createMockProcess('user'))
-        .mockResolvedValueOnce(createMockProcess('soul'))
-        .mockResolvedValueOnce(createMockProcess('memory'))
-        .mockResolvedValueOnce(createMockProcess('ok'))
-        .mockResolvedValueOnce(createMockProcess(''))
-        .mockResolvedValueOnce(createMockProcess(timestamp));
-      
-      const env = createMockEnvWithR2();
+    it('restores the backup first when the container lost its data', async () => {
+      const { sandbox, startProcessMock, writeFileMock } = await mockContainer(CORE_FILES);
+      // Only the config is left; after the pull, the manifest lists the restored files
+      startProcessMock.mockResolvedValueOnce(
+        createMockProcess(JSON.stringify({ files: await manifestOf({ 'clawdbot/clawdbot.json': '{"gateway":{}}' }) }))
+      );
+      const { bucket, objects } = createMockBucket({
+        ...CORE_FILES,
+        '.last-sync': '2026-01-27T12:00:00.000Z',
+      });
 
-      await syncToR2(sandbox, env);
+      const result = await syncToR2(sandbox, createMockEnvWithR2({ MOLTBOT_BUCKET: bucket }));
+
+      expect(result.success).toBe(true);
+      expect(result.stats).toMatchObject({ restored: 4, pulled: 0 });
+      expect(writeFileMock).toHaveBeenCalledWith('/root/clawd/MEMORY.md', btoa('# Memory'), { encoding: 'base64' });
+      expect(writeFileMock).toHaveBeenCalledWith('/root/.clawdbot/.last-sync', '2026-01-27T12:00:00.000Z');
+      // Nothing was deleted from the backup
+      expect(result.stats?.deleted).toBe(0);
+      expect(objects.get('workspace-core/MEMORY.md')).toBe('# Memory');
+    });
+
+    it('snapshots the backup after a successful sync', async () => {
+      const { sandbox } = await mockContainer(CORE_FILES, { lastSync: '2026-01-27' });
+      const { bucket } = createMockBucket();
+
+      const result = await syncToR2(sandbox, createMockEnvWithR2({ MOLTBOT_BUCKET: bucket }));
+
+      expect(result.success).toBe(true);
+      expect(result.snapshot).toMatchObject({ created: true, snapshot: { fileCount: 4 } });
+    });
+  });
+
+  describe('history', () => {
+    it('records each run with its trigger and statistics', async () => {
+      const { sandbox } = await mockContainer(CORE_FILES, { lastSync: '2026-01-27' });
+      const { bucket } = createMockBucket();
+
+      await syncToR2(sandbox, createMockEnvWithR2({ MOLTBOT_BUCKET: bucket }), 'cron');
 
-      // Eighth call should be rsync (paths still use clawdbot internally)
-      const rsyncCall = startProcessMock.mock.calls[7][0];
-      expect(rsyncCall).toContain('rsync');
-      expect(rsyncCall).toContain('--no-times');
-      expect(rsyncCall).toContain('--delete');
-      expect(rsyncCall).toContain('/root/.clawdbot/');
-      expect(rsyncCall).toContain('/data/moltbot/');
+      const [run] = await readSyncHistory(bucket);
+      expect(run).toMatchObject({
+        trigger: 'cron',
+        success: true,
+        stats: { added: 4, changed: 0, deleted: 0, restored: 0, bytesUploaded: 34 },
+      });
+      expect(run.durationMs).toBeGreaterThanOrEqual(0);
     });
+
+    it('records failed runs', async () => {
+      const { sandbox } = await mockContainer({ 'workspace-core/USER.md': '# User' }, { lastSync: '2026-01-27' });
+      const { bucket } = createMockBucket();
+
+      await syncToR2(sandbox, createMockEnvWithR2({ MOLTBOT_BUCKET: bucket }));
+
+      const [run] = await readSyncHistory(bucket);
+      expect(run).toMatchObject({ trigger: 'manual', success: false, error: 'Sync aborted: source missing clawdbot.json' });
+      expect(run.stats).toBeUndefined();
+    });
+  });
+});
+
+describe('SyncQueue', () => {
+  function deferred() {
+    let resolve!: (result: SyncResult) => void;
+    const promise = new Promise<SyncResult>((r) => {
+      resolve = r;
+    });
+    return { promise, resolve };
+  }
+
+  it('runs one sync at a time and folds waiting requests into one follow-up run', async () => {
+    const runs = [deferred(), deferred()];
+    const run = vi.fn().mockReturnValueOnce(runs[0].promise).mockReturnValueOnce(runs[1].promise);
+    const queue = new SyncQueue(run);
+
+    const first = queue.sync('cron');
+    const second = queue.sync('watch');
+    const third = queue.sync('manual');
+    expect(run).toHaveBeenCalledTimes(1);
+
+    runs[0].resolve({ success: true, lastSync: 'first' });
+    expect(await first).toEqual({ success: true, lastSync: 'first' });
+    runs[1].resolve({ success: true, lastSync: 'second' });
+    expect(await second).toEqual({ success: true, lastSync: 'second' });
+    expect(await third).toEqual({ success: true, lastSync: 'second' });
+    expect(run.mock.calls).toEqual([['cron'], ['watch']]);
+  });
+
+  it('runs exclusive tasks between syncs, and syncs asked for later after them', async () => {
+    const runs = [deferred(), deferred()];
+    const run = vi
+      .fn()
+      .mockReturnValueOnce(runs[0].promise)
+      .mockReturnValueOnce(runs[1].promise)
+      .mockResolvedValueOnce({ success: true, lastSync: 'third' });
+    const queue = new SyncQueue(run);
+    const task = vi.fn().mockResolvedValue('imported');
+
+    const first = queue.sync('cron');
+    const waiting = queue.sync('watch');
+    const exclusive = queue.exclusive(task);
+    const after = queue.sync('manual');
+    await Promise.resolve();
+    expect(task).not.toHaveBeenCalled();
+
+    runs[0].resolve({ success: true, lastSync: 'first' });
+    await first;
+    expect(run.mock.calls).toEqual([['cron'], ['watch']]);
+    expect(task).not.toHaveBeenCalled();
+
+    runs[1].resolve({ success: true, lastSync: 'second' });
+    expect(await waiting).toEqual({ success: true, lastSync: 'second' });
+    expect(await exclusive).toBe('imported');
+    expect(await after).toEqual({ success: true, lastSync: 'third' });
+    expect(run.mock.calls).toEqual([['cron'], ['watch'], ['manual']]);
+  });
+
+  it('runs the next sync after one that threw', async () => {
+    const run = vi.fn().mockRejectedValueOnce(new Error('sandbox gone')).mockResolvedValueOnce({ success: true });
+    const queue = new SyncQueue(run);
+
+    const first = queue.sync('cron');
+    const second = queue.sync('watch');
+
+    await expect(first).rejects.toThrow('sandbox gone');
+    expect(await second).toEqual({ success: true });
   });
 });
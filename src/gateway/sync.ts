@@ -1,97 +1,415 @@
 import type { Sandbox } from '@cloudflare/sandbox';
 import type { MoltbotEnv } from '../types';
-import { R2_MOUNT_PATH } from '../config';
-import { mountR2Storage } from './r2';
-import { waitForProcess } from './utils';
+import {
+  CRITICAL_WORKSPACE_KEYS,
+  SYNC_MANIFEST_KEY,
+  compileSyncRules,
+  containerPathForKey,
+  createSnapshot,
+  ensureSyncFilters,
+  listConflicts,
+  planPull,
+  planSync,
+  readContainerFile,
+  readContainerManifest,
+  readRemoteManifest,
+  readSyncRules,
+  saveConflicts,
+  sha256Hex,
+  storeConflict,
+  writeContainerFile,
+  writeJsonObject,
+  type CompiledSyncRules,
+  type ConflictCandidate,
+  type ContainerFile,
+  type RemoteManifest,
+  type SnapshotResult,
+  type SyncConflict,
+  type SyncManifest,
+  type SyncRules,
+} from '../storage';
+import { recordSyncRun, type SyncTrigger } from './history';
+import { SYNC_WRITES_PATH, type SyncWrites } from './sync-watch';
+
+/** R2 key holding the time of the last sync (compared by start-moltbot.sh on boot) */
+const LAST_SYNC_KEY = '.last-sync';
+
+/** The container's copy of the last sync time */
+const LOCAL_LAST_SYNC_PATH = '/root/.clawdbot/.last-sync';
+
+/** Keys deleted per R2 delete call */
+const DELETE_BATCH_SIZE = 1000;
+
+export interface SyncStats {
+  /** Files uploaded that R2 didn't have */
+  added: number;
+  /** Files uploaded over an older version in R2 */
+  changed: number;
+  deleted: number;
+  unchanged: number;
+  /** Files edited in R2 and copied into the container */
+  pulled: number;
+  /** Files deleted, moved or renamed in R2 and deleted from the container */
+  removed: number;
+  /** Files copied into the container first because it lost its data */
+  restored: number;
+  /** Files changed on both sides, left for an admin to resolve */
+  conflicts: number;
+  bytesUploaded: number;
+  /** Bytes copied into the container, restores included */
+  bytesDownloaded: number;
+}
 
 export interface SyncResult {
   success: boolean;
   lastSync?: string;
   error?: string;
   details?: string;
+  stats?: SyncStats;
+  /** Snapshot taken after a successful sync */
+  snapshot?: SnapshotResult;
+  /** Set when the sync succeeded but the snapshot failed */
+  snapshotError?: string;
+}
+
+/**
+ * Read the time of the last successful sync
+ *
+ * @param bucket - The R2 bucket binding
+ * @returns The ISO timestamp, or null if the backup was never synced
+ */
+export async function readLastSync(bucket: R2Bucket): Promise<string | null> {
+  const object = await bucket.get(LAST_SYNC_KEY);
+  const text = object ? (await object.text()).trim() : '';
+  return text || null;
+}
+
+/**
+ * Read the container's copy of the last sync time, which the startup restore
+ * and successful syncs leave behind
+ */
+async function readLocalLastSync(sandbox: Sandbox): Promise<string | null> {
+  try {
+    const file = await sandbox.readFile(LOCAL_LAST_SYNC_PATH);
+    return file?.content?.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Tell the container's file watcher which files the sync wrote, so it
+ * doesn't ask for another sync because of them
+ */
+async function recordSyncWrites(sandbox: Sandbox, files: SyncWrites['files']): Promise<void> {
+  try {
+    const writes: SyncWrites = { at: new Date().toISOString(), files };
+    await sandbox.writeFile(SYNC_WRITES_PATH, JSON.stringify(writes));
+  } catch (err) {
+    console.error('[Sync] Failed to record pulled files for the watcher:', err instanceof Error ? err.message : err);
+  }
+}
+
+/**
+ * Copy R2 files into the container
+ *
+ * @param written - Receives the hash of each file written by container path,
+ *   and is handed to the watcher
+ * @param recorded - Receives the hash of each file written, when given
+ * @returns Number of files and bytes written
+ */
+async function pullFromR2(
+  sandbox: Sandbox,
+  bucket: R2Bucket,
+  keys: string[],
+  written: SyncWrites['files'],
+  recorded?: SyncManifest['files']
+): Promise<{ files: number; bytes: number }> {
+  const createdDirs = new Set<string>();
+  let files = 0;
+  let bytes = 0;
+  try {
+    for (const key of keys) {
+      const path = containerPathForKey(key);
+      const object = path ? await bucket.get(key) : null;
+      if (!path || !object) continue;
+      const data = await object.arrayBuffer();
+      const sha256 = await sha256Hex(data);
+      await writeContainerFile(sandbox, path, data, createdDirs);
+      written[path] = sha256;
+      if (recorded) {
+        recorded[key] = { size: data.byteLength, etag: object.etag, sha256 };
+      }
+      files++;
+      bytes += data.byteLength;
+    }
+  } finally {
+    if (files > 0) await recordSyncWrites(sandbox, written);
+  }
+  return { files, bytes };
+}
+
+/**
+ * Delete container files whose R2 object was deleted since the last sync
+ *
+ * @param written - Receives null for each file deleted, and is handed to the watcher
+ * @returns Number of files deleted
+ */
+async function removeFromContainer(
+  sandbox: Sandbox,
+  files: ContainerFile[],
+  written: SyncWrites['files']
+): Promise<number> {
+  let removed = 0;
+  try {
+    for (const file of files) {
+      await sandbox.deleteFile(file.path);
+      written[file.path] = null;
+      removed++;
+    }
+  } finally {
+    if (removed > 0) await recordSyncWrites(sandbox, written);
+  }
+  return removed;
+}
+
+/**
+ * Compare the contents of files changed on both sides. Identical versions
+ * are recorded as synced; the others are kept side by side as conflicts.
+ * Conflicting files keep their old base in the manifest, so the next sync
+ * finds them again until they are resolved.
+ */
+async function detectConflicts(
+  sandbox: Sandbox,
+  bucket: R2Bucket,
+  candidates: ConflictCandidate[],
+  manifest: SyncManifest
+): Promise<{ conflicts: SyncConflict[]; identical: number }> {
+  const previous = await listConflicts(bucket);
+  const conflicts: SyncConflict[] = [];
+  let identical = 0;
+  for (const { local, remote } of candidates) {
+    const object = await bucket.get(local.key);
+    // Deleted since the listing; the next sync uploads the container's version
+    if (!object) continue;
+    const data = await object.arrayBuffer();
+    const sha256 = await sha256Hex(data);
+    if (sha256 === local.sha256) {
+      manifest.files[local.key] = { size: data.byteLength, etag: object.etag, sha256 };
+      identical++;
+      continue;
+    }
+    if (remote.recorded) manifest.files[local.key] = remote.recorded;
+    const known = previous.find((conflict) => conflict.key === local.key);
+    if (known && known.container.sha256 === local.sha256 && known.r2.sha256 === sha256) {
+      conflicts.push(known);
+    } else {
+      const container = await readContainerFile(sandbox, local.path);
+      conflicts.push(
+        await storeConflict(bucket, local.key, remote.recorded?.sha256, container, { data, etag: object.etag })
+      );
+    }
+  }
+  await saveConflicts(bucket, previous, conflicts);
+  return { conflicts, identical };
+}
+
+/**
+ * Upload the planned files, pull R2-side edits and delete removed keys on
+ * either side, recording each file's hash in the sync manifest
+ */
+async function transfer(
+  sandbox: Sandbox,
+  bucket: R2Bucket,
+  local: ContainerFile[],
+  remote: RemoteManifest,
+  rules: CompiledSyncRules,
+  syncedAt: string,
+  written: SyncWrites['files']
+): Promise<SyncStats> {
+  const plan = planSync(local, remote, rules);
+  const manifest: SyncManifest = { version: 1, syncedAt, files: {} };
+  const uploading = new Set(plan.upload.map((file) => file.key));
+  for (const file of local) {
+    const existing = remote.files.get(file.key);
+    if (!uploading.has(file.key) && existing?.sha256) {
+      manifest.files[file.key] = { size: existing.size, etag: existing.etag, sha256: existing.sha256 };
+    }
+  }
+
+  const pulled = await pullFromR2(sandbox, bucket, plan.pull, written, manifest.files);
+  const removed = await removeFromContainer(sandbox, plan.remove, written);
+  const { conflicts, identical } = await detectConflicts(sandbox, bucket, plan.conflicts, manifest);
+  if (conflicts.length > 0) {
+    console.warn('[Sync] Conflicting changes left unsynced:', conflicts.map((conflict) => conflict.key).join(', '));
+  }
+
+  let added = 0;
+  let bytesUploaded = 0;
+  for (const file of plan.upload) {
+    if (!remote.files.has(file.key)) added++;
+    // Hash what is actually uploaded; the file may have changed since the manifest was built
+    const data = await readContainerFile(sandbox, file.path);
+    const object = await bucket.put(file.key, data);
+    if (!object) throw new Error(`Upload of ${file.key} was rejected`);
+    manifest.files[file.key] = { size: data.byteLength, etag: object.etag, sha256: await sha256Hex(data.buffer) };
+    bytesUploaded += data.byteLength;
+  }
+  for (let i = 0; i < plan.delete.length; i += DELETE_BATCH_SIZE) {
+    await bucket.delete(plan.delete.slice(i, i + DELETE_BATCH_SIZE));
+  }
+  await writeJsonObject(bucket, SYNC_MANIFEST_KEY, manifest);
+
+  return {
+    added,
+    changed: plan.upload.length - added,
+    deleted: plan.delete.length,
+    unchanged: plan.unchanged + identical,
+    pulled: pulled.files,
+    removed,
+    restored: 0,
+    conflicts: conflicts.length,
+    bytesUploaded,
+    bytesDownloaded: pulled.bytes,
+  };
 }
 
 /**
  * Sync moltbot config from container to R2 for persistence.
- * 
+ *
  * This function:
- * 1. Mounts R2 if not already mounted
- * 2. Verifies source has critical files (prevents overwriting good backup with empty data)
- * 3. Runs rsync to copy config to R2
- * 4. Writes a timestamp file for tracking
- * 
+ * 1. Lists and hashes the synced files the sync rules include in the container
+ *    (one process) and reads the R2 side through the bucket binding
+ * 2. Copies the backup into the container first if the container lost its data
+ * 3. Verifies source has critical files (prevents overwriting good backup with empty data)
+ * 4. Uploads files changed in the container, pulls files changed in R2, deletes
+ *    files removed on either side, and sets aside files changed on both sides
+ *    as conflicts
+ * 5. Writes the sync time to R2 and the container, and the rsync filters for
+ *    the startup restore if they are missing
+ * 6. Snapshots the backup (see createSnapshot)
+ *
+ * Every run on a configured bucket is added to the sync history.
+ *
  * @param sandbox - The sandbox instance
  * @param env - Worker environment bindings
+ * @param trigger - What started the sync, for the history
  * @returns SyncResult with success status and optional error details
  */
-export async function syncToR2(sandbox: Sandbox, env: MoltbotEnv): Promise<SyncResult> {
-  // Check if R2 is configured
-  if (!env.R2_ACCESS_KEY_ID || !env.R2_SECRET_ACCESS_KEY || !env.CF_ACCOUNT_ID) {
+export async function syncToR2(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  trigger: SyncTrigger = 'manual'
+): Promise<SyncResult> {
+  // The sync only needs the bucket binding; the mount credentials are for the startup restore
+  if (!env.MOLTBOT_BUCKET) {
     return { success: false, error: 'R2 storage is not configured' };
   }
 
-  // Mount R2 if not already mounted
-  const mounted = await mountR2Storage(sandbox, env);
-  if (!mounted) {
-    return { success: false, error: 'Failed to mount R2 storage' };
+  const startedAt = Date.now();
+  const result = await runSync(sandbox, env.MOLTBOT_BUCKET);
+  try {
+    await recordSyncRun(env.MOLTBOT_BUCKET, {
+      at: new Date(startedAt).toISOString(),
+      trigger,
+      durationMs: Date.now() - startedAt,
+      success: result.success,
+      error: result.error,
+      stats: result.stats,
+    });
+  } catch (err) {
+    console.error('[Sync] Failed to record sync history:', err instanceof Error ? err.message : err);
   }
+  return result;
+}
 
-  let r2HasSync = false;
-  let localHasSync = false;
-  let localHasUser = false;
-  let localHasSoul = false;
-  let localHasMemory = false;
+/**
+ * Runs syncs one at a time
+ *
+ * The cron, the watcher, the admin UI and the pre-sleep flush all sync the
+ * same files, manifest, snapshot index and history, so their runs must not
+ * overlap. A sync asked for while one runs waits for it, then shares a single
+ * follow-up run that picks up what changed meanwhile. Other work on the
+ * backup and the manifest, e.g. a restore or an import, takes its turn in the
+ * same line (see exclusive). The GatewayCoordinator holds the one queue for
+ * the container.
+ */
+export class SyncQueue {
+  /** The last task in line, running or waiting */
+  private last: Promise<unknown> | null = null;
+  /** A sync waiting its turn, shared by the syncs asked for after it */
+  private queued: Promise<SyncResult> | null = null;
 
-  try {
-    const r2SyncProc = await sandbox.startProcess(`test -f ${R2_MOUNT_PATH}/.last-sync && echo "r2"`);
-    await waitForProcess(r2SyncProc, 5000);
-    const r2SyncLogs = await r2SyncProc.getLogs();
-    r2HasSync = !!r2SyncLogs.stdout?.includes('r2');
-  } catch {
-    r2HasSync = false;
-  }
+  constructor(private readonly run: (trigger: SyncTrigger) => Promise<SyncResult>) {}
 
-  try {
-    const localSyncProc = await sandbox.startProcess('test -f /root/.clawdbot/.last-sync && echo "local"');
-    await waitForProcess(localSyncProc, 5000);
-    const localSyncLogs = await localSyncProc.getLogs();
-    localHasSync = !!localSyncLogs.stdout?.includes('local');
-  } catch {
-    localHasSync = false;
+  sync(trigger: SyncTrigger): Promise<SyncResult> {
+    if (!this.last) return this.enqueue(() => this.run(trigger));
+    this.queued ??= this.enqueue(() => {
+      this.queued = null;
+      return this.run(trigger);
+    });
+    return this.queued;
   }
 
-  try {
-    const userProc = await sandbox.startProcess('test -f /root/clawd/USER.md && echo "user"');
-    await waitForProcess(userProc, 5000);
-    const userLogs = await userProc.getLogs();
-    localHasUser = !!userLogs.stdout?.includes('user');
-  } catch {
-    localHasUser = false;
+  /**
+   * Run a task once the syncs before it are done, holding back later ones
+   * until it is done too
+   */
+  exclusive<T>(task: () => Promise<T>): Promise<T> {
+    // A sync asked for later must see what the task changed
+    this.queued = null;
+    return this.enqueue(task);
   }
 
-  try {
-    const soulProc = await sandbox.startProcess('test -f /root/clawd/SOUL.md && echo "soul"');
-    await waitForProcess(soulProc, 5000);
-    const soulLogs = await soulProc.getLogs();
-    localHasSoul = !!soulLogs.stdout?.includes('soul');
-  } catch {
-    localHasSoul = false;
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const promise = this.last ? this.last.then(task, task) : task();
+    this.last = promise;
+    const settle = () => {
+      if (this.last === promise) this.last = null;
+    };
+    promise.then(settle, settle);
+    return promise;
   }
+}
 
+async function runSync(sandbox: Sandbox, bucket: R2Bucket): Promise<SyncResult> {
+  let savedRules: SyncRules;
+  let rules: CompiledSyncRules;
+  let local: ContainerFile[];
+  let remote: RemoteManifest;
+  let r2LastSync: string | null;
+  let localLastSync: string | null;
   try {
-    const memoryProc = await sandbox.startProcess('test -f /root/clawd/MEMORY.md && echo "memory"');
-    await waitForProcess(memoryProc, 5000);
-    const memoryLogs = await memoryProc.getLogs();
-    localHasMemory = !!memoryLogs.stdout?.includes('memory');
-  } catch {
-    localHasMemory = false;
+    savedRules = await readSyncRules(bucket);
+    rules = compileSyncRules(savedRules);
+    [local, remote, r2LastSync, localLastSync] = await Promise.all([
+      readContainerManifest(sandbox, rules),
+      readRemoteManifest(bucket),
+      readLastSync(bucket),
+      readLocalLastSync(sandbox),
+    ]);
+  } catch (err) {
+    return {
+      success: false,
+      error: 'Failed to read sync manifests',
+      details: err instanceof Error ? err.message : 'Unknown error',
+    };
   }
 
-  if (r2HasSync && (!localHasSync || !localHasUser || !localHasSoul || !localHasMemory)) {
-    const restoreCmd = `set -e; mkdir -p /root/.clawdbot /root/clawd/skills /root/clawd; if [ -d ${R2_MOUNT_PATH}/clawdbot ]; then rsync -r --no-times --delete ${R2_MOUNT_PATH}/clawdbot/ /root/.clawdbot/; fi; if [ -d ${R2_MOUNT_PATH}/skills ]; then rsync -r --no-times --delete ${R2_MOUNT_PATH}/skills/ /root/clawd/skills/; fi; if [ -d ${R2_MOUNT_PATH}/workspace-core ]; then rsync -r --no-times --delete --exclude='/.git/' --exclude='/.git/**' --exclude='/skills/' --exclude='/skills/**' --exclude='/node_modules/' --exclude='/node_modules/**' ${R2_MOUNT_PATH}/workspace-core/ /root/clawd/; fi; cp -f ${R2_MOUNT_PATH}/.last-sync /root/.clawdbot/.last-sync`;
+  // Files this run writes into the container, for the watcher to ignore
+  const written: SyncWrites['files'] = {};
+
+  // The container lost its data (e.g. a fresh container the startup restore missed):
+  // bring the backup back before syncing, or the sync would delete it
+  let restored = { files: 0, bytes: 0 };
+  const localKeys = new Set(local.map((file) => file.key));
+  const lostData = !localLastSync || CRITICAL_WORKSPACE_KEYS.some((key) => !localKeys.has(key));
+  if (r2LastSync && lostData) {
     try {
-      const restoreProc = await sandbox.startProcess(restoreCmd);
-      await waitForProcess(restoreProc, 30000);
+      restored = await pullFromR2(sandbox, bucket, planPull(local, remote, rules), written);
+      await sandbox.writeFile(LOCAL_LAST_SYNC_PATH, r2LastSync);
+      local = await readContainerManifest(sandbox, rules);
+      console.log('[Sync] Restored', restored.files, 'files from R2 before syncing');
     } catch (err) {
       return {
         success: false,
@@ -103,56 +421,43 @@ export async function syncToR2(sandbox: Sandbox, env: MoltbotEnv): Promise<SyncR
 
   // Sanity check: verify source has critical files before syncing
   // This prevents accidentally overwriting a good backup with empty/corrupted data
+  if (!local.some((file) => file.key === 'clawdbot/clawdbot.json')) {
+    return {
+      success: false,
+      error: 'Sync aborted: source missing clawdbot.json',
+      details: 'The local config directory is missing critical files. This could indicate corruption or an incomplete setup.',
+    };
+  }
+
+  const lastSync = new Date().toISOString();
+  let stats: SyncStats;
   try {
-    const checkProc = await sandbox.startProcess('test -f /root/.clawdbot/clawdbot.json && echo "ok"');
-    await waitForProcess(checkProc, 5000);
-    const checkLogs = await checkProc.getLogs();
-    if (!checkLogs.stdout?.includes('ok')) {
-      return { 
-        success: false, 
-        error: 'Sync aborted: source missing clawdbot.json',
-        details: 'The local config directory is missing critical files. This could indicate corruption or an incomplete setup.',
-      };
-    }
+    stats = await transfer(sandbox, bucket, local, remote, rules, lastSync, written);
+    stats.restored = restored.files;
+    stats.bytesDownloaded += restored.bytes;
+    await bucket.put(LAST_SYNC_KEY, lastSync);
+    // The container now matches R2, so a restart shouldn't restore over it
+    await sandbox.writeFile(LOCAL_LAST_SYNC_PATH, lastSync);
+    await ensureSyncFilters(bucket, savedRules);
   } catch (err) {
-    return { 
-      success: false, 
-      error: 'Failed to verify source files',
+    return {
+      success: false,
+      error: 'Sync failed',
       details: err instanceof Error ? err.message : 'Unknown error',
     };
   }
+  console.log(
+    '[Sync] Added', stats.added, 'changed', stats.changed, 'deleted', stats.deleted, 'unchanged', stats.unchanged,
+    'removed from container', stats.removed
+  );
 
-  // Run rsync to backup config to R2
-  // Note: Use --no-times because s3fs doesn't support setting timestamps
-  const syncCmd = `rsync -r --no-times --delete --exclude='*.lock' --exclude='*.log' --exclude='*.tmp' /root/.clawdbot/ ${R2_MOUNT_PATH}/clawdbot/ && rsync -r --no-times --delete /root/clawd/skills/ ${R2_MOUNT_PATH}/skills/ && rsync -r --no-times --delete --exclude='/.git/' --exclude='/.git/**' --exclude='/skills/' --exclude='/skills/**' --exclude='/node_modules/' --exclude='/node_modules/**' /root/clawd/ ${R2_MOUNT_PATH}/workspace-core/ && date -Iseconds > ${R2_MOUNT_PATH}/.last-sync`;
-  
+  // A failed snapshot doesn't fail the sync; the live backup is up to date
   try {
-    const proc = await sandbox.startProcess(syncCmd);
-    await waitForProcess(proc, 30000); // 30 second timeout for sync
-
-    // Check for success by reading the timestamp file
-    // (process status may not update reliably in sandbox API)
-    // Note: backup structure is ${R2_MOUNT_PATH}/clawdbot/ and ${R2_MOUNT_PATH}/skills/
-    const timestampProc = await sandbox.startProcess(`cat ${R2_MOUNT_PATH}/.last-sync`);
-    await waitForProcess(timestampProc, 5000);
-    const timestampLogs = await timestampProc.getLogs();
-    const lastSync = timestampLogs.stdout?.trim();
-    
-    if (lastSync && lastSync.match(/^\d{4}-\d{2}-\d{2}/)) {
-      return { success: true, lastSync };
-    } else {
-      const logs = await proc.getLogs();
-      return {
-        success: false,
-        error: 'Sync failed',
-        details: logs.stderr || logs.stdout || 'No timestamp file created',
-      };
-    }
+    const snapshot = await createSnapshot(bucket);
+    return { success: true, lastSync, stats, snapshot };
   } catch (err) {
-    return { 
-      success: false, 
-      error: 'Sync error',
-      details: err instanceof Error ? err.message : 'Unknown error',
-    };
+    const snapshotError = err instanceof Error ? err.message : 'Unknown error';
+    console.error('[Snapshots] Snapshot after sync failed:', snapshotError);
+    return { success: true, lastSync, stats, snapshotError };
   }
 }
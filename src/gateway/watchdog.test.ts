@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  GATEWAY_RESTARTS_KEY,
+  getBackoffMs,
+  readWatchdogState,
+  recordRestart,
+  resetWatchdog,
+  runGatewayWatchdog,
+  type WatchdogState,
+} from './watchdog';
+import { createMockBucket, createMockEnv, createMockSandbox, suppressConsole } from '../test-utils';
+
+function createGatewayProcess(status: string, options: { exitCode?: number; stderr?: string } = {}) {
+  return {
+    id: `proc-${status}`,
+    command: '/usr/local/bin/start-moltbot.sh',
+    status,
+    startTime: new Date('2026-01-01T00:00:00Z'),
+    exitCode: options.exitCode,
+    getLogs: vi.fn().mockResolvedValue({ stdout: '', stderr: options.stderr ?? '' }),
+  };
+}
+
+function createActions() {
+  return {
+    start: vi.fn().mockResolvedValue({ health: { status: 'ready' } }),
+    restart: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+describe('getBackoffMs', () => {
+  it('doubles with each consecutive restart up to the cap', () => {
+    expect(getBackoffMs(1)).toBe(5 * 60_000);
+    expect(getBackoffMs(2)).toBe(10 * 60_000);
+    expect(getBackoffMs(3)).toBe(20 * 60_000);
+    expect(getBackoffMs(10)).toBe(60 * 60_000);
+  });
+});
+
+describe('recordRestart', () => {
+  it('flags a crash loop once the restart limit is reached', () => {
+    let state: WatchdogState = { consecutiveRestarts: 0, crashLoop: false, history: [] };
+    const now = Date.now();
+    for (let i = 0; i < 5; i++) {
+      state = recordRestart(state, { at: new Date(now).toISOString(), trigger: 'crashed', outcome: 'restarted' }, now);
+    }
+    expect(state.consecutiveRestarts).toBe(5);
+    expect(state.crashLoop).toBe(true);
+    expect(state.history).toHaveLength(5);
+  });
+});
+
+describe('runGatewayWatchdog', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('skips when the container is allowed to sleep', async () => {
+    const { sandbox } = createMockSandbox();
+    const { bucket } = createMockBucket();
+    const actions = createActions();
+
+    const result = await runGatewayWatchdog(sandbox, createMockEnv({ MOLTBOT_BUCKET: bucket, SANDBOX_SLEEP_AFTER: '10m' }), actions);
+
+    expect(result.action).toBe('skipped');
+    expect(actions.start).not.toHaveBeenCalled();
+  });
+
+  it('does nothing when the gateway is healthy', async () => {
+    const { sandbox, listProcessesMock, containerFetchMock, wsConnectMock } = createMockSandbox();
+    listProcessesMock.mockResolvedValue([createGatewayProcess('running')]);
+    containerFetchMock.mockResolvedValue(new Response('ok'));
+    wsConnectMock.mockResolvedValue({ status: 101, webSocket: { accept: () => {}, close: () => {} } });
+    const { bucket, put } = createMockBucket();
+    const actions = createActions();
+
+    const result = await runGatewayWatchdog(sandbox, createMockEnv({ MOLTBOT_BUCKET: bucket }), actions);
+
+    expect(result.action).toBe('healthy');
+    expect(actions.start).not.toHaveBeenCalled();
+    expect(actions.restart).not.toHaveBeenCalled();
+    expect(put).not.toHaveBeenCalled();
+  });
+
+  it('starts a crashed gateway and records the exit code and stderr tail', async () => {
+    const { sandbox, listProcessesMock } = createMockSandbox();
+    listProcessesMock.mockResolvedValue([
+      createGatewayProcess('failed', { exitCode: 1, stderr: 'Error: config invalid' }),
+    ]);
+    const { bucket } = createMockBucket();
+    const actions = createActions();
+
+    const result = await runGatewayWatchdog(sandbox, createMockEnv({ MOLTBOT_BUCKET: bucket }), actions);
+
+    expect(result.action).toBe('restarted');
+    expect(actions.start).toHaveBeenCalledTimes(1);
+    const state = await readWatchdogState(bucket);
+    expect(state.consecutiveRestarts).toBe(1);
+    expect(state.history[0]).toMatchObject({
+      trigger: 'crashed',
+      processId: 'proc-failed',
+      exitCode: 1,
+      stderrTail: 'Error: config invalid',
+      outcome: 'restarted',
+    });
+  });
+
+  it('restarts a running gateway that fails the health probe', async () => {
+    const { sandbox, listProcessesMock, containerFetchMock, wsConnectMock } = createMockSandbox();
+    listProcessesMock.mockResolvedValue([createGatewayProcess('running')]);
+    containerFetchMock.mockRejectedValue(new Error('connection refused'));
+    wsConnectMock.mockRejectedValue(new Error('connection refused'));
+    const { bucket } = createMockBucket();
+    const actions = createActions();
+    vi.useFakeTimers();
+
+    const pending = runGatewayWatchdog(sandbox, createMockEnv({ MOLTBOT_BUCKET: bucket }), actions);
+    await vi.runAllTimersAsync();
+    const result = await pending;
+    vi.useRealTimers();
+
+    expect(result.action).toBe('restarted');
+    expect(result.record?.trigger).toBe('unhealthy');
+    expect(actions.restart).toHaveBeenCalledTimes(1);
+    // Waited for the new gateway before recording the outcome
+    expect(actions.start).toHaveBeenCalledTimes(1);
+  });
+
+  it('records a restart whose gateway comes back unhealthy as failed', async () => {
+    const { sandbox, listProcessesMock, containerFetchMock, wsConnectMock } = createMockSandbox();
+    listProcessesMock.mockResolvedValue([createGatewayProcess('running')]);
+    containerFetchMock.mockRejectedValue(new Error('connection refused'));
+    wsConnectMock.mockRejectedValue(new Error('connection refused'));
+    const { bucket } = createMockBucket();
+    const actions = createActions();
+    actions.start.mockResolvedValue({ health: { status: 'unhealthy', reason: 'HTTP check failed' } });
+    vi.useFakeTimers();
+
+    const pending = runGatewayWatchdog(sandbox, createMockEnv({ MOLTBOT_BUCKET: bucket }), actions);
+    await vi.runAllTimersAsync();
+    const result = await pending;
+    vi.useRealTimers();
+
+    expect(result.action).toBe('failed');
+    expect(result.record?.error).toBe('Gateway is still unhealthy after the restart: HTTP check failed');
+    const state = await readWatchdogState(bucket);
+    expect(state.consecutiveRestarts).toBe(1);
+    expect(state.history[0].outcome).toBe('failed');
+  });
+
+  it('waits for the backoff delay before restarting again', async () => {
+    const { sandbox, listProcessesMock } = createMockSandbox();
+    listProcessesMock.mockResolvedValue([]);
+    const { bucket } = createMockBucket({
+      [GATEWAY_RESTARTS_KEY]: JSON.stringify({
+        consecutiveRestarts: 1,
+        crashLoop: false,
+        nextAttemptAt: new Date(Date.now() + 60_000).toISOString(),
+        history: [],
+      }),
+    });
+    const actions = createActions();
+
+    const result = await runGatewayWatchdog(sandbox, createMockEnv({ MOLTBOT_BUCKET: bucket }), actions);
+
+    expect(result.action).toBe('backoff');
+    expect(actions.start).not.toHaveBeenCalled();
+  });
+
+  it('stops restarting in a crash loop until reset', async () => {
+    const { sandbox, listProcessesMock } = createMockSandbox();
+    listProcessesMock.mockResolvedValue([]);
+    const { bucket } = createMockBucket({
+      [GATEWAY_RESTARTS_KEY]: JSON.stringify({ consecutiveRestarts: 5, crashLoop: true, history: [] }),
+    });
+    const actions = createActions();
+    const env = createMockEnv({ MOLTBOT_BUCKET: bucket });
+
+    expect((await runGatewayWatchdog(sandbox, env, actions)).action).toBe('crash_loop');
+    expect(actions.start).not.toHaveBeenCalled();
+
+    await resetWatchdog(bucket);
+
+    expect((await runGatewayWatchdog(sandbox, env, actions)).action).toBe('restarted');
+    expect(actions.start).toHaveBeenCalledTimes(1);
+  });
+
+  it('records a failed restart', async () => {
+    const { sandbox, listProcessesMock } = createMockSandbox();
+    listProcessesMock.mockResolvedValue([]);
+    const { bucket } = createMockBucket();
+    const actions = createActions();
+    actions.start.mockRejectedValue(new Error('Moltbot gateway failed to start'));
+
+    const result = await runGatewayWatchdog(sandbox, createMockEnv({ MOLTBOT_BUCKET: bucket }), actions);
+
+    expect(result.action).toBe('failed');
+    expect(result.record?.error).toBe('Moltbot gateway failed to start');
+    const state = await readWatchdogState(bucket);
+    expect(state.nextAttemptAt).toBeDefined();
+  });
+});
@@ -0,0 +1,222 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import {
+  R2_META_PREFIX,
+  WATCHDOG_BACKOFF_BASE_MS,
+  WATCHDOG_BACKOFF_MAX_MS,
+  WATCHDOG_HISTORY_LIMIT,
+  WATCHDOG_MAX_RESTARTS,
+  WATCHDOG_STABLE_MS,
+} from '../config';
+import { findExistingMoltbotProcess, findLastExitedMoltbotProcess } from './process';
+import { probeGatewayHealth } from './health';
+import type { GatewayStatus } from './lifecycle';
+
+/** R2 key holding the watchdog state and restart history */
+export const GATEWAY_RESTARTS_KEY = `${R2_META_PREFIX}gateway-restarts.json`;
+
+/** Number of stderr characters kept per restart record */
+const STDERR_TAIL_LENGTH = 2_000;
+
+/** Probe attempts before a running gateway is considered unhealthy */
+const WATCHDOG_PROBE_ATTEMPTS = 3;
+
+export interface GatewayRestartRecord {
+  /** When the watchdog acted */
+  at: string;
+  /** Why the gateway was restarted */
+  trigger: 'crashed' | 'unhealthy';
+  /** The process that died or stopped responding */
+  processId?: string;
+  exitCode?: number;
+  stderrTail?: string;
+  outcome: 'restarted' | 'failed';
+  error?: string;
+}
+
+export interface WatchdogState {
+  /** Restarts since the gateway was last seen stable */
+  consecutiveRestarts: number;
+  lastRestartAt?: string;
+  /** Earliest time the next restart may be attempted */
+  nextAttemptAt?: string;
+  /** Set when too many consecutive restarts happened; cleared by a manual restart */
+  crashLoop: boolean;
+  /** Newest first */
+  history: GatewayRestartRecord[];
+}
+
+export type WatchdogAction = 'healthy' | 'skipped' | 'backoff' | 'crash_loop' | 'restarted' | 'failed';
+
+export interface WatchdogResult {
+  action: WatchdogAction;
+  reason?: string;
+  record?: GatewayRestartRecord;
+}
+
+export interface WatchdogActions {
+  /**
+   * Start the gateway when no process is running, or wait for a start or
+   * restart in progress; resolves once the gateway is up, with its health
+   */
+  start: () => Promise<Pick<GatewayStatus, 'health'>>;
+  /** Replace a running gateway that fails its health probe; may return before the new one is up */
+  restart: () => Promise<unknown>;
+}
+
+function emptyState(): WatchdogState {
+  return { consecutiveRestarts: 0, crashLoop: false, history: [] };
+}
+
+/**
+ * Read the watchdog state from R2
+ *
+ * @param bucket - The R2 bucket binding
+ * @returns The stored state, or an empty state if none exists or it can't be parsed
+ */
+export async function readWatchdogState(bucket: R2Bucket): Promise<WatchdogState> {
+  try {
+    const object = await bucket.get(GATEWAY_RESTARTS_KEY);
+    if (!object) return emptyState();
+    const parsed = JSON.parse(await object.text()) as Partial<WatchdogState>;
+    return {
+      ...emptyState(),
+      ...parsed,
+      history: Array.isArray(parsed.history) ? parsed.history : [],
+    };
+  } catch {
+    return emptyState();
+  }
+}
+
+async function writeWatchdogState(bucket: R2Bucket, state: WatchdogState): Promise<void> {
+  await bucket.put(GATEWAY_RESTARTS_KEY, JSON.stringify(state, null, 2), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+}
+
+/**
+ * Backoff delay after the given number of consecutive restarts
+ */
+export function getBackoffMs(consecutiveRestarts: number): number {
+  const exponent = Math.max(0, consecutiveRestarts - 1);
+  return Math.min(WATCHDOG_BACKOFF_BASE_MS * 2 ** exponent, WATCHDOG_BACKOFF_MAX_MS);
+}
+
+/**
+ * Add a restart to the state, advancing the backoff and crash-loop counters
+ */
+export function recordRestart(state: WatchdogState, record: GatewayRestartRecord, now: number): WatchdogState {
+  const consecutiveRestarts = state.consecutiveRestarts + 1;
+  return {
+    consecutiveRestarts,
+    lastRestartAt: record.at,
+    nextAttemptAt: new Date(now + getBackoffMs(consecutiveRestarts)).toISOString(),
+    crashLoop: consecutiveRestarts >= WATCHDOG_MAX_RESTARTS,
+    history: [record, ...state.history].slice(0, WATCHDOG_HISTORY_LIMIT),
+  };
+}
+
+/**
+ * Forget consecutive restarts and lift the crash-loop stop, keeping the history.
+ * Called after a manual restart so the watchdog takes over again.
+ *
+ * @param bucket - The R2 bucket binding
+ */
+export async function resetWatchdog(bucket: R2Bucket): Promise<void> {
+  const state = await readWatchdogState(bucket);
+  if (state.consecutiveRestarts === 0 && !state.crashLoop && !state.nextAttemptAt) return;
+  await writeWatchdogState(bucket, { ...state, consecutiveRestarts: 0, crashLoop: false, nextAttemptAt: undefined });
+}
+
+/**
+ * Check gateway liveness and restart it if it crashed or stopped responding.
+ *
+ * Runs from the cron handler:
+ * 1. Finds the gateway process and probes it if running
+ * 2. If it is gone or unhealthy, restarts it unless the backoff delay hasn't passed
+ *    or the crash-loop limit was reached
+ * 3. Waits for the new gateway and records each restart with the exit code and
+ *    stderr tail of the old process. A gateway that comes back unhealthy counts
+ *    as a failed restart.
+ *
+ * Skipped when the container is allowed to sleep, since a stopped gateway is expected then.
+ *
+ * @param sandbox - The sandbox instance
+ * @param env - Worker environment bindings
+ * @param actions - How to start or restart the gateway
+ * @returns What the watchdog did
+ */
+export async function runGatewayWatchdog(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  actions: WatchdogActions
+): Promise<WatchdogResult> {
+  const sleepAfter = env.SANDBOX_SLEEP_AFTER?.toLowerCase() || 'never';
+  if (sleepAfter !== 'never') {
+    return { action: 'skipped', reason: 'Container is allowed to sleep' };
+  }
+
+  const bucket = env.MOLTBOT_BUCKET;
+  const state = await readWatchdogState(bucket);
+  const now = Date.now();
+
+  const existingProcess = await findExistingMoltbotProcess(sandbox);
+  if (existingProcess?.status === 'starting') {
+    return { action: 'healthy', reason: 'Gateway is starting' };
+  }
+
+  let trigger: GatewayRestartRecord['trigger'] = 'crashed';
+  if (existingProcess) {
+    const health = await probeGatewayHealth(sandbox, { attempts: WATCHDOG_PROBE_ATTEMPTS });
+    if (health.status !== 'unhealthy') {
+      // Stable long enough - earlier restarts no longer count towards the crash loop
+      const lastRestart = state.lastRestartAt ? Date.parse(state.lastRestartAt) : 0;
+      if (state.consecutiveRestarts > 0 && !state.crashLoop && now - lastRestart >= WATCHDOG_STABLE_MS) {
+        await writeWatchdogState(bucket, { ...state, consecutiveRestarts: 0, nextAttemptAt: undefined });
+      }
+      return { action: 'healthy', reason: health.reason };
+    }
+    trigger = 'unhealthy';
+  }
+
+  if (state.crashLoop) {
+    return { action: 'crash_loop', reason: `Gave up after ${state.consecutiveRestarts} consecutive restarts` };
+  }
+  if (state.nextAttemptAt && now < Date.parse(state.nextAttemptAt)) {
+    return { action: 'backoff', reason: `Next restart not before ${state.nextAttemptAt}` };
+  }
+
+  const deadProcess = existingProcess ?? (await findLastExitedMoltbotProcess(sandbox));
+  const record: GatewayRestartRecord = {
+    at: new Date(now).toISOString(),
+    trigger,
+    processId: deadProcess?.id,
+    exitCode: deadProcess?.exitCode,
+    outcome: 'restarted',
+  };
+  if (deadProcess) {
+    try {
+      const logs = await deadProcess.getLogs();
+      record.stderrTail = logs.stderr?.slice(-STDERR_TAIL_LENGTH) || undefined;
+    } catch {
+      // Logs are best effort
+    }
+  }
+
+  try {
+    if (trigger === 'unhealthy') await actions.restart();
+    // The restart returns before the new gateway is up; start() waits for it
+    const { health } = await actions.start();
+    if (health?.status === 'unhealthy') {
+      record.outcome = 'failed';
+      record.error = `Gateway is still unhealthy after the restart${health.reason ? `: ${health.reason}` : ''}`;
+    }
+  } catch (error) {
+    record.outcome = 'failed';
+    record.error = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  await writeWatchdogState(bucket, recordRestart(state, record, now));
+  return { action: record.outcome, record };
+}
@@ -21,12 +21,18 @@
  */
 
 import { Hono } from 'hono';
-import { getSandbox, Sandbox, type SandboxOptions } from '@cloudflare/sandbox';
+import { getSandbox, Sandbox } from '@cloudflare/sandbox';
 
 import type { AppEnv, MoltbotEnv } from './types';
-import { MOLTBOT_PORT } from './config';
+import { MOLTBOT_PORT, buildSandboxOptions } from './config';
 import { createAccessMiddleware } from './auth';
-import { ensureMoltbotGateway, findExistingMoltbotProcess, syncToR2 } from './gateway';
+import {
+  findExistingMoltbotProcess,
+  getGatewayCoordinator,
+  recordContainerActivity,
+  runGatewayWatchdog,
+} from './gateway';
+import { verifyBackupIfDue } from './storage';
 import { publicRoutes, api, adminUi, debug, cdp } from './routes';
 import { redactSensitiveParams } from './utils/logging';
 import loadingPageHtml from './assets/loading.html';
@@ -48,6 +54,7 @@ function transformErrorMessage(message: string, host: string): string {
 }
 
 export { Sandbox };
+export { GatewayCoordinator } from './gateway/coordinator';
 
 /**
  * Validate required environment variables.
@@ -86,29 +93,6 @@ function validateRequiredEnv(env: MoltbotEnv): string[] {
   return missing;
 }
 
-/**
- * Build sandbox options based on environment configuration.
- * 
- * SANDBOX_SLEEP_AFTER controls how long the container stays alive after inactivity:
- * - 'never' (default): Container stays alive indefinitely (recommended due to long cold starts)
- * - Duration string: e.g., '10m', '1h', '30s' - container sleeps after this period of inactivity
- * 
- * To reduce costs at the expense of cold start latency, set SANDBOX_SLEEP_AFTER to a duration:
- *   npx wrangler secret put SANDBOX_SLEEP_AFTER
- *   # Enter: 10m (or 1h, 30m, etc.)
- */
-function buildSandboxOptions(env: MoltbotEnv): SandboxOptions {
-  const sleepAfter = env.SANDBOX_SLEEP_AFTER?.toLowerCase() || 'never';
-
-  // 'never' means keep the container alive indefinitely
-  if (sleepAfter === 'never') {
-    return { keepAlive: true };
-  }
-
-  // Otherwise, use the specified duration
-  return { sleepAfter };
-}
-
 // Main app
 const app = new Hono<AppEnv>();
 
@@ -218,7 +202,7 @@ app.route('/debug', debug);
 // CATCH-ALL: Proxy to Moltbot gateway
 // =============================================================================
 
-app.all('*', async (c) => {
+app.all('*', recordContainerActivity, async (c) => {
   const sandbox = c.get('sandbox');
   const request = c.req.raw;
   const url = new URL(request.url);
@@ -238,7 +222,7 @@ app.all('*', async (c) => {
 
     // Start the gateway in the background (don't await)
     c.executionCtx.waitUntil(
-      ensureMoltbotGateway(sandbox, c.env).catch((err: Error) => {
+      getGatewayCoordinator(c.env).ensureReady().catch((err: Error) => {
         console.error('[PROXY] Background gateway start failed:', err);
       })
     );
@@ -249,7 +233,7 @@ app.all('*', async (c) => {
 
   // Ensure moltbot is running (this will wait for startup)
   try {
-    await ensureMoltbotGateway(sandbox, c.env);
+    await getGatewayCoordinator(c.env).ensureReady();
   } catch (error) {
     console.error('[PROXY] Failed to start Moltbot:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -428,13 +412,35 @@ async function scheduled(
   const sandbox = getSandbox(env.Sandbox, 'moltbot', options);
 
   console.log('[cron] Starting backup sync to R2...');
-  const result = await syncToR2(sandbox, env);
+  const result = await getGatewayCoordinator(env).sync('cron');
 
   if (result.success) {
     console.log('[cron] Backup sync completed successfully at', result.lastSync);
   } else {
     console.error('[cron] Backup sync failed:', result.error, result.details || '');
   }
+
+  // Check hourly that the backup could actually be restored
+  try {
+    const report = await verifyBackupIfDue(env.MOLTBOT_BUCKET);
+    if (report) {
+      console.log('[cron] Backup verification:', report.status, `(${report.issueCount} issues)`);
+    }
+  } catch (err) {
+    console.error('[cron] Backup verification failed:', err);
+  }
+
+  // Restart the gateway if it died since the last run
+  try {
+    const coordinator = getGatewayCoordinator(env);
+    const watchdog = await runGatewayWatchdog(sandbox, env, {
+      start: () => coordinator.ensureReady(),
+      restart: () => coordinator.restart(),
+    });
+    console.log('[cron] Gateway watchdog:', watchdog.action, watchdog.reason || watchdog.record?.error || '');
+  } catch (err) {
+    console.error('[cron] Gateway watchdog failed:', err);
+  }
 }
 
 export default {
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from 'vitest';
+import { api } from './api';
+import { AI_ENV_CONFIG_KEY } from '../ai';
+import { createMockBucket, createMockEnv } from '../test-utils';
+
+const secrets = 'encrypted-api-keys';
+
+function setup() {
+  const mock = createMockBucket({ [AI_ENV_CONFIG_KEY]: secrets });
+  const env = createMockEnv({ DEV_MODE: 'true', MOLTBOT_BUCKET: mock.bucket });
+  return { ...mock, env };
+}
+
+describe('R2 uploads', () => {
+  it('refuses to overwrite the API key file with a single upload', async () => {
+    const { env, objects } = setup();
+    const form = new FormData();
+    form.append('prefix', 'workspace-core/config/');
+    form.append('file', new File(['{}'], 'ai-env.json', { type: 'application/json' }));
+
+    const response = await api.request('/admin/r2/upload', { method: 'POST', body: form }, env);
+
+    expect(response.status).toBe(403);
+    expect(objects.get(AI_ENV_CONFIG_KEY)).toBe(secrets);
+  });
+
+  it('refuses to start a multipart upload over the API key file', async () => {
+    const { env } = setup();
+    const createMultipartUpload = vi.fn();
+    Object.assign(env.MOLTBOT_BUCKET, { createMultipartUpload });
+
+    const response = await api.request(
+      '/admin/r2/multipart',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ prefix: 'workspace-core/', path: 'config/ai-env.json' }),
+      },
+      env
+    );
+
+    expect(response.status).toBe(403);
+    expect(createMultipartUpload).not.toHaveBeenCalled();
+  });
+
+  it('still uploads other files under the config prefix', async () => {
+    const { env, objects } = setup();
+    const form = new FormData();
+    form.append('prefix', 'workspace-core/config/');
+    form.append('file', new File(['{"a":1}'], 'tools.json', { type: 'application/json' }));
+
+    const response = await api.request('/admin/r2/upload', { method: 'POST', body: form }, env);
+
+    expect(response.status).toBe(200);
+    expect(objects.has('workspace-core/config/tools.json')).toBe(true);
+  });
+});
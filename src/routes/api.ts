@@ -1,8 +1,59 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import type { AppEnv } from '../types';
 import { createAccessMiddleware } from '../auth';
-import { ensureMoltbotGateway, findExistingMoltbotProcess, mountR2Storage, syncToR2, waitForProcess } from '../gateway';
-import { R2_MOUNT_PATH } from '../config';
+import {
+  applyAiConfig,
+  getGatewayCoordinator,
+  hasPendingChanges,
+  readLastSync,
+  readStartupReports,
+  readSyncHistory,
+  readSyncWatchState,
+  readWatchdogState,
+  recordContainerActivity,
+  resetWatchdog,
+  waitForProcess,
+} from '../gateway';
+import { BACKUP_VERIFY_INTERVAL_MS, SNAPSHOT_RETENTION, SYNC_DEBOUNCE_LIMITS, SYNC_HISTORY_LIMIT } from '../config';
+import {
+  BackupArchiveError,
+  DEFAULT_SYNC_RULES,
+  exportBackup,
+  formatSnapshotId,
+  isConflictResolution,
+  isRestorePath,
+  isSnapshotId,
+  listConflicts,
+  listSnapshots,
+  readConflictVersions,
+  readSnapshotManifest,
+  readSyncRules,
+  readSyncWatchSettings,
+  readVerifyReport,
+  saveVerifyReport,
+  stageBackupImport,
+  validateSyncRules,
+  validateSyncWatchSettings,
+  writeSyncRules,
+  writeSyncWatchSettings,
+  verifyBackup,
+  downloadObject,
+  summarizeFolders,
+  TransferError,
+  transferObjects,
+  type SyncRules,
+  type SyncWatchSettings,
+} from '../storage';
+import {
+  AI_ENV_CONFIG_KEY,
+  applyAiConfigUpdate,
+  applyAiOverrides,
+  buildAiEnvResponse,
+  readAiEnvConfig,
+  testAiProviders,
+  validateAiFallbacks,
+  writeAiEnvConfig,
+} from '../ai';
 
 // CLI commands can take 10-15 seconds to complete due to WebSocket connection overhead
 const CLI_TIMEOUT_MS = 20000;
@@ -20,24 +71,12 @@ const R2_ALLOWED_PREFIXES = [
 const R2_LIST_LIMIT_DEFAULT = 200;
 const R2_LIST_LIMIT_MAX = 1000;
 const R2_UPLOAD_MAX_BYTES = 20 * 1024 * 1024;
+// Larger files go through a multipart upload; every part but the last has this size
+const R2_UPLOAD_PART_BYTES = 8 * 1024 * 1024;
+const R2_MULTIPART_MAX_PARTS = 10000;
+// Also the largest text saved back from the editor
 const R2_OBJECT_PREVIEW_MAX_BYTES = 1024 * 1024;
-const AI_ENV_CONFIG_KEY = 'workspace-core/config/ai-env.json';
-const AI_BASE_URL_KEYS = ['AI_GATEWAY_BASE_URL', 'ANTHROPIC_BASE_URL', 'OPENAI_BASE_URL', 'DEEPSEEK_BASE_URL'] as const;
-const AI_API_KEY_KEYS = ['AI_GATEWAY_API_KEY', 'ANTHROPIC_API_KEY', 'OPENAI_API_KEY', 'DEEPSEEK_API_KEY'] as const;
-const AI_PRIMARY_PROVIDERS = ['anthropic', 'deepseek'] as const;
-const AI_DEEPSEEK_MODELS = ['deepseek-chat', 'deepseek-reasoner'] as const;
-
-const isPrimaryProvider = (value: unknown): value is (typeof AI_PRIMARY_PROVIDERS)[number] =>
-  typeof value === 'string' && AI_PRIMARY_PROVIDERS.includes(value as (typeof AI_PRIMARY_PROVIDERS)[number]);
-const isDeepseekModel = (value: unknown): value is (typeof AI_DEEPSEEK_MODELS)[number] =>
-  typeof value === 'string' && AI_DEEPSEEK_MODELS.includes(value as (typeof AI_DEEPSEEK_MODELS)[number]);
-
-type AiEnvConfig = {
-  baseUrls?: Partial<Record<(typeof AI_BASE_URL_KEYS)[number], string | null>>;
-  apiKeys?: Partial<Record<(typeof AI_API_KEY_KEYS)[number], string | null>>;
-  primaryProvider?: (typeof AI_PRIMARY_PROVIDERS)[number] | null;
-  primaryModel?: (typeof AI_DEEPSEEK_MODELS)[number] | null;
-};
+const RESTORE_PATHS_LIMIT = 100;
 
 const isValidR2Path = (value: string) => {
   if (!value) return false;
@@ -47,68 +86,23 @@ const isValidR2Path = (value: string) => {
   return R2_ALLOWED_PREFIXES.some(prefix => value.startsWith(prefix));
 };
 
+/** Key for a file uploaded under a prefix, keeping a dropped folder's relative path */
+const uploadKey = (prefix: string, relativePath: string) =>
+  prefix + relativePath.replaceAll('\\', '_').split('/').filter((segment) => segment && segment !== '.').join('/');
+
+/** R2 reports a multipart upload that was completed, aborted or expired as missing */
+const isMissingUploadError = (error: unknown) =>
+  error instanceof Error && /10024|does not exist/i.test(error.message);
+
+/** ETag from an If-Match header, without the quotes or the weak prefix */
+const parseEtagHeader = (value: string) => value.trim().replace(/^W\//, '').replace(/^"(.*)"$/, '$1');
+
 const parseR2ListLimit = (value: string | undefined) => {
   const parsed = Number.parseInt(value ?? '', 10);
   if (!Number.isFinite(parsed) || parsed <= 0) return R2_LIST_LIMIT_DEFAULT;
   return Math.min(parsed, R2_LIST_LIMIT_MAX);
 };
 
-const readAiEnvConfig = async (bucket: R2Bucket): Promise<AiEnvConfig> => {
-  try {
-    const object = await bucket.get(AI_ENV_CONFIG_KEY);
-    if (!object) return {};
-    const text = await object.text();
-    const parsed = JSON.parse(text);
-    if (!parsed || typeof parsed !== 'object') return {};
-    return parsed as AiEnvConfig;
-  } catch {
-    return {};
-  }
-};
-
-const writeAiEnvConfig = async (bucket: R2Bucket, config: AiEnvConfig) => {
-  await bucket.put(AI_ENV_CONFIG_KEY, JSON.stringify(config, null, 2), {
-    httpMetadata: { contentType: 'application/json' },
-  });
-};
-
-const buildAiEnvResponse = (config: AiEnvConfig, envVars: Record<string, string | undefined>) => {
-  const baseUrls = Object.fromEntries(
-    AI_BASE_URL_KEYS.map((key) => {
-      const override = config.baseUrls?.[key];
-      if (override === null) return [key, null];
-      if (typeof override === 'string' && override.trim().length > 0) return [key, override.trim()];
-      const envValue = envVars[key];
-      return [key, envValue && envValue.trim().length > 0 ? envValue : null];
-    })
-  );
-  const apiKeys = Object.fromEntries(
-    AI_API_KEY_KEYS.map((key) => {
-      const override = config.apiKeys?.[key];
-      if (override === null) return [key, { isSet: false, source: 'cleared' }];
-      if (typeof override === 'string' && override.trim().length > 0) {
-        return [key, { isSet: true, source: 'saved' }];
-      }
-      const envValue = envVars[key];
-      if (envValue && envValue.trim().length > 0) {
-        return [key, { isSet: true, source: 'env' }];
-      }
-      return [key, { isSet: false, source: null }];
-    })
-  );
-  const primaryProvider =
-    typeof config.primaryProvider === 'string' && AI_PRIMARY_PROVIDERS.includes(config.primaryProvider)
-      ? config.primaryProvider
-      : 'anthropic';
-  const primaryModel =
-    typeof config.primaryModel === 'string' && AI_DEEPSEEK_MODELS.includes(config.primaryModel)
-      ? config.primaryModel
-      : primaryProvider === 'deepseek'
-        ? 'deepseek-chat'
-        : null;
-  return { baseUrls, apiKeys, primaryProvider, primaryModel };
-};
-
 /**
  * API routes
  * - /api/admin/* - Protected admin API routes (Cloudflare Access required)
@@ -126,12 +120,12 @@ const adminApi = new Hono<AppEnv>();
 adminApi.use('*', createAccessMiddleware({ type: 'json' }));
 
 // GET /api/admin/devices - List pending and paired devices
-adminApi.get('/devices', async (c) => {
+adminApi.get('/devices', recordContainerActivity, async (c) => {
   const sandbox = c.get('sandbox');
 
   try {
     // Ensure moltbot is running first
-    await ensureMoltbotGateway(sandbox, c.env);
+    await getGatewayCoordinator(c.env).ensureReady();
 
     // Run moltbot CLI to list devices (CLI is still named clawdbot until upstream renames)
     // Must specify --url to connect to the gateway running in the same container
@@ -174,7 +168,7 @@ adminApi.get('/devices', async (c) => {
 });
 
 // POST /api/admin/devices/:requestId/approve - Approve a pending device
-adminApi.post('/devices/:requestId/approve', async (c) => {
+adminApi.post('/devices/:requestId/approve', recordContainerActivity, async (c) => {
   const sandbox = c.get('sandbox');
   const requestId = c.req.param('requestId');
 
@@ -184,7 +178,7 @@ adminApi.post('/devices/:requestId/approve', async (c) => {
 
   try {
     // Ensure moltbot is running first
-    await ensureMoltbotGateway(sandbox, c.env);
+    await getGatewayCoordinator(c.env).ensureReady();
 
     // Run moltbot CLI to approve the device (CLI is still named clawdbot)
     const proc = await sandbox.startProcess(buildCliCommand(`devices approve ${requestId} --url ws://localhost:18789`));
@@ -211,12 +205,12 @@ adminApi.post('/devices/:requestId/approve', async (c) => {
 });
 
 // POST /api/admin/devices/approve-all - Approve all pending devices
-adminApi.post('/devices/approve-all', async (c) => {
+adminApi.post('/devices/approve-all', recordContainerActivity, async (c) => {
   const sandbox = c.get('sandbox');
 
   try {
     // Ensure moltbot is running first
-    await ensureMoltbotGateway(sandbox, c.env);
+    await getGatewayCoordinator(c.env).ensureReady();
 
     // First, get the list of pending devices (CLI is still named clawdbot)
     const listProc = await sandbox.startProcess(buildCliCommand('devices list --json --url ws://localhost:18789'));
@@ -278,61 +272,43 @@ adminApi.post('/devices/approve-all', async (c) => {
 
 // GET /api/admin/storage - Get R2 storage status and last sync time
 adminApi.get('/storage', async (c) => {
-  const sandbox = c.get('sandbox');
-  const hasCredentials = !!(
-    c.env.R2_ACCESS_KEY_ID && 
-    c.env.R2_SECRET_ACCESS_KEY && 
-    c.env.CF_ACCOUNT_ID
-  );
-
-  // Check which credentials are missing
-  const missing: string[] = [];
-  if (!c.env.R2_ACCESS_KEY_ID) missing.push('R2_ACCESS_KEY_ID');
-  if (!c.env.R2_SECRET_ACCESS_KEY) missing.push('R2_SECRET_ACCESS_KEY');
-  if (!c.env.CF_ACCOUNT_ID) missing.push('CF_ACCOUNT_ID');
+  // Syncs go through the bucket binding; the s3fs mount credentials are optional
+  const configured = !!c.env.MOLTBOT_BUCKET;
+  const missing = configured ? undefined : ['MOLTBOT_BUCKET'];
 
   let lastSync: string | null = null;
 
   // If R2 is configured, check for last sync timestamp
-  if (hasCredentials) {
+  if (configured) {
     try {
-      // Mount R2 if not already mounted
-      await mountR2Storage(sandbox, c.env);
-      
-      // Check for sync marker file
-      const proc = await sandbox.startProcess(`cat ${R2_MOUNT_PATH}/.last-sync 2>/dev/null || echo ""`);
-      await waitForProcess(proc, 5000);
-      const logs = await proc.getLogs();
-      const timestamp = logs.stdout?.trim();
-      if (timestamp && timestamp !== '') {
-        lastSync = timestamp;
-      }
+      lastSync = await readLastSync(c.env.MOLTBOT_BUCKET);
     } catch {
       // Ignore errors checking sync status
     }
   }
 
   return c.json({
-    configured: hasCredentials,
-    missing: missing.length > 0 ? missing : undefined,
+    configured,
+    missing,
     lastSync,
-    message: hasCredentials 
+    message: configured 
       ? 'R2 storage is configured. Your data will persist across container restarts.'
       : 'R2 storage is not configured. Paired devices and conversations will be lost when the container restarts.',
   });
 });
 
 // POST /api/admin/storage/sync - Trigger a manual sync to R2
-adminApi.post('/storage/sync', async (c) => {
-  const sandbox = c.get('sandbox');
-  
-  const result = await syncToR2(sandbox, c.env);
+adminApi.post('/storage/sync', recordContainerActivity, async (c) => {
+  const result = await getGatewayCoordinator(c.env).sync('manual');
   
   if (result.success) {
     return c.json({
       success: true,
       message: 'Sync completed successfully',
       lastSync: result.lastSync,
+      stats: result.stats,
+      snapshot: result.snapshot,
+      snapshotError: result.snapshotError,
     });
   } else {
     const status = result.error?.includes('not configured') ? 400 : 500;
@@ -344,6 +320,286 @@ adminApi.post('/storage/sync', async (c) => {
   }
 });
 
+// GET /api/admin/storage/history - Recorded sync runs, newest first
+adminApi.get('/storage/history', async (c) => {
+  try {
+    const runs = await readSyncHistory(c.env.MOLTBOT_BUCKET);
+    return c.json({ runs, limit: SYNC_HISTORY_LIMIT });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/storage/verify - The latest backup verification report
+adminApi.get('/storage/verify', async (c) => {
+  try {
+    const report = await readVerifyReport(c.env.MOLTBOT_BUCKET);
+    return c.json({ report, intervalMs: BACKUP_VERIFY_INTERVAL_MS });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/storage/verify - Verify the backup now; { deep: true } also hashes every recorded object
+adminApi.post('/storage/verify', async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+  try {
+    const report = await verifyBackup(c.env.MOLTBOT_BUCKET, { trigger: 'manual', deep: body.deep === true });
+    await saveVerifyReport(c.env.MOLTBOT_BUCKET, report);
+    return c.json({ report, intervalMs: BACKUP_VERIFY_INTERVAL_MS });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/storage/rules - The sync include/exclude rules and size cap
+adminApi.get('/storage/rules', async (c) => {
+  try {
+    const rules = await readSyncRules(c.env.MOLTBOT_BUCKET);
+    return c.json({ ...rules, defaults: DEFAULT_SYNC_RULES });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/storage/rules - Save the sync rules; they apply from the next sync and restore
+adminApi.post('/storage/rules', async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+  const errors = validateSyncRules(body);
+  if (errors.length > 0) {
+    return c.json({ error: errors.join('; '), errors }, 400);
+  }
+  const { rules, maxFileBytes } = body as Partial<SyncRules>;
+  try {
+    const saved: SyncRules = { rules: rules!, maxFileBytes: maxFileBytes ?? null };
+    await writeSyncRules(c.env.MOLTBOT_BUCKET, saved);
+    return c.json({ success: true, ...saved, defaults: DEFAULT_SYNC_RULES });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/storage/watch - The watcher's debounce window and whether the container has unsynced changes
+adminApi.get('/storage/watch', recordContainerActivity, async (c) => {
+  try {
+    const [settings, watcher, lastSync] = await Promise.all([
+      readSyncWatchSettings(c.env.MOLTBOT_BUCKET),
+      readSyncWatchState(c.get('sandbox')),
+      readLastSync(c.env.MOLTBOT_BUCKET),
+    ]);
+    return c.json({
+      ...settings,
+      limits: SYNC_DEBOUNCE_LIMITS,
+      watcher,
+      pending: hasPendingChanges(watcher, lastSync),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/storage/watch - Save the watcher's debounce window
+adminApi.post('/storage/watch', async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+  const errors = validateSyncWatchSettings(body);
+  if (errors.length > 0) {
+    return c.json({ error: errors.join('; '), errors }, 400);
+  }
+  const { debounceSeconds } = body as SyncWatchSettings;
+  try {
+    await writeSyncWatchSettings(c.env.MOLTBOT_BUCKET, { debounceSeconds });
+    return c.json({ success: true, debounceSeconds });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/storage/snapshots - List backup snapshots, newest first
+adminApi.get('/storage/snapshots', async (c) => {
+  try {
+    const snapshots = await listSnapshots(c.env.MOLTBOT_BUCKET);
+    return c.json({ snapshots, retention: SNAPSHOT_RETENTION });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/storage/snapshots/:id - Get a snapshot's manifest
+adminApi.get('/storage/snapshots/:id', async (c) => {
+  const id = c.req.param('id');
+  if (!isSnapshotId(id)) {
+    return c.json({ error: 'Invalid snapshot id' }, 400);
+  }
+  try {
+    const manifest = await readSnapshotManifest(c.env.MOLTBOT_BUCKET, id);
+    if (!manifest) {
+      return c.json({ error: 'Snapshot not found' }, 404);
+    }
+    return c.json(manifest);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/storage/snapshots/:id/restore - Write a snapshot's files into the container
+adminApi.post('/storage/snapshots/:id/restore', recordContainerActivity, async (c) => {
+  const id = c.req.param('id');
+  if (!isSnapshotId(id)) {
+    return c.json({ error: 'Invalid snapshot id' }, 400);
+  }
+  try {
+    const manifest = await readSnapshotManifest(c.env.MOLTBOT_BUCKET, id);
+    if (!manifest) {
+      return c.json({ error: 'Snapshot not found' }, 404);
+    }
+    const result = await getGatewayCoordinator(c.env).restoreSnapshot(manifest);
+    return c.json({ success: result.failed.length === 0, ...result });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/storage/restore - Copy chosen keys or prefixes from R2 or a snapshot into the container
+adminApi.post('/storage/restore', recordContainerActivity, async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+  const { paths, snapshotId, backup } = body as { paths?: unknown; snapshotId?: unknown; backup?: unknown };
+  if (!Array.isArray(paths) || paths.length === 0 || paths.length > RESTORE_PATHS_LIMIT) {
+    return c.json({ error: `paths must list 1 to ${RESTORE_PATHS_LIMIT} keys or prefixes` }, 400);
+  }
+  const invalid = paths.filter((path) => typeof path !== 'string' || !isRestorePath(path));
+  if (invalid.length > 0) {
+    return c.json({ error: `Invalid restore paths: ${invalid.map(String).join(', ')}` }, 400);
+  }
+  if (snapshotId !== undefined && (typeof snapshotId !== 'string' || !isSnapshotId(snapshotId))) {
+    return c.json({ error: 'Invalid snapshot id' }, 400);
+  }
+  try {
+    const snapshot = snapshotId ? await readSnapshotManifest(c.env.MOLTBOT_BUCKET, snapshotId) : undefined;
+    if (snapshotId && !snapshot) {
+      return c.json({ error: 'Snapshot not found' }, 404);
+    }
+    const result = await getGatewayCoordinator(c.env).restoreFiles(paths as string[], {
+      snapshot,
+      backup: backup === true,
+    });
+    return c.json({ success: result.failed.length === 0, ...result });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/storage/conflicts - List files changed in the container and in R2 since the last sync
+adminApi.get('/storage/conflicts', async (c) => {
+  try {
+    const conflicts = await listConflicts(c.env.MOLTBOT_BUCKET);
+    return c.json({ conflicts });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/storage/conflicts/versions?key= - Both versions of a conflicting file, as text
+adminApi.get('/storage/conflicts/versions', async (c) => {
+  const key = c.req.query('key')?.trim() ?? '';
+  if (!key) {
+    return c.json({ error: 'key is required' }, 400);
+  }
+  try {
+    const versions = await readConflictVersions(c.env.MOLTBOT_BUCKET, key);
+    if (!versions) {
+      return c.json({ error: 'Conflict not found' }, 404);
+    }
+    return c.json({ key, ...versions });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/storage/conflicts/resolve - Keep the container version, keep the R2 version, or save a merge
+adminApi.post('/storage/conflicts/resolve', recordContainerActivity, async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+  const { key, resolution, content } = body as { key?: unknown; resolution?: unknown; content?: unknown };
+  if (typeof key !== 'string' || !key) {
+    return c.json({ error: 'key is required' }, 400);
+  }
+  if (!isConflictResolution(resolution)) {
+    return c.json({ error: 'resolution must be one of: container, r2, merge' }, 400);
+  }
+  if (resolution === 'merge' && typeof content !== 'string') {
+    return c.json({ error: 'content is required for a merge' }, 400);
+  }
+  try {
+    const resolved = await getGatewayCoordinator(c.env).resolveConflict(key, resolution, content as string | undefined);
+    if (!resolved) {
+      return c.json({ error: 'Conflict not found' }, 404);
+    }
+    return c.json({ success: true, key, resolution });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/backup/export?includeSecrets=true - Download the backup as a tar.gz archive
+adminApi.get('/backup/export', async (c) => {
+  const includeSecrets = c.req.query('includeSecrets') === 'true';
+  const encryptionKey = c.env.CONFIG_ENCRYPTION_KEY;
+  if (includeSecrets) {
+    // The archive carries the API keys decrypted; fail before streaming if they can't be
+    try {
+      await readAiEnvConfig(c.env.MOLTBOT_BUCKET, encryptionKey);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return c.json({ error: errorMessage }, 500);
+    }
+  }
+  const filename = `moltbot-backup-${formatSnapshotId(new Date())}.tar.gz`;
+  return new Response(exportBackup(c.env.MOLTBOT_BUCKET, { includeSecrets, encryptionKey }), {
+    headers: {
+      'Content-Type': 'application/gzip',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+});
+
+// POST /api/admin/backup/import?includeSecrets=true - Replace the backup with an uploaded tar.gz archive
+adminApi.post('/backup/import', recordContainerActivity, async (c) => {
+  const body = c.req.raw.body;
+  if (!body) {
+    return c.json({ error: 'Archive is required' }, 400);
+  }
+  const options = {
+    includeSecrets: c.req.query('includeSecrets') === 'true',
+    encryptionKey: c.env.CONFIG_ENCRYPTION_KEY,
+  };
+  try {
+    // Checked and staged here; the backup is only replaced between syncs
+    const staged = await stageBackupImport(c.env.MOLTBOT_BUCKET, body, options);
+    const result = await getGatewayCoordinator(c.env).importBackup(staged, options);
+    return c.json({ success: !result.containerError && result.container?.failed.length === 0, ...result });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    if (error instanceof BackupArchiveError) {
+      return c.json({ error: errorMessage }, 400);
+    }
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
 adminApi.get('/r2/list', async (c) => {
   const prefix = c.req.query('prefix')?.trim() ?? '';
   if (!isValidR2Path(prefix)) {
@@ -351,20 +607,33 @@ adminApi.get('/r2/list', async (c) => {
   }
   const cursor = c.req.query('cursor') ?? undefined;
   const limit = parseR2ListLimit(c.req.query('limit'));
+  // With delimiter=/ only the prefix's own objects are listed, and the
+  // folders below it come back as delimitedPrefixes with their totals
+  const delimiter = c.req.query('delimiter') || undefined;
+  if (delimiter !== undefined && delimiter !== '/') {
+    return c.json({ error: 'delimiter must be "/"' }, 400);
+  }
   try {
-    const list = await c.env.MOLTBOT_BUCKET.list({ prefix, cursor, limit });
+    const list = await c.env.MOLTBOT_BUCKET.list({ prefix, cursor, limit, delimiter });
     const nextCursor = list.truncated ? (list as { cursor?: string }).cursor ?? null : null;
     return c.json({
       prefix,
       cursor: cursor ?? null,
       nextCursor,
       truncated: list.truncated,
-      objects: list.objects.map(obj => ({
-        key: obj.key,
-        size: obj.size,
-        etag: obj.etag,
-        uploaded: obj.uploaded.toISOString(),
-      })),
+      objects: list.objects
+        // The prefix's own directory marker
+        .filter(obj => !(delimiter && obj.key === prefix))
+        .map(obj => ({
+          key: obj.key,
+          size: obj.size,
+          etag: obj.etag,
+          uploaded: obj.uploaded.toISOString(),
+        })),
+      ...(delimiter && {
+        delimiter,
+        delimitedPrefixes: await summarizeFolders(c.env.MOLTBOT_BUCKET, prefix, list.delimitedPrefixes),
+      }),
     });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -377,6 +646,9 @@ adminApi.get('/r2/object', async (c) => {
   if (!isValidR2Path(key)) {
     return c.json({ error: 'Invalid key' }, 400);
   }
+  if (key === AI_ENV_CONFIG_KEY) {
+    return c.json({ error: 'This file holds API keys and cannot be previewed' }, 403);
+  }
   try {
     const object = await c.env.MOLTBOT_BUCKET.get(key);
     if (!object) {
@@ -389,6 +661,8 @@ adminApi.get('/r2/object', async (c) => {
     return c.json({
       key,
       contentType: object.httpMetadata?.contentType ?? null,
+      etag: object.etag,
+      size: object.size,
       content: text,
     });
   } catch (error) {
@@ -397,6 +671,69 @@ adminApi.get('/r2/object', async (c) => {
   }
 });
 
+// GET /api/admin/r2/download?key= - Stream an object of any size or type, with Range support
+adminApi.get('/r2/download', async (c) => {
+  const key = c.req.query('key')?.trim() ?? '';
+  if (!isValidR2Path(key) || key.endsWith('/')) {
+    return c.json({ error: 'Invalid key' }, 400);
+  }
+  if (key === AI_ENV_CONFIG_KEY) {
+    return c.json({ error: 'This file holds API keys and cannot be downloaded' }, 403);
+  }
+  try {
+    const response = await downloadObject(c.env.MOLTBOT_BUCKET, key, c.req.raw.headers);
+    if (!response) {
+      return c.json({ error: 'Object not found' }, 404);
+    }
+    return response;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// PUT /api/admin/r2/object?key= - Save text from the editor; If-Match must hold the ETag it was loaded with
+adminApi.put('/r2/object', async (c) => {
+  const key = c.req.query('key')?.trim() ?? '';
+  if (!isValidR2Path(key) || key.endsWith('/')) {
+    return c.json({ error: 'Invalid key' }, 400);
+  }
+  if (key === AI_ENV_CONFIG_KEY) {
+    return c.json({ error: 'This file holds API keys and cannot be edited' }, 403);
+  }
+  const ifMatch = c.req.header('If-Match');
+  if (!ifMatch) {
+    return c.json({ error: 'If-Match header with the ETag the content was loaded with is required' }, 428);
+  }
+  const body = await c.req.json().catch(() => ({}));
+  if (typeof body.content !== 'string') {
+    return c.json({ error: 'content must be a string' }, 400);
+  }
+  const data = new TextEncoder().encode(body.content);
+  if (data.byteLength > R2_OBJECT_PREVIEW_MAX_BYTES) {
+    return c.json({ error: 'Content too large' }, 413);
+  }
+  const contentType = typeof body.contentType === 'string' && body.contentType ? body.contentType : undefined;
+  try {
+    const object = await c.env.MOLTBOT_BUCKET.put(key, data, {
+      onlyIf: { etagMatches: parseEtagHeader(ifMatch) },
+      httpMetadata: { contentType },
+    });
+    if (!object) {
+      // The precondition failed: someone else saved (or a sync wrote) in between
+      const current = await c.env.MOLTBOT_BUCKET.head(key);
+      return c.json({
+        error: current ? 'The object changed since it was loaded' : 'The object was deleted since it was loaded',
+        etag: current?.etag ?? null,
+      }, 412);
+    }
+    return c.json({ success: true, key, etag: object.etag, size: object.size });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
 adminApi.delete('/r2/object', async (c) => {
   const key = c.req.query('key')?.trim() ?? '';
   if (!isValidR2Path(key)) {
@@ -435,6 +772,51 @@ adminApi.delete('/r2/prefix', async (c) => {
   }
 });
 
+/**
+ * Copy or move a key, or a prefix ending in "/", within the allowed prefixes.
+ * Objects already at the destination are skipped unless overwrite is set.
+ */
+const transferR2Objects = (move: boolean) => async (c: Context<AppEnv>) => {
+  const body = await c.req.json().catch(() => ({}));
+  const source = typeof body.source === 'string' ? body.source.trim() : '';
+  const destination = typeof body.destination === 'string' ? body.destination.trim() : '';
+  if (!isValidR2Path(source) || !isValidR2Path(destination)) {
+    return c.json({ error: 'Invalid source or destination' }, 400);
+  }
+  try {
+    const result = await transferObjects(c.env.MOLTBOT_BUCKET, source, destination, {
+      move,
+      overwrite: body.overwrite === true,
+      isAllowed: (key) => isValidR2Path(key) && key !== AI_ENV_CONFIG_KEY,
+    });
+    if (result.objects === 0) {
+      return c.json({ error: 'Source not found' }, 404);
+    }
+    if (!source.endsWith('/')) {
+      const [skipped] = result.skipped;
+      if (skipped?.reason === 'exists') {
+        return c.json({ error: `${skipped.to} already exists`, ...result }, 409);
+      }
+      if (skipped?.reason === 'not-allowed') {
+        return c.json({ error: 'This object cannot be copied or moved there', ...result }, 403);
+      }
+    }
+    return c.json({ success: result.failed.length === 0, ...result });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    if (error instanceof TransferError) {
+      return c.json({ error: errorMessage }, 400);
+    }
+    return c.json({ error: errorMessage }, 500);
+  }
+};
+
+// POST /api/admin/r2/copy - Copy a key or prefix: { source, destination, overwrite? }
+adminApi.post('/r2/copy', transferR2Objects(false));
+
+// POST /api/admin/r2/move - Move or rename a key or prefix: { source, destination, overwrite? }
+adminApi.post('/r2/move', transferR2Objects(true));
+
 adminApi.post('/r2/upload', async (c) => {
   const contentType = c.req.header('content-type') ?? '';
   if (!contentType.includes('multipart/form-data')) {
@@ -453,12 +835,14 @@ adminApi.post('/r2/upload', async (c) => {
     if (file.size > R2_UPLOAD_MAX_BYTES) {
       return c.json({ error: 'File too large' }, 413);
     }
-    const rawName = file.name.split('/').pop() ?? 'upload.bin';
-    const safeName = rawName.replaceAll('\\', '_');
-    const key = `${prefix}${safeName}`;
-    if (!isValidR2Path(key)) {
+    const relativePath = typeof body.path === 'string' && body.path ? body.path : file.name.split('/').pop() || 'upload.bin';
+    const key = uploadKey(prefix, relativePath);
+    if (!isValidR2Path(key) || key === prefix) {
       return c.json({ error: 'Invalid key' }, 400);
     }
+    if (key === AI_ENV_CONFIG_KEY) {
+      return c.json({ error: 'This file holds API keys and cannot be uploaded' }, 403);
+    }
     await c.env.MOLTBOT_BUCKET.put(key, file, {
       httpMetadata: {
         contentType: file.type || undefined,
@@ -471,112 +855,201 @@ adminApi.post('/r2/upload', async (c) => {
   }
 });
 
-adminApi.get('/ai/env', async (c) => {
-  const envVars = c.env as unknown as Record<string, string | undefined>;
-  const config = await readAiEnvConfig(c.env.MOLTBOT_BUCKET);
-  const summary = buildAiEnvResponse(config, envVars);
-  const baseUrls = Object.entries(summary.baseUrls)
-    .filter(([, value]) => typeof value === 'string' && value.trim().length > 0)
-    .map(([key]) => key);
-  const apiKeys = Object.entries(summary.apiKeys as Record<string, { isSet: boolean }>)
-    .filter(([, value]) => value.isSet)
-    .map(([key]) => key);
-
-  return c.json({
-    baseUrls,
-    apiKeys,
-  });
+// POST /api/admin/r2/multipart - Start a multipart upload for a file too large for /r2/upload
+adminApi.post('/r2/multipart', async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+  const prefix = typeof body.prefix === 'string' ? body.prefix.trim() : '';
+  if (!isValidR2Path(prefix) || typeof body.path !== 'string') {
+    return c.json({ error: 'prefix and path are required' }, 400);
+  }
+  const key = uploadKey(prefix, body.path);
+  if (!isValidR2Path(key) || key === prefix) {
+    return c.json({ error: 'Invalid key' }, 400);
+  }
+  if (key === AI_ENV_CONFIG_KEY) {
+    return c.json({ error: 'This file holds API keys and cannot be uploaded' }, 403);
+  }
+  const contentType = typeof body.contentType === 'string' && body.contentType ? body.contentType : undefined;
+  try {
+    const upload = await c.env.MOLTBOT_BUCKET.createMultipartUpload(key, { httpMetadata: { contentType } });
+    return c.json({
+      key: upload.key,
+      uploadId: upload.uploadId,
+      partSize: R2_UPLOAD_PART_BYTES,
+      maxParts: R2_MULTIPART_MAX_PARTS,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
 });
 
-adminApi.get('/ai/config', async (c) => {
-  const envVars = c.env as unknown as Record<string, string | undefined>;
-  const config = await readAiEnvConfig(c.env.MOLTBOT_BUCKET);
-  return c.json(buildAiEnvResponse(config, envVars));
-});
-
-adminApi.post('/ai/config', async (c) => {
-  const envVars = c.env as unknown as Record<string, string | undefined>;
-  const payload = await c.req.json();
-  const config = await readAiEnvConfig(c.env.MOLTBOT_BUCKET);
-
-  if (payload && typeof payload === 'object') {
-    if (payload.baseUrls && typeof payload.baseUrls === 'object') {
-      config.baseUrls = config.baseUrls ?? {};
-      AI_BASE_URL_KEYS.forEach((key) => {
-        if (!(key in payload.baseUrls)) return;
-        const rawValue = payload.baseUrls[key];
-        if (rawValue === null || rawValue === undefined || String(rawValue).trim() === '') {
-          config.baseUrls![key] = null;
-        } else if (typeof rawValue === 'string') {
-          config.baseUrls![key] = rawValue.trim();
-        }
-      });
+// PUT /api/admin/r2/multipart/part?key=&uploadId=&partNumber= - Upload one part; the body is its raw bytes
+adminApi.put('/r2/multipart/part', async (c) => {
+  const key = c.req.query('key')?.trim() ?? '';
+  const uploadId = c.req.query('uploadId') ?? '';
+  const partNumber = Number(c.req.query('partNumber'));
+  if (!isValidR2Path(key) || !uploadId) {
+    return c.json({ error: 'Invalid key or uploadId' }, 400);
+  }
+  if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > R2_MULTIPART_MAX_PARTS) {
+    return c.json({ error: `partNumber must be between 1 and ${R2_MULTIPART_MAX_PARTS}` }, 400);
+  }
+  try {
+    const data = await c.req.arrayBuffer();
+    if (data.byteLength === 0) {
+      return c.json({ error: 'Part is empty' }, 400);
     }
-    if (payload.apiKeys && typeof payload.apiKeys === 'object') {
-      config.apiKeys = config.apiKeys ?? {};
-      AI_API_KEY_KEYS.forEach((key) => {
-        if (!(key in payload.apiKeys)) return;
-        const rawValue = payload.apiKeys[key];
-        if (rawValue === null || rawValue === undefined || String(rawValue).trim() === '') {
-          config.apiKeys![key] = null;
-        } else if (typeof rawValue === 'string') {
-          config.apiKeys![key] = rawValue.trim();
-        }
-      });
+    if (data.byteLength > R2_UPLOAD_PART_BYTES) {
+      return c.json({ error: 'Part too large' }, 413);
     }
-    if ('primaryProvider' in payload) {
-      const rawValue = payload.primaryProvider;
-      if (rawValue === null || rawValue === undefined || String(rawValue).trim() === '') {
-        config.primaryProvider = null;
-      } else if (isPrimaryProvider(rawValue)) {
-        config.primaryProvider = rawValue;
-      }
+    const part = await c.env.MOLTBOT_BUCKET.resumeMultipartUpload(key, uploadId).uploadPart(partNumber, data);
+    return c.json({ partNumber: part.partNumber, etag: part.etag });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    if (isMissingUploadError(error)) {
+      return c.json({ error: 'Upload not found' }, 404);
     }
-    if ('primaryModel' in payload) {
-      const rawValue = payload.primaryModel;
-      if (rawValue === null || rawValue === undefined || String(rawValue).trim() === '') {
-        config.primaryModel = null;
-      } else if (isDeepseekModel(rawValue)) {
-        config.primaryModel = rawValue;
-      }
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/r2/multipart/complete - Assemble the uploaded parts into the object
+adminApi.post('/r2/multipart/complete', async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+  const key = typeof body.key === 'string' ? body.key.trim() : '';
+  const uploadId = typeof body.uploadId === 'string' ? body.uploadId : '';
+  if (!isValidR2Path(key) || !uploadId) {
+    return c.json({ error: 'Invalid key or uploadId' }, 400);
+  }
+  const parts: unknown[] = Array.isArray(body.parts) ? body.parts : [];
+  const validParts = parts.every((part) => {
+    const { partNumber, etag } = (part ?? {}) as Record<string, unknown>;
+    return Number.isInteger(partNumber) && typeof etag === 'string' && etag.length > 0;
+  });
+  if (parts.length === 0 || !validParts) {
+    return c.json({ error: 'parts must list each uploaded partNumber and etag' }, 400);
+  }
+  const uploadedParts = (parts as R2UploadedPart[]).slice().sort((a, b) => a.partNumber - b.partNumber);
+  try {
+    const object = await c.env.MOLTBOT_BUCKET.resumeMultipartUpload(key, uploadId).complete(uploadedParts);
+    return c.json({ success: true, key, etag: object.etag, size: object.size });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    if (isMissingUploadError(error)) {
+      return c.json({ error: 'Upload not found' }, 404);
     }
+    return c.json({ error: errorMessage }, 500);
   }
+});
 
-  await writeAiEnvConfig(c.env.MOLTBOT_BUCKET, config);
-  return c.json(buildAiEnvResponse(config, envVars));
+// DELETE /api/admin/r2/multipart?key=&uploadId= - Abandon an upload and drop its parts
+adminApi.delete('/r2/multipart', async (c) => {
+  const key = c.req.query('key')?.trim() ?? '';
+  const uploadId = c.req.query('uploadId') ?? '';
+  if (!isValidR2Path(key) || !uploadId) {
+    return c.json({ error: 'Invalid key or uploadId' }, 400);
+  }
+  try {
+    await c.env.MOLTBOT_BUCKET.resumeMultipartUpload(key, uploadId).abort();
+    return c.json({ success: true, key });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    if (isMissingUploadError(error)) {
+      return c.json({ success: true, key });
+    }
+    return c.json({ error: errorMessage }, 500);
+  }
 });
 
-// POST /api/admin/gateway/restart - Kill the current gateway and start a new one
-adminApi.post('/gateway/restart', async (c) => {
-  const sandbox = c.get('sandbox');
+adminApi.get('/ai/env', async (c) => {
+  try {
+    const config = await readAiEnvConfig(c.env.MOLTBOT_BUCKET, c.env.CONFIG_ENCRYPTION_KEY);
+    const summary = buildAiEnvResponse(config, c.env);
+    const baseUrls = Object.entries(summary.baseUrls)
+      .filter(([, value]) => typeof value === 'string' && value.trim().length > 0)
+      .map(([key]) => key);
+    const apiKeys = Object.entries(summary.apiKeys as Record<string, { isSet: boolean }>)
+      .filter(([, value]) => value.isSet)
+      .map(([key]) => key);
+
+    return c.json({
+      baseUrls,
+      apiKeys,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
 
+adminApi.get('/ai/config', async (c) => {
   try {
-    // Find and kill the existing gateway process
-    const existingProcess = await findExistingMoltbotProcess(sandbox);
-    
-    if (existingProcess) {
-      console.log('Killing existing gateway process:', existingProcess.id);
-      try {
-        await existingProcess.kill();
-      } catch (killErr) {
-        console.error('Error killing process:', killErr);
-      }
-      // Wait a moment for the process to die
-      await new Promise(r => setTimeout(r, 2000));
+    const config = await readAiEnvConfig(c.env.MOLTBOT_BUCKET, c.env.CONFIG_ENCRYPTION_KEY);
+    return c.json(buildAiEnvResponse(config, c.env));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+adminApi.post('/ai/config', recordContainerActivity, async (c) => {
+  try {
+    const payload = await c.req.json();
+    // Fails rather than overwriting keys that can't be decrypted
+    const current = await readAiEnvConfig(c.env.MOLTBOT_BUCKET, c.env.CONFIG_ENCRYPTION_KEY);
+    const previous = structuredClone(current);
+    const config = applyAiConfigUpdate(current, payload);
+    const fallbackErrors = validateAiFallbacks(config, c.env);
+    if (fallbackErrors.length > 0) {
+      return c.json({ error: fallbackErrors.join('; ') }, 400);
     }
 
-    // Start a new gateway in the background
-    const bootPromise = ensureMoltbotGateway(sandbox, c.env).catch((err) => {
-      console.error('Gateway restart failed:', err);
+    await writeAiEnvConfig(c.env.MOLTBOT_BUCKET, config, c.env.CONFIG_ENCRYPTION_KEY);
+    // Push the change to the running gateway: reload when possible, restart otherwise
+    const apply = await applyAiConfig(c.get('sandbox'), c.env, previous, config, {
+      restart: () => getGatewayCoordinator(c.env).restart(),
+      ready: () => getGatewayCoordinator(c.env).ensureReady(),
     });
-    c.executionCtx.waitUntil(bootPromise);
+    return c.json({ ...buildAiEnvResponse(config, c.env), apply });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/ai/test - Check that the configured provider keys work
+adminApi.post('/ai/test', async (c) => {
+  try {
+    const body = await c.req.json().catch(() => ({}));
+    const providers = Array.isArray(body?.providers)
+      ? body.providers.filter((id: unknown): id is string => typeof id === 'string')
+      : undefined;
+    // Test what the gateway would use: Worker env vars with the saved settings applied
+    const env = applyAiOverrides(c.env, await readAiEnvConfig(c.env.MOLTBOT_BUCKET, c.env.CONFIG_ENCRYPTION_KEY));
+    const results = await testAiProviders(env, { providers });
+
+    return c.json({ testedAt: new Date().toISOString(), results });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/gateway/restart - Kill the current gateway and start a new one
+adminApi.post('/gateway/restart', recordContainerActivity, async (c) => {
+  try {
+    // The coordinator kills the current process and starts a new one in the background
+    const { previousProcessId } = await getGatewayCoordinator(c.env).restart();
+    // A manual restart lifts the watchdog's crash-loop stop
+    await resetWatchdog(c.env.MOLTBOT_BUCKET);
 
     return c.json({
       success: true,
-      message: existingProcess 
+      message: previousProcessId 
         ? 'Gateway process killed, new instance starting...'
         : 'No existing process found, starting new instance...',
-      previousProcessId: existingProcess?.id,
+      previousProcessId,
     });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -584,6 +1057,39 @@ adminApi.post('/gateway/restart', async (c) => {
   }
 });
 
+// GET /api/admin/gateway/status - Current gateway lifecycle state
+adminApi.get('/gateway/status', async (c) => {
+  try {
+    const status = await getGatewayCoordinator(c.env).getStatus();
+    return c.json(status);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/gateway/restarts - Watchdog state and restart history
+adminApi.get('/gateway/restarts', async (c) => {
+  try {
+    const state = await readWatchdogState(c.env.MOLTBOT_BUCKET);
+    return c.json(state);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/gateway/startup-reports - Phase timings and errors of recent boots
+adminApi.get('/gateway/startup-reports', async (c) => {
+  try {
+    const reports = await readStartupReports(c.env.MOLTBOT_BUCKET);
+    return c.json({ reports });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
 // Mount admin API routes under /admin
 api.route('/admin', adminApi);
 
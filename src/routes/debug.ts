@@ -1,6 +1,6 @@
 import { Hono } from 'hono';
 import type { AppEnv } from '../types';
-import { findExistingMoltbotProcess } from '../gateway';
+import { findExistingMoltbotProcess, recordContainerActivity } from '../gateway';
 
 /**
  * Debug routes for inspecting container state
@@ -12,7 +12,7 @@ const buildCliCommand = (args: string) =>
   `if command -v openclaw >/dev/null 2>&1; then openclaw ${args}; else clawdbot ${args}; fi`;
 
 // GET /debug/version - Returns version info from inside the container
-debug.get('/version', async (c) => {
+debug.get('/version', recordContainerActivity, async (c) => {
   const sandbox = c.get('sandbox');
   try {
     // Get moltbot version (CLI is still named clawdbot until upstream renames)
@@ -38,7 +38,7 @@ debug.get('/version', async (c) => {
 });
 
 // GET /debug/processes - List all processes with optional logs
-debug.get('/processes', async (c) => {
+debug.get('/processes', recordContainerActivity, async (c) => {
   const sandbox = c.get('sandbox');
   try {
     const processes = await sandbox.listProcesses();
@@ -96,7 +96,7 @@ debug.get('/processes', async (c) => {
 });
 
 // GET /debug/gateway-api - Probe the moltbot gateway HTTP API
-debug.get('/gateway-api', async (c) => {
+debug.get('/gateway-api', recordContainerActivity, async (c) => {
   const sandbox = c.get('sandbox');
   const path = c.req.query('path') || '/';
   const MOLTBOT_PORT = 18789;
@@ -126,7 +126,7 @@ debug.get('/gateway-api', async (c) => {
 });
 
 // GET /debug/cli - Test moltbot CLI commands (CLI is still named clawdbot)
-debug.get('/cli', async (c) => {
+debug.get('/cli', recordContainerActivity, async (c) => {
   const sandbox = c.get('sandbox');
   const cmd = c.req.query('cmd') || buildCliCommand('--help');
   
@@ -157,7 +157,7 @@ debug.get('/cli', async (c) => {
 });
 
 // GET /debug/logs - Returns container logs for debugging
-debug.get('/logs', async (c) => {
+debug.get('/logs', recordContainerActivity, async (c) => {
   const sandbox = c.get('sandbox');
   try {
     const processId = c.req.query('id');
@@ -356,7 +356,7 @@ debug.get('/env', async (c) => {
 });
 
 // GET /debug/container-config - Read the moltbot config from inside the container
-debug.get('/container-config', async (c) => {
+debug.get('/container-config', recordContainerActivity, async (c) => {
   const sandbox = c.get('sandbox');
   
   try {
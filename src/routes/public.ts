@@ -1,7 +1,13 @@
 import { Hono } from 'hono';
 import type { AppEnv } from '../types';
 import { MOLTBOT_PORT } from '../config';
-import { findExistingMoltbotProcess } from '../gateway';
+import { timingSafeEqual } from '../auth';
+import {
+  findExistingMoltbotProcess,
+  getGatewayCoordinator,
+  probeGatewayHealth,
+  recordContainerActivity,
+} from '../gateway';
 
 /**
  * Public routes - NO Cloudflare Access authentication required
@@ -31,7 +37,7 @@ publicRoutes.get('/logo-small.png', (c) => {
 });
 
 // GET /api/status - Public health check for gateway status (no auth required)
-publicRoutes.get('/api/status', async (c) => {
+publicRoutes.get('/api/status', recordContainerActivity, async (c) => {
   const sandbox = c.get('sandbox');
   
   try {
@@ -43,16 +49,43 @@ publicRoutes.get('/api/status', async (c) => {
     // Process exists, check if it's actually responding
     // Try to reach the gateway with a short timeout
     try {
-      await process.waitForPort(18789, { mode: 'tcp', timeout: 5000 });
-      return c.json({ ok: true, status: 'running', processId: process.id });
+      await process.waitForPort(MOLTBOT_PORT, { mode: 'tcp', timeout: 5000 });
     } catch {
       return c.json({ ok: false, status: 'not_responding', processId: process.id });
     }
+
+    // Port is open - a single application-level probe tells ready from degraded
+    const { status: healthStatus, reason } = await probeGatewayHealth(sandbox, { attempts: 1 });
+    const health = { status: healthStatus, reason };
+    if (healthStatus === 'unhealthy') {
+      return c.json({ ok: false, status: 'not_responding', processId: process.id, health });
+    }
+    return c.json({ ok: true, status: 'running', processId: process.id, health });
   } catch (err) {
     return c.json({ ok: false, status: 'error', error: err instanceof Error ? err.message : 'Unknown error' });
   }
 });
 
+// POST /api/sync/notify - The container's file watcher asking for a sync after changes
+// Authenticated with the gateway token (Authorization: Bearer <MOLTBOT_GATEWAY_TOKEN>), which the container has
+publicRoutes.post('/api/sync/notify', async (c) => {
+  const expectedToken = c.env.MOLTBOT_GATEWAY_TOKEN;
+  if (!expectedToken) {
+    return c.json({ error: 'MOLTBOT_GATEWAY_TOKEN is not set' }, 503);
+  }
+  const providedToken = c.req.header('Authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+  if (!providedToken || !timingSafeEqual(providedToken, expectedToken)) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const result = await getGatewayCoordinator(c.env).sync('watch');
+  if (!result.success) {
+    const status = result.error?.includes('not configured') ? 400 : 500;
+    return c.json({ success: false, error: result.error, details: result.details }, status);
+  }
+  return c.json({ success: true, lastSync: result.lastSync });
+});
+
 // GET /_admin/assets/* - Admin UI static assets (CSS, JS need to load for login redirect)
 // Assets are built to dist/client with base "/_admin/"
 publicRoutes.get('/_admin/assets/*', async (c) => {
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { ArchiveError, readTar, tarEnd, tarEntry, type ArchiveEntry } from './archive';
+
+function streamOf(...parts: Uint8Array[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (const part of parts) controller.enqueue(part);
+      controller.close();
+    },
+  });
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>, maxEntryBytes = 1024): Promise<ArchiveEntry[]> {
+  const entries: ArchiveEntry[] = [];
+  for await (const entry of readTar(stream, maxEntryBytes)) entries.push(entry);
+  return entries;
+}
+
+const text = (entry: ArchiveEntry) => new TextDecoder().decode(entry.data);
+const bytes = (value: string) => new TextEncoder().encode(value);
+
+describe('tar archives', () => {
+  it('reads back the files it writes, including long paths', async () => {
+    const longPath = `workspace-core/${'deep/'.repeat(40)}notes.md`;
+    const entries = await readAll(
+      streamOf(tarEntry('skills/web/SKILL.md', bytes('skill')), tarEntry(longPath, bytes('notes')), tarEnd())
+    );
+
+    expect(entries.map((entry) => entry.path)).toEqual(['skills/web/SKILL.md', longPath]);
+    expect(entries.map(text)).toEqual(['skill', 'notes']);
+  });
+
+  it('reads archives split into odd-sized chunks', async () => {
+    const archive = new Uint8Array([...tarEntry('a.txt', bytes('x'.repeat(700))), ...tarEnd()]);
+    const chunks = [];
+    for (let i = 0; i < archive.length; i += 100) chunks.push(archive.subarray(i, i + 100));
+
+    const entries = await readAll(streamOf(...chunks));
+
+    expect(text(entries[0])).toBe('x'.repeat(700));
+  });
+
+  it('rejects a corrupted header', async () => {
+    const entry = tarEntry('a.txt', bytes('a'));
+    entry[0] = 'b'.charCodeAt(0);
+
+    await expect(readAll(streamOf(entry, tarEnd()))).rejects.toThrow('header checksum mismatch');
+  });
+
+  it('rejects truncated archives and oversize files', async () => {
+    const entry = tarEntry('a.txt', bytes('a'.repeat(600)));
+
+    await expect(readAll(streamOf(entry.subarray(0, 700)))).rejects.toThrow('Archive is truncated');
+    await expect(readAll(streamOf(entry))).rejects.toThrow('without an end marker');
+    await expect(readAll(streamOf(entry, tarEnd()), 100)).rejects.toBeInstanceOf(ArchiveError);
+  });
+});
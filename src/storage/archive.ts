@@ -0,0 +1,230 @@
+/**
+ * Streaming tar.gz archives, for exporting and importing the backup
+ *
+ * The writer emits POSIX ustar entries, with a PAX header for paths that
+ * don't fit. The reader also accepts GNU long names, so an archive unpacked
+ * and repacked with GNU tar can still be imported. Only regular files are
+ * read; directories and other entry types are skipped.
+ */
+
+const BLOCK_SIZE = 512;
+
+/** Thrown when an archive can't be read */
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+export interface ArchiveEntry {
+  path: string;
+  data: Uint8Array<ArrayBuffer>;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function writeString(header: Uint8Array, offset: number, length: number, value: string): void {
+  header.set(encoder.encode(value).subarray(0, length), offset);
+}
+
+function writeOctal(header: Uint8Array, offset: number, length: number, value: number): void {
+  writeString(header, offset, length, `${value.toString(8).padStart(length - 1, '0')}\0`);
+}
+
+function paddingFor(size: number): number {
+  return (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE;
+}
+
+/**
+ * Split a path into the ustar prefix and name fields
+ *
+ * @returns The fields, or undefined when the path needs a PAX header
+ */
+function splitUstarPath(path: string): { prefix: string; name: string } | undefined {
+  if (encoder.encode(path).length <= 100) return { prefix: '', name: path };
+  for (let i = path.indexOf('/'); i !== -1; i = path.indexOf('/', i + 1)) {
+    const prefix = path.slice(0, i);
+    const name = path.slice(i + 1);
+    if (encoder.encode(prefix).length <= 155 && encoder.encode(name).length <= 100) return { prefix, name };
+  }
+  return undefined;
+}
+
+function buildHeader(path: string, size: number, type: '0' | 'x', mtime: number): Uint8Array<ArrayBuffer> {
+  const header = new Uint8Array(BLOCK_SIZE);
+  const fields = splitUstarPath(path) ?? { prefix: '', name: path.slice(-100) };
+  writeString(header, 0, 100, fields.name);
+  writeOctal(header, 100, 8, 0o644);
+  writeOctal(header, 108, 8, 0);
+  writeOctal(header, 116, 8, 0);
+  writeOctal(header, 124, 12, size);
+  writeOctal(header, 136, 12, mtime);
+  header.fill(0x20, 148, 156);
+  writeString(header, 156, 1, type);
+  writeString(header, 257, 6, 'ustar\0');
+  writeString(header, 263, 2, '00');
+  writeString(header, 345, 155, fields.prefix);
+  const checksum = header.reduce((total, byte) => total + byte, 0);
+  writeString(header, 148, 8, `${checksum.toString(8).padStart(6, '0')}\0 `);
+  return header;
+}
+
+/** A PAX record: "<length> path=<value>\n", where the length counts itself */
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  const bodyLength = encoder.encode(body).length;
+  let length = bodyLength + 1;
+  while (String(length).length + bodyLength !== length) length++;
+  return `${length}${body}`;
+}
+
+/**
+ * Encode one file as tar blocks
+ *
+ * @param mtime - Modification time, in seconds since the epoch
+ */
+export function tarEntry(
+  path: string,
+  data: Uint8Array,
+  mtime = Math.floor(Date.now() / 1000)
+): Uint8Array<ArrayBuffer> {
+  const parts: Uint8Array[] = [];
+  if (!splitUstarPath(path)) {
+    const pax = encoder.encode(paxRecord('path', path));
+    parts.push(buildHeader('PaxHeader', pax.length, 'x', mtime), pax, new Uint8Array(paddingFor(pax.length)));
+  }
+  parts.push(buildHeader(path, data.length, '0', mtime), data, new Uint8Array(paddingFor(data.length)));
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/** The two empty blocks that end an archive */
+export function tarEnd(): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(BLOCK_SIZE * 2);
+}
+
+/**
+ * Read exactly the requested number of bytes from a stream
+ */
+function byteReader(stream: ReadableStream<Uint8Array>) {
+  const reader = stream.getReader();
+  let buffered: Uint8Array[] = [];
+  let available = 0;
+  let done = false;
+
+  return {
+    /** @returns The bytes, or null if the stream ended first */
+    async read(length: number): Promise<Uint8Array<ArrayBuffer> | null> {
+      while (available < length && !done) {
+        let chunk: ReadableStreamReadResult<Uint8Array>;
+        try {
+          chunk = await reader.read();
+        } catch (error) {
+          // e.g. the gzip layer rejecting the data
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          throw new ArchiveError(`Archive can't be read: ${message}`);
+        }
+        if (chunk.done) {
+          done = true;
+        } else {
+          buffered.push(chunk.value);
+          available += chunk.value.length;
+        }
+      }
+      if (available < length) return null;
+      const out = new Uint8Array(length);
+      let offset = 0;
+      while (offset < length) {
+        const head = buffered[0];
+        const take = Math.min(head.length, length - offset);
+        out.set(head.subarray(0, take), offset);
+        offset += take;
+        if (take === head.length) {
+          buffered.shift();
+        } else {
+          buffered[0] = head.subarray(take);
+        }
+      }
+      available -= length;
+      return out;
+    },
+    async cancel(): Promise<void> {
+      buffered = [];
+      await reader.cancel();
+    },
+  };
+}
+
+function readString(header: Uint8Array, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return decoder.decode(end === -1 ? field : field.subarray(0, end));
+}
+
+function readOctal(header: Uint8Array, offset: number, length: number): number {
+  const value = readString(header, offset, length).trim();
+  return value ? Number.parseInt(value, 8) : 0;
+}
+
+function parsePaxPath(data: Uint8Array): string | undefined {
+  for (const record of decoder.decode(data).split('\n')) {
+    const match = /^\d+ path=(.*)$/.exec(record);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+/**
+ * Read the regular files of a tar stream, in order
+ *
+ * @param stream - Uncompressed tar bytes
+ * @param maxEntryBytes - Largest file accepted; bigger ones abort the read
+ * @throws ArchiveError when the archive is malformed or a file is too large
+ */
+export async function* readTar(
+  stream: ReadableStream<Uint8Array>,
+  maxEntryBytes: number
+): AsyncGenerator<ArchiveEntry> {
+  const reader = byteReader(stream);
+  let longPath: string | undefined;
+  try {
+    for (;;) {
+      const header = await reader.read(BLOCK_SIZE);
+      if (!header) throw new ArchiveError('Archive ends without an end marker');
+      if (header.every((byte) => byte === 0)) return;
+
+      const stored = readOctal(header, 148, 8);
+      header.fill(0x20, 148, 156);
+      if (header.reduce((total, byte) => total + byte, 0) !== stored) {
+        throw new ArchiveError('Archive header checksum mismatch');
+      }
+      const size = readOctal(header, 124, 12);
+      const type = readString(header, 156, 1) || '0';
+      if (size > maxEntryBytes) throw new ArchiveError(`Archive entry exceeds ${maxEntryBytes} bytes`);
+      const data = await reader.read(size);
+      if (!data || !(await reader.read(paddingFor(size)))) throw new ArchiveError('Archive is truncated');
+
+      if (type === 'x') {
+        longPath = parsePaxPath(data) ?? longPath;
+      } else if (type === 'L') {
+        longPath = readString(data, 0, data.length);
+      } else {
+        // GNU headers use the ustar prefix field for other data
+        const prefix = readString(header, 257, 6) === 'ustar' ? readString(header, 345, 155) : '';
+        const name = readString(header, 0, 100);
+        const path = longPath ?? (prefix ? `${prefix}/${name}` : name);
+        longPath = undefined;
+        if (type === '0' || type === '7') yield { path, data };
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+}
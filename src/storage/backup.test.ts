@@ -0,0 +1,293 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Sandbox } from '@cloudflare/sandbox';
+import { readTar, tarEnd, tarEntry } from './archive';
+import { BackupArchiveError, applyBackupImport, exportBackup, stageBackupImport } from './backup';
+import { sha256Hex } from './bucket';
+import { SYNC_MANIFEST_KEY } from './manifest';
+import { DEFAULT_SYNC_RULES, compileSyncRules, type CompiledSyncRules } from './rules';
+import { AI_ENV_CONFIG_KEY, readAiEnvConfig, writeAiEnvConfig } from '../ai';
+import { SYNC_ROOTS, containerPathForKey } from './paths';
+import { syncToR2 } from '../gateway/sync';
+import {
+  createMockBucket,
+  createMockEnvWithR2,
+  createMockProcess,
+  createMockSandbox,
+  suppressConsole,
+} from '../test-utils';
+
+const rules = compileSyncRules(DEFAULT_SYNC_RULES);
+const now = new Date('2026-03-10T12:00:00.000Z');
+
+async function toBytes(stream: ReadableStream<Uint8Array>): Promise<Uint8Array<ArrayBuffer>> {
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function gzip(...parts: Uint8Array<ArrayBuffer>[]): ReadableStream<BufferSource> {
+  return new Blob(parts).stream().pipeThrough(new CompressionStream('gzip'));
+}
+
+async function unpack(archive: Uint8Array<ArrayBuffer>): Promise<Record<string, string>> {
+  const files: Record<string, string> = {};
+  const tar = new Blob([archive]).stream().pipeThrough(new DecompressionStream('gzip'));
+  for await (const entry of readTar(tar, 1024 * 1024)) files[entry.path] = new TextDecoder().decode(entry.data);
+  return files;
+}
+
+describe('exportBackup', () => {
+  it('archives the synced prefixes with a manifest and leaves secrets out', async () => {
+    const { bucket } = createMockBucket({
+      'workspace-core/MEMORY.md': '# Memory',
+      'workspace-core/config/ai-env.json': '{"openai":{"apiKey":"sk-1"}}',
+      'clawdbot/clawdbot.json': '{"channels":{"telegram":{"botToken":"123:abc","enabled":true}}}',
+      'skills/': '',
+      'meta/sync-rules.json': '{}',
+    });
+
+    const files = await unpack(await toBytes(exportBackup(bucket)));
+
+    expect(Object.keys(files)).toEqual(['clawdbot/clawdbot.json', 'workspace-core/MEMORY.md', 'manifest.json']);
+    expect(JSON.parse(files['clawdbot/clawdbot.json'])).toEqual({ channels: { telegram: { enabled: true } } });
+    const manifest = JSON.parse(files['manifest.json']);
+    expect(manifest).toMatchObject({ format: 'moltbot-backup', version: 1, includesSecrets: false });
+    expect(manifest.files[1]).toEqual({
+      key: 'workspace-core/MEMORY.md',
+      size: 8,
+      sha256: await sha256Hex(new TextEncoder().encode('# Memory').buffer),
+    });
+  });
+
+  it('includes secrets when asked to, with the API keys decrypted', async () => {
+    const { bucket } = createMockBucket();
+    await writeAiEnvConfig(bucket, { apiKeys: { OPENAI_API_KEY: 'sk-1' } }, 'source-secret');
+
+    const archive = exportBackup(bucket, { includeSecrets: true, encryptionKey: 'source-secret' });
+    const files = await unpack(await toBytes(archive));
+
+    expect(JSON.parse(files[AI_ENV_CONFIG_KEY])).toEqual({ apiKeys: { OPENAI_API_KEY: 'sk-1' } });
+  });
+});
+
+/**
+ * Mock sandbox backed by a map of container paths, whose manifest process
+ * lists what is in the map when it runs, so syncs can run against it
+ */
+function containerOf(files: Record<string, string>) {
+  const mock = createMockSandbox();
+  const contents = new Map<string, string>(
+    Object.entries(files).map(([key, content]) => [containerPathForKey(key)!, content])
+  );
+  const keyForPath = (path: string) => {
+    const root = SYNC_ROOTS.find((candidate) => path.startsWith(candidate.path));
+    return root && path !== '/root/.clawdbot/.last-sync' ? root.prefix + path.slice(root.path.length) : undefined;
+  };
+  mock.startProcessMock.mockImplementation(async () => {
+    const entries = [];
+    for (const [path, content] of contents) {
+      const key = keyForPath(path);
+      if (!key) continue;
+      const sha256 = await sha256Hex(new TextEncoder().encode(content).buffer);
+      entries.push({ key, path, size: content.length, sha256 });
+    }
+    return createMockProcess(JSON.stringify({ files: entries }));
+  });
+  mock.readFileMock.mockImplementation(async (path: string) => {
+    const content = contents.get(path);
+    if (content === undefined) throw new Error('File not found');
+    return { content: btoa(content), encoding: 'base64' };
+  });
+  mock.writeFileMock.mockImplementation(async (path: string, content: string, options?: { encoding?: string }) => {
+    contents.set(path, options?.encoding === 'base64' ? atob(content) : content);
+    return { success: true };
+  });
+  mock.existsMock.mockImplementation(async (path: string) => ({ success: true, exists: contents.has(path) }));
+  mock.deleteFileMock.mockImplementation(async (path: string) => {
+    contents.delete(path);
+    return { success: true };
+  });
+  return { ...mock, contents };
+}
+
+/** Stage an archive and apply it, as the import route and the coordinator do */
+async function importBackup(
+  sandbox: Sandbox,
+  bucket: R2Bucket,
+  body: ReadableStream<BufferSource>,
+  compiled: CompiledSyncRules,
+  options: Parameters<typeof stageBackupImport>[2]
+) {
+  return applyBackupImport(sandbox, bucket, await stageBackupImport(bucket, body, options), compiled, options);
+}
+
+describe('stageBackupImport and applyBackupImport', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('replaces the backup and copies it into the container', async () => {
+    const source = createMockBucket({
+      'workspace-core/MEMORY.md': '# Imported',
+      'skills/web/SKILL.md': 'skill',
+    });
+    const archive = await toBytes(exportBackup(source.bucket));
+    const { bucket, objects } = createMockBucket({
+      'workspace-core/MEMORY.md': '# Old',
+      'workspace-core/old.md': 'old',
+      'workspace-core/config/ai-env.json': '{"apiKey":"sk-live"}',
+      [SYNC_MANIFEST_KEY]: JSON.stringify({ version: 1, syncedAt: now.toISOString(), files: {} }),
+    });
+    const { sandbox, writeFileMock } = createMockSandbox();
+
+    const result = await importBackup(sandbox, bucket, new Blob([archive]).stream(), rules, { now });
+
+    expect(result).toMatchObject({ files: 2, removed: 1, snapshotId: '2026-03-10T12-00-00Z', skippedSecrets: [] });
+    expect(objects.get('workspace-core/MEMORY.md')).toBe('# Imported');
+    expect(objects.get('skills/web/SKILL.md')).toBe('skill');
+    expect(objects.has('workspace-core/old.md')).toBe(false);
+    expect(objects.get('workspace-core/config/ai-env.json')).toBe('{"apiKey":"sk-live"}');
+    expect([...objects.keys()].some((key) => key.startsWith('imports/'))).toBe(false);
+    expect(writeFileMock).toHaveBeenCalledWith('/root/clawd/MEMORY.md', btoa('# Imported'), { encoding: 'base64' });
+    const manifest = JSON.parse(objects.get(SYNC_MANIFEST_KEY)!);
+    expect(Object.keys(manifest.files)).toContain('skills/web/SKILL.md');
+  });
+
+  it('deletes removed files from the container too, so the next sync does not bring them back', async () => {
+    const core = {
+      'clawdbot/clawdbot.json': '{"gateway":{}}',
+      'workspace-core/USER.md': '# User',
+      'workspace-core/SOUL.md': '# Soul',
+      'workspace-core/MEMORY.md': '# Memory',
+    };
+    const archive = await toBytes(exportBackup(createMockBucket(core).bucket));
+    const { bucket, objects } = createMockBucket();
+    const env = createMockEnvWithR2({ MOLTBOT_BUCKET: bucket });
+    const container = containerOf({ ...core, 'workspace-core/old.md': 'old', 'skills/stale/SKILL.md': 'stale' });
+    container.contents.set('/root/.clawdbot/.last-sync', '2026-03-01');
+    expect((await syncToR2(container.sandbox, env)).success).toBe(true);
+
+    const result = await importBackup(container.sandbox, bucket, new Blob([archive]).stream(), rules, { now });
+    const sync = await syncToR2(container.sandbox, env);
+
+    expect(result.removed).toBe(2);
+    expect(container.contents.has('/root/clawd/old.md')).toBe(false);
+    expect(container.contents.has('/root/clawd/skills/stale/SKILL.md')).toBe(false);
+    expect(sync).toMatchObject({ success: true, stats: { added: 0, changed: 0, deleted: 0, removed: 0 } });
+    expect(objects.has('workspace-core/old.md')).toBe(false);
+    expect(objects.has('skills/stale/SKILL.md')).toBe(false);
+  });
+
+  it('skips secrets in the archive unless asked to import them', async () => {
+    const source = createMockBucket();
+    await writeAiEnvConfig(source.bucket, { apiKeys: { OPENAI_API_KEY: 'sk-imported' } }, 'source-secret');
+    const archive = await toBytes(
+      exportBackup(source.bucket, { includeSecrets: true, encryptionKey: 'source-secret' })
+    );
+    const { bucket, objects } = createMockBucket();
+    await writeAiEnvConfig(bucket, { apiKeys: { OPENAI_API_KEY: 'sk-live' } }, 'target-secret');
+    const { sandbox } = createMockSandbox();
+
+    const skipped = await importBackup(sandbox, bucket, new Blob([archive]).stream(), rules, {
+      now,
+      encryptionKey: 'target-secret',
+    });
+    expect(skipped.skippedSecrets).toEqual([AI_ENV_CONFIG_KEY]);
+    expect((await readAiEnvConfig(bucket, 'target-secret')).apiKeys).toEqual({ OPENAI_API_KEY: 'sk-live' });
+
+    await importBackup(sandbox, bucket, new Blob([archive]).stream(), rules, {
+      now,
+      includeSecrets: true,
+      encryptionKey: 'target-secret',
+    });
+    // Encrypted again with the key of the deployment it was imported into
+    expect(objects.get(AI_ENV_CONFIG_KEY)).not.toContain('sk-imported');
+    expect((await readAiEnvConfig(bucket, 'target-secret')).apiKeys).toEqual({ OPENAI_API_KEY: 'sk-imported' });
+  });
+
+  it('rejects API keys this deployment cannot decrypt, leaving the backup alone', async () => {
+    const source = createMockBucket();
+    await writeAiEnvConfig(source.bucket, { apiKeys: { OPENAI_API_KEY: 'sk-1' } }, 'other-secret');
+    const encrypted = new TextEncoder().encode(source.objects.get(AI_ENV_CONFIG_KEY)!);
+    const sha256 = await sha256Hex(encrypted.buffer);
+    const manifest = {
+      format: 'moltbot-backup',
+      version: 1,
+      createdAt: now.toISOString(),
+      includesSecrets: true,
+      files: [{ key: AI_ENV_CONFIG_KEY, size: encrypted.length, sha256 }],
+      checksum: await sha256Hex(new TextEncoder().encode(`${sha256}  ${AI_ENV_CONFIG_KEY}\n`).buffer),
+    };
+    const archive = gzip(
+      tarEntry(AI_ENV_CONFIG_KEY, encrypted),
+      tarEntry('manifest.json', new TextEncoder().encode(JSON.stringify(manifest))),
+      tarEnd()
+    );
+    const { bucket, objects } = createMockBucket({ 'workspace-core/MEMORY.md': '# Old' });
+    const { sandbox } = createMockSandbox();
+
+    await expect(
+      importBackup(sandbox, bucket, archive, rules, { now, includeSecrets: true, encryptionKey: 'target-secret' })
+    ).rejects.toBeInstanceOf(BackupArchiveError);
+    expect([...objects.entries()]).toEqual([['workspace-core/MEMORY.md', '# Old']]);
+  });
+
+  it('keeps the tokens of the live clawdbot.json when secrets are not imported', async () => {
+    const source = createMockBucket({
+      'clawdbot/clawdbot.json': JSON.stringify({
+        channels: { telegram: { botToken: '123:exported', enabled: false } },
+        models: { providers: { openai: { apiKey: '${OPENAI_API_KEY}' } } },
+      }),
+    });
+    const archive = await toBytes(exportBackup(source.bucket));
+    const { bucket, objects } = createMockBucket({
+      'clawdbot/clawdbot.json': JSON.stringify({ channels: { telegram: { botToken: '456:live', enabled: true } } }),
+    });
+    const { sandbox } = createMockSandbox();
+
+    await importBackup(sandbox, bucket, new Blob([archive]).stream(), rules, { now });
+
+    expect(JSON.parse(objects.get('clawdbot/clawdbot.json')!)).toEqual({
+      channels: { telegram: { botToken: '456:live', enabled: false } },
+      // Env var references name a key without holding it, so they are exported
+      models: { providers: { openai: { apiKey: '${OPENAI_API_KEY}' } } },
+    });
+  });
+
+  it('rejects an archive whose files do not match its manifest, leaving the backup alone', async () => {
+    const manifest = {
+      format: 'moltbot-backup',
+      version: 1,
+      createdAt: now.toISOString(),
+      includesSecrets: false,
+      files: [{ key: 'workspace-core/MEMORY.md', size: 8, sha256: 'not-the-hash' }],
+      checksum: '',
+    };
+    manifest.checksum = await sha256Hex(new TextEncoder().encode('not-the-hash  workspace-core/MEMORY.md\n').buffer);
+    const encoder = new TextEncoder();
+    const archive = gzip(
+      tarEntry('workspace-core/MEMORY.md', encoder.encode('# Forged')),
+      tarEntry('manifest.json', encoder.encode(JSON.stringify(manifest))),
+      tarEnd()
+    );
+    const { bucket, objects } = createMockBucket({ 'workspace-core/MEMORY.md': '# Old' });
+    const { sandbox, writeFileMock } = createMockSandbox();
+
+    await expect(importBackup(sandbox, bucket, archive, rules, { now })).rejects.toThrow(
+      new BackupArchiveError('Checksum mismatch for workspace-core/MEMORY.md')
+    );
+    expect([...objects.entries()]).toEqual([['workspace-core/MEMORY.md', '# Old']]);
+    expect(writeFileMock).not.toHaveBeenCalled();
+  });
+
+  it('rejects files outside the synced prefixes and data that is not an archive', async () => {
+    const { bucket } = createMockBucket();
+    const { sandbox } = createMockSandbox();
+    const escape = gzip(tarEntry('meta/sync-rules.json', new TextEncoder().encode('{}')), tarEnd());
+
+    await expect(importBackup(sandbox, bucket, escape, rules, { now })).rejects.toThrow(
+      'Unexpected file in archive: meta/sync-rules.json'
+    );
+    await expect(
+      importBackup(sandbox, bucket, new Blob(['not gzip']).stream(), rules, { now })
+    ).rejects.toBeInstanceOf(BackupArchiveError);
+  });
+});
@@ -0,0 +1,515 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import {
+  AI_ENV_CONFIG_KEY,
+  AiConfigDecryptionError,
+  parseAiEnvConfig,
+  readAiEnvConfig,
+  serializeAiEnvConfig,
+} from '../ai';
+import { BACKUP_IMPORT_MAX_BYTES, BACKUP_IMPORT_MAX_FILE_BYTES } from '../config';
+import { ArchiveError, readTar, tarEnd, tarEntry } from './archive';
+import { listAllObjects, readJsonObject, sha256Hex, writeJsonObject } from './bucket';
+import { listConflicts, saveConflicts } from './conflicts';
+import { SYNC_MANIFEST_KEY, type SyncManifest } from './manifest';
+import { SYNC_PREFIXES, containerPathForKey, isExcludedKey } from './paths';
+import { restoreFiles, type RestoreResult } from './restore';
+import type { CompiledSyncRules } from './rules';
+import { createSnapshot, formatSnapshotId, readSnapshotFile, readSnapshotManifest } from './snapshots';
+
+/**
+ * Exporting the backup as one tar.gz archive, and importing such an archive
+ * in place of the backup, e.g. to move a bot to another deployment
+ *
+ * The archive holds the synced prefixes under their R2 keys, followed by
+ * manifest.json with each file's size and SHA-256. API keys and tokens are
+ * left out unless asked for, on export and on import. Exported API keys are
+ * decrypted, and encrypted again with the importing deployment's
+ * CONFIG_ENCRYPTION_KEY, so an archive can move between deployments.
+ */
+
+export const BACKUP_ARCHIVE_FORMAT = 'moltbot-backup';
+
+/** Path of the manifest inside the archive */
+export const BACKUP_ARCHIVE_MANIFEST = 'manifest.json';
+
+/** R2 namespace where an import is staged before it replaces the backup */
+export const IMPORT_PREFIX = 'imports/';
+
+/** Backup files that hold API keys */
+export const SECRET_BACKUP_KEYS = [AI_ENV_CONFIG_KEY];
+
+/** Config files whose secret fields are removed unless secrets are exported */
+const REDACTED_CONFIG_KEYS = ['clawdbot/clawdbot.json'];
+
+/** Config fields holding secrets, e.g. apiKey, botToken, appToken */
+const SECRET_FIELD_PATTERN = /(?:api[-_]?key|token|secret|password)$/i;
+
+/** A "${ENV_VAR}" reference the gateway substitutes; it names a secret without holding it */
+const ENV_REFERENCE_PATTERN = /^\$\{[A-Z_][A-Z0-9_]*\}$/;
+
+/** Keys deleted per R2 delete call */
+const DELETE_BATCH_SIZE = 1000;
+
+export interface BackupArchiveFile {
+  key: string;
+  size: number;
+  sha256: string;
+}
+
+export interface BackupArchiveManifest {
+  format: typeof BACKUP_ARCHIVE_FORMAT;
+  version: 1;
+  createdAt: string;
+  /** Whether API keys and tokens were exported */
+  includesSecrets: boolean;
+  files: BackupArchiveFile[];
+  /** SHA-256 over the "<sha256>  <key>" lines of the files, in order */
+  checksum: string;
+}
+
+/** An archive checked and staged under imports/<id>/, ready to replace the backup */
+export interface StagedBackupImport {
+  /** Time of the import; names the staging prefix and the snapshot taken before it */
+  importedAt: string;
+  stagePrefix: string;
+  files: BackupArchiveFile[];
+  /** Secret files in the archive that were not imported */
+  skippedSecrets: string[];
+}
+
+export interface BackupImportResult {
+  importedAt: string;
+  /** Files written to the backup */
+  files: number;
+  bytes: number;
+  /** Backup files the archive doesn't have, deleted from R2 and the container */
+  removed: number;
+  /** Snapshot of the backup before the import, to roll back to */
+  snapshotId?: string;
+  /** Secret files in the archive that were not imported */
+  skippedSecrets: string[];
+  /** The copy into the running container */
+  container?: RestoreResult;
+  /** Set when the backup was imported but the copy into the container failed */
+  containerError?: string;
+}
+
+/** Thrown when an uploaded archive is not a valid backup */
+export class BackupArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupArchiveError';
+  }
+}
+
+const encoder = new TextEncoder();
+
+function isSecretKey(key: string): boolean {
+  return SECRET_BACKUP_KEYS.includes(key);
+}
+
+async function archiveChecksum(files: BackupArchiveFile[]): Promise<string> {
+  const lines = files.map((file) => `${file.sha256}  ${file.key}\n`).join('');
+  return sha256Hex(encoder.encode(lines).buffer);
+}
+
+const isSecretField = (field: string, value: unknown): value is string =>
+  typeof value === 'string' && SECRET_FIELD_PATTERN.test(field) && !ENV_REFERENCE_PATTERN.test(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+function stripSecretFields(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(stripSecretFields);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([field, entry]) => !isSecretField(field, entry))
+      .map(([field, entry]) => [field, stripSecretFields(entry)])
+  );
+}
+
+/**
+ * Copy the secret fields of the current config into a redacted one, where the
+ * redacted one still has the object they belong to
+ */
+function mergeSecretFields(redacted: unknown, current: unknown): unknown {
+  if (Array.isArray(redacted) && Array.isArray(current)) {
+    return redacted.map((entry, index) => mergeSecretFields(entry, current[index]));
+  }
+  if (!isRecord(redacted) || !isRecord(current)) return redacted;
+  const merged = { ...redacted };
+  for (const [field, entry] of Object.entries(current)) {
+    if (field in merged) {
+      merged[field] = mergeSecretFields(merged[field], entry);
+    } else if (isSecretField(field, entry)) {
+      merged[field] = entry;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Remove secret fields from a JSON config file; other files pass unchanged
+ */
+function redactConfig(data: Uint8Array<ArrayBuffer>): Uint8Array<ArrayBuffer> {
+  try {
+    const parsed = JSON.parse(new TextDecoder().decode(data));
+    return encoder.encode(`${JSON.stringify(stripSecretFields(parsed), null, 2)}\n`);
+  } catch {
+    return data;
+  }
+}
+
+/**
+ * Redact an imported JSON config file, keeping the secrets of the live copy
+ * so tokens already configured on this deployment survive the import
+ */
+function redactImportedConfig(data: Uint8Array<ArrayBuffer>, current: string | undefined): Uint8Array<ArrayBuffer> {
+  try {
+    const redacted = stripSecretFields(JSON.parse(new TextDecoder().decode(data)));
+    const merged = current === undefined ? redacted : mergeSecretFields(redacted, JSON.parse(current));
+    return encoder.encode(`${JSON.stringify(merged, null, 2)}\n`);
+  } catch {
+    return data;
+  }
+}
+
+async function listBackupKeys(bucket: R2Bucket): Promise<string[]> {
+  const listings = await Promise.all(SYNC_PREFIXES.map((prefix) => listAllObjects(bucket, prefix)));
+  // Directory markers left by s3fs
+  return listings.flat().map((object) => object.key).filter((key) => !key.endsWith('/'));
+}
+
+/**
+ * Stream the backup as a tar.gz archive, straight from R2
+ *
+ * With secrets, the saved AI settings are exported with their API keys
+ * decrypted; check that readAiEnvConfig succeeds before streaming.
+ *
+ * @param bucket - The R2 bucket binding
+ * @param options - includeSecrets: also export API keys and tokens;
+ *   encryptionKey: the CONFIG_ENCRYPTION_KEY Worker secret
+ */
+export function exportBackup(
+  bucket: R2Bucket,
+  options: { includeSecrets?: boolean; encryptionKey?: string } = {}
+): ReadableStream<Uint8Array> {
+  const includeSecrets = options.includeSecrets === true;
+  const createdAt = new Date();
+  const mtime = Math.floor(createdAt.getTime() / 1000);
+  const files: BackupArchiveFile[] = [];
+  let keys: string[] | undefined;
+  let index = 0;
+
+  const tar = new ReadableStream<BufferSource>({
+    async pull(controller) {
+      keys ??= (await listBackupKeys(bucket)).filter((key) => includeSecrets || !isSecretKey(key));
+      while (index < keys.length) {
+        const key = keys[index++];
+        const object = await bucket.get(key);
+        // Deleted since the listing
+        if (!object) continue;
+        let data = new Uint8Array(await object.arrayBuffer());
+        if (!includeSecrets && REDACTED_CONFIG_KEYS.includes(key)) data = redactConfig(data);
+        if (key === AI_ENV_CONFIG_KEY) {
+          const config = await readAiEnvConfig(bucket, options.encryptionKey);
+          data = encoder.encode(`${JSON.stringify(config, null, 2)}\n`);
+        }
+        files.push({ key, size: data.length, sha256: await sha256Hex(data.buffer) });
+        controller.enqueue(tarEntry(key, data, mtime));
+        return;
+      }
+      const manifest: BackupArchiveManifest = {
+        format: BACKUP_ARCHIVE_FORMAT,
+        version: 1,
+        createdAt: createdAt.toISOString(),
+        includesSecrets: includeSecrets,
+        files,
+        checksum: await archiveChecksum(files),
+      };
+      controller.enqueue(tarEntry(BACKUP_ARCHIVE_MANIFEST, encoder.encode(JSON.stringify(manifest, null, 2)), mtime));
+      controller.enqueue(tarEnd());
+      controller.close();
+      console.log('[Backup] Exported', files.length, 'files', includeSecrets ? 'with secrets' : 'without secrets');
+    },
+  });
+  return tar.pipeThrough(new CompressionStream('gzip'));
+}
+
+/**
+ * Check the archive's manifest against the files staged from it
+ *
+ * @throws BackupArchiveError when they don't match
+ */
+async function verifyArchive(
+  manifest: BackupArchiveManifest | undefined,
+  staged: Map<string, BackupArchiveFile>,
+  skippedSecrets: string[]
+): Promise<void> {
+  if (!manifest) throw new BackupArchiveError(`Archive has no ${BACKUP_ARCHIVE_MANIFEST}`);
+  if (manifest.format !== BACKUP_ARCHIVE_FORMAT || manifest.version !== 1 || !Array.isArray(manifest.files)) {
+    throw new BackupArchiveError('Archive is not a moltbot backup');
+  }
+  if (manifest.checksum !== (await archiveChecksum(manifest.files))) {
+    throw new BackupArchiveError('Archive manifest checksum mismatch');
+  }
+  const listed = new Set<string>();
+  for (const file of manifest.files) {
+    listed.add(file.key);
+    if (skippedSecrets.includes(file.key)) continue;
+    const found = staged.get(file.key);
+    if (!found) throw new BackupArchiveError(`Archive is missing ${file.key}`);
+    if (found.size !== file.size || found.sha256 !== file.sha256) {
+      throw new BackupArchiveError(`Checksum mismatch for ${file.key}`);
+    }
+  }
+  const unlisted = [...staged.keys()].find((key) => !listed.has(key));
+  if (unlisted) throw new BackupArchiveError(`Archive has a file its manifest doesn't list: ${unlisted}`);
+}
+
+/**
+ * Check that imported AI settings can be read on this deployment: archives
+ * hold decrypted keys, but older ones may carry keys encrypted elsewhere
+ *
+ * @throws BackupArchiveError when they can't
+ */
+async function checkAiEnvConfig(data: Uint8Array<ArrayBuffer>, encryptionKey: string | undefined): Promise<void> {
+  try {
+    await parseAiEnvConfig(new TextDecoder().decode(data), encryptionKey);
+  } catch (error) {
+    if (error instanceof AiConfigDecryptionError) {
+      throw new BackupArchiveError(`${AI_ENV_CONFIG_KEY} can't be decrypted on this deployment: ${error.message}`);
+    }
+    throw new BackupArchiveError(`${AI_ENV_CONFIG_KEY} is not valid JSON`);
+  }
+}
+
+/**
+ * Read an archive into the staging namespace, checking every file
+ *
+ * @returns The staged files, and the secret files left out
+ * @throws BackupArchiveError when the archive is not a valid backup
+ */
+async function stageArchive(
+  bucket: R2Bucket,
+  body: ReadableStream<BufferSource>,
+  stagePrefix: string,
+  includeSecrets: boolean,
+  encryptionKey: string | undefined
+): Promise<{ staged: Map<string, BackupArchiveFile>; skippedSecrets: string[] }> {
+  const staged = new Map<string, BackupArchiveFile>();
+  const skippedSecrets: string[] = [];
+  let manifest: BackupArchiveManifest | undefined;
+  let totalBytes = 0;
+  try {
+    for await (const entry of readTar(body.pipeThrough(new DecompressionStream('gzip')), BACKUP_IMPORT_MAX_FILE_BYTES)) {
+      if (entry.path === BACKUP_ARCHIVE_MANIFEST) {
+        try {
+          manifest = JSON.parse(new TextDecoder().decode(entry.data)) as BackupArchiveManifest;
+        } catch {
+          throw new BackupArchiveError(`${BACKUP_ARCHIVE_MANIFEST} is not valid JSON`);
+        }
+        continue;
+      }
+      if (!containerPathForKey(entry.path)) {
+        throw new BackupArchiveError(`Unexpected file in archive: ${entry.path}`);
+      }
+      if (staged.has(entry.path)) throw new BackupArchiveError(`Archive has ${entry.path} twice`);
+      if (isSecretKey(entry.path) && !includeSecrets) {
+        skippedSecrets.push(entry.path);
+        continue;
+      }
+      if (entry.path === AI_ENV_CONFIG_KEY) await checkAiEnvConfig(entry.data, encryptionKey);
+      totalBytes += entry.data.length;
+      if (totalBytes > BACKUP_IMPORT_MAX_BYTES) {
+        throw new BackupArchiveError(`Archive files exceed ${BACKUP_IMPORT_MAX_BYTES} bytes`);
+      }
+      await bucket.put(`${stagePrefix}${entry.path}`, entry.data);
+      staged.set(entry.path, { key: entry.path, size: entry.data.length, sha256: await sha256Hex(entry.data.buffer) });
+    }
+    await verifyArchive(manifest, staged, skippedSecrets);
+  } catch (error) {
+    await deleteKeys(bucket, [...staged.keys()].map((key) => `${stagePrefix}${key}`));
+    if (error instanceof ArchiveError) throw new BackupArchiveError(error.message);
+    throw error;
+  }
+  return { staged, skippedSecrets };
+}
+
+async function deleteKeys(bucket: R2Bucket, keys: string[]): Promise<void> {
+  for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+    await bucket.delete(keys.slice(i, i + DELETE_BATCH_SIZE));
+  }
+}
+
+/**
+ * The content an archive file is imported with: AI settings are encrypted
+ * with this deployment's key, and without secrets, config files keep the
+ * secrets of their live copy
+ */
+async function prepareImportedFile(
+  bucket: R2Bucket,
+  key: string,
+  data: Uint8Array<ArrayBuffer>,
+  options: { includeSecrets?: boolean; encryptionKey?: string }
+): Promise<Uint8Array<ArrayBuffer>> {
+  if (key === AI_ENV_CONFIG_KEY) {
+    const config = await parseAiEnvConfig(new TextDecoder().decode(data), options.encryptionKey);
+    return encoder.encode(await serializeAiEnvConfig(config, options.encryptionKey));
+  }
+  if (!options.includeSecrets && REDACTED_CONFIG_KEYS.includes(key)) {
+    return redactImportedConfig(data, await (await bucket.get(key))?.text());
+  }
+  return data;
+}
+
+/**
+ * Delete the container's copies of backup files an import removed. Files the
+ * sync rules leave out were never backed up, and are left alone.
+ *
+ * @returns The keys whose file is no longer in the container
+ */
+async function deleteContainerFiles(sandbox: Sandbox, keys: string[], rules: CompiledSyncRules): Promise<string[]> {
+  const deleted: string[] = [];
+  for (const key of keys) {
+    const path = containerPathForKey(key);
+    if (!path || isExcludedKey(key, rules)) continue;
+    const { exists } = await sandbox.exists(path);
+    if (exists) await sandbox.deleteFile(path);
+    deleted.push(key);
+  }
+  return deleted;
+}
+
+/**
+ * Put the backup back as it was in the snapshot taken before an import
+ *
+ * @param touched - Keys the import wrote or deleted
+ */
+async function rollBack(bucket: R2Bucket, snapshotId: string | undefined, touched: string[]): Promise<void> {
+  const manifest = snapshotId ? await readSnapshotManifest(bucket, snapshotId) : undefined;
+  const before = new Map((manifest?.files ?? []).map((file) => [file.key, file]));
+  const added: string[] = [];
+  for (const key of touched) {
+    const file = before.get(key);
+    if (file) {
+      await bucket.put(key, await readSnapshotFile(bucket, file));
+    } else {
+      added.push(key);
+    }
+  }
+  await deleteKeys(bucket, added);
+}
+
+/**
+ * Check an uploaded archive and stage it for applyBackupImport
+ *
+ * The archive is staged under imports/<id>/ and checked against its manifest;
+ * the backup itself is not touched, so this can run while syncs do.
+ *
+ * @param bucket - The R2 bucket binding
+ * @param body - The tar.gz archive
+ * @param options - includeSecrets: also import API keys; encryptionKey: the
+ *   CONFIG_ENCRYPTION_KEY Worker secret the imported keys must decrypt with
+ * @throws BackupArchiveError when the archive is not a valid backup
+ */
+export async function stageBackupImport(
+  bucket: R2Bucket,
+  body: ReadableStream<BufferSource>,
+  options: { includeSecrets?: boolean; encryptionKey?: string; now?: Date } = {}
+): Promise<StagedBackupImport> {
+  const now = options.now ?? new Date();
+  const stagePrefix = `${IMPORT_PREFIX}${formatSnapshotId(now)}/`;
+  const { staged, skippedSecrets } = await stageArchive(
+    bucket,
+    body,
+    stagePrefix,
+    options.includeSecrets === true,
+    options.encryptionKey
+  );
+  return { importedAt: now.toISOString(), stagePrefix, files: [...staged.values()], skippedSecrets };
+}
+
+/**
+ * Replace the backup with a staged archive, then copy it into the container
+ * and delete the files it doesn't have from there
+ *
+ * The backup is snapshotted before it is replaced, and put back if replacing
+ * it fails. Secret files missing from the archive, or not imported, are kept
+ * as they are, and so are the tokens in the live clawdbot.json when secrets
+ * aren't imported. The staged copy is deleted either way.
+ *
+ * Run it where syncs can't overlap it (see GatewayCoordinator.importBackup).
+ *
+ * @param sandbox - The sandbox instance
+ * @param bucket - The R2 bucket binding
+ * @param staged - The archive, as staged by stageBackupImport
+ * @param rules - The sync rules, compiled with compileSyncRules
+ * @param options - The includeSecrets and encryptionKey it was staged with
+ */
+export async function applyBackupImport(
+  sandbox: Sandbox,
+  bucket: R2Bucket,
+  staged: StagedBackupImport,
+  rules: CompiledSyncRules,
+  options: { includeSecrets?: boolean; encryptionKey?: string } = {}
+): Promise<BackupImportResult> {
+  const { stagePrefix } = staged;
+  const stagedKeys = new Set(staged.files.map((file) => file.key));
+  const result: BackupImportResult = {
+    importedAt: staged.importedAt,
+    files: staged.files.length,
+    bytes: staged.files.reduce((total, file) => total + file.size, 0),
+    removed: 0,
+    skippedSecrets: staged.skippedSecrets,
+  };
+
+  const imported: SyncManifest['files'] = {};
+  let removed: string[];
+  try {
+    result.snapshotId = (await createSnapshot(bucket, new Date(staged.importedAt))).snapshot?.id;
+    removed = (await listBackupKeys(bucket)).filter((key) => !stagedKeys.has(key) && !isSecretKey(key));
+    const touched = [...stagedKeys, ...removed];
+    try {
+      for (const file of staged.files) {
+        const object = await bucket.get(`${stagePrefix}${file.key}`);
+        if (!object) throw new Error(`Staged copy of ${file.key} is missing`);
+        const data = await prepareImportedFile(bucket, file.key, new Uint8Array(await object.arrayBuffer()), options);
+        const written = await bucket.put(file.key, data);
+        imported[file.key] = { size: data.length, etag: written?.etag ?? '', sha256: await sha256Hex(data.buffer) };
+      }
+      await deleteKeys(bucket, removed);
+    } catch (error) {
+      console.error('[Backup] Import failed, rolling back to', result.snapshotId ?? 'an empty backup');
+      await rollBack(bucket, result.snapshotId, touched);
+      throw error;
+    }
+    result.removed = removed.length;
+  } finally {
+    await deleteKeys(bucket, [...stagedKeys].map((key) => `${stagePrefix}${key}`));
+  }
+  // Open conflicts were about the replaced backup
+  await saveConflicts(bucket, await listConflicts(bucket), []);
+
+  try {
+    result.container = await restoreFiles(sandbox, bucket, SYNC_PREFIXES, rules);
+    // The files the archive doesn't have go too, or the next sync would upload them again
+    const deleted = await deleteContainerFiles(sandbox, removed, rules);
+    // Files now the same on both sides; the others keep their old base, so the next sync pulls them
+    const manifest = await readJsonObject<SyncManifest>(bucket, SYNC_MANIFEST_KEY);
+    if (manifest) {
+      for (const key of result.container.restored) {
+        if (imported[key]) manifest.files[key] = imported[key];
+      }
+      for (const key of deleted) delete manifest.files[key];
+      await writeJsonObject(bucket, SYNC_MANIFEST_KEY, manifest);
+    }
+  } catch (error) {
+    result.containerError = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Backup] Imported backup could not be copied into the container:', result.containerError);
+  }
+
+  console.log('[Backup] Imported', result.files, 'files, removed', result.removed);
+  return result;
+}
@@ -0,0 +1,57 @@
+/**
+ * Helpers for the R2 bucket binding
+ */
+
+/** Page size used when walking a prefix */
+const LIST_PAGE_SIZE = 1000;
+
+/**
+ * List every object under a prefix, following list cursors
+ *
+ * @param bucket - The R2 bucket binding
+ * @param prefix - Key prefix to list
+ */
+export async function listAllObjects(bucket: R2Bucket, prefix: string): Promise<R2Object[]> {
+  const objects: R2Object[] = [];
+  let cursor: string | undefined;
+  do {
+    const list = await bucket.list({ prefix, cursor, limit: LIST_PAGE_SIZE });
+    objects.push(...list.objects);
+    cursor = list.truncated ? list.cursor : undefined;
+  } while (cursor);
+  return objects;
+}
+
+/**
+ * Read a JSON object, returning undefined when it is missing or unreadable
+ */
+export async function readJsonObject<T>(bucket: R2Bucket, key: string): Promise<T | undefined> {
+  try {
+    const object = await bucket.get(key);
+    if (!object) return undefined;
+    return JSON.parse(await object.text()) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function writeJsonObject(bucket: R2Bucket, key: string, value: unknown): Promise<void> {
+  await bucket.put(key, JSON.stringify(value, null, 2), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+}
+
+/** Hex SHA-256 of some bytes */
+export async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function toBase64(data: ArrayBuffer): string {
+  const bytes = new Uint8Array(data);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
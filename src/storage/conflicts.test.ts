@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  CONFLICTS_INDEX_KEY,
+  conflictCopyKey,
+  listConflicts,
+  readConflictVersions,
+  resolveConflict,
+  saveConflicts,
+  storeConflict,
+  type SyncConflict,
+} from './conflicts';
+import { SYNC_MANIFEST_KEY } from './manifest';
+import { createMockBucket, createMockSandbox, suppressConsole } from '../test-utils';
+
+const KEY = 'workspace-core/MEMORY.md';
+const encode = (text: string) => new TextEncoder().encode(text);
+
+async function setup() {
+  const { bucket, objects } = createMockBucket({ [KEY]: '# From R2' });
+  const files = { [KEY]: { size: 8, etag: 'old', sha256: 'base' } };
+  objects.set(SYNC_MANIFEST_KEY, JSON.stringify({ version: 1, syncedAt: '2026-01-01T00:00:00.000Z', files }));
+  const conflict = await storeConflict(bucket, KEY, 'base', encode('# From the agent'), {
+    data: encode('# From R2').buffer,
+    etag: (await bucket.head(KEY))!.etag,
+  });
+  await saveConflicts(bucket, [], [conflict]);
+  const mock = createMockSandbox();
+  mock.readFileMock.mockResolvedValue({ content: btoa('# From the agent'), encoding: 'base64' });
+  return { bucket, objects, conflict, ...mock };
+}
+
+describe('conflicts', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('keeps both versions side by side', async () => {
+    const { bucket, conflict } = await setup();
+
+    expect(await listConflicts(bucket)).toEqual([conflict]);
+    expect(conflict).toMatchObject({ key: KEY, baseSha256: 'base', container: { size: 16 }, r2: { size: 9 } });
+    expect(await readConflictVersions(bucket, KEY)).toEqual({ container: '# From the agent', r2: '# From R2' });
+  });
+
+  it('deletes the copies of conflicts that are gone', async () => {
+    const { bucket, objects, conflict } = await setup();
+
+    await saveConflicts(bucket, [conflict], []);
+
+    expect(await listConflicts(bucket)).toEqual([]);
+    expect(objects.has(conflictCopyKey(KEY, 'container'))).toBe(false);
+    expect(objects.has(conflictCopyKey(KEY, 'r2'))).toBe(false);
+  });
+
+  it('does not write an index when there never were conflicts', async () => {
+    const { bucket, objects } = createMockBucket();
+    await saveConflicts(bucket, [], []);
+    expect(objects.has(CONFLICTS_INDEX_KEY)).toBe(false);
+  });
+
+  describe('resolveConflict', () => {
+    const recorded = (objects: Map<string, string>) => JSON.parse(objects.get(SYNC_MANIFEST_KEY)!).files[KEY];
+
+    it('keeps the container version', async () => {
+      const { sandbox, bucket, objects, conflict } = await setup();
+
+      await resolveConflict(sandbox, bucket, conflict, 'container');
+
+      expect(objects.get(KEY)).toBe('# From the agent');
+      expect(recorded(objects)).toMatchObject({ size: 16, etag: (await bucket.head(KEY))!.etag });
+      expect(recorded(objects).sha256).toBe(conflict.container.sha256);
+      expect(await listConflicts(bucket)).toEqual([]);
+    });
+
+    it('keeps the R2 version', async () => {
+      const { sandbox, bucket, objects, conflict, writeFileMock } = await setup();
+
+      await resolveConflict(sandbox, bucket, conflict, 'r2');
+
+      expect(writeFileMock).toHaveBeenCalledWith('/root/clawd/MEMORY.md', btoa('# From R2'), { encoding: 'base64' });
+      expect(objects.get(KEY)).toBe('# From R2');
+      expect(recorded(objects).sha256).toBe(conflict.r2.sha256);
+      expect(objects.has(conflictCopyKey(KEY, 'r2'))).toBe(false);
+    });
+
+    it('writes a merge to both sides', async () => {
+      const { sandbox, bucket, objects, conflict, writeFileMock } = await setup();
+
+      await resolveConflict(sandbox, bucket, conflict, 'merge', '# Merged');
+
+      expect(objects.get(KEY)).toBe('# Merged');
+      expect(writeFileMock).toHaveBeenCalledWith('/root/clawd/MEMORY.md', btoa('# Merged'), { encoding: 'base64' });
+      expect(recorded(objects).size).toBe(8);
+    });
+
+    it('leaves other conflicts open', async () => {
+      const { sandbox, bucket, conflict } = await setup();
+      const other: SyncConflict = { ...conflict, key: 'workspace-core/USER.md' };
+      await saveConflicts(bucket, [conflict], [conflict, other]);
+
+      await resolveConflict(sandbox, bucket, conflict, 'r2');
+
+      expect(await listConflicts(bucket)).toEqual([other]);
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import { R2_META_PREFIX } from '../config';
+import { readJsonObject, sha256Hex, writeJsonObject } from './bucket';
+import { readContainerFile, writeContainerFile } from './container';
+import { SYNC_MANIFEST_KEY, type SyncManifest } from './manifest';
+import { containerPathForKey } from './paths';
+
+/**
+ * Files changed in the container and in R2 since the last sync
+ *
+ * The sync leaves both sides of a conflicting file untouched. It copies the
+ * two versions side by side to conflicts/<key>.container and
+ * conflicts/<key>.r2 and lists the conflict in the index, until an admin
+ * keeps one version or saves a merge.
+ */
+
+/** R2 namespace holding the conflicting versions */
+export const CONFLICT_PREFIX = 'conflicts/';
+
+/** R2 key holding the open conflicts */
+export const CONFLICTS_INDEX_KEY = `${R2_META_PREFIX}sync-conflicts.json`;
+
+export type ConflictSide = 'container' | 'r2';
+
+export type ConflictResolution = ConflictSide | 'merge';
+
+export const CONFLICT_RESOLUTIONS: ConflictResolution[] = ['container', 'r2', 'merge'];
+
+export interface ConflictVersion {
+  size: number;
+  sha256: string;
+}
+
+export interface SyncConflict {
+  key: string;
+  detectedAt: string;
+  /** Hash recorded by the last sync; unset when both sides added the file */
+  baseSha256?: string;
+  container: ConflictVersion;
+  r2: ConflictVersion & { etag: string };
+}
+
+interface ConflictIndex {
+  conflicts: SyncConflict[];
+}
+
+export function isConflictResolution(value: unknown): value is ConflictResolution {
+  return CONFLICT_RESOLUTIONS.includes(value as ConflictResolution);
+}
+
+/** R2 key of the copy of one side of a conflict */
+export function conflictCopyKey(key: string, side: ConflictSide): string {
+  return `${CONFLICT_PREFIX}${key}.${side}`;
+}
+
+/**
+ * Read the open conflicts
+ *
+ * @param bucket - The R2 bucket binding
+ */
+export async function listConflicts(bucket: R2Bucket): Promise<SyncConflict[]> {
+  const index = await readJsonObject<ConflictIndex>(bucket, CONFLICTS_INDEX_KEY);
+  return Array.isArray(index?.conflicts) ? index.conflicts : [];
+}
+
+/**
+ * Copy both versions of a conflicting file next to each other
+ *
+ * @param bucket - The R2 bucket binding
+ * @param key - R2 key of the file
+ * @param baseSha256 - Hash recorded by the last sync, if any
+ * @param container - The container's version
+ * @param r2 - The R2 object's contents and etag
+ * @returns The conflict record
+ */
+export async function storeConflict(
+  bucket: R2Bucket,
+  key: string,
+  baseSha256: string | undefined,
+  container: Uint8Array<ArrayBuffer>,
+  r2: { data: ArrayBuffer; etag: string }
+): Promise<SyncConflict> {
+  await Promise.all([
+    bucket.put(conflictCopyKey(key, 'container'), container),
+    bucket.put(conflictCopyKey(key, 'r2'), r2.data),
+  ]);
+  return {
+    key,
+    detectedAt: new Date().toISOString(),
+    baseSha256,
+    container: { size: container.byteLength, sha256: await sha256Hex(container.buffer) },
+    r2: { size: r2.data.byteLength, sha256: await sha256Hex(r2.data), etag: r2.etag },
+  };
+}
+
+/**
+ * Replace the open conflicts, deleting the copies of conflicts that are gone
+ *
+ * @param bucket - The R2 bucket binding
+ * @param previous - Conflicts open before
+ * @param conflicts - Conflicts open now
+ */
+export async function saveConflicts(
+  bucket: R2Bucket,
+  previous: SyncConflict[],
+  conflicts: SyncConflict[]
+): Promise<void> {
+  if (previous.length === 0 && conflicts.length === 0) return;
+  const open = new Set(conflicts.map((conflict) => conflict.key));
+  const stale = previous.filter((conflict) => !open.has(conflict.key));
+  await writeJsonObject(bucket, CONFLICTS_INDEX_KEY, { conflicts } satisfies ConflictIndex);
+  if (stale.length > 0) {
+    await bucket.delete(
+      stale.flatMap((conflict) => [conflictCopyKey(conflict.key, 'container'), conflictCopyKey(conflict.key, 'r2')])
+    );
+  }
+}
+
+/**
+ * Read both versions of a conflicting file as text, for comparing and merging
+ *
+ * @returns The versions, or undefined when a copy is missing
+ */
+export async function readConflictVersions(
+  bucket: R2Bucket,
+  key: string
+): Promise<{ container: string; r2: string } | undefined> {
+  const [container, r2] = await Promise.all([
+    bucket.get(conflictCopyKey(key, 'container')),
+    bucket.get(conflictCopyKey(key, 'r2')),
+  ]);
+  if (!container || !r2) return undefined;
+  return { container: await container.text(), r2: await r2.text() };
+}
+
+/**
+ * Resolve a conflict by writing the chosen version to both sides
+ *
+ * The chosen version is recorded in the sync manifest as the new base, so the
+ * next sync sees both sides unchanged.
+ *
+ * @param sandbox - The sandbox instance
+ * @param bucket - The R2 bucket binding
+ * @param conflict - The open conflict
+ * @param resolution - Keep the current container file, keep the current R2
+ *   object, or save merged contents to both
+ * @param merged - Contents for a merge
+ */
+export async function resolveConflict(
+  sandbox: Sandbox,
+  bucket: R2Bucket,
+  conflict: SyncConflict,
+  resolution: ConflictResolution,
+  merged?: string
+): Promise<void> {
+  const { key } = conflict;
+  const path = containerPathForKey(key);
+  if (!path) throw new Error(`${key} has no place in the container`);
+
+  let data: Uint8Array<ArrayBuffer>;
+  let etag: string;
+  if (resolution === 'r2') {
+    const object = await bucket.get(key);
+    if (!object) throw new Error(`${key} is no longer in R2`);
+    data = new Uint8Array(await object.arrayBuffer());
+    await writeContainerFile(sandbox, path, data.buffer);
+    etag = object.etag;
+  } else {
+    if (resolution === 'merge') {
+      data = new TextEncoder().encode(merged ?? '');
+      await writeContainerFile(sandbox, path, data.buffer);
+    } else {
+      data = await readContainerFile(sandbox, path);
+    }
+    const object = await bucket.put(key, data);
+    if (!object) throw new Error(`Upload of ${key} was rejected`);
+    etag = object.etag;
+  }
+
+  const manifest = await readJsonObject<SyncManifest>(bucket, SYNC_MANIFEST_KEY);
+  if (manifest) {
+    manifest.files[key] = { size: data.byteLength, etag, sha256: await sha256Hex(data.buffer) };
+    await writeJsonObject(bucket, SYNC_MANIFEST_KEY, manifest);
+  }
+
+  const previous = await listConflicts(bucket);
+  await saveConflicts(bucket, previous, previous.filter((entry) => entry.key !== key));
+  console.log('[Sync] Resolved conflict on', key, 'with', resolution);
+}
@@ -0,0 +1,43 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import { toBase64 } from './bucket';
+
+/**
+ * Moving file contents between the Worker and the container. Contents travel
+ * base64-encoded so binary files survive the trip.
+ */
+
+/**
+ * Write a file into the container, creating its directory first
+ *
+ * @param sandbox - The sandbox instance
+ * @param path - Absolute container path
+ * @param data - File contents
+ * @param createdDirs - Directories already created during this operation
+ */
+export async function writeContainerFile(
+  sandbox: Sandbox,
+  path: string,
+  data: ArrayBuffer,
+  createdDirs: Set<string> = new Set()
+): Promise<void> {
+  const dir = path.slice(0, path.lastIndexOf('/'));
+  if (dir && !createdDirs.has(dir)) {
+    await sandbox.mkdir(dir, { recursive: true });
+    createdDirs.add(dir);
+  }
+  await sandbox.writeFile(path, toBase64(data), { encoding: 'base64' });
+}
+
+/**
+ * Read a file from the container
+ *
+ * @param sandbox - The sandbox instance
+ * @param path - Absolute container path
+ */
+export async function readContainerFile(sandbox: Sandbox, path: string): Promise<Uint8Array<ArrayBuffer>> {
+  const file = await sandbox.readFile(path, { encoding: 'base64' });
+  if (file.encoding === 'utf-8') {
+    return new TextEncoder().encode(file.content);
+  }
+  return Uint8Array.from(atob(file.content), (char) => char.charCodeAt(0));
+}
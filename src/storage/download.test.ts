@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { attachmentDisposition, contentTypeForKey, downloadObject, parseRangeHeader } from './download';
+import { createMockBucket } from '../test-utils';
+
+const key = 'workspace-core/memory/notes.db';
+const body = '0123456789abcdefghij';
+
+describe('parseRangeHeader', () => {
+  it('parses closed, open and suffix ranges', () => {
+    expect(parseRangeHeader('bytes=0-4', 20)).toEqual({ offset: 0, length: 5 });
+    expect(parseRangeHeader('bytes=15-', 20)).toEqual({ offset: 15, length: 5 });
+    expect(parseRangeHeader('bytes=-5', 20)).toEqual({ offset: 15, length: 5 });
+    expect(parseRangeHeader('bytes=10-99', 20)).toEqual({ offset: 10, length: 10 });
+    expect(parseRangeHeader('bytes=-99', 20)).toEqual({ offset: 0, length: 20 });
+  });
+
+  it('ignores what it does not serve', () => {
+    expect(parseRangeHeader(undefined, 20)).toBeNull();
+    expect(parseRangeHeader('bytes=0-1,5-6', 20)).toBeNull();
+    expect(parseRangeHeader('items=0-1', 20)).toBeNull();
+    expect(parseRangeHeader('bytes=5-1', 20)).toBeNull();
+  });
+
+  it('rejects ranges beyond the end', () => {
+    expect(parseRangeHeader('bytes=20-', 20)).toBe('unsatisfiable');
+    expect(parseRangeHeader('bytes=-0', 20)).toBe('unsatisfiable');
+    expect(parseRangeHeader('bytes=0-', 0)).toBe('unsatisfiable');
+  });
+});
+
+describe('download headers', () => {
+  it('guesses the type from the extension', () => {
+    expect(contentTypeForKey(key)).toBe('application/vnd.sqlite3');
+    expect(contentTypeForKey('workspace-core/USER.md')).toBe('text/markdown; charset=utf-8');
+    expect(contentTypeForKey('skills/tool/.env')).toBe('application/octet-stream');
+  });
+
+  it('keeps non-ASCII names in filename*', () => {
+    expect(attachmentDisposition('workspace-core/résumé "v2".pdf')).toBe(
+      `attachment; filename="r_sum_ _v2_.pdf"; filename*=UTF-8''r%C3%A9sum%C3%A9%20%22v2%22.pdf`
+    );
+  });
+});
+
+describe('downloadObject', () => {
+  it('streams the whole object', async () => {
+    const { bucket } = createMockBucket({ [key]: body });
+
+    const response = (await downloadObject(bucket, key, new Headers()))!;
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/vnd.sqlite3');
+    expect(response.headers.get('Content-Length')).toBe('20');
+    expect(response.headers.get('Accept-Ranges')).toBe('bytes');
+    expect(await response.text()).toBe(body);
+  });
+
+  it('serves a byte range', async () => {
+    const { bucket } = createMockBucket({ [key]: body });
+
+    const response = (await downloadObject(bucket, key, new Headers({ Range: 'bytes=10-14' })))!;
+
+    expect(response.status).toBe(206);
+    expect(response.headers.get('Content-Range')).toBe('bytes 10-14/20');
+    expect(response.headers.get('Content-Length')).toBe('5');
+    expect(await response.text()).toBe('abcde');
+  });
+
+  it('answers 416 for a range past the end', async () => {
+    const { bucket } = createMockBucket({ [key]: body });
+
+    const response = (await downloadObject(bucket, key, new Headers({ Range: 'bytes=30-' })))!;
+
+    expect(response.status).toBe(416);
+    expect(response.headers.get('Content-Range')).toBe('bytes */20');
+  });
+
+  it('sends the whole object when If-Range names another version', async () => {
+    const { bucket } = createMockBucket({ [key]: body });
+
+    const response = (await downloadObject(bucket, key, new Headers({ Range: 'bytes=0-4', 'If-Range': '"old"' })))!;
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe(body);
+  });
+
+  it('answers 304 when the client has the current version', async () => {
+    const { bucket } = createMockBucket({ [key]: body });
+    const etag = (await downloadObject(bucket, key, new Headers()))!.headers.get('ETag')!;
+
+    const response = (await downloadObject(bucket, key, new Headers({ 'If-None-Match': etag })))!;
+
+    expect(response.status).toBe(304);
+  });
+
+  it('returns null for a missing object', async () => {
+    const { bucket } = createMockBucket();
+
+    expect(await downloadObject(bucket, key, new Headers())).toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Object downloads
+ *
+ * Streams an R2 object as a file download, whatever its type, with the
+ * headers a browser or `curl -C -` needs to resume it: ETag, Last-Modified,
+ * Accept-Ranges and single byte ranges (RFC 9110). Conditional requests with
+ * If-None-Match and If-Range are answered from the object's ETag.
+ */
+
+/** Content types by extension, for objects uploaded without one */
+const CONTENT_TYPES: Record<string, string> = {
+  md: 'text/markdown; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+  log: 'text/plain; charset=utf-8',
+  json: 'application/json',
+  jsonl: 'application/x-ndjson',
+  yaml: 'application/yaml',
+  yml: 'application/yaml',
+  toml: 'application/toml',
+  js: 'text/javascript; charset=utf-8',
+  mjs: 'text/javascript; charset=utf-8',
+  ts: 'text/plain; charset=utf-8',
+  sh: 'text/x-shellscript; charset=utf-8',
+  py: 'text/x-python; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+  zip: 'application/zip',
+  gz: 'application/gzip',
+  tgz: 'application/gzip',
+  tar: 'application/x-tar',
+  db: 'application/vnd.sqlite3',
+  sqlite: 'application/vnd.sqlite3',
+  sqlite3: 'application/vnd.sqlite3',
+};
+
+/** A satisfiable byte range, as R2 takes it */
+export interface ByteRange {
+  offset: number;
+  length: number;
+}
+
+/**
+ * Guess a content type from the key's extension
+ *
+ * @param key - Object key
+ * @returns The type, or application/octet-stream when unknown
+ */
+export function contentTypeForKey(key: string): string {
+  const name = key.slice(key.lastIndexOf('/') + 1);
+  const dot = name.lastIndexOf('.');
+  const extension = dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+  return CONTENT_TYPES[extension] ?? 'application/octet-stream';
+}
+
+/**
+ * Content-Disposition for saving an object under its own name, with an ASCII
+ * fallback for clients that ignore filename*
+ *
+ * @param key - Object key; the part after the last slash is the file name
+ */
+export function attachmentDisposition(key: string): string {
+  const name = key.slice(key.lastIndexOf('/') + 1) || 'download';
+  const fallback = name.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(name)}`;
+}
+
+/**
+ * Parse a Range header against an object's size
+ *
+ * Only a single byte range is served; anything else (several ranges, other
+ * units, bad syntax) is ignored and the whole object is sent, as RFC 9110
+ * allows.
+ *
+ * @param header - The Range header, if any
+ * @param size - Object size in bytes
+ * @returns The range, null to send the whole object, or 'unsatisfiable'
+ *   when the range lies beyond the end
+ */
+export function parseRangeHeader(header: string | null | undefined, size: number): ByteRange | null | 'unsatisfiable' {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/i);
+  if (!match || (!match[1] && !match[2])) return null;
+  if (!match[1]) {
+    // bytes=-N: the last N bytes
+    const suffix = Number(match[2]);
+    if (suffix === 0 || size === 0) return 'unsatisfiable';
+    const length = Math.min(suffix, size);
+    return { offset: size - length, length };
+  }
+  const start = Number(match[1]);
+  const end = match[2] ? Number(match[2]) : Infinity;
+  if (end < start) return null;
+  if (start >= size) return 'unsatisfiable';
+  return { offset: start, length: Math.min(end, size - 1) - start + 1 };
+}
+
+/** Whether an If-None-Match or If-Range value names the ETag */
+function etagListMatches(header: string, etag: string): boolean {
+  if (header.trim() === '*') return true;
+  return header.split(',').some((value) => value.trim().replace(/^W\//, '').replace(/^"(.*)"$/, '$1') === etag);
+}
+
+/**
+ * Build the download response for an object
+ *
+ * @param bucket - The R2 bucket binding
+ * @param key - Object key
+ * @param request - Request headers, for Range, If-Range and If-None-Match
+ * @returns The response (200, 206, 304 or 416), or null if the object does not exist
+ */
+export async function downloadObject(bucket: R2Bucket, key: string, request: Headers): Promise<Response | null> {
+  const head = await bucket.head(key);
+  if (!head) return null;
+
+  const headers = new Headers({
+    'Content-Type': head.httpMetadata?.contentType || contentTypeForKey(key),
+    'Content-Disposition': attachmentDisposition(key),
+    ETag: `"${head.etag}"`,
+    'Last-Modified': head.uploaded.toUTCString(),
+    'Accept-Ranges': 'bytes',
+    'Cache-Control': 'private, no-cache',
+    'X-Content-Type-Options': 'nosniff',
+  });
+
+  const ifNoneMatch = request.get('If-None-Match');
+  if (ifNoneMatch && etagListMatches(ifNoneMatch, head.etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  // A range only applies to the version the client already has part of
+  const ifRange = request.get('If-Range');
+  const range =
+    ifRange && !etagListMatches(ifRange, head.etag) ? null : parseRangeHeader(request.get('Range'), head.size);
+  if (range === 'unsatisfiable') {
+    headers.set('Content-Range', `bytes */${head.size}`);
+    return new Response(null, { status: 416, headers });
+  }
+
+  const object = await bucket.get(key, range ? { range } : undefined);
+  if (!object) return null;
+  if (!range) {
+    headers.set('Content-Length', String(object.size));
+    return new Response(object.body, { status: 200, headers });
+  }
+  headers.set('Content-Length', String(range.length));
+  headers.set('Content-Range', `bytes ${range.offset}-${range.offset + range.length - 1}/${object.size}`);
+  return new Response(object.body, { status: 206, headers });
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { summarizeFolders } from './folders';
+import { createMockBucket } from '../test-utils';
+
+const files = {
+  'workspace-core/MEMORY.md': '# Memory',
+  'workspace-core/memory/': '',
+  'workspace-core/memory/2026-03-09.md': 'monday',
+  'workspace-core/memory/2026-03-10.md': 'tuesday',
+  'workspace-core/memory/archive/2025.md': 'old',
+  'workspace-core/scripts/run.sh': 'echo hi',
+  'workspace-core/zz-after.md': 'not in a folder',
+};
+
+describe('summarizeFolders', () => {
+  it('adds up each folder, ignoring directory markers', async () => {
+    const { bucket } = createMockBucket(files);
+
+    const summaries = await summarizeFolders(bucket, 'workspace-core/', [
+      'workspace-core/memory/',
+      'workspace-core/scripts/',
+    ]);
+
+    expect(summaries).toMatchObject([
+      { prefix: 'workspace-core/memory/', size: 16, count: 3 },
+      { prefix: 'workspace-core/scripts/', size: 7, count: 1 },
+    ]);
+    expect(summaries[0].lastModified).not.toBeNull();
+  });
+
+  it('leaves out the totals of folders the walk did not finish', async () => {
+    const { bucket } = createMockBucket(files);
+
+    const summaries = await summarizeFolders(
+      bucket,
+      'workspace-core/',
+      ['workspace-core/memory/', 'workspace-core/scripts/'],
+      3
+    );
+
+    expect(summaries.map((summary) => [summary.prefix, summary.count])).toEqual([
+      ['workspace-core/memory/', 3],
+      ['workspace-core/scripts/', null],
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+import { R2_FOLDER_STATS_MAX_OBJECTS } from '../config';
+
+/**
+ * Folder totals for the R2 browser
+ *
+ * A listing with delimiter "/" returns the folders under a prefix but not
+ * what is in them. Their totals come from one walk of the keys from the
+ * first folder to the last; R2 lists keys in order, so each folder's keys
+ * are contiguous and a folder is exact once the walk has gone past it. The
+ * walk stops after a bounded number of objects, and the folders it didn't
+ * finish get no totals.
+ */
+
+export interface FolderSummary {
+  /** Folder prefix, ending in "/" */
+  prefix: string;
+  /** Total bytes below the folder, or null when the walk didn't finish it */
+  size: number | null;
+  /** Objects below the folder, or null when the walk didn't finish it */
+  count: number | null;
+  /** Newest upload below the folder */
+  lastModified: string | null;
+}
+
+/**
+ * Add up the size and object count of each folder
+ *
+ * @param bucket - The R2 bucket binding
+ * @param prefix - The listed prefix
+ * @param folders - Delimited prefixes from one listing page
+ * @param maxObjects - Objects to walk at most
+ */
+export async function summarizeFolders(
+  bucket: R2Bucket,
+  prefix: string,
+  folders: string[],
+  maxObjects: number = R2_FOLDER_STATS_MAX_OBJECTS
+): Promise<FolderSummary[]> {
+  if (folders.length === 0) return [];
+  const sorted = [...folders].sort();
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const totals = new Map(sorted.map((folder) => [folder, { size: 0, count: 0, lastModified: 0 }]));
+
+  // Folder the walk stopped in, when it stopped early
+  let stoppedIn: string | null = null;
+  let walked = 0;
+  let cursor: string | undefined;
+  walk: do {
+    const list = await bucket.list({ prefix, startAfter: cursor ? undefined : first, cursor, limit: 1000 });
+    for (const object of list.objects) {
+      if (object.key > last && !object.key.startsWith(last)) break walk;
+      const folder = sorted.find((candidate) => object.key.startsWith(candidate));
+      if (!folder) continue;
+      if (walked >= maxObjects) {
+        stoppedIn = folder;
+        break walk;
+      }
+      walked++;
+      // Directory markers left by s3fs are not files
+      if (object.key.endsWith('/')) continue;
+      const total = totals.get(folder)!;
+      total.size += object.size;
+      total.count++;
+      total.lastModified = Math.max(total.lastModified, object.uploaded.getTime());
+    }
+    cursor = list.truncated ? list.cursor : undefined;
+  } while (cursor);
+
+  return folders.map((folder) => {
+    const total = totals.get(folder)!;
+    const done = stoppedIn === null || folder < stoppedIn;
+    return {
+      prefix: folder,
+      size: done ? total.size : null,
+      count: done ? total.count : null,
+      lastModified: total.lastModified ? new Date(total.lastModified).toISOString() : null,
+    };
+  });
+}
@@ -0,0 +1,137 @@
+export {
+  SYNC_ROOTS,
+  SYNC_PREFIXES,
+  CRITICAL_WORKSPACE_KEYS,
+  containerPathForKey,
+  findSyncRoot,
+  isExcludedKey,
+  type SyncRoot,
+} from './paths';
+export {
+  DEFAULT_SYNC_RULES,
+  compilePattern,
+  compileSyncRules,
+  exceedsSizeCap,
+  isIgnored,
+  matchesAny,
+  parseRules,
+  toRsyncFilter,
+  type CompiledSyncRules,
+  type SyncRule,
+  type SyncRules,
+} from './rules';
+export {
+  SYNC_RULES_KEY,
+  SYNC_FILTERS_PREFIX,
+  syncFilterKey,
+  readSyncRules,
+  validateSyncRules,
+  writeSyncFilters,
+  ensureSyncFilters,
+  writeSyncRules,
+  SYNC_WATCH_KEY,
+  readSyncWatchSettings,
+  validateSyncWatchSettings,
+  buildSyncWatchConfig,
+  writeSyncWatchSettings,
+  type SyncWatchSettings,
+  type SyncWatchConfig,
+} from './settings';
+export { listAllObjects, readJsonObject, writeJsonObject, sha256Hex } from './bucket';
+export { readContainerFile, writeContainerFile } from './container';
+export {
+  SYNC_MANIFEST_KEY,
+  buildManifestScript,
+  readContainerManifest,
+  readRemoteManifest,
+  planSync,
+  planPull,
+  type ConflictCandidate,
+  type ContainerFile,
+  type RemoteFile,
+  type RemoteManifest,
+  type SyncManifest,
+  type SyncManifestEntry,
+  type SyncPlan,
+} from './manifest';
+export {
+  CONFLICT_PREFIX,
+  CONFLICTS_INDEX_KEY,
+  CONFLICT_RESOLUTIONS,
+  isConflictResolution,
+  conflictCopyKey,
+  listConflicts,
+  storeConflict,
+  saveConflicts,
+  readConflictVersions,
+  resolveConflict,
+  type ConflictSide,
+  type ConflictResolution,
+  type ConflictVersion,
+  type SyncConflict,
+} from './conflicts';
+export {
+  SNAPSHOT_PREFIX,
+  SNAPSHOT_INDEX_KEY,
+  isSnapshotId,
+  formatSnapshotId,
+  listSnapshots,
+  readSnapshotManifest,
+  selectSnapshotsToKeep,
+  createSnapshot,
+  readSnapshotFile,
+  restoreSnapshot,
+  type SnapshotFile,
+  type SnapshotManifest,
+  type SnapshotSummary,
+  type SnapshotResult,
+  type SnapshotRestoreResult,
+} from './snapshots';
+export {
+  RESTORE_BACKUP_SUFFIX,
+  isRestorePath,
+  restoreFiles,
+  type RestoreOptions,
+  type RestoreResult,
+} from './restore';
+export { ArchiveError } from './archive';
+export {
+  BACKUP_ARCHIVE_FORMAT,
+  BACKUP_ARCHIVE_MANIFEST,
+  IMPORT_PREFIX,
+  SECRET_BACKUP_KEYS,
+  BackupArchiveError,
+  exportBackup,
+  stageBackupImport,
+  applyBackupImport,
+  type BackupArchiveFile,
+  type BackupArchiveManifest,
+  type BackupImportResult,
+  type StagedBackupImport,
+} from './backup';
+export {
+  VERIFY_REPORT_KEY,
+  verifyBackup,
+  readVerifyReport,
+  saveVerifyReport,
+  verifyBackupIfDue,
+  type VerifyIssue,
+  type VerifyOptions,
+  type VerifyProblem,
+  type VerifyReport,
+  type VerifyStatus,
+} from './verify';
+export {
+  attachmentDisposition,
+  contentTypeForKey,
+  downloadObject,
+  parseRangeHeader,
+  type ByteRange,
+} from './download';
+export {
+  TransferError,
+  transferObjects,
+  type TransferOptions,
+  type TransferResult,
+} from './transfer';
+export { summarizeFolders, type FolderSummary } from './folders';
@@ -0,0 +1,250 @@
+/// <reference types="node" />
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  SYNC_MANIFEST_KEY,
+  buildManifestScript,
+  planPull,
+  planSync,
+  readRemoteManifest,
+  type ContainerFile,
+  type RemoteFile,
+  type RemoteManifest,
+} from './manifest';
+import { DEFAULT_SYNC_RULES, compileSyncRules } from './rules';
+import { createMockBucket } from '../test-utils';
+
+const file = (key: string, sha256: string, size = 1): ContainerFile => ({ key, path: `/x/${key}`, size, sha256 });
+const remoteOf = (...files: RemoteFile[]): RemoteManifest => ({
+  files: new Map(files.map((entry) => [entry.key, entry])),
+  removed: new Map(),
+});
+/** R2 listing after a sync that recorded hashes */
+const syncedRemoteOf = (...files: RemoteFile[]): RemoteManifest => ({
+  ...remoteOf(...files),
+  syncedAt: '2026-01-01T00:00:00.000Z',
+});
+const base = (sha256: string) => ({ size: 1, etag: 'synced', sha256 });
+const rules = compileSyncRules(DEFAULT_SYNC_RULES);
+
+describe('planSync', () => {
+  it('uploads new and changed files and skips matching ones', () => {
+    const plan = planSync(
+      [file('workspace-core/a.md', 'aaa'), file('workspace-core/b.md', 'bbb'), file('workspace-core/c.md', 'ccc')],
+      remoteOf(
+        { key: 'workspace-core/a.md', size: 1, etag: 'e1', sha256: 'aaa' },
+        { key: 'workspace-core/b.md', size: 1, etag: 'e2', sha256: 'old' }
+      ),
+      rules
+    );
+
+    expect(plan.upload.map((entry) => entry.key)).toEqual(['workspace-core/b.md', 'workspace-core/c.md']);
+    expect(plan.unchanged).toBe(1);
+    expect(plan.delete).toEqual([]);
+  });
+
+  it('uploads files whose R2 hash is unknown', () => {
+    const plan = planSync([file('skills/x.md', 'xxx')], remoteOf({ key: 'skills/x.md', size: 1, etag: 'e' }), rules);
+    expect(plan.upload).toHaveLength(1);
+  });
+
+  it('deletes keys gone from the container but keeps excluded ones', () => {
+    const plan = planSync(
+      [],
+      remoteOf(
+        { key: 'workspace-core/gone.md', size: 1, etag: 'e' },
+        { key: 'workspace-core/.git/HEAD', size: 1, etag: 'e' },
+        { key: 'clawdbot/gateway.log', size: 1, etag: 'e' }
+      ),
+      rules
+    );
+    expect(plan.delete).toEqual(['workspace-core/gone.md']);
+  });
+
+  it('keeps R2 files over the size cap', () => {
+    const capped = compileSyncRules({ rules: '', maxFileBytes: 10 });
+    const plan = planSync([], remoteOf({ key: 'workspace-core/big.bin', size: 11, etag: 'e' }), capped);
+    expect(plan.delete).toEqual([]);
+  });
+
+  describe('against the last sync', () => {
+    it('pulls files that only changed in R2', () => {
+      const plan = planSync(
+        [file('workspace-core/MEMORY.md', 'base')],
+        syncedRemoteOf({ key: 'workspace-core/MEMORY.md', size: 2, etag: 'edited', recorded: base('base') }),
+        rules
+      );
+      expect(plan.pull).toEqual(['workspace-core/MEMORY.md']);
+      expect(plan.upload).toEqual([]);
+    });
+
+    it('reports files changed on both sides as conflict candidates', () => {
+      const remote: RemoteFile = { key: 'workspace-core/MEMORY.md', size: 2, etag: 'edited', recorded: base('base') };
+      const plan = planSync([file('workspace-core/MEMORY.md', 'agent')], syncedRemoteOf(remote), rules);
+      expect(plan.conflicts).toEqual([{ local: file('workspace-core/MEMORY.md', 'agent'), remote }]);
+      expect(plan.upload).toEqual([]);
+      expect(plan.pull).toEqual([]);
+    });
+
+    it('reports files added on both sides as conflict candidates', () => {
+      const plan = planSync(
+        [file('workspace-core/notes.md', 'agent')],
+        syncedRemoteOf({ key: 'workspace-core/notes.md', size: 1, etag: 'new' }),
+        rules
+      );
+      expect(plan.conflicts).toHaveLength(1);
+    });
+
+    it('pulls files added or edited in R2 instead of deleting them', () => {
+      const plan = planSync(
+        [],
+        syncedRemoteOf(
+          { key: 'workspace-core/uploaded.md', size: 1, etag: 'new' },
+          { key: 'workspace-core/edited.md', size: 1, etag: 'edited', recorded: base('base') },
+          { key: 'workspace-core/removed.md', size: 1, etag: 'synced', sha256: 'base', recorded: base('base') }
+        ),
+        rules
+      );
+      expect(plan.pull).toEqual(['workspace-core/uploaded.md', 'workspace-core/edited.md']);
+      expect(plan.delete).toEqual(['workspace-core/removed.md']);
+    });
+
+    it('removes files deleted in R2 from the container unless they changed there', () => {
+      const remote = syncedRemoteOf();
+      remote.removed.set('workspace-core/moved.md', base('base'));
+      remote.removed.set('workspace-core/edited.md', base('base'));
+      const plan = planSync(
+        [file('workspace-core/moved.md', 'base'), file('workspace-core/edited.md', 'agent')],
+        remote,
+        rules
+      );
+      expect(plan.remove).toEqual([file('workspace-core/moved.md', 'base')]);
+      expect(plan.upload).toEqual([file('workspace-core/edited.md', 'agent')]);
+    });
+  });
+});
+
+describe('planPull', () => {
+  it('picks R2 files that are missing or different in the container', () => {
+    const keys = planPull(
+      [file('workspace-core/same.md', 'sss'), file('workspace-core/diff.md', 'new')],
+      remoteOf(
+        { key: 'workspace-core/same.md', size: 1, etag: 'e', sha256: 'sss' },
+        { key: 'workspace-core/diff.md', size: 1, etag: 'e', sha256: 'old' },
+        { key: 'workspace-core/missing.md', size: 1, etag: 'e' },
+        { key: 'workspace-core/node_modules/x.js', size: 1, etag: 'e' }
+      ),
+      rules
+    );
+    expect(keys).toEqual(['workspace-core/diff.md', 'workspace-core/missing.md']);
+  });
+});
+
+describe('readRemoteManifest', () => {
+  it('uses recorded hashes only while the etag still matches', async () => {
+    const { bucket, objects } = createMockBucket({
+      'workspace-core/a.md': 'a',
+      'workspace-core/b.md': 'b',
+      'workspace-core/dir/': '',
+      'meta/other.json': '{}',
+    });
+    const etagA = (await bucket.head('workspace-core/a.md'))!.etag;
+    objects.set(
+      SYNC_MANIFEST_KEY,
+      JSON.stringify({
+        version: 1,
+        syncedAt: '2026-01-01T00:00:00.000Z',
+        files: {
+          'workspace-core/a.md': { size: 1, etag: etagA, sha256: 'hash-a' },
+          'workspace-core/b.md': { size: 1, etag: 'stale', sha256: 'hash-b' },
+          'workspace-core/gone.md': { size: 1, etag: 'old', sha256: 'hash-gone' },
+        },
+      })
+    );
+
+    const remote = await readRemoteManifest(bucket);
+
+    expect(remote.syncedAt).toBe('2026-01-01T00:00:00.000Z');
+    expect([...remote.files.keys()]).toEqual(['workspace-core/a.md', 'workspace-core/b.md']);
+    expect(remote.files.get('workspace-core/a.md')?.sha256).toBe('hash-a');
+    expect(remote.files.get('workspace-core/b.md')?.sha256).toBeUndefined();
+    expect(remote.files.get('workspace-core/b.md')?.recorded?.sha256).toBe('hash-b');
+    expect([...remote.removed.keys()]).toEqual(['workspace-core/gone.md']);
+  });
+});
+
+describe('buildManifestScript', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'moltbot-manifest-'));
+    mkdirSync(join(dir, 'config'));
+    mkdirSync(join(dir, 'workspace/memory'), { recursive: true });
+    mkdirSync(join(dir, 'workspace/node_modules/pkg'), { recursive: true });
+    writeFileSync(join(dir, 'config/app.json'), '{}');
+    writeFileSync(join(dir, 'config/app.log'), 'log');
+    writeFileSync(join(dir, 'workspace/MEMORY.md'), '# Memory');
+    writeFileSync(join(dir, 'workspace/memory/today.md'), 'today');
+    writeFileSync(join(dir, 'workspace/node_modules/pkg/index.js'), 'x');
+    mkdirSync(join(dir, 'workspace/.cache'));
+    writeFileSync(join(dir, 'workspace/.cache/blob'), 'cached');
+    writeFileSync(join(dir, 'workspace/.cache/keep.md'), 'keep');
+    writeFileSync(join(dir, 'workspace/big.bin'), 'x'.repeat(100));
+    symlinkSync(join(dir, 'config/app.json'), join(dir, 'workspace/link.json'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const roots = () => [
+    { prefix: 'clawdbot/', path: `${dir}/config/`, exclude: [] },
+    { prefix: 'workspace-core/', path: `${dir}/workspace/`, exclude: ['/node_modules/'] },
+    { prefix: 'skills/', path: `${dir}/missing/`, exclude: [] },
+  ];
+  const listKeys = (script: string) => {
+    const output = execFileSync(process.execPath, ['-e', script], { encoding: 'utf8' });
+    return (JSON.parse(output).files as ContainerFile[]).sort((a, b) => a.key.localeCompare(b.key));
+  };
+
+  it('lists and hashes regular files, applying the exclude patterns and sync rules', () => {
+    const script = buildManifestScript(
+      compileSyncRules({ rules: '*.log\n/workspace-core/.cache/\n', maxFileBytes: 50 }),
+      roots()
+    );
+
+    const files = listKeys(script);
+
+    expect(files.map((entry) => entry.key)).toEqual([
+      'clawdbot/app.json',
+      'workspace-core/MEMORY.md',
+      'workspace-core/memory/today.md',
+    ]);
+    expect(files[1]).toEqual({
+      key: 'workspace-core/MEMORY.md',
+      path: `${dir}/workspace/MEMORY.md`,
+      size: 8,
+      sha256: createHash('sha256').update('# Memory').digest('hex'),
+    });
+  });
+
+  it('re-includes files inside a left-out directory', () => {
+    const script = buildManifestScript(
+      compileSyncRules({ rules: '/workspace-core/.cache/\n!/workspace-core/.cache/keep.md\n', maxFileBytes: null }),
+      roots()
+    );
+
+    expect(listKeys(script).map((entry) => entry.key)).toEqual([
+      'clawdbot/app.json',
+      'clawdbot/app.log',
+      'workspace-core/.cache/keep.md',
+      'workspace-core/big.bin',
+      'workspace-core/MEMORY.md',
+      'workspace-core/memory/today.md',
+    ]);
+  });
+});
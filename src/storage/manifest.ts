@@ -0,0 +1,283 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import { R2_META_PREFIX, SYNC_MANIFEST_TIMEOUT_MS } from '../config';
+import { waitForProcess } from '../gateway/utils';
+import { listAllObjects, readJsonObject } from './bucket';
+import { SYNC_ROOTS, isExcludedKey, type SyncRoot } from './paths';
+import { compilePattern, exceedsSizeCap, type CompiledSyncRules } from './rules';
+
+/**
+ * Manifests for the backup sync
+ *
+ * The container side is listed by one Node process that walks the synced
+ * directories and hashes every file. The R2 side is the object listing,
+ * joined with the hashes recorded by the previous sync. The recorded hash is
+ * the common base of a three-way comparison: a file changed only in the
+ * container is uploaded, one changed only in R2 (e.g. through the admin R2
+ * browser) is pulled into the container, and one changed on both sides is a
+ * conflict that neither side wins (see conflicts.ts).
+ */
+
+/** R2 key holding the hashes recorded by the last sync */
+export const SYNC_MANIFEST_KEY = `${R2_META_PREFIX}sync-manifest.json`;
+
+/** Where the manifest script is written in the container */
+const MANIFEST_SCRIPT_PATH = '/tmp/moltbot-sync-manifest.cjs';
+
+export interface ContainerFile {
+  key: string;
+  /** Absolute container path */
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+export interface RemoteFile {
+  key: string;
+  size: number;
+  etag: string;
+  /** Unknown when the object changed outside the sync */
+  sha256?: string;
+  /** What the last sync recorded for this key, if it synced it */
+  recorded?: SyncManifestEntry;
+}
+
+export interface RemoteManifest {
+  /** Time of the last sync that recorded hashes; unset before the first one */
+  syncedAt?: string;
+  files: Map<string, RemoteFile>;
+  /** What the last sync recorded for keys no longer in R2, e.g. moved in the R2 browser */
+  removed: Map<string, SyncManifestEntry>;
+}
+
+export interface SyncManifestEntry {
+  size: number;
+  etag: string;
+  sha256: string;
+}
+
+/** Stored at SYNC_MANIFEST_KEY */
+export interface SyncManifest {
+  version: 1;
+  syncedAt: string;
+  files: Record<string, SyncManifestEntry>;
+}
+
+/** A file changed in the container and in R2 since the last sync */
+export interface ConflictCandidate {
+  local: ContainerFile;
+  remote: RemoteFile;
+}
+
+export interface SyncPlan {
+  /** Container files that are missing from R2 or changed only in the container */
+  upload: ContainerFile[];
+  /** R2 keys whose file is gone from the container */
+  delete: string[];
+  /** Container files whose R2 object was deleted since the last sync, to delete from the container */
+  remove: ContainerFile[];
+  /** R2 keys changed or added outside the sync, to copy into the container */
+  pull: string[];
+  /**
+   * Files changed on both sides. R2's hash is unknown, so the sync still has
+   * to compare contents: identical edits are not a conflict.
+   */
+  conflicts: ConflictCandidate[];
+  unchanged: number;
+}
+
+/**
+ * Build the Node script that lists the container side. It prints one JSON
+ * object: { files: [{ key, path, size, sha256 }] }. Symlinks and other
+ * non-regular files are skipped, as rsync -r did, and so are files the sync
+ * rules leave out or that exceed their size cap.
+ *
+ * @param rules - The sync rules, compiled with compileSyncRules
+ */
+export function buildManifestScript(rules: CompiledSyncRules, roots: SyncRoot[] = SYNC_ROOTS): string {
+  const config = roots.map((root) => ({
+    prefix: root.prefix,
+    path: root.path,
+    exclude: root.exclude.map((pattern) => compilePattern(pattern).source),
+  }));
+  const ruleSources = rules.rules.map((rule) => ({ source: rule.pattern.source, negate: rule.negate }));
+  return `'use strict';
+const fs = require('fs');
+const crypto = require('crypto');
+const roots = ${JSON.stringify(config)};
+const rules = ${JSON.stringify(ruleSources)}.map((rule) => ({ re: new RegExp(rule.source), negate: rule.negate }));
+const maxFileBytes = ${JSON.stringify(rules.maxFileBytes)};
+// A left-out directory can only be skipped whole when no rule re-includes anything
+const canPrune = !rules.some((rule) => rule.negate);
+const files = [];
+function ignored(key) {
+  let result = false;
+  for (const rule of rules) {
+    if (rule.re.test(key)) result = !rule.negate;
+  }
+  return result;
+}
+function walk(root, exclude, relDir) {
+  let entries;
+  try {
+    entries = fs.readdirSync(root.path + relDir, { withFileTypes: true });
+  } catch (err) {
+    if (relDir === '' && err.code === 'ENOENT') return;
+    throw err;
+  }
+  for (const entry of entries) {
+    const rel = relDir + entry.name;
+    if (entry.isDirectory()) {
+      if (exclude.some((re) => re.test(rel + '/'))) continue;
+      if (canPrune && ignored(root.prefix + rel + '/')) continue;
+      walk(root, exclude, rel + '/');
+    } else if (entry.isFile() && !exclude.some((re) => re.test(rel)) && !ignored(root.prefix + rel)) {
+      if (maxFileBytes !== null && fs.statSync(root.path + rel).size > maxFileBytes) continue;
+      const data = fs.readFileSync(root.path + rel);
+      files.push({
+        key: root.prefix + rel,
+        path: root.path + rel,
+        size: data.length,
+        sha256: crypto.createHash('sha256').update(data).digest('hex'),
+      });
+    }
+  }
+}
+for (const root of roots) {
+  walk(root, root.exclude.map((source) => new RegExp(source)), '');
+}
+process.stdout.write(JSON.stringify({ files }));
+`;
+}
+
+/**
+ * List and hash the synced files in the container with a single process
+ *
+ * @param sandbox - The sandbox instance
+ * @param rules - The sync rules, compiled with compileSyncRules
+ * @throws Error when the script fails or prints something unreadable
+ */
+export async function readContainerManifest(sandbox: Sandbox, rules: CompiledSyncRules): Promise<ContainerFile[]> {
+  await sandbox.writeFile(MANIFEST_SCRIPT_PATH, buildManifestScript(rules));
+  const proc = await sandbox.startProcess(`node ${MANIFEST_SCRIPT_PATH}`);
+  await waitForProcess(proc, SYNC_MANIFEST_TIMEOUT_MS);
+  const logs = await proc.getLogs();
+  try {
+    const parsed = JSON.parse(logs.stdout ?? '') as { files?: ContainerFile[] };
+    if (!Array.isArray(parsed.files)) throw new Error('missing file list');
+    return parsed.files;
+  } catch {
+    throw new Error(`Container manifest failed: ${logs.stderr?.trim() || 'no output'}`);
+  }
+}
+
+/**
+ * List the synced prefixes in R2, with hashes from the last sync's manifest
+ * where the object is still the one the sync wrote
+ *
+ * @param bucket - The R2 bucket binding
+ */
+export async function readRemoteManifest(bucket: R2Bucket): Promise<RemoteManifest> {
+  const [manifest, ...listings] = await Promise.all([
+    readJsonObject<SyncManifest>(bucket, SYNC_MANIFEST_KEY),
+    ...SYNC_ROOTS.map((root) => listAllObjects(bucket, root.prefix)),
+  ]);
+  const recorded = manifest?.files ?? {};
+  const files = new Map<string, RemoteFile>();
+  for (const object of listings.flat()) {
+    // Directory markers left by s3fs
+    if (object.key.endsWith('/')) continue;
+    const entry = recorded[object.key];
+    files.set(object.key, {
+      key: object.key,
+      size: object.size,
+      etag: object.etag,
+      sha256: entry && entry.etag === object.etag ? entry.sha256 : undefined,
+      recorded: entry,
+    });
+  }
+  const removed = new Map<string, SyncManifestEntry>();
+  for (const [key, entry] of Object.entries(recorded)) {
+    if (!files.has(key)) removed.set(key, entry);
+  }
+  return { syncedAt: manifest?.syncedAt, files, removed };
+}
+
+/**
+ * Decide what the sync transfers
+ *
+ * Each file is compared with the hash the last sync recorded for it. Before
+ * the first recorded sync there is no base, and the container wins as it
+ * always did. A key deleted in R2 is deleted from the container too, unless
+ * the container changed the file since. Excluded keys in R2 are left alone,
+ * as rsync --delete does with excluded files, and so are files over the size cap.
+ *
+ * @param local - Files in the container
+ * @param remote - Objects in R2
+ * @param rules - The sync rules, compiled with compileSyncRules
+ */
+export function planSync(local: ContainerFile[], remote: RemoteManifest, rules: CompiledSyncRules): SyncPlan {
+  const plan: SyncPlan = { upload: [], delete: [], remove: [], pull: [], conflicts: [], unchanged: 0 };
+  const hasBase = remote.syncedAt !== undefined;
+  const localKeys = new Set<string>();
+  for (const file of local) {
+    localKeys.add(file.key);
+    const existing = remote.files.get(file.key);
+    if (!existing) {
+      const removed = remote.removed.get(file.key);
+      // Deleted, moved or renamed in R2 since the last sync, and unchanged here
+      if (removed && removed.sha256 === file.sha256 && removed.size === file.size) {
+        plan.remove.push(file);
+      } else {
+        plan.upload.push(file);
+      }
+    } else if (existing.sha256 !== undefined) {
+      // R2 still holds what the last sync wrote
+      if (existing.sha256 === file.sha256 && existing.size === file.size) {
+        plan.unchanged++;
+      } else {
+        plan.upload.push(file);
+      }
+    } else if (existing.recorded) {
+      // Changed in R2 since the last sync
+      if (existing.recorded.sha256 === file.sha256) {
+        plan.pull.push(file.key);
+      } else {
+        plan.conflicts.push({ local: file, remote: existing });
+      }
+    } else if (hasBase) {
+      // Added on both sides since the last sync
+      plan.conflicts.push({ local: file, remote: existing });
+    } else {
+      plan.upload.push(file);
+    }
+  }
+  for (const file of remote.files.values()) {
+    if (localKeys.has(file.key) || isExcludedKey(file.key, rules) || exceedsSizeCap(rules, file.size)) continue;
+    // Removed from the container: delete it from R2 unless R2 has a newer version
+    if (file.sha256 !== undefined || !hasBase) {
+      plan.delete.push(file.key);
+    } else {
+      plan.pull.push(file.key);
+    }
+  }
+  return plan;
+}
+
+/**
+ * Find R2 files to copy into the container when it lost its data
+ *
+ * @param local - Files in the container
+ * @param remote - Objects in R2
+ * @param rules - The sync rules, compiled with compileSyncRules
+ * @returns R2 keys that are missing in the container or differ from it
+ */
+export function planPull(local: ContainerFile[], remote: RemoteManifest, rules: CompiledSyncRules): string[] {
+  const localByKey = new Map(local.map((file) => [file.key, file]));
+  return [...remote.files.values()]
+    .filter((file) => !isExcludedKey(file.key, rules) && !exceedsSizeCap(rules, file.size))
+    .filter((file) => {
+      const existing = localByKey.get(file.key);
+      return !existing || existing.sha256 !== file.sha256;
+    })
+    .map((file) => file.key);
+}
@@ -0,0 +1,63 @@
+/**
+ * Where the synced R2 prefixes live inside the container
+ */
+import { compilePattern, isIgnored, matchesAny, type CompiledSyncRules } from './rules';
+
+export interface SyncRoot {
+  /** R2 key prefix */
+  prefix: string;
+  /** Container directory it mirrors (with trailing slash) */
+  path: string;
+  /**
+   * Paths another root or the sync itself owns, relative to the root (see
+   * rules.ts). Always left out, whatever the sync rules say.
+   */
+  exclude: string[];
+}
+
+/**
+ * Synced directories, most specific container path first:
+ * /root/clawd/skills/ is synced to skills/, not to workspace-core/skills/
+ */
+export const SYNC_ROOTS: SyncRoot[] = [
+  { prefix: 'clawdbot/', path: '/root/.clawdbot/', exclude: ['/.last-sync'] },
+  { prefix: 'skills/', path: '/root/clawd/skills/', exclude: [] },
+  { prefix: 'workspace-core/', path: '/root/clawd/', exclude: ['/skills/'] },
+];
+
+/** R2 prefixes written by the backup sync */
+export const SYNC_PREFIXES = SYNC_ROOTS.map((root) => root.prefix);
+
+/** Workspace files every healthy backup has; their absence in the container means it lost its data */
+export const CRITICAL_WORKSPACE_KEYS = ['workspace-core/USER.md', 'workspace-core/SOUL.md', 'workspace-core/MEMORY.md'];
+
+export function findSyncRoot(key: string, roots: SyncRoot[] = SYNC_ROOTS): SyncRoot | undefined {
+  return roots.find((root) => key.startsWith(root.prefix));
+}
+
+/**
+ * Map an R2 key of the backup to its file in the container
+ *
+ * @param key - R2 key, e.g. "workspace-core/MEMORY.md"
+ * @returns The container path, or undefined if the key is outside the synced prefixes
+ */
+export function containerPathForKey(key: string): string | undefined {
+  const root = findSyncRoot(key);
+  if (!root) return undefined;
+  const relative = key.slice(root.prefix.length);
+  if (!relative || relative.endsWith('/') || relative.split('/').includes('..')) return undefined;
+  return `${root.path}${relative}`;
+}
+
+/**
+ * Check whether a key is left out of the sync by its root or the sync rules.
+ * Excluded keys are neither written nor deleted by the sync.
+ *
+ * @param key - R2 key
+ * @param rules - The sync rules, compiled with compileSyncRules
+ */
+export function isExcludedKey(key: string, rules: CompiledSyncRules, roots: SyncRoot[] = SYNC_ROOTS): boolean {
+  const root = findSyncRoot(key, roots);
+  if (!root) return true;
+  return matchesAny(root.exclude.map(compilePattern), key.slice(root.prefix.length)) || isIgnored(rules, key);
+}
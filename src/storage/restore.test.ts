@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { isRestorePath, restoreFiles } from './restore';
+import { DEFAULT_SYNC_RULES, compileSyncRules } from './rules';
+import { createSnapshot, readSnapshotManifest } from './snapshots';
+import { createMockBucket, createMockSandbox, suppressConsole } from '../test-utils';
+
+const rules = compileSyncRules(DEFAULT_SYNC_RULES);
+
+describe('isRestorePath', () => {
+  it('accepts keys and prefixes in the synced prefixes', () => {
+    expect(isRestorePath('workspace-core/MEMORY.md')).toBe(true);
+    expect(isRestorePath('skills/web/')).toBe(true);
+    expect(isRestorePath('meta/sync-rules.json')).toBe(false);
+    expect(isRestorePath('skills/../meta/x')).toBe(false);
+    expect(isRestorePath('')).toBe(false);
+  });
+});
+
+describe('restoreFiles', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('writes chosen keys and prefixes from the live backup', async () => {
+    const { bucket } = createMockBucket({
+      'workspace-core/MEMORY.md': '# Memory',
+      'workspace-core/USER.md': '# User',
+      'skills/web/SKILL.md': 'skill',
+      'skills/web/lib/run.js': 'run',
+      'skills/other/SKILL.md': 'other',
+    });
+    const { sandbox, writeFileMock } = createMockSandbox();
+
+    const result = await restoreFiles(
+      sandbox,
+      bucket,
+      ['workspace-core/MEMORY.md', 'skills/web/', 'workspace-core/missing.md'],
+      rules
+    );
+
+    expect(result).toEqual({
+      source: 'r2',
+      restored: ['workspace-core/MEMORY.md', 'skills/web/SKILL.md', 'skills/web/lib/run.js'],
+      backups: [],
+      skipped: [],
+      notFound: ['workspace-core/missing.md'],
+      failed: [],
+    });
+    expect(writeFileMock).toHaveBeenCalledWith('/root/clawd/MEMORY.md', btoa('# Memory'), { encoding: 'base64' });
+    expect(writeFileMock).toHaveBeenCalledWith('/root/clawd/skills/web/lib/run.js', btoa('run'), {
+      encoding: 'base64',
+    });
+    expect(writeFileMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('keeps the current container file as a .bak copy', async () => {
+    const { bucket } = createMockBucket({ 'workspace-core/MEMORY.md': '# Memory' });
+    const { sandbox, existsMock, readFileMock, writeFileMock } = createMockSandbox();
+    existsMock.mockResolvedValue({ success: true, exists: true });
+    readFileMock.mockResolvedValue({ content: btoa('# Broken'), encoding: 'base64' });
+
+    const result = await restoreFiles(sandbox, bucket, ['workspace-core/MEMORY.md'], rules, { backup: true });
+
+    expect(result.backups).toEqual(['/root/clawd/MEMORY.md.bak']);
+    expect(writeFileMock.mock.calls.map(([path]) => path)).toEqual([
+      '/root/clawd/MEMORY.md.bak',
+      '/root/clawd/MEMORY.md',
+    ]);
+    expect(writeFileMock).toHaveBeenCalledWith('/root/clawd/MEMORY.md.bak', btoa('# Broken'), { encoding: 'base64' });
+  });
+
+  it('restores the version kept in a snapshot', async () => {
+    const { bucket, objects } = createMockBucket({ 'workspace-core/MEMORY.md': '# Memory' });
+    await createSnapshot(bucket, new Date('2026-03-10T12:00:00.000Z'));
+    objects.set('workspace-core/MEMORY.md', 'corrupted');
+    const snapshot = (await readSnapshotManifest(bucket, '2026-03-10T12-00-00Z'))!;
+    const { sandbox, writeFileMock } = createMockSandbox();
+
+    const result = await restoreFiles(sandbox, bucket, ['workspace-core/'], rules, { snapshot });
+
+    expect(result.source).toBe('2026-03-10T12-00-00Z');
+    expect(result.restored).toEqual(['workspace-core/MEMORY.md']);
+    expect(writeFileMock).toHaveBeenCalledWith('/root/clawd/MEMORY.md', btoa('# Memory'), { encoding: 'base64' });
+  });
+
+  it('skips files the sync rules leave out', async () => {
+    const { bucket } = createMockBucket({
+      'workspace-core/notes.md': 'notes',
+      'workspace-core/node_modules/pkg/index.js': 'x',
+    });
+    const { sandbox } = createMockSandbox();
+
+    const result = await restoreFiles(sandbox, bucket, ['workspace-core/'], rules);
+
+    expect(result.restored).toEqual(['workspace-core/notes.md']);
+    expect(result.skipped).toEqual(['workspace-core/node_modules/pkg/index.js']);
+  });
+});
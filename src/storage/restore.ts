@@ -0,0 +1,165 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import { listAllObjects } from './bucket';
+import { readContainerFile, writeContainerFile } from './container';
+import { containerPathForKey, findSyncRoot, isExcludedKey } from './paths';
+import { exceedsSizeCap, type CompiledSyncRules } from './rules';
+import { readSnapshotFile, type SnapshotManifest } from './snapshots';
+
+/**
+ * Copying chosen files from the backup into the running container
+ *
+ * Each path is an R2 key, or a prefix ending in "/" for everything below it,
+ * e.g. "workspace-core/MEMORY.md" or "skills/web-search/". Files come from
+ * the live backup or from a snapshot. Other container files are left alone.
+ */
+
+/** Suffix of the copy kept of a container file before it is overwritten */
+export const RESTORE_BACKUP_SUFFIX = '.bak';
+
+export interface RestoreOptions {
+  /** Snapshot to restore from; the live backup when unset */
+  snapshot?: SnapshotManifest;
+  /** Keep the container's current version of each file as <file>.bak */
+  backup?: boolean;
+}
+
+export interface RestoreResult {
+  /** "r2", or the id of the snapshot restored from */
+  source: string;
+  /** Keys written into the container */
+  restored: string[];
+  /** Container paths of the .bak copies written */
+  backups: string[];
+  /** Keys that have no place in the container or that the sync rules leave out */
+  skipped: string[];
+  /** Paths that matched nothing in the source */
+  notFound: string[];
+  failed: { key: string; error: string }[];
+}
+
+interface RestoreSource {
+  key: string;
+  size: number;
+  read: () => Promise<ArrayBuffer>;
+}
+
+/**
+ * Check that a path names a key or prefix in the synced prefixes
+ */
+export function isRestorePath(path: string): boolean {
+  if (!path || path.startsWith('/') || path.includes('\\')) return false;
+  if (path.split('/').includes('..')) return false;
+  return findSyncRoot(path) !== undefined;
+}
+
+function matchesPath(key: string, path: string): boolean {
+  return path.endsWith('/') ? key.startsWith(path) : key === path;
+}
+
+/**
+ * Find the files to restore in the live backup
+ */
+async function listBackupSources(bucket: R2Bucket, paths: string[]): Promise<RestoreSource[]> {
+  const sources: RestoreSource[] = [];
+  for (const path of paths) {
+    const objects = path.endsWith('/')
+      ? (await listAllObjects(bucket, path)).filter((object) => !object.key.endsWith('/'))
+      : [await bucket.head(path)].filter((object): object is R2Object => object !== null);
+    for (const object of objects) {
+      sources.push({
+        key: object.key,
+        size: object.size,
+        read: async () => {
+          const body = await bucket.get(object.key);
+          if (!body) throw new Error('Object was deleted');
+          return body.arrayBuffer();
+        },
+      });
+    }
+  }
+  return sources;
+}
+
+/**
+ * Find the files to restore in a snapshot
+ */
+function listSnapshotSources(bucket: R2Bucket, manifest: SnapshotManifest, paths: string[]): RestoreSource[] {
+  return manifest.files
+    .filter((file) => paths.some((path) => matchesPath(file.key, path)))
+    .map((file) => ({ key: file.key, size: file.size, read: () => readSnapshotFile(bucket, file) }));
+}
+
+/**
+ * Copy the current container file to <file>.bak
+ *
+ * @returns The copy's path, or undefined if there was no file to keep
+ */
+async function backupContainerFile(sandbox: Sandbox, path: string): Promise<string | undefined> {
+  const { exists } = await sandbox.exists(path);
+  if (!exists) return undefined;
+  const backupPath = `${path}${RESTORE_BACKUP_SUFFIX}`;
+  await writeContainerFile(sandbox, backupPath, (await readContainerFile(sandbox, path)).buffer);
+  return backupPath;
+}
+
+/**
+ * Write chosen backup files into the container
+ *
+ * Files the sync rules leave out are skipped, as in a snapshot restore. The
+ * next sync treats restored files like any other change in the container.
+ *
+ * @param sandbox - The sandbox instance
+ * @param bucket - The R2 bucket binding
+ * @param paths - R2 keys, or prefixes ending in "/" (checked with isRestorePath)
+ * @param rules - The sync rules, compiled with compileSyncRules
+ * @param options - Where to restore from, and whether to keep .bak copies
+ */
+export async function restoreFiles(
+  sandbox: Sandbox,
+  bucket: R2Bucket,
+  paths: string[],
+  rules: CompiledSyncRules,
+  options: RestoreOptions = {}
+): Promise<RestoreResult> {
+  const sources = options.snapshot
+    ? listSnapshotSources(bucket, options.snapshot, paths)
+    : await listBackupSources(bucket, paths);
+  const result: RestoreResult = {
+    source: options.snapshot?.id ?? 'r2',
+    restored: [],
+    backups: [],
+    skipped: [],
+    notFound: paths.filter((path) => !sources.some((source) => matchesPath(source.key, path))),
+    failed: [],
+  };
+  const createdDirs = new Set<string>();
+  const seen = new Set<string>();
+
+  for (const source of sources) {
+    // Overlapping paths, e.g. a prefix and a key below it
+    if (seen.has(source.key)) continue;
+    seen.add(source.key);
+    const path = containerPathForKey(source.key);
+    if (!path || isExcludedKey(source.key, rules) || exceedsSizeCap(rules, source.size)) {
+      result.skipped.push(source.key);
+      continue;
+    }
+    try {
+      const data = await source.read();
+      if (options.backup) {
+        const backupPath = await backupContainerFile(sandbox, path);
+        if (backupPath) result.backups.push(backupPath);
+      }
+      await writeContainerFile(sandbox, path, data, createdDirs);
+      result.restored.push(source.key);
+    } catch (error) {
+      result.failed.push({ key: source.key, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  console.log(
+    '[Restore] Restored', result.restored.length, 'files from', result.source,
+    `(${result.skipped.length} skipped, ${result.failed.length} failed)`
+  );
+  return result;
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SYNC_RULES,
+  compilePattern,
+  compileSyncRules,
+  exceedsSizeCap,
+  isIgnored,
+  matchesAny,
+  parseRules,
+  toRsyncFilter,
+} from './rules';
+
+const matches = (pattern: string, path: string) => matchesAny([compilePattern(pattern)], path);
+
+describe('compilePattern', () => {
+  it('matches unanchored patterns at any depth', () => {
+    expect(matches('*.log', 'gateway.log')).toBe(true);
+    expect(matches('*.log', 'logs/gateway.log')).toBe(true);
+    expect(matches('*.log', 'gateway.log.md')).toBe(false);
+  });
+
+  it('anchors patterns with a leading or inner slash', () => {
+    expect(matches('/.last-sync', '.last-sync')).toBe(true);
+    expect(matches('/.last-sync', 'sub/.last-sync')).toBe(false);
+    expect(matches('memory/*.tmp', 'memory/a.tmp')).toBe(true);
+    expect(matches('memory/*.tmp', 'x/memory/a.tmp')).toBe(false);
+  });
+
+  it('only matches directories with a trailing slash', () => {
+    expect(matches('/node_modules/', 'node_modules/')).toBe(true);
+    expect(matches('/node_modules/', 'node_modules/pkg/index.js')).toBe(true);
+    expect(matches('/node_modules/', 'node_modules')).toBe(false);
+  });
+
+  it('keeps single stars within a segment and lets double stars cross them', () => {
+    expect(matches('/cache/*.bin', 'cache/a/b.bin')).toBe(false);
+    expect(matches('/cache/**/*.bin', 'cache/a/b.bin')).toBe(true);
+    expect(matches('/cache/**/*.bin', 'cache/b.bin')).toBe(true);
+    expect(matches('?.md', 'a.md')).toBe(true);
+    expect(matches('?.md', 'ab.md')).toBe(false);
+  });
+
+  it('escapes regex characters in literal parts', () => {
+    expect(matches('a+b.txt', 'a+b.txt')).toBe(true);
+    expect(matches('a+b.txt', 'aab.txt')).toBe(false);
+  });
+});
+
+describe('parseRules', () => {
+  it('skips blanks and comments and reads "!" lines', () => {
+    expect(parseRules('# comment\n\n*.log\n  ! /clawdbot/keep.log  \n')).toEqual([
+      { pattern: '*.log', negate: false },
+      { pattern: '/clawdbot/keep.log', negate: true },
+    ]);
+  });
+});
+
+describe('isIgnored', () => {
+  it('applies the default rules to R2 keys', () => {
+    const rules = compileSyncRules(DEFAULT_SYNC_RULES);
+    expect(isIgnored(rules, 'clawdbot/logs/gateway.log')).toBe(true);
+    expect(isIgnored(rules, 'workspace-core/.git/HEAD')).toBe(true);
+    expect(isIgnored(rules, 'workspace-core/notes.log')).toBe(false);
+    expect(isIgnored(rules, 'workspace-core/MEMORY.md')).toBe(false);
+  });
+
+  it('lets the last matching line win', () => {
+    const rules = compileSyncRules({
+      rules: '/workspace-core/.cache/\n!/workspace-core/.cache/keep.md',
+      maxFileBytes: null,
+    });
+    expect(isIgnored(rules, 'workspace-core/.cache/blob')).toBe(true);
+    expect(isIgnored(rules, 'workspace-core/.cache/keep.md')).toBe(false);
+  });
+});
+
+describe('exceedsSizeCap', () => {
+  it('compares against the cap when one is set', () => {
+    expect(exceedsSizeCap(compileSyncRules({ rules: '', maxFileBytes: 10 }), 11)).toBe(true);
+    expect(exceedsSizeCap(compileSyncRules({ rules: '', maxFileBytes: 10 }), 10)).toBe(false);
+    expect(exceedsSizeCap(compileSyncRules({ rules: '', maxFileBytes: null }), 1e12)).toBe(false);
+  });
+});
+
+describe('toRsyncFilter', () => {
+  it('scopes the rules to one root, in reverse order', () => {
+    const rules = {
+      rules: '*.bak\n/workspace-core/.cache/\n!/workspace-core/.cache/keep.md\n/clawdbot/*.log',
+      maxFileBytes: null,
+    };
+
+    expect(toRsyncFilter(rules, 'workspace-core/').split('\n')).toEqual([
+      '+ */',
+      '+ /.cache/keep.md/***',
+      '+ /.cache/keep.md',
+      '- /.cache/***',
+      '- *.bak/***',
+      '- *.bak',
+      '',
+    ]);
+    expect(toRsyncFilter(rules, 'clawdbot/').split('\n')).toEqual([
+      '+ */',
+      '- /*.log/***',
+      '- /*.log',
+      '- *.bak/***',
+      '- *.bak',
+      '',
+    ]);
+  });
+});
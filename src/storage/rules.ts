@@ -0,0 +1,197 @@
+/**
+ * Gitignore-style path patterns for the backup sync
+ *
+ * Supported syntax:
+ * - `*` and `?` match within one path segment, `**` matches across segments
+ * - A leading or inner `/` anchors the pattern to the start of the path;
+ *   otherwise it matches at any depth
+ * - A trailing `/` only matches directories (and so everything below them)
+ * - In a rules file, `#` starts a comment and `!` re-includes what an earlier
+ *   line left out. The last matching line wins.
+ *
+ * Directory paths end with `/`. Unlike git, a pattern that matches a directory
+ * also matches everything below it, so a later `!` line can re-include a file
+ * inside a left-out directory.
+ */
+
+/** Sync rules saved from the admin UI */
+export interface SyncRules {
+  /** Rules file over R2 keys, e.g. "/workspace-core/.cache/" */
+  rules: string;
+  /** Files larger than this are neither backed up nor restored; null for no cap */
+  maxFileBytes: number | null;
+}
+
+/** What the sync leaves out until other rules are saved */
+export const DEFAULT_SYNC_RULES: SyncRules = {
+  rules: [
+    "# OpenClaw's lock files, logs and temp files",
+    '/clawdbot/**/*.lock',
+    '/clawdbot/**/*.log',
+    '/clawdbot/**/*.tmp',
+    '',
+    '# Version control and dependencies in the workspace',
+    '/workspace-core/.git/',
+    '/workspace-core/node_modules/',
+    '',
+  ].join('\n'),
+  maxFileBytes: null,
+};
+
+export interface SyncRule {
+  pattern: string;
+  /** A "!" line: re-include matching paths */
+  negate: boolean;
+}
+
+export interface CompiledSyncRules {
+  rules: { pattern: RegExp; negate: boolean }[];
+  maxFileBytes: number | null;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+}
+
+function globToRegExpSource(glob: string): string {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      const slashAfter = glob[i + 2] === '/';
+      source += slashAfter ? '(?:.*/)?' : '.*';
+      i += slashAfter ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return source;
+}
+
+/**
+ * Compile one pattern to a regular expression over relative paths
+ *
+ * @param pattern - e.g. "*.log", "/node_modules/", "memory/*.tmp"
+ */
+export function compilePattern(pattern: string): RegExp {
+  let body = pattern.trim();
+  const dirOnly = body.endsWith('/');
+  if (dirOnly) body = body.slice(0, -1);
+  const anchored = body.includes('/');
+  if (body.startsWith('/')) body = body.slice(1);
+
+  const prefix = anchored ? '^' : '(?:^|/)';
+  // A directory pattern needs something below it; a file pattern may also name a directory
+  const suffix = dirOnly ? '/' : '(?:$|/)';
+  return new RegExp(`${prefix}${globToRegExpSource(body)}${suffix}`);
+}
+
+/**
+ * Check a relative path against compiled patterns
+ *
+ * @param patterns - Compiled with compilePattern
+ * @param path - Path relative to the synced root; directories end with "/"
+ */
+export function matchesAny(patterns: RegExp[], path: string): boolean {
+  return patterns.some((pattern) => pattern.test(path));
+}
+
+/**
+ * Read the lines of a rules file, skipping blanks and comments
+ */
+export function parseRules(text: string): SyncRule[] {
+  const rules: SyncRule[] = [];
+  for (const raw of text.split('\n')) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    const negate = line.startsWith('!');
+    const pattern = negate ? line.slice(1).trim() : line;
+    if (pattern) rules.push({ pattern, negate });
+  }
+  return rules;
+}
+
+export function compileSyncRules(rules: SyncRules): CompiledSyncRules {
+  return {
+    rules: parseRules(rules.rules).map(({ pattern, negate }) => ({ pattern: compilePattern(pattern), negate })),
+    maxFileBytes: rules.maxFileBytes,
+  };
+}
+
+/**
+ * Check a path against a rules file; the last matching line wins
+ *
+ * @param rules - Compiled with compileSyncRules
+ * @param path - R2 key; directories end with "/"
+ */
+export function isIgnored(rules: CompiledSyncRules, path: string): boolean {
+  let ignored = false;
+  for (const rule of rules.rules) {
+    if (rule.pattern.test(path)) ignored = !rule.negate;
+  }
+  return ignored;
+}
+
+export function exceedsSizeCap(rules: CompiledSyncRules, size: number): boolean {
+  return rules.maxFileBytes !== null && size > rules.maxFileBytes;
+}
+
+/**
+ * Scope one pattern over R2 keys to a synced root, as rsync patterns over
+ * paths inside the root
+ *
+ * @returns The patterns, or an empty list when the pattern is about another root
+ */
+function scopeToRoot(pattern: string, root: string): string[] {
+  let body = pattern;
+  const dirOnly = body.endsWith('/');
+  if (dirOnly) body = body.slice(0, -1);
+  // "dir/***" matches a directory and everything below it
+  const expand = (path: string) => (dirOnly ? [`${path}/***`] : [path, `${path}/***`]);
+
+  // A path inside the root, anchored to it
+  const inRoot = (path: string) => {
+    if (!path.startsWith('**/')) return expand(`/${path}`);
+    const tail = path.slice(3);
+    // "**/name" is "name" at any depth; otherwise cover no leading directories too
+    return tail.includes('/') ? [...expand(`/${tail}`), ...expand(`/${path}`)] : expand(tail);
+  };
+
+  if (!body.includes('/')) return expand(body);
+  if (body.startsWith('/')) body = body.slice(1);
+  const slash = body.indexOf('/');
+  const first = slash === -1 ? body : body.slice(0, slash);
+  const rest = slash === -1 ? '' : body.slice(slash + 1);
+
+  if (first === '**') return inRoot(body);
+  if (!new RegExp(`^${globToRegExpSource(first)}$`).test(root)) return [];
+  // The whole root
+  if (!rest) return ['**'];
+  return inRoot(rest);
+}
+
+/**
+ * Translate the rules for one synced root into an rsync filter file, so the
+ * startup restore in start-moltbot.sh copies the same files the sync backs up
+ *
+ * rsync stops at the first matching rule, so the lines are written in reverse.
+ * Every directory is traversed so "!" lines can reach into left-out
+ * directories; run rsync with --prune-empty-dirs.
+ *
+ * @param rules - The saved sync rules
+ * @param prefix - R2 prefix of the root, e.g. "workspace-core/"
+ */
+export function toRsyncFilter(rules: SyncRules, prefix: string): string {
+  const root = prefix.slice(0, -1);
+  const lines: string[] = [];
+  for (const { pattern, negate } of parseRules(rules.rules)) {
+    for (const scoped of scopeToRoot(pattern, root)) {
+      lines.push(`${negate ? '+' : '-'} ${scoped}`);
+    }
+  }
+  return ['+ */', ...lines.reverse(), ''].join('\n');
+}
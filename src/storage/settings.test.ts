@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SYNC_RULES_KEY,
+  ensureSyncFilters,
+  readSyncRules,
+  readSyncWatchSettings,
+  validateSyncRules,
+  validateSyncWatchSettings,
+  writeSyncRules,
+  writeSyncWatchSettings,
+} from './settings';
+import { DEFAULT_SYNC_RULES } from './rules';
+import { createMockBucket } from '../test-utils';
+
+describe('validateSyncRules', () => {
+  it('accepts rules with or without a size cap', () => {
+    expect(validateSyncRules({ rules: '*.log\n!keep.log', maxFileBytes: 1024 })).toEqual([]);
+    expect(validateSyncRules({ rules: '', maxFileBytes: null })).toEqual([]);
+  });
+
+  it('reports bad fields and lines', () => {
+    expect(validateSyncRules({ rules: 'a\n!\n../x', maxFileBytes: -1 })).toEqual([
+      'Line 2: "!" needs a pattern',
+      'Line 3: ".." is not allowed',
+      'maxFileBytes must be a positive whole number of bytes, or null',
+    ]);
+    expect(validateSyncRules({ maxFileBytes: 1 })).toEqual(['rules must be a string']);
+  });
+});
+
+describe('sync rules storage', () => {
+  it('reads the defaults until rules are saved', async () => {
+    const { bucket } = createMockBucket();
+    expect(await readSyncRules(bucket)).toEqual(DEFAULT_SYNC_RULES);
+  });
+
+  it('saves the rules with an rsync filter file per root', async () => {
+    const { bucket, objects } = createMockBucket();
+
+    await writeSyncRules(bucket, { rules: '/skills/drafts/', maxFileBytes: 2048 });
+
+    expect(await readSyncRules(bucket)).toEqual({ rules: '/skills/drafts/', maxFileBytes: 2048 });
+    expect(objects.has(SYNC_RULES_KEY)).toBe(true);
+    expect(objects.get('meta/sync-filters/skills.rules')).toBe('+ */\n- /drafts/***\n');
+    expect(objects.get('meta/sync-filters/workspace-core.rules')).toBe('+ */\n');
+    expect(objects.get('meta/sync-filters/max-size')).toBe('2048\n');
+  });
+
+  it('only writes missing filter files', async () => {
+    const { bucket } = createMockBucket({ 'meta/sync-filters/watch.json': '{}' });
+    await ensureSyncFilters(bucket, DEFAULT_SYNC_RULES);
+    expect(bucket.put).not.toHaveBeenCalled();
+  });
+});
+
+describe('sync watcher settings', () => {
+  it('accepts a whole number of seconds within the limits', () => {
+    expect(validateSyncWatchSettings({ debounceSeconds: 30 })).toEqual([]);
+    expect(validateSyncWatchSettings({ debounceSeconds: 1 })).toEqual([
+      'debounceSeconds must be a whole number from 5 to 600',
+    ]);
+    expect(validateSyncWatchSettings({ debounceSeconds: '30' })).toHaveLength(1);
+  });
+
+  it('saves the settings with the watcher config, keeping the sync rules', async () => {
+    const { bucket, objects } = createMockBucket();
+    expect(await readSyncWatchSettings(bucket)).toEqual({ debounceSeconds: 30 });
+    await writeSyncRules(bucket, { rules: '*.tmp', maxFileBytes: null });
+
+    await writeSyncWatchSettings(bucket, { debounceSeconds: 120 });
+
+    expect(await readSyncWatchSettings(bucket)).toEqual({ debounceSeconds: 120 });
+    const config = JSON.parse(objects.get('meta/sync-filters/watch.json')!);
+    expect(config.debounceSeconds).toBe(120);
+    expect(config.roots.map((root: { prefix: string }) => root.prefix)).toEqual(['clawdbot/', 'skills/', 'workspace-core/']);
+    expect(new RegExp(config.roots[0].exclude[0]).test('.last-sync')).toBe(true);
+    expect(config.rules).toHaveLength(1);
+    expect(new RegExp(config.rules[0].source).test('workspace-core/notes.tmp')).toBe(true);
+  });
+});
@@ -0,0 +1,190 @@
+import {
+  R2_META_PREFIX,
+  SYNC_DEBOUNCE_DEFAULT_SECONDS,
+  SYNC_DEBOUNCE_LIMITS,
+  SYNC_RULES_MAX_LENGTH,
+} from '../config';
+import { readJsonObject, writeJsonObject } from './bucket';
+import { SYNC_ROOTS, type SyncRoot } from './paths';
+import { DEFAULT_SYNC_RULES, compilePattern, compileSyncRules, toRsyncFilter, type SyncRules } from './rules';
+
+/**
+ * Sync settings saved from the admin UI
+ *
+ * The Worker reads the rules from meta/sync-rules.json and the watcher
+ * settings from meta/sync-watch.json. The container can't, so each save also
+ * writes them under meta/sync-filters/, which the container reads from the
+ * R2 mount: rsync filter files for the startup restore, and watch.json for
+ * sync-watcher.js.
+ */
+
+/** Settings of the container's file watcher */
+export interface SyncWatchSettings {
+  /** How long the synced directories must stay unchanged before a sync is asked for */
+  debounceSeconds: number;
+}
+
+/** What sync-watcher.js reads from meta/sync-filters/watch.json */
+export interface SyncWatchConfig extends SyncWatchSettings {
+  roots: { prefix: string; path: string; exclude: string[] }[];
+  /** The sync rules as regular expression sources over R2 keys */
+  rules: { source: string; negate: boolean }[];
+}
+
+/** R2 key holding the saved sync rules */
+export const SYNC_RULES_KEY = `${R2_META_PREFIX}sync-rules.json`;
+
+/** R2 prefix of the files the container reads from the R2 mount */
+export const SYNC_FILTERS_PREFIX = `${R2_META_PREFIX}sync-filters/`;
+
+/** R2 key holding the saved watcher settings */
+export const SYNC_WATCH_KEY = `${R2_META_PREFIX}sync-watch.json`;
+
+/** Filter file holding the size cap (empty for no cap) */
+const MAX_SIZE_FILTER_KEY = `${SYNC_FILTERS_PREFIX}max-size`;
+
+/** The watcher's config; written last, so its presence means all filter files are there */
+const WATCH_FILTER_KEY = `${SYNC_FILTERS_PREFIX}watch.json`;
+
+/** R2 key of the rsync filter file of one synced root, e.g. meta/sync-filters/skills.rules */
+export function syncFilterKey(prefix: string): string {
+  return `${SYNC_FILTERS_PREFIX}${prefix.slice(0, -1)}.rules`;
+}
+
+/**
+ * Read the saved sync rules
+ *
+ * @param bucket - The R2 bucket binding
+ * @returns The saved rules, or the defaults if none were saved
+ */
+export async function readSyncRules(bucket: R2Bucket): Promise<SyncRules> {
+  const saved = await readJsonObject<Partial<SyncRules>>(bucket, SYNC_RULES_KEY);
+  if (!saved || typeof saved.rules !== 'string') return { ...DEFAULT_SYNC_RULES };
+  return { rules: saved.rules, maxFileBytes: saved.maxFileBytes ?? null };
+}
+
+/**
+ * Check sync rules sent by the admin UI
+ *
+ * @returns Error messages; empty when the rules can be saved
+ */
+export function validateSyncRules(value: unknown): string[] {
+  if (!value || typeof value !== 'object') return ['Sync rules must be an object'];
+  const { rules, maxFileBytes } = value as Record<string, unknown>;
+  const errors: string[] = [];
+  if (typeof rules !== 'string') {
+    errors.push('rules must be a string');
+  } else if (rules.length > SYNC_RULES_MAX_LENGTH) {
+    errors.push(`rules must be at most ${SYNC_RULES_MAX_LENGTH} characters`);
+  } else {
+    rules.split('\n').forEach((line, index) => {
+      const pattern = line.trim().replace(/^!\s*/, '');
+      if (line.trim().startsWith('!') && !pattern) errors.push(`Line ${index + 1}: "!" needs a pattern`);
+      if (pattern.split('/').includes('..')) errors.push(`Line ${index + 1}: ".." is not allowed`);
+    });
+  }
+  if (maxFileBytes !== null && maxFileBytes !== undefined) {
+    if (typeof maxFileBytes !== 'number' || !Number.isSafeInteger(maxFileBytes) || maxFileBytes < 1) {
+      errors.push('maxFileBytes must be a positive whole number of bytes, or null');
+    }
+  }
+  return errors;
+}
+
+/**
+ * Read the saved watcher settings
+ *
+ * @param bucket - The R2 bucket binding
+ * @returns The saved settings, or the defaults if none were saved
+ */
+export async function readSyncWatchSettings(bucket: R2Bucket): Promise<SyncWatchSettings> {
+  const saved = await readJsonObject<Partial<SyncWatchSettings>>(bucket, SYNC_WATCH_KEY);
+  return { debounceSeconds: saved?.debounceSeconds ?? SYNC_DEBOUNCE_DEFAULT_SECONDS };
+}
+
+/**
+ * Check watcher settings sent by the admin UI
+ *
+ * @returns Error messages; empty when the settings can be saved
+ */
+export function validateSyncWatchSettings(value: unknown): string[] {
+  if (!value || typeof value !== 'object') return ['Watcher settings must be an object'];
+  const { debounceSeconds } = value as Record<string, unknown>;
+  const { min, max } = SYNC_DEBOUNCE_LIMITS;
+  if (typeof debounceSeconds !== 'number' || !Number.isInteger(debounceSeconds) || debounceSeconds < min
+    || debounceSeconds > max) {
+    return [`debounceSeconds must be a whole number from ${min} to ${max}`];
+  }
+  return [];
+}
+
+/**
+ * Build the config sync-watcher.js reads, so it ignores the changes the
+ * sync would leave out
+ */
+export function buildSyncWatchConfig(
+  rules: SyncRules,
+  watch: SyncWatchSettings,
+  roots: SyncRoot[] = SYNC_ROOTS
+): SyncWatchConfig {
+  return {
+    debounceSeconds: watch.debounceSeconds,
+    roots: roots.map((root) => ({
+      prefix: root.prefix,
+      path: root.path,
+      exclude: root.exclude.map((pattern) => compilePattern(pattern).source),
+    })),
+    rules: compileSyncRules(rules).rules.map((rule) => ({ source: rule.pattern.source, negate: rule.negate })),
+  };
+}
+
+/**
+ * Write the files the container reads from the R2 mount: the rsync filter
+ * files start-moltbot.sh restores with, and the watcher's config
+ *
+ * @param bucket - The R2 bucket binding
+ * @param rules - The sync rules
+ * @param watch - The watcher settings
+ */
+export async function writeSyncFilters(bucket: R2Bucket, rules: SyncRules, watch: SyncWatchSettings): Promise<void> {
+  await Promise.all([
+    ...SYNC_ROOTS.map((root) => bucket.put(syncFilterKey(root.prefix), toRsyncFilter(rules, root.prefix))),
+    bucket.put(MAX_SIZE_FILTER_KEY, rules.maxFileBytes === null ? '' : `${rules.maxFileBytes}\n`),
+  ]);
+  await writeJsonObject(bucket, WATCH_FILTER_KEY, buildSyncWatchConfig(rules, watch));
+}
+
+/**
+ * Write the filter files if they are missing, e.g. before rules were ever
+ * saved, so the startup restore and the watcher apply the defaults too
+ *
+ * @param bucket - The R2 bucket binding
+ * @param rules - The sync rules in effect
+ */
+export async function ensureSyncFilters(bucket: R2Bucket, rules: SyncRules): Promise<void> {
+  if (await bucket.head(WATCH_FILTER_KEY)) return;
+  await writeSyncFilters(bucket, rules, await readSyncWatchSettings(bucket));
+}
+
+/**
+ * Save sync rules checked with validateSyncRules, with their filter files
+ *
+ * @param bucket - The R2 bucket binding
+ * @param rules - The sync rules
+ */
+export async function writeSyncRules(bucket: R2Bucket, rules: SyncRules): Promise<void> {
+  await writeJsonObject(bucket, SYNC_RULES_KEY, rules);
+  await writeSyncFilters(bucket, rules, await readSyncWatchSettings(bucket));
+}
+
+/**
+ * Save watcher settings checked with validateSyncWatchSettings, with the
+ * watcher's config
+ *
+ * @param bucket - The R2 bucket binding
+ * @param watch - The watcher settings
+ */
+export async function writeSyncWatchSettings(bucket: R2Bucket, watch: SyncWatchSettings): Promise<void> {
+  await writeJsonObject(bucket, SYNC_WATCH_KEY, watch);
+  await writeSyncFilters(bucket, await readSyncRules(bucket), watch);
+}
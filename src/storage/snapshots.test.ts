@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  SNAPSHOT_INDEX_KEY,
+  createSnapshot,
+  listSnapshots,
+  readSnapshotManifest,
+  restoreSnapshot,
+  selectSnapshotsToKeep,
+} from './snapshots';
+import { DEFAULT_SYNC_RULES, compileSyncRules } from './rules';
+import { createMockBucket, createMockSandbox, suppressConsole } from '../test-utils';
+
+const at = (iso: string) => new Date(iso);
+const defaultRules = compileSyncRules(DEFAULT_SYNC_RULES);
+
+describe('selectSnapshotsToKeep', () => {
+  const snapshot = (createdAt: string) => ({ id: createdAt, createdAt });
+
+  it('keeps the newest snapshot of each recent hour, day and week', () => {
+    const snapshots = [
+      snapshot('2026-03-10T12:50:00.000Z'),
+      snapshot('2026-03-10T12:10:00.000Z'), // same hour as the newest
+      snapshot('2026-03-10T11:30:00.000Z'),
+      snapshot('2026-03-09T08:00:00.000Z'), // previous day
+      snapshot('2026-03-09T07:00:00.000Z'),
+      snapshot('2026-03-01T09:00:00.000Z'), // previous week (Sunday)
+      snapshot('2026-02-28T09:00:00.000Z'),
+    ];
+
+    const keep = selectSnapshotsToKeep(snapshots, { hourly: 2, daily: 2, weekly: 2 });
+
+    expect([...keep].sort()).toEqual([
+      '2026-03-01T09:00:00.000Z',
+      '2026-03-09T08:00:00.000Z',
+      '2026-03-10T11:30:00.000Z',
+      '2026-03-10T12:50:00.000Z',
+    ]);
+  });
+
+  it('always keeps the newest snapshot', () => {
+    const keep = selectSnapshotsToKeep([snapshot('2026-03-10T12:00:00.000Z')], { hourly: 0, daily: 0, weekly: 0 });
+    expect([...keep]).toEqual(['2026-03-10T12:00:00.000Z']);
+  });
+});
+
+describe('createSnapshot', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('writes a manifest and copies every file into the first snapshot', async () => {
+    const { bucket, objects } = createMockBucket({
+      'workspace-core/MEMORY.md': '# Memory',
+      'clawdbot/clawdbot.json': '{}',
+      'meta/gateway-restarts.json': '{}',
+    });
+
+    const result = await createSnapshot(bucket, at('2026-03-10T12:00:00.000Z'));
+
+    expect(result).toMatchObject({ created: true, pruned: [] });
+    expect(result.snapshot).toMatchObject({ id: '2026-03-10T12-00-00Z', fileCount: 2, totalBytes: 10, changedFiles: 2 });
+    const manifest = await readSnapshotManifest(bucket, '2026-03-10T12-00-00Z');
+    expect(manifest?.files.map((file) => file.key)).toEqual(['clawdbot/clawdbot.json', 'workspace-core/MEMORY.md']);
+    expect(manifest?.files[1].sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(objects.get('snapshots/2026-03-10T12-00-00Z/workspace-core/MEMORY.md')).toBe('# Memory');
+    expect(objects.has('snapshots/2026-03-10T12-00-00Z/meta/gateway-restarts.json')).toBe(false);
+  });
+
+  it('only copies changed files and references unchanged ones', async () => {
+    const { bucket, objects } = createMockBucket({
+      'workspace-core/MEMORY.md': '# Memory',
+      'workspace-core/USER.md': '# User',
+    });
+    await createSnapshot(bucket, at('2026-03-10T12:00:00.000Z'));
+    objects.set('workspace-core/MEMORY.md', 'corrupted');
+    objects.delete('workspace-core/USER.md');
+
+    const result = await createSnapshot(bucket, at('2026-03-10T13:00:00.000Z'));
+
+    expect(result.snapshot).toMatchObject({ changedFiles: 1, removedFiles: 1, fileCount: 1 });
+    expect(objects.get('snapshots/2026-03-10T13-00-00Z/workspace-core/MEMORY.md')).toBe('corrupted');
+    // The earlier version survives in the first snapshot
+    expect(objects.get('snapshots/2026-03-10T12-00-00Z/workspace-core/MEMORY.md')).toBe('# Memory');
+  });
+
+  it('skips the snapshot when nothing changed', async () => {
+    const { bucket } = createMockBucket({ 'workspace-core/MEMORY.md': '# Memory' });
+    await createSnapshot(bucket, at('2026-03-10T12:00:00.000Z'));
+
+    const result = await createSnapshot(bucket, at('2026-03-10T12:10:00.000Z'));
+
+    expect(result).toMatchObject({ created: false, snapshot: { id: '2026-03-10T12-00-00Z' } });
+    expect(await listSnapshots(bucket)).toHaveLength(1);
+  });
+
+  it('prunes old snapshots but keeps copies newer snapshots still use', async () => {
+    const { bucket, objects } = createMockBucket({
+      'workspace-core/MEMORY.md': 'v1',
+      'workspace-core/USER.md': '# User',
+    });
+    // Two snapshots within the same hour: the older one falls out of every retention period
+    await createSnapshot(bucket, at('2026-03-10T12:00:00.000Z'));
+    objects.set('workspace-core/MEMORY.md', 'v2');
+
+    const result = await createSnapshot(bucket, at('2026-03-10T12:30:00.000Z'));
+
+    expect(result.pruned).toEqual(['2026-03-10T12-00-00Z']);
+    expect((await listSnapshots(bucket)).map((snapshot) => snapshot.id)).toEqual(['2026-03-10T12-30-00Z']);
+    expect(objects.has('snapshots/2026-03-10T12-00-00Z/manifest.json')).toBe(false);
+    expect(objects.has('snapshots/2026-03-10T12-00-00Z/workspace-core/MEMORY.md')).toBe(false);
+    // USER.md is unchanged, so the new snapshot still points at the old copy
+    expect(objects.get('snapshots/2026-03-10T12-00-00Z/workspace-core/USER.md')).toBe('# User');
+  });
+
+  it('starts over when the index is unreadable', async () => {
+    const { bucket } = createMockBucket({
+      'workspace-core/MEMORY.md': '# Memory',
+      [SNAPSHOT_INDEX_KEY]: 'not json',
+    });
+
+    const result = await createSnapshot(bucket, at('2026-03-10T12:00:00.000Z'));
+
+    expect(result.created).toBe(true);
+  });
+});
+
+describe('restoreSnapshot', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('writes each file to its container path', async () => {
+    const { bucket, objects } = createMockBucket({
+      'workspace-core/MEMORY.md': '# Memory',
+      'skills/web/SKILL.md': 'skill',
+      'clawdbot/clawdbot.json': '{}',
+    });
+    await createSnapshot(bucket, at('2026-03-10T12:00:00.000Z'));
+    objects.set('workspace-core/MEMORY.md', 'corrupted');
+    const manifest = (await readSnapshotManifest(bucket, '2026-03-10T12-00-00Z'))!;
+    const { sandbox, writeFileMock, mkdirMock } = createMockSandbox();
+
+    const result = await restoreSnapshot(sandbox, bucket, manifest, defaultRules);
+
+    expect(result).toEqual({ snapshotId: '2026-03-10T12-00-00Z', restored: 3, skipped: [], failed: [] });
+    expect(writeFileMock).toHaveBeenCalledWith('/root/clawd/MEMORY.md', btoa('# Memory'), { encoding: 'base64' });
+    expect(writeFileMock).toHaveBeenCalledWith('/root/clawd/skills/web/SKILL.md', btoa('skill'), {
+      encoding: 'base64',
+    });
+    expect(writeFileMock).toHaveBeenCalledWith('/root/.clawdbot/clawdbot.json', btoa('{}'), { encoding: 'base64' });
+    expect(mkdirMock).toHaveBeenCalledWith('/root/clawd/skills/web', { recursive: true });
+  });
+
+  it('reports files whose copy is missing or altered', async () => {
+    const { bucket, objects } = createMockBucket({
+      'workspace-core/MEMORY.md': '# Memory',
+      'workspace-core/USER.md': '# User',
+    });
+    await createSnapshot(bucket, at('2026-03-10T12:00:00.000Z'));
+    objects.delete('snapshots/2026-03-10T12-00-00Z/workspace-core/MEMORY.md');
+    objects.set('snapshots/2026-03-10T12-00-00Z/workspace-core/USER.md', 'tampered');
+    const manifest = (await readSnapshotManifest(bucket, '2026-03-10T12-00-00Z'))!;
+    const { sandbox, writeFileMock } = createMockSandbox();
+
+    const result = await restoreSnapshot(sandbox, bucket, manifest, defaultRules);
+
+    expect(result.restored).toBe(0);
+    expect(result.failed).toEqual([
+      { key: 'workspace-core/MEMORY.md', error: 'Snapshot copy is missing' },
+      { key: 'workspace-core/USER.md', error: 'Checksum mismatch' },
+    ]);
+    expect(writeFileMock).not.toHaveBeenCalled();
+  });
+
+  it('skips files the sync rules leave out', async () => {
+    const { bucket } = createMockBucket({
+      'workspace-core/MEMORY.md': '# Memory',
+      'workspace-core/big.bin': 'x'.repeat(100),
+      'workspace-core/.cache/data': 'cached',
+    });
+    await createSnapshot(bucket, at('2026-03-10T12:00:00.000Z'));
+    const manifest = (await readSnapshotManifest(bucket, '2026-03-10T12-00-00Z'))!;
+    const { sandbox } = createMockSandbox();
+
+    const rules = compileSyncRules({ rules: '/workspace-core/.cache/', maxFileBytes: 50 });
+    const result = await restoreSnapshot(sandbox, bucket, manifest, rules);
+
+    expect(result.restored).toBe(1);
+    expect(result.skipped.sort()).toEqual(['workspace-core/.cache/data', 'workspace-core/big.bin']);
+  });
+});
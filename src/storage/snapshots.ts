@@ -0,0 +1,304 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import { R2_META_PREFIX, SNAPSHOT_RETENTION } from '../config';
+import { listAllObjects, readJsonObject, sha256Hex, writeJsonObject } from './bucket';
+import { writeContainerFile } from './container';
+import { SYNC_PREFIXES, containerPathForKey, isExcludedKey } from './paths';
+import { exceedsSizeCap, type CompiledSyncRules } from './rules';
+
+/**
+ * Point-in-time snapshots of the R2 backup
+ *
+ * After each sync, the synced prefixes are compared with the previous
+ * snapshot's manifest. Objects that are new or changed are copied to
+ * snapshots/<id>/<key>; unchanged ones are referenced in the snapshot where
+ * they were first stored. The manifest (snapshots/<id>/manifest.json) lists
+ * every file of the backup at that time, so any snapshot can be restored on
+ * its own.
+ */
+
+/** R2 namespace holding snapshot manifests and copies */
+export const SNAPSHOT_PREFIX = 'snapshots/';
+
+/** R2 key holding the snapshot list, newest first */
+export const SNAPSHOT_INDEX_KEY = `${R2_META_PREFIX}snapshots.json`;
+
+const SNAPSHOT_ID_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}Z$/;
+
+const DAY_MS = 24 * 60 * 60_000;
+
+/** Objects deleted per R2 delete call */
+const DELETE_BATCH_SIZE = 1000;
+
+export interface SnapshotFile {
+  key: string;
+  size: number;
+  etag: string;
+  sha256: string;
+  /** Snapshot whose namespace holds this version of the file */
+  storedIn: string;
+}
+
+export interface SnapshotManifest {
+  version: 1;
+  id: string;
+  createdAt: string;
+  files: SnapshotFile[];
+}
+
+export interface SnapshotSummary {
+  id: string;
+  createdAt: string;
+  fileCount: number;
+  totalBytes: number;
+  /** Files added or changed since the previous snapshot */
+  changedFiles: number;
+  /** Files removed since the previous snapshot */
+  removedFiles: number;
+}
+
+export interface SnapshotRetention {
+  hourly: number;
+  daily: number;
+  weekly: number;
+}
+
+export interface SnapshotResult {
+  /** False when the backup hasn't changed since the latest snapshot */
+  created: boolean;
+  /** The new snapshot, or the latest one when nothing changed */
+  snapshot?: SnapshotSummary;
+  /** Snapshots removed by the retention policy */
+  pruned: string[];
+}
+
+export interface SnapshotRestoreResult {
+  snapshotId: string;
+  restored: number;
+  /** Keys that have no place in the container or that the sync rules leave out */
+  skipped: string[];
+  failed: { key: string; error: string }[];
+}
+
+interface SnapshotIndex {
+  snapshots: SnapshotSummary[];
+}
+
+export function isSnapshotId(value: string): boolean {
+  return SNAPSHOT_ID_PATTERN.test(value);
+}
+
+/** Snapshot ids are UTC timestamps to the second, usable in R2 keys */
+export function formatSnapshotId(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z').replaceAll(':', '-');
+}
+
+function manifestKey(id: string): string {
+  return `${SNAPSHOT_PREFIX}${id}/manifest.json`;
+}
+
+function snapshotObjectKey(id: string, key: string): string {
+  return `${SNAPSHOT_PREFIX}${id}/${key}`;
+}
+
+/**
+ * List snapshots, newest first
+ *
+ * @param bucket - The R2 bucket binding
+ */
+export async function listSnapshots(bucket: R2Bucket): Promise<SnapshotSummary[]> {
+  const index = await readJsonObject<SnapshotIndex>(bucket, SNAPSHOT_INDEX_KEY);
+  return Array.isArray(index?.snapshots) ? index.snapshots : [];
+}
+
+/**
+ * Read a snapshot's manifest
+ *
+ * @returns The manifest, or undefined if the snapshot doesn't exist
+ */
+export async function readSnapshotManifest(bucket: R2Bucket, id: string): Promise<SnapshotManifest | undefined> {
+  if (!isSnapshotId(id)) return undefined;
+  const manifest = await readJsonObject<SnapshotManifest>(bucket, manifestKey(id));
+  return Array.isArray(manifest?.files) ? manifest : undefined;
+}
+
+/**
+ * Pick the snapshots a retention policy keeps: the newest snapshot, plus the
+ * newest snapshot of each of the last `hourly` hours, `daily` days and
+ * `weekly` weeks (Monday to Sunday, UTC) that have one
+ *
+ * @param snapshots - Snapshots in any order
+ * @param retention - How many hours, days and weeks to keep
+ * @returns Ids of the snapshots to keep
+ */
+export function selectSnapshotsToKeep(
+  snapshots: Pick<SnapshotSummary, 'id' | 'createdAt'>[],
+  retention: SnapshotRetention = SNAPSHOT_RETENTION
+): Set<string> {
+  const newestFirst = [...snapshots].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const keep = new Set<string>();
+  if (newestFirst.length > 0) keep.add(newestFirst[0].id);
+
+  const periods: [number, (date: Date) => string][] = [
+    [retention.hourly, (date) => date.toISOString().slice(0, 13)],
+    [retention.daily, (date) => date.toISOString().slice(0, 10)],
+    // 1970-01-01 was a Thursday; shifting by 3 days starts weeks on Monday
+    [retention.weekly, (date) => String(Math.floor((date.getTime() / DAY_MS + 3) / 7))],
+  ];
+  for (const [count, periodOf] of periods) {
+    const seen = new Set<string>();
+    for (const snapshot of newestFirst) {
+      const period = periodOf(new Date(snapshot.createdAt));
+      if (seen.has(period)) continue;
+      if (seen.size >= count) break;
+      seen.add(period);
+      keep.add(snapshot.id);
+    }
+  }
+  return keep;
+}
+
+/**
+ * Delete pruned snapshots, keeping the objects retained snapshots still reference
+ */
+async function deleteSnapshots(bucket: R2Bucket, retained: SnapshotSummary[], pruned: string[]): Promise<void> {
+  const referenced = new Set<string>();
+  for (const snapshot of retained) {
+    const manifest = await readSnapshotManifest(bucket, snapshot.id);
+    if (!manifest) {
+      // Without the full reference list, deleting anything could break a snapshot
+      console.error('[Snapshots] Manifest missing for', snapshot.id, '- skipping cleanup');
+      return;
+    }
+    for (const file of manifest.files) referenced.add(snapshotObjectKey(file.storedIn, file.key));
+  }
+
+  for (const id of pruned) {
+    const objects = await listAllObjects(bucket, `${SNAPSHOT_PREFIX}${id}/`);
+    const unreferenced = objects.map((object) => object.key).filter((key) => !referenced.has(key));
+    for (let i = 0; i < unreferenced.length; i += DELETE_BATCH_SIZE) {
+      await bucket.delete(unreferenced.slice(i, i + DELETE_BATCH_SIZE));
+    }
+  }
+}
+
+/**
+ * Snapshot the current backup and apply the retention policy
+ *
+ * @param bucket - The R2 bucket binding
+ * @param now - Snapshot time
+ */
+export async function createSnapshot(bucket: R2Bucket, now: Date = new Date()): Promise<SnapshotResult> {
+  const snapshots = await listSnapshots(bucket);
+  const latest = snapshots[0];
+  const previous = latest ? await readSnapshotManifest(bucket, latest.id) : undefined;
+  const previousFiles = new Map((previous?.files ?? []).map((file) => [file.key, file]));
+  const id = formatSnapshotId(now);
+  if (snapshots.some((snapshot) => snapshot.id === id)) {
+    return { created: false, snapshot: latest, pruned: [] };
+  }
+
+  const objects = (await Promise.all(SYNC_PREFIXES.map((prefix) => listAllObjects(bucket, prefix)))).flat();
+  const files: SnapshotFile[] = [];
+  let changedFiles = 0;
+  for (const listed of objects) {
+    // Directory markers left by s3fs
+    if (listed.key.endsWith('/')) continue;
+    const prior = previousFiles.get(listed.key);
+    if (prior && prior.size === listed.size && prior.etag === listed.etag) {
+      files.push(prior);
+      continue;
+    }
+    const object = await bucket.get(listed.key);
+    if (!object) continue;
+    const data = await object.arrayBuffer();
+    await bucket.put(snapshotObjectKey(id, listed.key), data, { httpMetadata: object.httpMetadata });
+    files.push({ key: listed.key, size: object.size, etag: object.etag, sha256: await sha256Hex(data), storedIn: id });
+    changedFiles++;
+  }
+
+  const currentKeys = new Set(files.map((file) => file.key));
+  const removedFiles = [...previousFiles.keys()].filter((key) => !currentKeys.has(key)).length;
+  if (changedFiles === 0 && removedFiles === 0 && (latest || files.length === 0)) {
+    return { created: false, snapshot: latest, pruned: [] };
+  }
+
+  const manifest: SnapshotManifest = { version: 1, id, createdAt: now.toISOString(), files };
+  await writeJsonObject(bucket, manifestKey(id), manifest);
+  const summary: SnapshotSummary = {
+    id,
+    createdAt: manifest.createdAt,
+    fileCount: files.length,
+    totalBytes: files.reduce((total, file) => total + file.size, 0),
+    changedFiles,
+    removedFiles,
+  };
+
+  const all = [summary, ...snapshots];
+  const keep = selectSnapshotsToKeep(all);
+  const retained = all.filter((snapshot) => keep.has(snapshot.id));
+  const pruned = all.filter((snapshot) => !keep.has(snapshot.id)).map((snapshot) => snapshot.id);
+  // Update the index first so an interrupted cleanup only leaves orphaned objects
+  await writeJsonObject(bucket, SNAPSHOT_INDEX_KEY, { snapshots: retained } satisfies SnapshotIndex);
+  if (pruned.length > 0) {
+    await deleteSnapshots(bucket, retained, pruned);
+  }
+
+  console.log('[Snapshots] Created', id, `(${changedFiles} changed, ${removedFiles} removed)`, 'pruned:', pruned.length);
+  return { created: true, snapshot: summary, pruned };
+}
+
+/**
+ * Read a file's version in a snapshot, checked against its hash
+ *
+ * @param bucket - The R2 bucket binding
+ * @param file - The file's entry in the snapshot manifest
+ * @throws Error when the copy is missing or altered
+ */
+export async function readSnapshotFile(bucket: R2Bucket, file: SnapshotFile): Promise<ArrayBuffer> {
+  const object = await bucket.get(snapshotObjectKey(file.storedIn, file.key));
+  if (!object) throw new Error('Snapshot copy is missing');
+  const data = await object.arrayBuffer();
+  if ((await sha256Hex(data)) !== file.sha256) throw new Error('Checksum mismatch');
+  return data;
+}
+
+/**
+ * Write a snapshot's files into the container
+ *
+ * Files are written over the container's copies; files created after the
+ * snapshot are left in place. Each file is checked against its hash first.
+ * Files the current sync rules leave out are skipped, as the sync would
+ * neither back them up nor restore them.
+ *
+ * @param sandbox - The sandbox instance
+ * @param bucket - The R2 bucket binding
+ * @param manifest - The snapshot to restore
+ * @param rules - The sync rules, compiled with compileSyncRules
+ */
+export async function restoreSnapshot(
+  sandbox: Sandbox,
+  bucket: R2Bucket,
+  manifest: SnapshotManifest,
+  rules: CompiledSyncRules
+): Promise<SnapshotRestoreResult> {
+  const result: SnapshotRestoreResult = { snapshotId: manifest.id, restored: 0, skipped: [], failed: [] };
+  const createdDirs = new Set<string>();
+
+  for (const file of manifest.files) {
+    const path = containerPathForKey(file.key);
+    if (!path || isExcludedKey(file.key, rules) || exceedsSizeCap(rules, file.size)) {
+      result.skipped.push(file.key);
+      continue;
+    }
+    try {
+      const data = await readSnapshotFile(bucket, file);
+      await writeContainerFile(sandbox, path, data, createdDirs);
+      result.restored++;
+    } catch (error) {
+      result.failed.push({ key: file.key, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  console.log('[Snapshots] Restored', manifest.id, `(${result.restored} files, ${result.failed.length} failed)`);
+  return result;
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { TransferError, transferObjects } from './transfer';
+import { createMockBucket } from '../test-utils';
+
+describe('transferObjects', () => {
+  it('copies a key, keeping the source', async () => {
+    const { bucket, objects } = createMockBucket({ 'workspace-core/memory/2026-03-10.md': '# Notes' });
+
+    const result = await transferObjects(bucket, 'workspace-core/memory/2026-03-10.md', 'workspace-core/notes.md');
+
+    expect(result.done).toEqual([{ from: 'workspace-core/memory/2026-03-10.md', to: 'workspace-core/notes.md' }]);
+    expect(objects.get('workspace-core/notes.md')).toBe('# Notes');
+    expect(objects.has('workspace-core/memory/2026-03-10.md')).toBe(true);
+  });
+
+  it('moves a key into a prefix under its own name', async () => {
+    const { bucket, objects } = createMockBucket({ 'workspace-core/draft.md': 'draft' });
+
+    await transferObjects(bucket, 'workspace-core/draft.md', 'workspace-core/memory/', { move: true });
+
+    expect([...objects.keys()]).toEqual(['workspace-core/memory/draft.md']);
+  });
+
+  it('moves a prefix, skipping existing and disallowed keys', async () => {
+    const { bucket, objects } = createMockBucket({
+      'skills/old/SKILL.md': 'skill',
+      'skills/old/run.sh': 'echo new',
+      'skills/old/secret.json': '{}',
+      'skills/new/run.sh': 'echo old',
+    });
+
+    const result = await transferObjects(bucket, 'skills/old/', 'skills/new/', {
+      move: true,
+      isAllowed: (key) => !key.endsWith('secret.json'),
+    });
+
+    expect(result).toMatchObject({
+      objects: 3,
+      done: [{ from: 'skills/old/SKILL.md', to: 'skills/new/SKILL.md' }],
+      skipped: [
+        { from: 'skills/old/run.sh', to: 'skills/new/run.sh', reason: 'exists' },
+        { from: 'skills/old/secret.json', to: 'skills/new/secret.json', reason: 'not-allowed' },
+      ],
+      failed: [],
+    });
+    expect(objects.get('skills/new/run.sh')).toBe('echo old');
+    expect(objects.has('skills/old/SKILL.md')).toBe(false);
+    expect(objects.has('skills/old/run.sh')).toBe(true);
+  });
+
+  it('overwrites when asked', async () => {
+    const { bucket, objects } = createMockBucket({ 'skills/a.md': 'new', 'skills/b.md': 'old' });
+
+    await transferObjects(bucket, 'skills/a.md', 'skills/b.md', { overwrite: true });
+
+    expect(objects.get('skills/b.md')).toBe('new');
+  });
+
+  it('reports failed objects and keeps their sources in a move', async () => {
+    const mock = createMockBucket({ 'skills/old/a.md': 'a', 'skills/old/b.md': 'b' });
+    const put = mock.put.getMockImplementation()!;
+    mock.put.mockImplementation(async (key, value) => {
+      if (key === 'skills/new/a.md') throw new Error('R2 unavailable');
+      return put(key, value);
+    });
+
+    const result = await transferObjects(mock.bucket, 'skills/old/', 'skills/new/', { move: true });
+
+    expect(result.failed).toEqual([{ from: 'skills/old/a.md', to: 'skills/new/a.md', error: 'R2 unavailable' }]);
+    expect(result.done).toEqual([{ from: 'skills/old/b.md', to: 'skills/new/b.md' }]);
+    expect(mock.objects.has('skills/old/a.md')).toBe(true);
+    expect(mock.objects.has('skills/old/b.md')).toBe(false);
+  });
+
+  it('finds nothing to transfer for a missing source', async () => {
+    const { bucket } = createMockBucket();
+
+    expect((await transferObjects(bucket, 'skills/missing.md', 'skills/other.md')).objects).toBe(0);
+  });
+
+  it('rejects destinations that do not fit the source', async () => {
+    const { bucket } = createMockBucket();
+
+    await expect(transferObjects(bucket, 'skills/a/', 'skills/a/b/')).rejects.toThrow(TransferError);
+    await expect(transferObjects(bucket, 'skills/a/', 'skills/b.md')).rejects.toThrow(TransferError);
+    await expect(transferObjects(bucket, 'skills/a.md', 'skills/')).rejects.toThrow(TransferError);
+  });
+});
@@ -0,0 +1,132 @@
+import { listAllObjects } from './bucket';
+
+/**
+ * Copying and moving objects within the bucket
+ *
+ * The R2 binding has no server-side copy, so each object is streamed back
+ * under its new key with its HTTP and custom metadata. A move deletes the
+ * sources once all copies are written, so an interrupted move leaves copies
+ * rather than losing files. A path ending in "/" is a prefix and takes
+ * everything below it.
+ */
+
+/** Keys deleted per R2 delete call */
+const DELETE_BATCH_SIZE = 1000;
+
+export interface TransferOptions {
+  /** Delete the sources after copying */
+  move?: boolean;
+  /** Replace objects already at the destination instead of skipping them */
+  overwrite?: boolean;
+  /** Keys that may be read or written; others are skipped */
+  isAllowed?: (key: string) => boolean;
+}
+
+export interface TransferResult {
+  source: string;
+  destination: string;
+  /** Objects found under the source */
+  objects: number;
+  done: { from: string; to: string }[];
+  skipped: { from: string; to: string; reason: 'exists' | 'not-allowed' }[];
+  failed: { from: string; to: string; error: string }[];
+}
+
+/** The source and destination can't be combined */
+export class TransferError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransferError';
+  }
+}
+
+/**
+ * Work out the destination key of each source object
+ *
+ * A prefix goes to a prefix; a single key goes to a key, or into a prefix
+ * under its own name.
+ */
+function planTransfer(source: string, destination: string): (key: string) => string {
+  if (source === destination) {
+    throw new TransferError('Source and destination are the same');
+  }
+  if (source.endsWith('/')) {
+    if (!destination.endsWith('/')) {
+      throw new TransferError('A prefix can only be copied or moved to a prefix ending in "/"');
+    }
+    if (destination.startsWith(source)) {
+      throw new TransferError('Destination is inside the source prefix');
+    }
+    return (key) => destination + key.slice(source.length);
+  }
+  const target = destination.endsWith('/') ? destination + source.slice(source.lastIndexOf('/') + 1) : destination;
+  if (target === source) {
+    throw new TransferError('Source and destination are the same');
+  }
+  return () => target;
+}
+
+/**
+ * Copy or move an object or a prefix
+ *
+ * Objects that fail are reported and the rest carry on; a failed copy keeps
+ * its source even in a move.
+ *
+ * @param bucket - The R2 bucket binding
+ * @param source - Key, or prefix ending in "/"
+ * @param destination - Key or prefix ending in "/"
+ * @param options - Move instead of copy, overwrite, and which keys are allowed
+ * @throws TransferError when the destination doesn't fit the source
+ */
+export async function transferObjects(
+  bucket: R2Bucket,
+  source: string,
+  destination: string,
+  options: TransferOptions = {}
+): Promise<TransferResult> {
+  const targetFor = planTransfer(source, destination);
+  const isAllowed = options.isAllowed ?? (() => true);
+  const keys = source.endsWith('/')
+    ? (await listAllObjects(bucket, source)).map((object) => object.key)
+    : (await bucket.head(source)) ? [source] : [];
+  const result: TransferResult = { source, destination, objects: keys.length, done: [], skipped: [], failed: [] };
+
+  for (const from of keys) {
+    const to = targetFor(from);
+    if (!isAllowed(from) || !isAllowed(to)) {
+      result.skipped.push({ from, to, reason: 'not-allowed' });
+      continue;
+    }
+    try {
+      if (!options.overwrite && (await bucket.head(to))) {
+        result.skipped.push({ from, to, reason: 'exists' });
+        continue;
+      }
+      const object = await bucket.get(from);
+      if (!object) throw new Error('Object was deleted');
+      await bucket.put(to, object.body, {
+        httpMetadata: object.httpMetadata,
+        customMetadata: object.customMetadata,
+      });
+      result.done.push({ from, to });
+    } catch (error) {
+      result.failed.push({ from, to, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  if (options.move) {
+    const copied = result.done;
+    result.done = [];
+    for (let i = 0; i < copied.length; i += DELETE_BATCH_SIZE) {
+      const batch = copied.slice(i, i + DELETE_BATCH_SIZE);
+      try {
+        await bucket.delete(batch.map((entry) => entry.from));
+        result.done.push(...batch);
+      } catch (error) {
+        const reason = `Copied, but the source was not deleted: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        result.failed.push(...batch.map((entry) => ({ ...entry, error: reason })));
+      }
+    }
+  }
+  return result;
+}
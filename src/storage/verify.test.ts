@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { VERIFY_REPORT_KEY, verifyBackup, verifyBackupIfDue } from './verify';
+import { SYNC_MANIFEST_KEY, type SyncManifest } from './manifest';
+import { sha256Hex } from './bucket';
+import { createMockBucket } from '../test-utils';
+
+const healthy: Record<string, string> = {
+  'clawdbot/clawdbot.json': '{"gateway":{}}',
+  'workspace-core/USER.md': '# User',
+  'workspace-core/SOUL.md': '# Soul',
+  'workspace-core/MEMORY.md': '# Memory',
+  'skills/notes/SKILL.md': 'notes',
+};
+
+/** A bucket holding the files and the manifest a sync of them would record */
+async function syncedBucket(files: Record<string, string>) {
+  const mock = createMockBucket(files);
+  const manifest: SyncManifest = { version: 1, syncedAt: '2026-03-10T12:00:00.000Z', files: {} };
+  for (const [key, body] of Object.entries(files)) {
+    const object = (await mock.bucket.head(key))!;
+    const data = new TextEncoder().encode(body);
+    manifest.files[key] = { size: data.byteLength, etag: object.etag, sha256: await sha256Hex(data.buffer) };
+  }
+  mock.objects.set(SYNC_MANIFEST_KEY, JSON.stringify(manifest));
+  return mock;
+}
+
+describe('verifyBackup', () => {
+  it('passes a backup that matches the manifest', async () => {
+    const { bucket } = await syncedBucket(healthy);
+
+    const report = await verifyBackup(bucket, { deep: true });
+
+    expect(report).toMatchObject({ status: 'ok', objects: 5, recorded: 5, hashed: 5, issueCount: 0 });
+  });
+
+  it('reports an empty bucket as not backed up yet', async () => {
+    const { bucket } = createMockBucket();
+
+    expect((await verifyBackup(bucket)).status).toBe('empty');
+  });
+
+  it('fails on a missing, empty or unparsable required file', async () => {
+    const { bucket, objects } = await syncedBucket(healthy);
+    objects.set('clawdbot/clawdbot.json', '{"gateway":');
+    objects.delete('workspace-core/SOUL.md');
+    objects.set('workspace-core/USER.md', '');
+
+    const report = await verifyBackup(bucket);
+
+    expect(report.status).toBe('failed');
+    expect(report.issues).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ key: 'clawdbot/clawdbot.json', problem: 'invalid-json', severity: 'error' }),
+        expect.objectContaining({ key: 'workspace-core/SOUL.md', problem: 'missing', severity: 'error' }),
+        expect.objectContaining({ key: 'workspace-core/USER.md', problem: 'empty', severity: 'error' }),
+      ])
+    );
+  });
+
+  it('flags zero-byte and changed objects against the recorded ETags', async () => {
+    const { bucket, objects } = await syncedBucket(healthy);
+    objects.set('skills/notes/SKILL.md', '');
+    objects.set('workspace-core/MEMORY.md', '# Memory, edited in the R2 browser');
+    objects.set('workspace-core/notes.md', '');
+
+    const report = await verifyBackup(bucket);
+
+    expect(report.status).toBe('failed');
+    expect(report.issues.map((issue) => [issue.key, issue.problem, issue.severity])).toEqual([
+      ['skills/notes/SKILL.md', 'truncated', 'error'],
+      ['workspace-core/MEMORY.md', 'changed', 'warning'],
+      ['workspace-core/notes.md', 'empty', 'warning'],
+    ]);
+  });
+
+  it('finds content that no longer matches the recorded hash in a deep check', async () => {
+    const { bucket, objects } = await syncedBucket(healthy);
+    const manifest = JSON.parse(objects.get(SYNC_MANIFEST_KEY)!) as SyncManifest;
+    manifest.files['skills/notes/SKILL.md'].sha256 = '0'.repeat(64);
+    objects.set(SYNC_MANIFEST_KEY, JSON.stringify(manifest));
+
+    expect((await verifyBackup(bucket)).status).toBe('ok');
+    const deep = await verifyBackup(bucket, { deep: true });
+    expect(deep.issues).toEqual([
+      { key: 'skills/notes/SKILL.md', problem: 'hash-mismatch', severity: 'error' },
+    ]);
+  });
+});
+
+describe('verifyBackupIfDue', () => {
+  it('verifies at most once an hour and saves the report', async () => {
+    const { bucket, objects } = await syncedBucket(healthy);
+    const start = Date.parse('2026-03-10T12:00:00.000Z');
+
+    expect(await verifyBackupIfDue(bucket, () => start)).toMatchObject({ trigger: 'cron', status: 'ok' });
+    expect(JSON.parse(objects.get(VERIFY_REPORT_KEY)!).checkedAt).toBe('2026-03-10T12:00:00.000Z');
+    expect(await verifyBackupIfDue(bucket, () => start + 30 * 60_000)).toBeNull();
+    expect(await verifyBackupIfDue(bucket, () => start + 60 * 60_000)).not.toBeNull();
+  });
+});
@@ -0,0 +1,212 @@
+import { BACKUP_VERIFY_INTERVAL_MS, R2_META_PREFIX } from '../config';
+import { listAllObjects, readJsonObject, sha256Hex, writeJsonObject } from './bucket';
+import { SYNC_MANIFEST_KEY, type SyncManifest } from './manifest';
+import { CRITICAL_WORKSPACE_KEYS, SYNC_PREFIXES } from './paths';
+
+/**
+ * Backup integrity verification
+ *
+ * Checks that what is in R2 could actually be restored: the gateway config
+ * parses, the critical workspace files are there and not empty, and every
+ * object the last sync recorded is still the one it wrote (same ETag) and not
+ * truncated. A deep check also downloads the recorded objects and compares
+ * their SHA-256 with the manifest. Runs hourly from the cron and on demand
+ * from the admin UI; the latest report is kept in R2.
+ */
+
+/** R2 key holding the latest verification report */
+export const VERIFY_REPORT_KEY = `${R2_META_PREFIX}verify-report.json`;
+
+/** The gateway config; a backup without it can't be restored */
+const CONFIG_KEY = 'clawdbot/clawdbot.json';
+
+/** Issues kept in a report; the rest are only counted */
+const VERIFY_ISSUE_LIMIT = 100;
+
+export type VerifyProblem =
+  | 'missing'
+  | 'empty'
+  | 'invalid-json'
+  | 'truncated'
+  | 'changed'
+  | 'hash-mismatch'
+  | 'no-manifest';
+
+export interface VerifyIssue {
+  key: string;
+  problem: VerifyProblem;
+  /** Errors make the backup unsafe to restore; warnings deserve a look */
+  severity: 'error' | 'warning';
+  detail?: string;
+}
+
+/** 'empty' when nothing was ever backed up */
+export type VerifyStatus = 'ok' | 'warning' | 'failed' | 'empty';
+
+export interface VerifyReport {
+  checkedAt: string;
+  durationMs: number;
+  trigger: 'cron' | 'manual';
+  status: VerifyStatus;
+  /** Whether the recorded objects were downloaded and hashed */
+  deep: boolean;
+  /** Objects under the synced prefixes */
+  objects: number;
+  bytes: number;
+  /** Objects the last sync recorded in the manifest */
+  recorded: number;
+  /** Objects downloaded and hashed by a deep check */
+  hashed: number;
+  /** Total issues, including those beyond the kept list */
+  issueCount: number;
+  /** Errors first */
+  issues: VerifyIssue[];
+}
+
+export interface VerifyOptions {
+  trigger?: VerifyReport['trigger'];
+  deep?: boolean;
+  now?: () => number;
+}
+
+/**
+ * Verify the backup in R2
+ *
+ * @param bucket - The R2 bucket binding
+ * @param options - What started the check, and whether to hash the objects
+ * @returns The report; it is not saved (see saveVerifyReport)
+ */
+export async function verifyBackup(bucket: R2Bucket, options: VerifyOptions = {}): Promise<VerifyReport> {
+  const now = options.now ?? Date.now;
+  const startedAt = now();
+  const [manifest, ...listings] = await Promise.all([
+    readJsonObject<SyncManifest>(bucket, SYNC_MANIFEST_KEY),
+    ...SYNC_PREFIXES.map((prefix) => listAllObjects(bucket, prefix)),
+  ]);
+  // Directory markers left by s3fs are not files
+  const objects = new Map(
+    listings.flat().filter((object) => !object.key.endsWith('/')).map((object) => [object.key, object])
+  );
+  const recorded = manifest?.files ?? {};
+  const report: VerifyReport = {
+    checkedAt: new Date(startedAt).toISOString(),
+    durationMs: 0,
+    trigger: options.trigger ?? 'manual',
+    status: 'ok',
+    deep: options.deep ?? false,
+    objects: objects.size,
+    bytes: [...objects.values()].reduce((total, object) => total + object.size, 0),
+    recorded: Object.keys(recorded).length,
+    hashed: 0,
+    issueCount: 0,
+    issues: [],
+  };
+  if (objects.size === 0 && !manifest) {
+    report.status = 'empty';
+    report.durationMs = now() - startedAt;
+    return report;
+  }
+
+  const issues: VerifyIssue[] = [];
+  const required = [CONFIG_KEY, ...CRITICAL_WORKSPACE_KEYS];
+  for (const key of required) {
+    const object = objects.get(key);
+    if (!object) {
+      issues.push({ key, problem: 'missing', severity: 'error' });
+    } else if (object.size === 0) {
+      issues.push({ key, problem: 'empty', severity: 'error' });
+    }
+  }
+  if (objects.get(CONFIG_KEY)?.size) {
+    const config = await readJsonObject<unknown>(bucket, CONFIG_KEY);
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+      issues.push({ key: CONFIG_KEY, problem: 'invalid-json', severity: 'error', detail: 'Not a JSON object' });
+    }
+  }
+
+  if (!manifest) {
+    issues.push({
+      key: SYNC_MANIFEST_KEY,
+      problem: 'no-manifest',
+      severity: 'warning',
+      detail: 'No sync has recorded hashes yet',
+    });
+  }
+  for (const [key, entry] of Object.entries(recorded)) {
+    const object = objects.get(key);
+    if (!object) {
+      if (!required.includes(key)) {
+        issues.push({ key, problem: 'missing', severity: 'error', detail: 'Recorded by the last sync' });
+      }
+    } else if (object.size === 0 && entry.size > 0) {
+      if (!required.includes(key)) {
+        issues.push({ key, problem: 'truncated', severity: 'error', detail: `0 of ${entry.size} bytes` });
+      }
+    } else if (object.etag !== entry.etag) {
+      // Edited outside the sync, e.g. in the R2 browser; the next sync pulls it or flags a conflict
+      issues.push({
+        key,
+        problem: 'changed',
+        severity: 'warning',
+        detail: `ETag differs from the last sync (${entry.size} bytes then, ${object.size} now)`,
+      });
+    } else if (object.size !== entry.size) {
+      issues.push({ key, problem: 'truncated', severity: 'error', detail: `${object.size} of ${entry.size} bytes` });
+    } else if (report.deep) {
+      const body = await bucket.get(key);
+      if (!body) {
+        issues.push({ key, problem: 'missing', severity: 'error' });
+        continue;
+      }
+      report.hashed++;
+      if ((await sha256Hex(await body.arrayBuffer())) !== entry.sha256) {
+        issues.push({ key, problem: 'hash-mismatch', severity: 'error' });
+      }
+    }
+  }
+  for (const object of objects.values()) {
+    if (object.size === 0 && !recorded[object.key] && !required.includes(object.key)) {
+      issues.push({ key: object.key, problem: 'empty', severity: 'warning', detail: 'Not recorded by the last sync' });
+    }
+  }
+
+  issues.sort((a, b) => (a.severity === b.severity ? a.key.localeCompare(b.key) : a.severity === 'error' ? -1 : 1));
+  report.issueCount = issues.length;
+  report.issues = issues.slice(0, VERIFY_ISSUE_LIMIT);
+  report.status = issues.some((issue) => issue.severity === 'error')
+    ? 'failed'
+    : issues.length > 0
+      ? 'warning'
+      : 'ok';
+  report.durationMs = now() - startedAt;
+  return report;
+}
+
+/**
+ * Read the latest verification report
+ *
+ * @param bucket - The R2 bucket binding
+ * @returns The report, or null if the backup was never verified
+ */
+export async function readVerifyReport(bucket: R2Bucket): Promise<VerifyReport | null> {
+  return (await readJsonObject<VerifyReport>(bucket, VERIFY_REPORT_KEY)) ?? null;
+}
+
+export async function saveVerifyReport(bucket: R2Bucket, report: VerifyReport): Promise<void> {
+  await writeJsonObject(bucket, VERIFY_REPORT_KEY, report);
+}
+
+/**
+ * Verify the backup from the cron when the last report is older than
+ * BACKUP_VERIFY_INTERVAL_MS
+ *
+ * @param bucket - The R2 bucket binding
+ * @returns The new report, or null if none was due
+ */
+export async function verifyBackupIfDue(bucket: R2Bucket, now: () => number = Date.now): Promise<VerifyReport | null> {
+  const last = await readVerifyReport(bucket);
+  if (last && now() - Date.parse(last.checkedAt) < BACKUP_VERIFY_INTERVAL_MS) return null;
+  const report = await verifyBackup(bucket, { trigger: 'cron', now });
+  await saveVerifyReport(bucket, report);
+  return report;
+}
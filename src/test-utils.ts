@@ -11,6 +11,7 @@ import type { MoltbotEnv } from './types';
 export function createMockEnv(overrides: Partial<MoltbotEnv> = {}): MoltbotEnv {
   return {
     Sandbox: {} as any,
+    GATEWAY_COORDINATOR: {} as any,
     ASSETS: {} as any,
     MOLTBOT_BUCKET: {} as any,
     ...overrides,
@@ -29,6 +30,84 @@ export function createMockEnvWithR2(overrides: Partial<MoltbotEnv> = {}): Moltbo
   });
 }
 
+/**
+ * Create an in-memory R2 bucket supporting get/put/head/delete/list
+ */
+export function createMockBucket(initial: Record<string, string> = {}) {
+  const objects = new Map<string, string>(Object.entries(initial));
+  // Content-derived so changed objects get a new etag
+  const etagOf = (body: string) => {
+    let hash = 5381;
+    for (let i = 0; i < body.length; i++) hash = ((hash * 33) ^ body.charCodeAt(i)) >>> 0;
+    return `etag-${hash.toString(16)}`;
+  };
+  const toObject = (key: string, body: string) => ({
+    key,
+    size: body.length,
+    etag: etagOf(body),
+    uploaded: new Date(),
+    httpMetadata: {},
+    text: async () => body,
+    json: async () => JSON.parse(body),
+    arrayBuffer: async () => new TextEncoder().encode(body).buffer,
+    get body() {
+      return new Blob([body]).stream();
+    },
+  });
+  const toText = (value: unknown) =>
+    typeof value === 'string' ? value : new TextDecoder().decode(value as ArrayBuffer | Uint8Array);
+  const bucket = {
+    get: vi.fn(async (key: string, options?: { range?: { offset: number; length: number } }) => {
+      const body = objects.get(key);
+      if (body === undefined) return null;
+      const range = options?.range;
+      if (!range) return toObject(key, body);
+      // Size and etag describe the whole object; only the body is cut to the range
+      const slice = body.slice(range.offset, range.offset + range.length);
+      return { ...toObject(key, body), range, body: new Blob([slice]).stream(), text: async () => slice };
+    }),
+    head: vi.fn(async (key: string) => {
+      const body = objects.get(key);
+      return body === undefined ? null : toObject(key, body);
+    }),
+    put: vi.fn(async (key: string, value: unknown) => {
+      const body =
+        value instanceof ReadableStream || value instanceof Blob ? await new Response(value).text() : toText(value);
+      objects.set(key, body);
+      return toObject(key, body);
+    }),
+    delete: vi.fn(async (keys: string | string[]) => {
+      for (const key of Array.isArray(keys) ? keys : [keys]) objects.delete(key);
+    }),
+    list: vi.fn(
+      async (
+        options: { prefix?: string; cursor?: string; limit?: number; delimiter?: string; startAfter?: string } = {}
+      ) => {
+        const prefix = options.prefix ?? '';
+        const entries: { key: string; folder: boolean }[] = [];
+        for (const key of [...objects.keys()].sort()) {
+          if (!key.startsWith(prefix) || (options.startAfter && key <= options.startAfter)) continue;
+          // With a delimiter, keys below the next delimiter roll up into one prefix
+          const cut = options.delimiter ? key.indexOf(options.delimiter, prefix.length) : -1;
+          const folder = cut === -1 ? null : key.slice(0, cut + 1);
+          if (folder === null) entries.push({ key, folder: false });
+          else if (entries[entries.length - 1]?.key !== folder) entries.push({ key: folder, folder: true });
+        }
+        const start = options.cursor ? Number(options.cursor) : 0;
+        const end = start + (options.limit ?? 1000);
+        const page = entries.slice(start, end);
+        return {
+          objects: page.filter((entry) => !entry.folder).map((entry) => toObject(entry.key, objects.get(entry.key)!)),
+          truncated: end < entries.length,
+          cursor: end < entries.length ? String(end) : undefined,
+          delimitedPrefixes: page.filter((entry) => entry.folder).map((entry) => entry.key),
+        };
+      }
+    ),
+  };
+  return { bucket: bucket as unknown as R2Bucket, objects, ...bucket };
+}
+
 /**
  * Create a mock process object
  */
@@ -50,6 +129,12 @@ export interface MockSandbox {
   startProcessMock: ReturnType<typeof vi.fn>;
   listProcessesMock: ReturnType<typeof vi.fn>;
   containerFetchMock: ReturnType<typeof vi.fn>;
+  wsConnectMock: ReturnType<typeof vi.fn>;
+  readFileMock: ReturnType<typeof vi.fn>;
+  existsMock: ReturnType<typeof vi.fn>;
+  writeFileMock: ReturnType<typeof vi.fn>;
+  mkdirMock: ReturnType<typeof vi.fn>;
+  deleteFileMock: ReturnType<typeof vi.fn>;
 }
 
 /**
@@ -62,6 +147,12 @@ export function createMockSandbox(options: {
   const mountBucketMock = vi.fn().mockResolvedValue(undefined);
   const listProcessesMock = vi.fn().mockResolvedValue(options.processes || []);
   const containerFetchMock = vi.fn();
+  const wsConnectMock = vi.fn();
+  const readFileMock = vi.fn();
+  const existsMock = vi.fn().mockResolvedValue({ success: true, exists: false });
+  const writeFileMock = vi.fn().mockResolvedValue({ success: true });
+  const mkdirMock = vi.fn().mockResolvedValue({ success: true });
+  const deleteFileMock = vi.fn().mockResolvedValue({ success: true });
   
   // Default: return empty stdout (not mounted), unless mounted: true
   const startProcessMock = vi.fn().mockResolvedValue(
@@ -75,10 +166,27 @@ export function createMockSandbox(options: {
     listProcesses: listProcessesMock,
     startProcess: startProcessMock,
     containerFetch: containerFetchMock,
-    wsConnect: vi.fn(),
+    wsConnect: wsConnectMock,
+    readFile: readFileMock,
+    exists: existsMock,
+    writeFile: writeFileMock,
+    mkdir: mkdirMock,
+    deleteFile: deleteFileMock,
   } as unknown as Sandbox;
 
-  return { sandbox, mountBucketMock, startProcessMock, listProcessesMock, containerFetchMock };
+  return {
+    sandbox,
+    mountBucketMock,
+    startProcessMock,
+    listProcessesMock,
+    containerFetchMock,
+    wsConnectMock,
+    readFileMock,
+    existsMock,
+    writeFileMock,
+    mkdirMock,
+    deleteFileMock,
+  };
 }
 
 /**
@@ -1,10 +1,12 @@
 import type { Sandbox } from '@cloudflare/sandbox';
+import type { GatewayCoordinator } from './gateway/coordinator';
 
 /**
  * Environment bindings for the Moltbot Worker
  */
 export interface MoltbotEnv {
   Sandbox: DurableObjectNamespace<Sandbox>;
+  GATEWAY_COORDINATOR: DurableObjectNamespace<GatewayCoordinator>; // Owns the gateway lifecycle state machine
   ASSETS: Fetcher; // Assets binding for admin UI static files
   MOLTBOT_BUCKET: R2Bucket; // R2 bucket for persistent storage
   // AI Gateway configuration (preferred)
@@ -17,8 +19,14 @@ export interface MoltbotEnv {
   OPENAI_BASE_URL?: string;
   DEEPSEEK_API_KEY?: string;
   DEEPSEEK_BASE_URL?: string;
+  GEMINI_API_KEY?: string;
+  GEMINI_BASE_URL?: string;
+  OPENROUTER_API_KEY?: string;
+  OPENROUTER_BASE_URL?: string;
   AI_PRIMARY_PROVIDER?: string;
   AI_PRIMARY_MODEL?: string;
+  AI_FALLBACK_MODELS?: string; // Comma-separated "provider/model" refs to fail over to, in order
+  CONFIG_ENCRYPTION_KEY?: string; // Secret used to encrypt the API keys saved from the admin UI
   MOLTBOT_GATEWAY_TOKEN?: string; // Gateway token (mapped to CLAWDBOT_GATEWAY_TOKEN for container)
 
   CLAWDBOT_BIND_MODE?: string;
@@ -26,6 +34,7 @@ export interface MoltbotEnv {
   E2E_TEST_MODE?: string; // Set to 'true' for E2E tests (skips CF Access auth but keeps device pairing)
   DEBUG_ROUTES?: string; // Set to 'true' to enable /debug/* routes
   SANDBOX_SLEEP_AFTER?: string; // How long before sandbox sleeps: 'never' (default), or duration like '10m', '1h'
+  GATEWAY_HEALTH_PROBE_ATTEMPTS?: string; // Retry budget for the gateway health probe after startup (default: 5)
   TELEGRAM_BOT_TOKEN?: string;
   TELEGRAM_DM_POLICY?: string;
   DISCORD_BOT_TOKEN?: string;
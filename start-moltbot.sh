@@ -3,11 +3,37 @@
 # This script:
 # 1. Restores config from R2 backup if available
 # 2. Configures moltbot from environment variables
-# 3. Starts a background sync to backup config to R2
+# 3. Starts the watcher that asks the Worker to sync after changes
 # 4. Starts the gateway
+#
+# Each phase emits machine-readable markers on stdout, one JSON object per line
+# prefixed with "@@moltbot-phase ". The Worker parses them into a StartupReport.
 
 set -e
 
+CURRENT_PHASE=""
+
+# Usage: phase_marker <event> <phase> [extra JSON fields]
+phase_marker() {
+    printf '@@moltbot-phase {"event":"%s","phase":"%s","ts":%s%s}\n' "$1" "$2" "$(date +%s%3N)" "${3:+,$3}"
+}
+
+phase_start() {
+    CURRENT_PHASE="$1"
+    phase_marker start "$1"
+}
+
+phase_end() {
+    phase_marker end "$1" "$2"
+    CURRENT_PHASE=""
+}
+
+on_error() {
+    local exit_code=$?
+    phase_marker error "${CURRENT_PHASE:-unknown}" "\"exitCode\":$exit_code"
+}
+trap on_error ERR
+
 # Check if gateway is already running - bail early if so
 if pgrep -f "openclaw gateway" > /dev/null 2>&1 || pgrep -f "clawdbot gateway" > /dev/null 2>&1; then
     echo "Moltbot gateway is already running, exiting."
@@ -40,6 +66,9 @@ fi
 # The BACKUP_DIR may exist but be empty if R2 was just mounted
 # Note: backup structure is $BACKUP_DIR/clawdbot/ and $BACKUP_DIR/skills/
 
+phase_start restore
+RESTORE_BRANCH="none"
+
 # Helper function to check if R2 backup is newer than local
 should_restore_from_r2() {
     local R2_SYNC_FILE="$BACKUP_DIR/.last-sync"
@@ -77,13 +106,38 @@ should_restore_from_r2() {
     fi
 }
 
+# Copy one synced root out of the backup, leaving out what the sync leaves out.
+# The Worker writes the sync rules as rsync filters to meta/sync-filters/
+# (see src/storage/settings.ts). Usage: restore_root NAME SRC DEST [rsync options]
+restore_root() {
+    local NAME="$1" SRC="$2" DEST="$3"
+    shift 3
+    local FILTER_FILE="$BACKUP_DIR/meta/sync-filters/$NAME.rules"
+    local MAX_SIZE_FILE="$BACKUP_DIR/meta/sync-filters/max-size"
+    local MAX_SIZE=""
+    if [ -f "$MAX_SIZE_FILE" ]; then
+        MAX_SIZE=$(tr -d '[:space:]' < "$MAX_SIZE_FILE")
+    fi
+    local FILTER_ARGS=()
+    if [ -f "$FILTER_FILE" ]; then
+        FILTER_ARGS+=(--prune-empty-dirs "--filter=merge $FILTER_FILE")
+    fi
+    if [ -n "$MAX_SIZE" ]; then
+        FILTER_ARGS+=("--max-size=$MAX_SIZE")
+    fi
+    rsync "$@" "${FILTER_ARGS[@]}" "$SRC" "$DEST"
+}
+
 if [ -f "$BACKUP_DIR/clawdbot/clawdbot.json" ]; then
     if should_restore_from_r2; then
         echo "Restoring from R2 backup at $BACKUP_DIR/clawdbot..."
-        cp -a "$BACKUP_DIR/clawdbot/." "$CONFIG_DIR/"
+        restore_root clawdbot "$BACKUP_DIR/clawdbot/" "$CONFIG_DIR/" -a
         # Copy the sync timestamp to local so we know what version we have
         cp -f "$BACKUP_DIR/.last-sync" "$CONFIG_DIR/.last-sync" 2>/dev/null || true
         echo "Restored config from R2 backup"
+        RESTORE_BRANCH="r2"
+    else
+        RESTORE_BRANCH="local-newer"
     fi
 elif [ -f "$BACKUP_DIR/clawdbot.json" ]; then
     # Legacy backup format (flat structure)
@@ -92,11 +146,16 @@ elif [ -f "$BACKUP_DIR/clawdbot.json" ]; then
         cp -a "$BACKUP_DIR/." "$CONFIG_DIR/"
         cp -f "$BACKUP_DIR/.last-sync" "$CONFIG_DIR/.last-sync" 2>/dev/null || true
         echo "Restored config from legacy R2 backup"
+        RESTORE_BRANCH="r2-legacy"
+    else
+        RESTORE_BRANCH="local-newer"
     fi
 elif [ -d "$BACKUP_DIR" ]; then
     echo "R2 mounted at $BACKUP_DIR but no backup data found yet"
+    RESTORE_BRANCH="r2-empty"
 else
     echo "R2 not mounted, starting fresh"
+    RESTORE_BRANCH="no-r2"
 fi
 
 # Restore skills from R2 backup if available (only if R2 is newer)
@@ -105,7 +164,7 @@ if [ -d "$BACKUP_DIR/skills" ] && [ "$(ls -A $BACKUP_DIR/skills 2>/dev/null)" ];
     if should_restore_from_r2; then
         echo "Restoring skills from $BACKUP_DIR/skills..."
         mkdir -p "$SKILLS_DIR"
-        cp -a "$BACKUP_DIR/skills/." "$SKILLS_DIR/"
+        restore_root skills "$BACKUP_DIR/skills/" "$SKILLS_DIR/" -a
         echo "Restored skills from R2 backup"
     fi
 fi
@@ -115,21 +174,27 @@ if [ -d "$BACKUP_DIR/workspace-core" ] && [ "$(ls -A $BACKUP_DIR/workspace-core
     if should_restore_from_r2 || [ ! -d "$WORKSPACE_DIR" ] || [ -z "$(ls -A "$WORKSPACE_DIR" 2>/dev/null)" ] || [ ! -f "$WORKSPACE_DIR/USER.md" ] || [ ! -f "$WORKSPACE_DIR/SOUL.md" ] || [ ! -f "$WORKSPACE_DIR/MEMORY.md" ]; then
         echo "Restoring workspace core files from $BACKUP_DIR/workspace-core..."
         mkdir -p "$WORKSPACE_DIR"
-        rsync -r --no-times --delete \
-          --exclude='/.git/' --exclude='/.git/**' \
-          --exclude='/skills/' --exclude='/skills/**' \
-          --exclude='/node_modules/' --exclude='/node_modules/**' \
-          "$BACKUP_DIR/workspace-core/" "$WORKSPACE_DIR/"
+        # skills/ is restored from its own root above
+        restore_root workspace-core "$BACKUP_DIR/workspace-core/" "$WORKSPACE_DIR/" \
+          -r --no-times --delete \
+          --exclude='/skills/' --exclude='/skills/**'
         echo "Restored workspace core files from R2 backup"
     fi
 fi
 
+phase_end restore "\"branch\":\"$RESTORE_BRANCH\""
+
+phase_start template
+TEMPLATE_BRANCH="existing"
+
 # If config file still doesn't exist, create from template
 if [ ! -f "$CONFIG_FILE" ]; then
     echo "No existing config found, initializing from template..."
     if [ -f "$TEMPLATE_FILE" ]; then
         cp "$TEMPLATE_FILE" "$CONFIG_FILE"
+        TEMPLATE_BRANCH="template"
     else
+        TEMPLATE_BRANCH="minimal"
         # Create minimal config if template doesn't exist
         cat > "$CONFIG_FILE" << 'EOFCONFIG'
 {
@@ -151,9 +216,13 @@ fi
 
 ln -sfn "$CONFIG_FILE" /root/.openclaw/openclaw.json
 
+phase_end template "\"branch\":\"$TEMPLATE_BRANCH\""
+
 # ============================================================
 # UPDATE CONFIG FROM ENVIRONMENT VARIABLES
 # ============================================================
+# The config phase end marker is emitted by the node script with the changed keys
+phase_start config
 node << EOFNODE
 const fs = require('fs');
 
@@ -166,6 +235,7 @@ try {
 } catch (e) {
     console.log('Starting with empty config');
 }
+const originalConfig = JSON.parse(JSON.stringify(config));
 
 // Ensure nested objects exist
 config.agents = config.agents || {};
@@ -243,89 +313,82 @@ if (process.env.SLACK_BOT_TOKEN && process.env.SLACK_APP_TOKEN) {
     config.channels.slack.enabled = true;
 }
 
-const primaryProvider = process.env.AI_PRIMARY_PROVIDER || 'anthropic';
-
-if (primaryProvider === 'deepseek') {
-    const deepseekBaseUrl = (process.env.DEEPSEEK_BASE_URL || process.env.OPENAI_BASE_URL || '').replace(/\/+$/, '');
-    const primaryDeepseekModel = process.env.AI_PRIMARY_MODEL || 'deepseek-chat';
-    if (deepseekBaseUrl) {
-        console.log('Configuring DeepSeek provider with base URL:', deepseekBaseUrl);
-        config.models = config.models || {};
-        config.models.providers = config.models.providers || {};
-        config.models.providers.openai = {
-            baseUrl: deepseekBaseUrl,
-            api: 'openai-responses',
-            models: [
-                { id: 'deepseek-chat', name: 'DeepSeek Chat', contextWindow: 128000 },
-                { id: 'deepseek-reasoner', name: 'DeepSeek Reasoner', contextWindow: 128000 },
-            ]
-        };
-        config.agents.defaults.models = config.agents.defaults.models || {};
-        config.agents.defaults.models['openai/deepseek-chat'] = { alias: 'DeepSeek Chat' };
-        config.agents.defaults.models['openai/deepseek-reasoner'] = { alias: 'DeepSeek Reasoner' };
-        config.agents.defaults.model.primary = `openai/${primaryDeepseekModel}`;
-    } else {
-        config.agents.defaults.model.primary = `openai/${primaryDeepseekModel}`;
-    }
-} else {
-    const baseUrl = (process.env.AI_GATEWAY_BASE_URL || process.env.ANTHROPIC_BASE_URL || '').replace(/\/+$/, '');
-    const isOpenAI = baseUrl.endsWith('/openai');
-
-    if (isOpenAI) {
-        console.log('Configuring OpenAI provider with base URL:', baseUrl);
-        config.models = config.models || {};
-        config.models.providers = config.models.providers || {};
-        config.models.providers.openai = {
-            baseUrl: baseUrl,
-            api: 'openai-responses',
-            models: [
-                { id: 'gpt-5.2', name: 'GPT-5.2', contextWindow: 200000 },
-                { id: 'gpt-5', name: 'GPT-5', contextWindow: 200000 },
-                { id: 'gpt-4.5-preview', name: 'GPT-4.5 Preview', contextWindow: 128000 },
-            ]
-        };
-        config.agents.defaults.models = config.agents.defaults.models || {};
-        config.agents.defaults.models['openai/gpt-5.2'] = { alias: 'GPT-5.2' };
-        config.agents.defaults.models['openai/gpt-5'] = { alias: 'GPT-5' };
-        config.agents.defaults.models['openai/gpt-4.5-preview'] = { alias: 'GPT-4.5' };
-        config.agents.defaults.model.primary = 'openai/gpt-5.2';
-    } else if (baseUrl) {
-        console.log('Configuring Anthropic provider with base URL:', baseUrl);
-        config.models = config.models || {};
-        config.models.providers = config.models.providers || {};
-        const providerConfig = {
-            baseUrl: baseUrl,
-            api: 'anthropic-messages',
-            models: [
-                { id: 'claude-opus-4-5-20251101', name: 'Claude Opus 4.5', contextWindow: 200000 },
-                { id: 'claude-sonnet-4-5-20250929', name: 'Claude Sonnet 4.5', contextWindow: 200000 },
-                { id: 'claude-haiku-4-5-20251001', name: 'Claude Haiku 4.5', contextWindow: 200000 },
-            ]
-        };
-        if (process.env.ANTHROPIC_API_KEY) {
-            providerConfig.apiKey = process.env.ANTHROPIC_API_KEY;
+// AI provider and model configuration
+// AI_MODEL_CONFIG is generated by the Worker from its provider registry (src/ai/registry.ts)
+// The Worker applies the same merge when hot-applying AI settings (mergeModelConfig in src/ai/models.ts)
+// Provider apiKey values are "${ENV_VAR}" references the gateway substitutes on load, so keys stay out of this file
+if (process.env.AI_MODEL_CONFIG) {
+    const modelConfig = JSON.parse(process.env.AI_MODEL_CONFIG);
+    config.models = config.models || {};
+    config.models.providers = config.models.providers || {};
+    config.agents.defaults.models = config.agents.defaults.models || {};
+    // Drop stale entries for registry providers that are no longer configured
+    for (const id of modelConfig.managedProviders || []) {
+        if (!modelConfig.providers[id]) delete config.models.providers[id];
+        for (const ref of Object.keys(config.agents.defaults.models)) {
+            if (ref.startsWith(id + '/')) delete config.agents.defaults.models[ref];
         }
-        config.models.providers.anthropic = providerConfig;
-        config.agents.defaults.models = config.agents.defaults.models || {};
-        config.agents.defaults.models['anthropic/claude-opus-4-5-20251101'] = { alias: 'Opus 4.5' };
-        config.agents.defaults.models['anthropic/claude-sonnet-4-5-20250929'] = { alias: 'Sonnet 4.5' };
-        config.agents.defaults.models['anthropic/claude-haiku-4-5-20251001'] = { alias: 'Haiku 4.5' };
-        config.agents.defaults.model.primary = 'anthropic/claude-opus-4-5-20251101';
-    } else {
-        config.agents.defaults.model.primary = 'anthropic/claude-opus-4-5';
     }
+    for (const [id, provider] of Object.entries(modelConfig.providers)) {
+        console.log('Configuring provider', id, 'with base URL:', provider.baseUrl);
+        config.models.providers[id] = provider;
+    }
+    Object.assign(config.agents.defaults.models, modelConfig.models);
+    config.agents.defaults.model.primary = modelConfig.primary;
+    config.agents.defaults.model.fallbacks = modelConfig.fallbacks || [];
+} else {
+    // Nothing configured: use the gateway's built-in Anthropic provider
+    config.agents.defaults.model.primary = 'anthropic/claude-opus-4-5';
 }
+console.log('Primary model:', config.agents.defaults.model.primary);
+console.log('Fallback models:', (config.agents.defaults.model.fallbacks || []).join(', ') || 'none');
 
 // Write updated config
 fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
 console.log('Configuration updated successfully');
 console.log('Config:', JSON.stringify(config, null, 2));
+
+// Report which keys changed (paths only, values may be secrets)
+const flatten = (value, prefix, out) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+        for (const key of Object.keys(value)) {
+            flatten(value[key], prefix ? prefix + '.' + key : key, out);
+        }
+    } else if (prefix) {
+        out[prefix] = JSON.stringify(value);
+    }
+    return out;
+};
+const before = flatten(originalConfig, '', {});
+const after = flatten(config, '', {});
+const changedKeys = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter((key) => before[key] !== after[key])
+    .sort();
+console.log('@@moltbot-phase ' + JSON.stringify({ event: 'end', phase: 'config', ts: Date.now(), changedKeys }));
 EOFNODE
+CURRENT_PHASE=""
+
+# ============================================================
+# START SYNC WATCHER
+# ============================================================
+# Asks the Worker to sync shortly after the synced directories change
+# (see sync-watcher.js). The Worker's cron trigger syncs either way.
+if [ -n "$WORKER_URL" ] && [ -n "$CLAWDBOT_GATEWAY_TOKEN" ]; then
+    if pgrep -f "node /usr/local/bin/sync-watcher.js" > /dev/null 2>&1; then
+        echo "Sync watcher is already running"
+    else
+        echo "Starting sync watcher..."
+        nohup node /usr/local/bin/sync-watcher.js >> /tmp/sync-watcher.log 2>&1 &
+    fi
+else
+    echo "WORKER_URL or CLAWDBOT_GATEWAY_TOKEN not set, syncing on the cron schedule only"
+fi
 
 # ============================================================
 # START GATEWAY
 # ============================================================
-# Note: R2 backup sync is handled by the Worker's cron trigger
+# The gateway phase ends when the Worker sees the port open
+phase_start gateway
 echo "Starting Moltbot Gateway..."
 echo "Gateway will be available on port 18789"
 
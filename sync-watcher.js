@@ -0,0 +1,207 @@
+#!/usr/bin/env node
+// Sync on change for Moltbot in Cloudflare Sandbox
+//
+// Watches the synced directories and, once they have stayed unchanged for the
+// debounce window, asks the Worker to sync (POST $WORKER_URL/api/sync/notify,
+// authenticated with the gateway token). Started in the background by
+// start-moltbot.sh; the Worker's cron still syncs every 10 minutes.
+//
+// The debounce window and the sync rules come from meta/sync-filters/watch.json
+// on the R2 mount (see src/storage/settings.ts), re-read at the first change
+// after each sync. The watcher's state is written to STATE_PATH for the admin UI.
+//
+// Files the sync pulls from R2 are listed with their hashes in SYNC_WRITES_PATH
+// (see src/gateway/sync-watch.ts); a change to one of them that still holds
+// what the sync wrote doesn't ask for another sync.
+
+'use strict';
+
+const crypto = require('crypto');
+const fs = require('fs');
+
+const CONFIG_PATH = '/data/moltbot/meta/sync-filters/watch.json';
+const STATE_PATH = '/tmp/moltbot-sync-watch.json';
+const SYNC_WRITES_PATH = '/tmp/moltbot-sync-writes.json';
+const WATCH_DIRS = ['/root/.clawdbot/', '/root/clawd/'];
+const DEFAULT_DEBOUNCE_SECONDS = 30;
+// A failed signal is retried after this long, or the debounce window if longer
+const RETRY_SECONDS = 60;
+// A sync can take a while; the Worker answers when it is done
+const SIGNAL_TIMEOUT_MS = 5 * 60_000;
+
+const workerUrl = (process.env.WORKER_URL || '').replace(/\/+$/, '');
+const token = process.env.CLAWDBOT_GATEWAY_TOKEN || '';
+
+let config = loadConfig();
+let timer = null;
+let inFlight = false;
+// Paths changed since the last sync asked for; an event without a file name
+// counts as a change to something
+let changedPaths = new Set();
+let unnamedChange = false;
+const state = {
+  pid: process.pid,
+  startedAt: new Date().toISOString(),
+  status: 'watching',
+  debounceSeconds: config.debounceSeconds,
+  pendingChanges: 0,
+  pendingSince: null,
+  lastChangeAt: null,
+  lastSignalAt: null,
+  lastError: null,
+};
+
+function loadConfig() {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf8'));
+    return {
+      debounceSeconds: parsed.debounceSeconds || DEFAULT_DEBOUNCE_SECONDS,
+      roots: parsed.roots.map((root) => ({ ...root, exclude: root.exclude.map((source) => new RegExp(source)) })),
+      rules: parsed.rules.map((rule) => ({ re: new RegExp(rule.source), negate: rule.negate })),
+    };
+  } catch {
+    // Not written yet (no sync so far) or R2 not mounted: every change counts
+    return { debounceSeconds: DEFAULT_DEBOUNCE_SECONDS, roots: null, rules: [] };
+  }
+}
+
+function writeState() {
+  try {
+    fs.writeFileSync(STATE_PATH, JSON.stringify(state));
+  } catch (err) {
+    console.error('[sync-watcher] Failed to write state:', err.message);
+  }
+}
+
+// Whether a change to this path is one the sync would pick up
+function isSynced(path) {
+  if (path === '/root/.clawdbot/.last-sync') return false;
+  if (!config.roots) return true;
+  // Roots are listed most specific first
+  const root = config.roots.find((entry) => path.startsWith(entry.path));
+  if (!root) return false;
+  const rel = path.slice(root.path.length);
+  if (root.exclude.some((re) => re.test(rel))) return false;
+  let ignored = false;
+  for (const rule of config.rules) {
+    if (rule.re.test(root.prefix + rel)) ignored = !rule.negate;
+  }
+  return !ignored;
+}
+
+function readSyncWrites() {
+  try {
+    return JSON.parse(fs.readFileSync(SYNC_WRITES_PATH, 'utf8')).files || {};
+  } catch {
+    return {};
+  }
+}
+
+// Whether the file still holds what the last sync wrote into it, or is still
+// gone if the sync deleted it
+function isSyncWrite(path, writes) {
+  if (writes[path] === undefined) return false;
+  if (writes[path] === null) return !fs.existsSync(path);
+  try {
+    return crypto.createHash('sha256').update(fs.readFileSync(path)).digest('hex') === writes[path];
+  } catch {
+    return false;
+  }
+}
+
+function schedule(seconds) {
+  clearTimeout(timer);
+  timer = setTimeout(signal, seconds * 1000);
+}
+
+function onChange(dir, filename) {
+  // Some platforms leave the name out; treat it as a change
+  const path = filename ? dir + filename.toString() : dir;
+  if (!isSynced(path)) return;
+  const now = new Date().toISOString();
+  if (state.pendingChanges === 0) {
+    config = loadConfig();
+    state.debounceSeconds = config.debounceSeconds;
+    state.pendingSince = now;
+  }
+  state.pendingChanges++;
+  state.lastChangeAt = now;
+  if (filename) {
+    changedPaths.add(path);
+  } else {
+    unnamedChange = true;
+  }
+  if (!inFlight) schedule(config.debounceSeconds);
+  writeState();
+}
+
+async function signal() {
+  timer = null;
+  // Files the sync pulled in are already in R2
+  const writes = readSyncWrites();
+  const paths = [...changedPaths].filter((path) => !isSyncWrite(path, writes));
+  if (paths.length === 0 && !unnamedChange) {
+    changedPaths = new Set();
+    state.pendingChanges = 0;
+    state.pendingSince = null;
+    writeState();
+    return;
+  }
+  const sent = { paths, unnamed: unnamedChange };
+  changedPaths = new Set();
+  unnamedChange = false;
+
+  inFlight = true;
+  const sentAt = new Date().toISOString();
+  state.lastSignalAt = sentAt;
+  writeState();
+  let ok = false;
+  try {
+    const response = await fetch(`${workerUrl}/api/sync/notify`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      signal: AbortSignal.timeout(SIGNAL_TIMEOUT_MS),
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || !body.success) {
+      throw new Error(body.details || body.error || `HTTP ${response.status}`);
+    }
+    ok = true;
+    state.lastError = null;
+    // Changes made while the sync ran are still pending
+    if (state.lastChangeAt <= sentAt) {
+      state.pendingChanges = 0;
+      state.pendingSince = null;
+    }
+  } catch (err) {
+    state.lastError = err.message;
+    console.error('[sync-watcher] Sync request failed:', err.message);
+    // Still to be synced, with whatever changed meanwhile
+    for (const path of sent.paths) changedPaths.add(path);
+    unnamedChange = unnamedChange || sent.unnamed;
+  }
+  inFlight = false;
+  if (state.pendingChanges > 0) {
+    schedule(ok ? config.debounceSeconds : Math.max(RETRY_SECONDS, config.debounceSeconds));
+  }
+  writeState();
+}
+
+function fail(err) {
+  state.status = 'error';
+  state.lastError = err.message;
+  writeState();
+  console.error('[sync-watcher] Stopped:', err.message);
+  process.exit(1);
+}
+
+if (!workerUrl || !token) {
+  fail(new Error('WORKER_URL and CLAWDBOT_GATEWAY_TOKEN are required'));
+}
+
+for (const dir of WATCH_DIRS) {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.watch(dir, { recursive: true }, (_event, filename) => onChange(dir, filename)).on('error', fail);
+}
+writeState();
+console.log('[sync-watcher] Watching', WATCH_DIRS.join(', '), 'with a', config.debounceSeconds, 's debounce window');